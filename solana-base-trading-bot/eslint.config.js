@@ -0,0 +1,18 @@
+// @ts-check
+const js = require('@eslint/js');
+const tseslint = require('typescript-eslint');
+
+module.exports = tseslint.config(
+  { ignores: ['dist/', 'node_modules/'] },
+  js.configs.recommended,
+  ...tseslint.configs.recommended,
+  {
+    rules: {
+      // Aggregator and RPC payloads are loosely typed throughout
+      '@typescript-eslint/no-explicit-any': 'off',
+      '@typescript-eslint/no-unused-vars': ['error', { argsIgnorePattern: '^_', caughtErrors: 'none' }],
+      // Best-effort cleanup and logging swallow their errors on purpose
+      'no-empty': ['error', { allowEmptyCatch: true }],
+    },
+  },
+);
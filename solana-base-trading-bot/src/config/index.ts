@@ -1,5 +1,4 @@
 import dotenv from 'dotenv';
-import path from 'path';
 
 dotenv.config();
 
@@ -21,7 +20,16 @@ export const config = {
   
   // Default trading settings
   defaultSlippageBps: parseInt(process.env.DEFAULT_SLIPPAGE_BPS || '100', 10),
+  defaultMaxSlippageBps: parseInt(process.env.DEFAULT_MAX_SLIPPAGE_BPS || '1500', 10),
+  defaultMaxPriceImpactPct: parseFloat(process.env.DEFAULT_MAX_PRICE_IMPACT_PCT || '0'),
   defaultPriorityFeeLamports: parseInt(process.env.DEFAULT_PRIORITY_FEE_LAMPORTS || '100000', 10),
+  defaultPriorityFeeMaxLamports: parseInt(process.env.DEFAULT_PRIORITY_FEE_MAX_LAMPORTS || '5000000', 10),
+  defaultBaseMaxFeeGwei: parseFloat(process.env.DEFAULT_BASE_MAX_FEE_GWEI || '0'),
+  defaultGasLimitMultiplier: parseFloat(process.env.DEFAULT_GAS_LIMIT_MULTIPLIER || '1.2'),
+  
+  // Jito (MEV-protected Solana swaps)
+  jitoBlockEngineUrl: process.env.JITO_BLOCK_ENGINE_URL || 'https://mainnet.block-engine.jito.wtf',
+  defaultJitoTipLamports: parseInt(process.env.DEFAULT_JITO_TIP_LAMPORTS || '100000', 10),
   
   // Database
   databasePath: process.env.DATABASE_PATH || './data/bot.db',
@@ -29,7 +37,7 @@ export const config = {
   // API endpoints
   jupiterApiUrl: 'https://lite-api.jup.ag/swap/v1',
   dexScreenerApiUrl: 'https://api.dexscreener.com',
-  llamaSwapApiUrl: 'https://swap.defillama.com',
+  llamaSwapApiUrl: 'https://swap-api.defillama.com',
   oneInchApiUrl: 'https://api.1inch.dev/swap/v6.1/8453', // Base chain ID
   
   // Native token addresses
@@ -0,0 +1,338 @@
+import { Context, Markup } from 'telegraf';
+import { Network, QuoteCurrency, UserWallet } from '../types';
+import { OrderSide } from '../types/trigger-orders';
+import { BundleLeg, BundleLegResult, PendingBundle } from '../types/bundle';
+import * as bundle from '../services/bundle';
+import * as dexscreener from '../services/dexscreener';
+import * as security from '../services/security';
+import * as db from '../services/database';
+import * as formatters from '../utils/formatters';
+import { replyOrEdit } from '../utils/replies';
+import { getUserState, setUserState, clearUserState } from './commands';
+
+// ============ Entry Point ============
+
+/**
+ * Start a bundle buy or sell across several wallets (entered from the buy/sell amount screens)
+ */
+export async function startBundle(
+  ctx: Context,
+  network: Network,
+  tokenAddress: string,
+  side: OrderSide
+): Promise<void> {
+  const userId = ctx.from?.id;
+  if (!userId) return;
+
+  const wallets = db.getWallets(userId, network);
+  if (wallets.length < 2) {
+    await ctx.answerCbQuery('Bundles need at least two wallets. Add one from the wallet menu.', { show_alert: true });
+    return;
+  }
+
+  if (!security.isUnlocked(userId)) {
+    await ctx.answerCbQuery('Wallet locked - please unlock with /unlock', { show_alert: true });
+    return;
+  }
+
+  const tokenInfo = await dexscreener.getTokenInfo(tokenAddress, network);
+  const pending: PendingBundle = {
+    stage: 'select_wallets',
+    network,
+    tokenAddress,
+    tokenSymbol: tokenInfo?.symbol || formatters.truncateAddress(tokenAddress),
+    side,
+    walletIds: wallets.map(w => w.id),
+  };
+
+  setUserState(userId, { pendingBundle: pending });
+  await showWalletSelection(ctx, pending, wallets);
+  await ctx.answerCbQuery();
+}
+
+// ============ Callback Handlers ============
+
+/**
+ * Handle all bundle related callbacks
+ */
+export async function handleBundleCallback(ctx: Context, action: string): Promise<boolean> {
+  const userId = ctx.from?.id;
+  if (!userId) return false;
+
+  if (action === 'bundle_cancel') {
+    clearUserState(userId);
+    await ctx.editMessageText('❌ Bundle cancelled.', {
+      reply_markup: Markup.inlineKeyboard([
+        [Markup.button.callback('🏠 Main Menu', 'menu')],
+      ]).reply_markup,
+    });
+    return true;
+  }
+
+  const pending = getUserState(userId).pendingBundle;
+  if (!pending) return false;
+
+  if (action.startsWith('bundle_w_')) {
+    const walletId = parseInt(action.replace('bundle_w_', ''));
+    const wallets = db.getWallets(userId, pending.network);
+    const selected = pending.walletIds.includes(walletId)
+      ? pending.walletIds.filter(id => id !== walletId)
+      : pending.walletIds.concat(walletId);
+
+    // Keep the selection in wallet order so custom weights line up with the list
+    const updated = { ...pending, walletIds: wallets.filter(w => selected.includes(w.id)).map(w => w.id) };
+    setUserState(userId, { pendingBundle: updated });
+    await showWalletSelection(ctx, updated, wallets);
+    return true;
+  }
+
+  if (action === 'bundle_next') {
+    if (pending.walletIds.length < 2) {
+      await ctx.reply('❌ Select at least two wallets.');
+      return true;
+    }
+    await promptAmount(ctx, userId, pending);
+    return true;
+  }
+
+  if (action.startsWith('bundle_pct_')) {
+    await handleAmountInput(ctx, userId, action.replace('bundle_pct_', ''), pending);
+    return true;
+  }
+
+  if (action === 'bundle_even') {
+    await showConfirmation(ctx, userId, { ...pending, weights: undefined });
+    return true;
+  }
+
+  if (action === 'bundle_weights') {
+    setUserState(userId, { pendingBundle: { ...pending, stage: 'enter_weights' } });
+    const names = getSelectedWallets(userId, pending).map(w => w.name).join(', ');
+    await replyOrEdit(
+      ctx,
+      `👥 *Bundle Buy* - ${pending.tokenSymbol}\n\n` +
+      `Type one weight per wallet, separated by commas, in this order:\n*${names}*\n\n` +
+      `e.g. \`50,30,20\` - weights don't need to add up to 100.`,
+      [[Markup.button.callback('❌ Cancel', 'bundle_cancel')]]
+    );
+    return true;
+  }
+
+  if (action === 'bundle_confirm') {
+    await executeConfirmedBundle(ctx, userId, pending);
+    return true;
+  }
+
+  return false;
+}
+
+/**
+ * Handle text input for the bundle flow
+ */
+export async function handleBundleTextInput(ctx: Context, text: string): Promise<boolean> {
+  const userId = ctx.from?.id;
+  if (!userId) return false;
+
+  const pending = getUserState(userId).pendingBundle;
+  if (!pending) return false;
+
+  if (pending.stage === 'enter_amount') {
+    await handleAmountInput(ctx, userId, text, pending);
+    return true;
+  }
+
+  if (pending.stage === 'enter_weights') {
+    const weights = text.split(',').map(w => parseFloat(w.trim()));
+    if (weights.length !== pending.walletIds.length || weights.some(w => isNaN(w) || w <= 0)) {
+      await ctx.reply(`❌ Enter ${pending.walletIds.length} positive weights separated by commas:`);
+      return true;
+    }
+
+    await showConfirmation(ctx, userId, { ...pending, weights });
+    return true;
+  }
+
+  return false;
+}
+
+// ============ Flow Handlers ============
+
+async function showWalletSelection(ctx: Context, pending: PendingBundle, wallets: UserWallet[]): Promise<void> {
+  const buttons = wallets.map(w => [
+    Markup.button.callback(`${pending.walletIds.includes(w.id) ? '✅' : '⬜'} ${w.name}`, `bundle_w_${w.id}`),
+  ]);
+
+  await replyOrEdit(
+    ctx,
+    `👥 *Bundle ${pending.side === 'buy' ? 'Buy' : 'Sell'}* - ${pending.tokenSymbol}\n\n` +
+    `Each selected wallet trades its own leg at the same time.\n\n` +
+    `*Step 1:* Choose the wallets (${pending.walletIds.length} selected):`,
+    [
+      ...buttons,
+      [Markup.button.callback('➡️ Next', 'bundle_next')],
+      [Markup.button.callback('❌ Cancel', 'bundle_cancel')],
+    ]
+  );
+}
+
+async function promptAmount(ctx: Context, userId: number, pending: PendingBundle): Promise<void> {
+  setUserState(userId, { pendingBundle: { ...pending, stage: 'enter_amount' } });
+
+  if (pending.side === 'sell') {
+    await replyOrEdit(
+      ctx,
+      `👥 *Bundle Sell* - ${pending.tokenSymbol}\n\n` +
+      `*Step 2:* What percentage of each wallet's holdings should be sold?\nSelect or type a value:`,
+      [
+        [
+          Markup.button.callback('25%', 'bundle_pct_25'),
+          Markup.button.callback('50%', 'bundle_pct_50'),
+          Markup.button.callback('100%', 'bundle_pct_100'),
+        ],
+        [Markup.button.callback('❌ Cancel', 'bundle_cancel')],
+      ]
+    );
+    return;
+  }
+
+  const { quoteCurrency } = db.getTradeSettings(userId, pending.network);
+  await replyOrEdit(
+    ctx,
+    `👥 *Bundle Buy* - ${pending.tokenSymbol}\n\n` +
+    `*Step 2:* How much ${formatters.getQuoteSymbol(pending.network, quoteCurrency)} should be spent in total across ${pending.walletIds.length} wallets?`,
+    [[Markup.button.callback('❌ Cancel', 'bundle_cancel')]]
+  );
+}
+
+async function handleAmountInput(
+  ctx: Context,
+  userId: number,
+  text: string,
+  pending: PendingBundle
+): Promise<void> {
+  const amount = parseFloat(text.replace(/[^\d.]/g, ''));
+
+  if (pending.side === 'sell') {
+    if (isNaN(amount) || amount <= 0 || amount > 100) {
+      await ctx.reply('❌ Invalid percentage. Please enter a number between 1 and 100:');
+      return;
+    }
+    await showConfirmation(ctx, userId, { ...pending, amount });
+    return;
+  }
+
+  if (isNaN(amount) || amount <= 0) {
+    await ctx.reply('❌ Invalid amount. Please enter a positive number:');
+    return;
+  }
+
+  setUserState(userId, { pendingBundle: { ...pending, amount, stage: 'select_split' } });
+  await replyOrEdit(
+    ctx,
+    `👥 *Bundle Buy* - ${pending.tokenSymbol}\n\n` +
+    `*Step 3:* How should the amount be split between wallets?`,
+    [
+      [
+        Markup.button.callback('⚖️ Evenly', 'bundle_even'),
+        Markup.button.callback('✏️ Custom weights', 'bundle_weights'),
+      ],
+      [Markup.button.callback('❌ Cancel', 'bundle_cancel')],
+    ]
+  );
+}
+
+async function showConfirmation(ctx: Context, userId: number, pending: PendingBundle): Promise<void> {
+  const updated: PendingBundle = { ...pending, stage: 'confirm' };
+  setUserState(userId, { pendingBundle: updated });
+
+  const { slippageBps, quoteCurrency } = db.getTradeSettings(userId, pending.network);
+  const legs = getLegs(userId, updated);
+  const sideEmoji = updated.side === 'buy' ? '🟢' : '🔴';
+
+  const message = [
+    `${sideEmoji} *Confirm Bundle ${updated.side === 'buy' ? 'Buy' : 'Sell'}*`,
+    ``,
+    `📊 Token: *${updated.tokenSymbol}*`,
+    `📍 Network: ${updated.network === 'solana' ? 'Solana' : 'Base'}`,
+    `⚙️ Slippage: ${slippageBps / 100}%`,
+    ``,
+    ...legs.map(leg => `👛 ${leg.walletName}: ${formatLegAmount(updated, leg, quoteCurrency)}`),
+    ``,
+    `_Legs are quoted and sent independently, so fills can differ between wallets._`,
+  ].join('\n');
+
+  await replyOrEdit(ctx, message, [
+    [Markup.button.callback(`✅ Execute ${legs.length} Legs`, 'bundle_confirm')],
+    [Markup.button.callback('❌ Cancel', 'bundle_cancel')],
+  ]);
+}
+
+async function executeConfirmedBundle(ctx: Context, userId: number, pending: PendingBundle): Promise<void> {
+  if (pending.stage !== 'confirm' || !pending.amount) {
+    await ctx.reply('❌ Session expired. Please start again.');
+    clearUserState(userId);
+    return;
+  }
+
+  clearUserState(userId);
+
+  const { slippageBps, quoteCurrency } = db.getTradeSettings(userId, pending.network);
+  const legs = getLegs(userId, pending);
+
+  await replyOrEdit(ctx, `⏳ Executing bundle ${pending.side} across ${legs.length} wallets...`, []);
+
+  const results = await bundle.executeBundle({
+    telegramUserId: userId,
+    network: pending.network,
+    tokenAddress: pending.tokenAddress,
+    tokenSymbol: pending.tokenSymbol,
+    side: pending.side,
+    legs,
+    slippageBps,
+    quoteCurrency,
+  });
+
+  await ctx.reply(formatResults(pending, results, quoteCurrency), {
+    parse_mode: 'Markdown',
+    link_preview_options: { is_disabled: true },
+    ...Markup.inlineKeyboard([[Markup.button.callback('🏠 Main Menu', 'menu')]]),
+  });
+}
+
+// ============ Helpers ============
+
+function getSelectedWallets(userId: number, pending: PendingBundle): UserWallet[] {
+  return db.getWallets(userId, pending.network).filter(w => pending.walletIds.includes(w.id));
+}
+
+function getLegs(userId: number, pending: PendingBundle): BundleLeg[] {
+  return bundle.buildBundleLegs(pending.side, pending.amount!, getSelectedWallets(userId, pending), pending.weights);
+}
+
+function formatLegAmount(pending: PendingBundle, leg: BundleLeg, quoteCurrency: QuoteCurrency): string {
+  if (pending.side === 'sell') return `${leg.amount}% of holdings`;
+  return `${formatters.formatNumber(leg.amount, 6)} ${formatters.getQuoteSymbol(pending.network, quoteCurrency)}`;
+}
+
+function formatResults(pending: PendingBundle, results: BundleLegResult[], quoteCurrency: QuoteCurrency): string {
+  const filled = results.filter(r => r.success);
+  const failed = results.filter(r => !r.success);
+  const title = pending.side === 'buy' ? 'Buy' : 'Sell';
+
+  const lines = [
+    failed.length === 0
+      ? `✅ *Bundle ${title} Complete* - ${pending.tokenSymbol}`
+      : `⚠️ *Bundle ${title}* - ${pending.tokenSymbol}: ${filled.length}/${results.length} legs filled`,
+    ``,
+  ];
+
+  for (const r of filled) {
+    lines.push(`✅ ${formatters.escapeLegacyMarkdown(r.walletName)}: ${formatLegAmount(pending, r, quoteCurrency)} - [${formatters.truncateAddress(r.signature || '')}](${r.explorerUrl})`);
+  }
+  for (const r of failed) {
+    lines.push(`❌ ${formatters.escapeLegacyMarkdown(r.walletName)}: ${formatters.escapeLegacyMarkdown(r.error || 'Transaction failed')}`);
+  }
+
+  return lines.join('\n');
+}
+
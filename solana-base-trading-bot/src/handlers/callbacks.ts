@@ -1,13 +1,19 @@
 import { Context, Markup } from 'telegraf';
 import { handleSecurityCallback, handleSecurity } from './security-handlers';
-import { handleLimitCallback, handleLimitTextInput } from './limit-order-handlers';
-import { Network } from '../types';
+import { handleLimitCallback, startBracketOrder } from './limit-order-handlers';
+import { handleDcaCallback } from './dca-handlers';
+import { handleTwapCallback, startTwapOrder } from './twap-handlers';
+import { handleSwapCallback, startTokenSwap } from './swap-handlers';
+import { handleBundleCallback, startBundle } from './bundle-handlers';
+import { handleCopyCallback } from './copy-handlers';
+import { Network, PriorityFeePreset, TradeSettings, GasAction, GasSpeedPreset } from '../types';
 import { config } from '../config';
 import { logger } from '../utils/logger';
 import * as db from '../services/database';
 import * as solana from '../services/solana';
 import * as base from '../services/base';
 import * as dexscreener from '../services/dexscreener';
+import { getTokenSafetyReport } from '../services/token-safety';
 import * as keyboards from '../utils/keyboards';
 import * as formatters from '../utils/formatters';
 import {
@@ -16,6 +22,7 @@ import {
   clearUserState,
   executeBuy,
   executeSell,
+  confirmSwap,
 } from './commands';
 
 // ── Helper: expand short network code to Network type ──
@@ -23,6 +30,27 @@ function toNetwork(code: string): Network {
   return code === 'sol' ? 'solana' : 'base';
 }
 
+// ── Helper: expand short gas action code (b / s / w) ──
+function toGasAction(code: string): GasAction {
+  return code === 's' ? 'sell' : code === 'w' ? 'withdraw' : 'buy';
+}
+
+/**
+ * Turn repeat answers to this callback query into no-ops. Handlers that answer with
+ * their own text (e.g. an expired session) are followed by the router's plain answer,
+ * and Telegram rejects a second answer to the same query.
+ */
+function answerOnce(ctx: Context): void {
+  const answer = ctx.answerCbQuery.bind(ctx);
+  let answered = false;
+
+  ctx.answerCbQuery = ((...args: Parameters<Context['answerCbQuery']>) => {
+    if (answered) return Promise.resolve(true);
+    answered = true;
+    return answer(...args);
+  }) as Context['answerCbQuery'];
+}
+
 /**
  * Main callback query handler
  */
@@ -35,6 +63,7 @@ export async function handleCallback(ctx: Context): Promise<void> {
   if (!userId) return;
 
   logger.info(`[CALLBACK] user=${userId} action="${data}"`);
+  answerOnce(ctx);
 
   const parts = data.split(':');
   const action = parts[0];
@@ -96,6 +125,15 @@ export async function handleCallback(ctx: Context): Promise<void> {
       case 'wc':
         await createWallet(ctx, toNetwork(parts[1]));
         break;
+      case 'wa':
+        await switchActiveWallet(ctx, toNetwork(parts[1]), parseInt(parts[2]));
+        break;
+      case 'wnc':
+        await startNamedWallet(ctx, toNetwork(parts[1]), 'create');
+        break;
+      case 'wni':
+        await startNamedWallet(ctx, toNetwork(parts[1]), 'import');
+        break;
     // --- Withdraw ---
     case 'wd':
       await showWithdrawMenu(ctx, toNetwork(parts[1]));
@@ -114,6 +152,22 @@ export async function handleCallback(ctx: Context): Promise<void> {
       case 'ws':
         await showWalletNetworkSelect(ctx);
         break;
+      case 'ap':
+        await showApprovals(ctx);
+        break;
+      case 'apr':
+        await revokeApproval(ctx, keyboards.expandToken(parts[1])!, keyboards.expandToken(parts[2])!);
+        break;
+      case 'apa':
+        await revokeAllApprovals(ctx);
+        break;
+      case 'apx': {
+        const settings = db.getTradeSettings(userId, 'base');
+        settings.exactApprovals = !settings.exactApprovals;
+        db.saveTradeSettings(settings);
+        await showApprovals(ctx, settings.exactApprovals ? 'Sells now approve only the amount sold' : 'Sells now approve unlimited');
+        break;
+      }
     // — Withdraw —
     case 'ww':
       await showWithdrawOptions(ctx, toNetwork(parts[1]));
@@ -136,7 +190,9 @@ export async function handleCallback(ctx: Context): Promise<void> {
         const st = getUserState(userId);
         if (st.pendingWithdraw && st.pendingWithdraw.stage === 'enter_amount') {
           const pw = st.pendingWithdraw;
-          const gasNote = pw.tokenAddress === 'native' ? '\n⚠️ Gas reserve will be kept automatically.' : '';
+          const gasNote = pw.tokenAddress === 'native'
+            ? '\n⚠️ Gas reserve will be kept automatically.'
+            : pw.transferFeeBps ? `\n${formatters.formatTransferFeeNote(pw.transferFeeBps)}` : '';
           setUserState(userId, {
             currentAction: 'withdrawing',
             pendingWithdraw: { ...pw, amount: 'all', stage: 'confirm' },
@@ -202,6 +258,15 @@ export async function handleCallback(ctx: Context): Promise<void> {
       case 'bx':
         await startBuyCustomAmount(ctx, toNetwork(parts[1]), keyboards.expandToken(parts[2])!);
         break;
+      case 'bt':
+        await startBuyCustomAmount(ctx, toNetwork(parts[1]), keyboards.expandToken(parts[2])!, 'tokens');
+        break;
+      case 'twb':
+        await startTwapOrder(ctx, toNetwork(parts[1]), keyboards.expandToken(parts[2])!, 'buy');
+        break;
+      case 'bb':
+        await startBundle(ctx, toNetwork(parts[1]), keyboards.expandToken(parts[2])!, 'buy');
+        break;
 
       // ── Sell ──
       case 's':
@@ -220,6 +285,18 @@ export async function handleCallback(ctx: Context): Promise<void> {
         // Sell custom - for now treat as 100%
         await handleSellPercent(ctx, toNetwork(parts[1]), keyboards.expandToken(parts[2])!, 100);
         break;
+      case 'tws':
+        await startTwapOrder(ctx, toNetwork(parts[1]), keyboards.expandToken(parts[2])!, 'sell');
+        break;
+      case 'bs':
+        await startBundle(ctx, toNetwork(parts[1]), keyboards.expandToken(parts[2])!, 'sell');
+        break;
+      case 'bk':
+        await startBracketOrder(ctx, toNetwork(parts[1]), keyboards.expandToken(parts[2])!);
+        break;
+      case 'sw':
+        await startTokenSwap(ctx, toNetwork(parts[1]), keyboards.expandToken(parts[2])!);
+        break;
 
       // ── Settings ──
       case 'st':
@@ -238,6 +315,21 @@ export async function handleCallback(ctx: Context): Promise<void> {
       case 'sls':
         await setSlippage(ctx, toNetwork(parts[1]), parseInt(parts[2]));
         break;
+      case 'sla': {
+        const network = toNetwork(parts[1]);
+        const settings = db.getTradeSettings(ctx.from!.id, network);
+        settings.autoSlippage = !settings.autoSlippage;
+        db.saveTradeSettings(settings);
+        await showSlippageMenu(ctx, network);
+        break;
+      }
+      case 'slm':
+      case 'pim':
+        await startSlippageLimitEdit(ctx, toNetwork(parts[1]), action === 'slm' ? 'maxSlippage' : 'maxImpact');
+        break;
+      case 'qt':
+        await toggleQuoteCurrency(ctx, toNetwork(parts[1]));
+        break;
       case 'slc':
         // Custom slippage - prompt user
         await ctx.editMessageText(
@@ -245,13 +337,103 @@ export async function handleCallback(ctx: Context): Promise<void> {
           { parse_mode: 'Markdown' }
         );
         break;
+      case 'as':
+        await showAutoSellSettings(ctx, toNetwork(parts[1]));
+        break;
+      case 'ast':
+        await toggleAutoSell(ctx, toNetwork(parts[1]));
+        break;
+      case 'ase':
+        await startAutoSellEdit(ctx, toNetwork(parts[1]), parts[2] === 'sl' ? 'sl' : 'tp');
+        break;
+      case 'jm':
+        await showJitoSettings(ctx);
+        break;
+      case 'jt':
+        await updateJitoSettings(ctx, settings => {
+          settings.jitoEnabled = !settings.jitoEnabled;
+          return `MEV protection ${settings.jitoEnabled ? 'enabled' : 'disabled'}`;
+        });
+        break;
+      case 'jtp':
+        await updateJitoSettings(ctx, settings => {
+          settings.jitoTipLamports = parseInt(parts[1]);
+          return `Tip set to ${settings.jitoTipLamports / 1_000_000_000} SOL`;
+        });
+        break;
+      case 'jbr':
+        await updateJitoSettings(ctx, settings => {
+          settings.jitoBlockEngineUrl = undefined;
+          return 'Using the default block engine';
+        });
+        break;
+      case 'jbe':
+        setUserState(ctx.from!.id, { pendingJitoUrl: true });
+        await ctx.editMessageText(
+          '✏️ *Block Engine*\n\nSend the Jito block engine URL to submit bundles to (e.g. `https://ny.mainnet.block-engine.jito.wtf`):',
+          {
+            parse_mode: 'Markdown',
+            ...Markup.inlineKeyboard([[Markup.button.callback('« Back', 'jm')]]),
+          }
+        );
+        await ctx.answerCbQuery();
+        break;
       case 'db':
         // Default buy amount settings - placeholder
         await ctx.answerCbQuery('Coming soon!');
         break;
       case 'pf':
-        // Priority fee settings - placeholder
-        await ctx.answerCbQuery('Coming soon!');
+        await showPriorityFeeSettings(ctx);
+        break;
+      case 'pfs': {
+        const settings = db.getTradeSettings(ctx.from!.id, 'solana');
+        settings.priorityFeePreset = parts[1] as PriorityFeePreset;
+        db.saveTradeSettings(settings);
+        await showPriorityFeeSettings(ctx);
+        break;
+      }
+      case 'gs':
+        await showGasSettings(ctx);
+        break;
+      case 'bxs':
+      case 'bxc':
+        await replaceStuckTransaction(ctx, parseInt(parts[1]), action === 'bxc');
+        break;
+      case 'gsp':
+        await cycleGasPreset(ctx, toGasAction(parts[1]));
+        break;
+      case 'gst':
+      case 'gsm':
+      case 'gsl': {
+        const field = action === 'gst' ? 'tip' : action === 'gsm' ? 'maxFee' : 'limit';
+        setUserState(ctx.from!.id, { pendingGasSetting: field });
+        await ctx.editMessageText(
+          field === 'tip'
+            ? '✏️ *Custom Tip*\n\nType the priority tip to pay in gwei (e.g. 0.01). The ✏️ Custom speed uses it:'
+            : field === 'maxFee'
+              ? '🧢 *Max Fee*\n\nType the most any transaction may pay per gas in gwei (e.g. 1). Send 0 for no cap:'
+              : '📐 *Gas Limit*\n\nType the multiplier applied to estimated gas (e.g. 1.2 for 20% headroom, 1 to 3):',
+          {
+            parse_mode: 'Markdown',
+            ...Markup.inlineKeyboard([[Markup.button.callback('« Back', 'gs')]]),
+          }
+        );
+        await ctx.answerCbQuery();
+        break;
+      }
+      case 'pfc':
+      case 'pfm':
+        setUserState(ctx.from!.id, { pendingPriorityFee: action === 'pfc' ? 'custom' : 'max' });
+        await ctx.editMessageText(
+          action === 'pfc'
+            ? '✏️ *Custom Priority Fee*\n\nType the priority fee to pay per swap in SOL (e.g. 0.0005):'
+            : '🧢 *Max Priority Fee*\n\nType the most a preset may pay per swap in SOL (e.g. 0.005):',
+          {
+            parse_mode: 'Markdown',
+            ...Markup.inlineKeyboard([[Markup.button.callback('« Back', 'pf:sol')]]),
+          }
+        );
+        await ctx.answerCbQuery();
         break;
 
       // ── Token / misc ──
@@ -264,6 +446,16 @@ export async function handleCallback(ctx: Context): Promise<void> {
       case 'cf':
         await handleConfirm(ctx, parts.slice(1));
         break;
+      case 'qc':
+      case 'qco':
+        await ctx.answerCbQuery();
+        await confirmSwap(ctx, action === 'qco');
+        break;
+      case 'qx':
+        clearUserState(ctx.from!.id);
+        await ctx.editMessageText('❌ Swap cancelled.', keyboards.getMainMenuKeyboard());
+        await ctx.answerCbQuery();
+        break;
 
       // ── Legacy long codes (wallet:create etc. used in inline keyboards) ──
       case 'wallet':
@@ -281,6 +473,36 @@ export async function handleCallback(ctx: Context): Promise<void> {
             return;
           }
         }
+        if (data.startsWith('dca_')) {
+          if (await handleDcaCallback(ctx, data)) {
+            await ctx.answerCbQuery();
+            return;
+          }
+        }
+        if (data.startsWith('twap_')) {
+          if (await handleTwapCallback(ctx, data)) {
+            await ctx.answerCbQuery();
+            return;
+          }
+        }
+        if (data.startsWith('bundle_')) {
+          if (await handleBundleCallback(ctx, data)) {
+            await ctx.answerCbQuery();
+            return;
+          }
+        }
+        if (data.startsWith('copy_')) {
+          if (await handleCopyCallback(ctx, data)) {
+            await ctx.answerCbQuery();
+            return;
+          }
+        }
+        if (data.startsWith('swap_')) {
+          if (await handleSwapCallback(ctx, data)) {
+            await ctx.answerCbQuery();
+            return;
+          }
+        }
         await ctx.answerCbQuery('Unknown action');
     }
   } catch (error) {
@@ -328,11 +550,11 @@ async function showHistory(ctx: Context): Promise<void> {
   } else {
     let message = '📜 *Recent Transactions*\n\n';
     for (const tx of transactions) {
-      const emoji = tx.action === 'buy' ? '🛒' : '💸';
+      const emoji = tx.action === 'buy' ? '🛒' : tx.action === 'swap' ? '🔀' : '💸';
       const net = tx.network === 'solana' ? '☀️' : '🔵';
       const date = new Date(tx.created_at).toLocaleDateString();
       message += `${emoji} ${net} ${tx.action.toUpperCase()} ${tx.token_symbol || 'Token'}\n`;
-      message += `   ${formatters.truncateAddress(tx.tx_hash)} | ${date}\n\n`;
+      message += `   ${formatters.truncateAddress(tx.tx_hash)} | 👛 ${tx.wallet_name || '-'} | ${date}\n\n`;
     }
     await ctx.editMessageText(message, {
       parse_mode: 'Markdown',
@@ -357,6 +579,7 @@ async function showWalletNetworkSelect(ctx: Context): Promise<void> {
 async function showWalletInfo(ctx: Context, network: Network): Promise<void> {
   const userId = ctx.from!.id;
   const wallet = db.getWallet(userId, network);
+  setUserState(userId, { pendingWalletName: undefined });
   const ns = network === 'solana' ? 'sol' : 'bas';
 
   if (!wallet) {
@@ -374,16 +597,134 @@ async function showWalletInfo(ctx: Context, network: Network): Promise<void> {
       }
     );
   } else {
+    const wallets = db.getWallets(userId, network);
     await ctx.editMessageText(
       `💰 *${network === 'solana' ? 'Solana ☀️' : 'Base 🔵'} Wallet*\n\n` +
+        `*Active:* ${wallet.name}${wallets.length > 1 ? ` (${wallets.length} wallets)` : ''}\n\n` +
         `*Address:*\n\`${wallet.address}\`\n\n` +
-        `Created: ${new Date(wallet.createdAt).toLocaleDateString()}`,
-      { parse_mode: 'Markdown', ...keyboards.getWalletMenuKeyboard(network) }
+        `Created: ${new Date(wallet.createdAt).toLocaleDateString()}` +
+        (wallets.length > 1 ? `\n\n_Tap a wallet to make it active for trading, orders and withdrawals._` : ''),
+      { parse_mode: 'Markdown', ...keyboards.getWalletMenuKeyboard(network, wallets) }
     );
   }
   await ctx.answerCbQuery();
 }
 
+async function switchActiveWallet(ctx: Context, network: Network, walletId: number): Promise<void> {
+  const userId = ctx.from!.id;
+  const wallet = db.getWalletById(walletId);
+
+  if (!wallet || wallet.network !== network || !db.setActiveWallet(userId, walletId)) {
+    await ctx.answerCbQuery('Wallet not found');
+    return;
+  }
+
+  logger.info(`[WALLET] user=${userId} network=${network} active=${wallet.name}`);
+  await showWalletInfo(ctx, network);
+}
+
+async function showApprovals(ctx: Context, notice?: string): Promise<void> {
+  const userId = ctx.from!.id;
+  const wallet = db.getWallet(userId, 'base');
+  if (!wallet) {
+    await ctx.answerCbQuery('No Base wallet found');
+    return;
+  }
+
+  await ctx.answerCbQuery(notice);
+  await ctx.editMessageText('🔓 Checking approvals...');
+
+  const allowances = await base.getTokenAllowances(userId, wallet.id);
+  const settings = db.getTradeSettings(userId, 'base');
+
+  const lines = allowances.map(a =>
+    `• *${a.symbol}* → ${a.spenderName}: ${a.unlimited ? '♾️ Unlimited' : formatters.formatNumber(a.allowanceFormatted)}`
+  );
+
+  await ctx.editMessageText(
+    `🔓 *Token Approvals* (${wallet.name})\n\n` +
+      (lines.length > 0
+        ? `Routers that can still move these tokens out of your wallet:\n${lines.join('\n')}\n\n` +
+          `_Revoking costs a little gas per token. The next sell of a revoked token approves again._`
+        : `No open approvals. ✅`) +
+      `\n\n*Exact approvals:* ${settings.exactApprovals
+        ? 'On - sells approve only the amount sold'
+        : 'Off - the first sell of a token approves unlimited'}`,
+    { parse_mode: 'Markdown', ...keyboards.getApprovalsKeyboard(allowances, settings.exactApprovals) }
+  );
+}
+
+async function revokeApproval(ctx: Context, tokenAddress: string, spender: string): Promise<void> {
+  const userId = ctx.from!.id;
+  const wallet = db.getWallet(userId, 'base');
+  if (!wallet || !tokenAddress || !spender) {
+    await ctx.answerCbQuery('Approval not found - tap Refresh');
+    return;
+  }
+
+  await ctx.answerCbQuery();
+  await ctx.editMessageText('⏳ Revoking approval...');
+  const onQueued = (ahead: number) => {
+    ctx.editMessageText(`⏳ Revoking approval...\n${formatters.formatQueued(ahead)}`).catch(() => {});
+  };
+
+  const result = await base.revokeTokenApproval(userId, tokenAddress, spender, wallet.id, onQueued);
+  logger.info(`[APPROVAL] user=${userId} revoke token=${tokenAddress} spender=${spender} success=${result.success}`);
+
+  await ctx.editMessageText(
+    result.success
+      ? `✅ *Approval revoked*\n[View transaction](${result.explorerUrl})`
+      : `❌ *Revoke failed:* ${result.error}`,
+    {
+      parse_mode: 'Markdown',
+      link_preview_options: { is_disabled: true },
+      ...Markup.inlineKeyboard([[Markup.button.callback('🔓 Approvals', 'ap')]]),
+    }
+  );
+}
+
+async function revokeAllApprovals(ctx: Context): Promise<void> {
+  const userId = ctx.from!.id;
+  const wallet = db.getWallet(userId, 'base');
+  if (!wallet) {
+    await ctx.answerCbQuery('No Base wallet found');
+    return;
+  }
+
+  await ctx.answerCbQuery();
+  await ctx.editMessageText('⏳ Revoking all approvals...');
+  const onQueued = (ahead: number) => {
+    ctx.editMessageText(`⏳ Revoking all approvals...\n${formatters.formatQueued(ahead)}`).catch(() => {});
+  };
+
+  const results = await base.revokeAllTokenApprovals(userId, wallet.id, onQueued);
+  const revoked = results.filter(r => r.success).length;
+  const errors = [...new Set(results.filter(r => !r.success).map(r => r.error))];
+  logger.info(`[APPROVAL] user=${userId} revoke all revoked=${revoked} failed=${results.length - revoked}`);
+
+  await ctx.editMessageText(
+    `${errors.length === 0 ? '✅' : '⚠️'} *Revoked ${revoked} of ${results.length} approvals*` +
+      (errors.length > 0 ? `\n\n${errors.map(e => `• ${e}`).join('\n')}` : ''),
+    {
+      parse_mode: 'Markdown',
+      ...Markup.inlineKeyboard([[Markup.button.callback('🔓 Approvals', 'ap')]]),
+    }
+  );
+}
+
+async function startNamedWallet(ctx: Context, network: Network, mode: 'create' | 'import'): Promise<void> {
+  const userId = ctx.from!.id;
+  const ns = network === 'solana' ? 'sol' : 'bas';
+  setUserState(userId, { pendingWalletName: { network, mode } });
+  await ctx.editMessageText(
+    `${mode === 'create' ? '➕ *New' : '📥 *Import'} ${network === 'solana' ? 'Solana' : 'Base'} Wallet*\n\n` +
+      `Send a name for this wallet (e.g. \`degen\`, \`cold-ish\`).\n` +
+      `Up to 16 letters, numbers, \`-\` or \`_\`.`,
+    { parse_mode: 'Markdown', ...Markup.inlineKeyboard([[Markup.button.callback('❌ Cancel', `wn:${ns}`)]]) }
+  );
+  await ctx.answerCbQuery();
+}
+
 async function showWalletBalance(ctx: Context, network: Network): Promise<void> {
   const userId = ctx.from!.id;
   const wallet = db.getWallet(userId, network);
@@ -460,8 +801,9 @@ async function exportPrivateKey(ctx: Context, network: Network): Promise<void> {
     return;
   }
 
+  const wallet = db.getWallet(userId, network);
   const msg = await ctx.reply(
-    `🔐 *Private Key*\n\n` +
+    `🔐 *Private Key* - ${wallet?.name}\n\n` +
       `⚠️ *NEVER share this with anyone!*\n\n` +
       `\`${privateKey}\`\n\n` +
       `_This message will be deleted in 30 seconds._`,
@@ -537,7 +879,7 @@ async function showHoldings(
     holdings = await solana.getSolanaTokenHoldings(wallet.address);
     nativeBalance = await solana.getSolBalance(wallet.address);
   } else {
-    const trackedTokens = db.getTrackedTokens(userId, 'base');
+    const trackedTokens = db.getTrackedTokens(wallet.id);
     holdings = await base.getBaseTokenHoldings(wallet.address, trackedTokens);
     nativeBalance = await base.getEthBalance(wallet.address);
   }
@@ -548,7 +890,7 @@ async function showHoldings(
       ? nativeBalance.sol.toFixed(4)
       : parseFloat(nativeBalance.eth).toFixed(4);
 
-  let message = `📊 *${network === 'solana' ? 'Solana ☀️' : 'Base 🔵'} Holdings*\n\n`;
+  let message = `📊 *${network === 'solana' ? 'Solana ☀️' : 'Base 🔵'} Holdings* - 👛 ${wallet.name}\n\n`;
   message += `💎 *${nativeSymbol}:* ${nativeAmount} ($${nativeBalance.usd.toFixed(2)})\n\n`;
 
   if (holdings.length === 0) {
@@ -586,12 +928,18 @@ async function showHoldingDetail(
   }
 
   let balance: string;
+  let feeNote = '';
   if (network === 'solana') {
     const holdings = await solana.getSolanaTokenHoldings(wallet.address);
     const holding = holdings.find(
       (h: any) => h.tokenAddress.toLowerCase() === tokenAddress.toLowerCase()
     );
     balance = holding?.balanceFormatted || '0';
+
+    const transferFee = await solana.getTransferFee(tokenAddress).catch(() => null);
+    if (transferFee) {
+      feeNote = `\n${formatters.formatTransferFeeNote(transferFee.basisPoints)} on every transfer and sell`;
+    }
   } else {
     const { balance: bal, decimals } = await base.getTokenBalance(
       wallet.address,
@@ -605,7 +953,8 @@ async function showHoldingDetail(
   const message =
     dexscreener.formatTokenInfoMessage(tokenInfo) +
     `\n\n*Your Balance:* ${balance} ${tokenInfo.symbol}\n` +
-    `*Value:* $${value.toFixed(2)}`;
+    `*Value:* $${value.toFixed(2)}` +
+    feeNote;
 
   await ctx.editMessageText(message, {
     parse_mode: 'Markdown',
@@ -641,9 +990,10 @@ async function showBuyAmountSelection(
   network: Network,
   tokenAddress: string
 ): Promise<void> {
+  const { quoteCurrency } = db.getTradeSettings(ctx.from!.id, network);
   await ctx.editMessageText(
-    '💰 *Select Buy Amount*\n\nHow much do you want to spend?',
-    { parse_mode: 'Markdown', ...keyboards.getBuyAmountKeyboard(network, tokenAddress) }
+    `💰 *Select Buy Amount*\n\nHow much ${formatters.getQuoteSymbol(network, quoteCurrency)} do you want to spend?`,
+    { parse_mode: 'Markdown', ...keyboards.getBuyAmountKeyboard(network, tokenAddress, quoteCurrency) }
   );
   await ctx.answerCbQuery();
 }
@@ -671,8 +1021,15 @@ async function handleBuyPercent(
     return;
   }
 
+  const { quoteCurrency } = db.getTradeSettings(userId, network);
+
   let balance: number;
-  if (network === 'solana') {
+  if (quoteCurrency === 'usdc') {
+    const bal = network === 'solana'
+      ? await solana.getSplTokenBalance(wallet.address, config.solana.usdcMint)
+      : await base.getTokenBalance(wallet.address, config.base.usdcAddress);
+    balance = (Number(bal.balance) / Math.pow(10, bal.decimals)) * (percent / 100);
+  } else if (network === 'solana') {
     const bal = await solana.getSolBalance(wallet.address);
     balance = bal.sol * (percent / 100);
   } else {
@@ -687,7 +1044,8 @@ async function handleBuyPercent(
 async function startBuyCustomAmount(
   ctx: Context,
   network: Network,
-  tokenAddress: string
+  tokenAddress: string,
+  amountMode: 'native' | 'tokens' = 'native'
 ): Promise<void> {
   const userId = ctx.from!.id;
   setUserState(userId, {
@@ -700,12 +1058,16 @@ async function startBuyCustomAmount(
       network,
       action: 'buy',
       stage: 'select_amount',
+      amountMode,
     },
   });
 
-  const symbol = network === 'solana' ? 'SOL' : 'ETH';
+  const symbol = formatters.getQuoteSymbol(network, db.getTradeSettings(userId, network).quoteCurrency);
   await ctx.editMessageText(
-    `✏️ *Enter Custom Amount*\n\nPlease type the amount of ${symbol} you want to spend:`,
+    amountMode === 'tokens'
+      ? `🎯 *Buy Exact Amount*\n\nPlease type how many tokens you want to receive (e.g. 1000, 250k):\n\n` +
+        `_The ${symbol} cost is quoted before anything is sent._`
+      : `✏️ *Enter Custom Amount*\n\nPlease type the amount of ${symbol} you want to spend:`,
     { parse_mode: 'Markdown' }
   );
   await ctx.answerCbQuery();
@@ -751,23 +1113,60 @@ async function showSettings(ctx: Context, network: Network): Promise<void> {
 
   const message =
     `⚙️ *${network === 'solana' ? 'Solana' : 'Base'} Settings*\n\n` +
-    `*Slippage:* ${settings.slippageBps / 100}%\n` +
+    `*Slippage:* ${settings.autoSlippage ? `Auto (max ${settings.maxSlippageBps / 100}%)` : `${settings.slippageBps / 100}%`}\n` +
+    `*Quote Currency:* ${formatters.getQuoteSymbol(network, settings.quoteCurrency)}\n` +
+    `*Auto TP/SL:* ${settings.autoSell.enabled ? 'On' : 'Off'}\n` +
     (network === 'solana'
-      ? `*Priority Fee:* ${settings.priorityFeeLamports} lamports\n`
-      : '') +
+      ? `*Priority Fee:* ${formatters.formatPriorityFee(settings)}\n` +
+        `*MEV Protection:* ${settings.jitoEnabled ? 'On' : 'Off'}\n`
+      : `*Gas:* buys ${formatters.formatGasPreset(settings.gasPresets.buy)}, ` +
+        `sells ${formatters.formatGasPreset(settings.gasPresets.sell)}, ` +
+        `withdrawals ${formatters.formatGasPreset(settings.gasPresets.withdraw)}\n`) +
     '\nSelect a setting to modify:';
 
   await ctx.editMessageText(message, {
     parse_mode: 'Markdown',
-    ...keyboards.getSettingsKeyboard(network),
+    ...keyboards.getSettingsKeyboard(network, settings.quoteCurrency),
   });
   await ctx.answerCbQuery();
 }
 
 async function showSlippageMenu(ctx: Context, network: Network): Promise<void> {
+  const userId = ctx.from!.id;
+  const settings = db.getTradeSettings(userId, network);
+  clearUserState(userId);
+
+  const mode = settings.autoSlippage
+    ? `🤖 Auto, up to ${settings.maxSlippageBps / 100}%`
+    : `${settings.slippageBps / 100}% fixed`;
+  const impact = settings.maxPriceImpactPct
+    ? `trades above ${settings.maxPriceImpactPct}% price impact are refused`
+    : 'no price impact limit';
+
   await ctx.editMessageText(
-    '📊 *Slippage Settings*\n\nSelect your preferred slippage tolerance:',
-    { parse_mode: 'Markdown', ...keyboards.getSlippageKeyboard(network) }
+    '📊 *Slippage Settings*\n\n' +
+    `Current: ${mode}, ${impact}\n\n` +
+    'Auto slippage sizes each trade from its price impact and the token\'s recent volatility. ' +
+    'Select a fixed tolerance for when it is off:',
+    { parse_mode: 'Markdown', ...keyboards.getSlippageKeyboard(network, settings) }
+  );
+  await ctx.answerCbQuery();
+}
+
+async function startSlippageLimitEdit(
+  ctx: Context,
+  network: Network,
+  field: 'maxSlippage' | 'maxImpact'
+): Promise<void> {
+  setUserState(ctx.from!.id, { pendingSlippageLimit: { network, field } });
+  await ctx.editMessageText(
+    field === 'maxSlippage'
+      ? '📈 *Auto Slippage Cap*\n\nType the most auto slippage may use, in percent (e.g. 15):'
+      : '🚧 *Max Price Impact*\n\nType the highest price impact to accept, in percent (e.g. 5). Send 0 to turn the limit off:',
+    {
+      parse_mode: 'Markdown',
+      ...Markup.inlineKeyboard([[Markup.button.callback('« Back', `sl:${network === 'solana' ? 'sol' : 'bas'}`)]]),
+    }
   );
   await ctx.answerCbQuery();
 }
@@ -785,6 +1184,152 @@ async function setSlippage(
   await showSettings(ctx, network);
 }
 
+async function toggleQuoteCurrency(ctx: Context, network: Network): Promise<void> {
+  const userId = ctx.from!.id;
+  const settings = db.getTradeSettings(userId, network);
+  settings.quoteCurrency = settings.quoteCurrency === 'usdc' ? 'native' : 'usdc';
+  db.saveTradeSettings(settings);
+  await ctx.answerCbQuery(`Now trading with ${formatters.getQuoteSymbol(network, settings.quoteCurrency)}`);
+  await showSettings(ctx, network);
+}
+
+async function replaceStuckTransaction(ctx: Context, id: number, cancel: boolean): Promise<void> {
+  const result = cancel
+    ? await base.cancelBaseTransaction(ctx.from!.id, id)
+    : await base.speedUpBaseTransaction(ctx.from!.id, id);
+
+  if (!result.success) {
+    await ctx.answerCbQuery(`❌ ${result.error}`, { show_alert: true });
+    return;
+  }
+
+  if (cancel) {
+    // Nothing left to do but wait; the message is edited with the outcome
+    await ctx.editMessageText(
+      `✖️ *Cancel sent* - waiting for it to confirm...\n[View transaction](${result.explorerUrl})`,
+      { parse_mode: 'Markdown', link_preview_options: { is_disabled: true } }
+    );
+    await ctx.answerCbQuery('Cancel sent');
+  } else {
+    await ctx.answerCbQuery('⚡ Sent again with higher fees');
+  }
+}
+
+async function showGasSettings(ctx: Context): Promise<void> {
+  const userId = ctx.from!.id;
+  const settings = db.getTradeSettings(userId, 'base');
+  clearUserState(userId);
+
+  await ctx.editMessageText(
+    '⛽ *Gas (Base)*\n\n' +
+    'Speeds bid on priority tips paid over recent blocks:\n' +
+    '🐢 Eco - 10th percentile  •  🚶 Normal - median  •  🐇 Fast - 75th  •  🚀 Turbo - 95th\n' +
+    '✏️ Custom pays your own tip. Tap a row to change its speed.\n\n' +
+    `*Limits:* ${formatters.formatGasLimits(settings)}`,
+    { parse_mode: 'Markdown', ...keyboards.getGasKeyboard(settings) }
+  );
+  await ctx.answerCbQuery();
+}
+
+// Order the speed buttons cycle through; custom only once a tip is set
+const GAS_PRESET_CYCLE: GasSpeedPreset[] = ['eco', 'normal', 'fast', 'turbo', 'custom'];
+
+async function cycleGasPreset(ctx: Context, action: GasAction): Promise<void> {
+  const settings = db.getTradeSettings(ctx.from!.id, 'base');
+  const cycle = GAS_PRESET_CYCLE.filter(p => p !== 'custom' || settings.gasPriorityTipGwei !== undefined);
+
+  const next = cycle[(cycle.indexOf(settings.gasPresets[action]) + 1) % cycle.length];
+  settings.gasPresets[action] = next;
+  db.saveTradeSettings(settings);
+
+  await ctx.editMessageReplyMarkup(keyboards.getGasKeyboard(settings).reply_markup);
+  await ctx.answerCbQuery(`${action.charAt(0).toUpperCase() + action.slice(1)} gas: ${formatters.formatGasPreset(next)}`);
+}
+
+async function showPriorityFeeSettings(ctx: Context): Promise<void> {
+  const userId = ctx.from!.id;
+  const settings = db.getTradeSettings(userId, 'solana');
+  clearUserState(userId);
+
+  await ctx.editMessageText(
+    '⚡ *Priority Fee*\n\n' +
+    'Presets bid on recent fees paid on the pools your swap touches:\n' +
+    '🐢 Normal - median  •  🐇 Fast - 75th percentile  •  🚀 Turbo - 95th percentile\n\n' +
+    `*Current:* ${formatters.formatPriorityFee(settings)}`,
+    { parse_mode: 'Markdown', ...keyboards.getPriorityFeeKeyboard(settings.priorityFeePreset) }
+  );
+  await ctx.answerCbQuery();
+}
+
+async function showJitoSettings(ctx: Context): Promise<void> {
+  const userId = ctx.from!.id;
+  const settings = db.getTradeSettings(userId, 'solana');
+  clearUserState(userId);
+
+  await ctx.editMessageText(
+    '🛡 *MEV Protection (Jito)*\n\n' +
+    'Swaps are sent privately to the Jito block engine as a bundle with a tip, ' +
+    'so they never sit in the public queue where they can be sandwiched. ' +
+    'If a bundle does not land within ~20s, the swap is sent normally.\n\n' +
+    `*Block Engine:* ${settings.jitoBlockEngineUrl || `${config.jitoBlockEngineUrl} (default)`}\n` +
+    `*Tip:* ${settings.jitoTipLamports / 1_000_000_000} SOL per swap`,
+    { parse_mode: 'Markdown', ...keyboards.getJitoKeyboard(settings.jitoEnabled, settings.jitoTipLamports) }
+  );
+  await ctx.answerCbQuery();
+}
+
+async function updateJitoSettings(
+  ctx: Context,
+  update: (settings: TradeSettings) => string
+): Promise<void> {
+  const settings = db.getTradeSettings(ctx.from!.id, 'solana');
+  const notice = update(settings);
+  db.saveTradeSettings(settings);
+  await ctx.answerCbQuery(notice);
+  await showJitoSettings(ctx);
+}
+
+async function showAutoSellSettings(ctx: Context, network: Network): Promise<void> {
+  const userId = ctx.from!.id;
+  const { autoSell } = db.getTradeSettings(userId, network);
+  clearUserState(userId);
+
+  await ctx.editMessageText(
+    '🎯 *Auto TP/SL*\n\n' +
+    'When enabled, every buy you confirm gets take-profit and stop-loss orders ' +
+    'priced from its fill. Manage them afterwards with /orders.',
+    { parse_mode: 'Markdown', ...keyboards.getAutoSellKeyboard(network, autoSell) }
+  );
+  await ctx.answerCbQuery();
+}
+
+async function toggleAutoSell(ctx: Context, network: Network): Promise<void> {
+  const userId = ctx.from!.id;
+  const settings = db.getTradeSettings(userId, network);
+  settings.autoSell.enabled = !settings.autoSell.enabled;
+  db.saveTradeSettings(settings);
+  await ctx.editMessageReplyMarkup(keyboards.getAutoSellKeyboard(network, settings.autoSell).reply_markup);
+  await ctx.answerCbQuery(`Auto TP/SL ${settings.autoSell.enabled ? 'enabled' : 'disabled'}`);
+}
+
+async function startAutoSellEdit(ctx: Context, network: Network, leg: 'tp' | 'sl'): Promise<void> {
+  setUserState(ctx.from!.id, { pendingAutoSell: { network, leg } });
+
+  const example = leg === 'tp'
+    ? '`100 50` = sell 50% of the position at +100%'
+    : '`30 100` = sell 100% of the position at -30%';
+  await ctx.editMessageText(
+    `${leg === 'tp' ? '📈 *Take-Profit*' : '📉 *Stop-Loss*'}\n\n` +
+    `Type the trigger % and the % of holdings to sell, e.g. ${example}.\n\n` +
+    'Send `0` to turn this leg off.',
+    {
+      parse_mode: 'Markdown',
+      ...Markup.inlineKeyboard([[Markup.button.callback('« Back', `as:${network === 'solana' ? 'sol' : 'bas'}`)]]),
+    }
+  );
+  await ctx.answerCbQuery();
+}
+
 // ════════════════════════════════════════════════════════
 //  TOKEN
 // ════════════════════════════════════════════════════════
@@ -796,7 +1341,8 @@ async function refreshToken(
 ): Promise<void> {
   const tokenInfo = await dexscreener.getTokenInfo(tokenAddress, network);
   if (tokenInfo) {
-    const message = dexscreener.formatTokenInfoMessage(tokenInfo);
+    const safety = await getTokenSafetyReport(tokenAddress, network);
+    const message = dexscreener.formatTokenInfoMessage(tokenInfo, safety);
     await ctx.editMessageText(message, {
       parse_mode: 'Markdown',
       ...keyboards.getQuickTradeKeyboard(network, tokenAddress),
@@ -809,7 +1355,7 @@ async function refreshToken(
 //  CONFIRM
 // ════════════════════════════════════════════════════════
 
-async function handleConfirm(ctx: Context, parts: string[]): Promise<void> {
+async function handleConfirm(ctx: Context, _parts: string[]): Promise<void> {
   // Handle various confirmation actions
   await ctx.answerCbQuery();
 }
@@ -879,6 +1425,7 @@ async function startWithdrawNative(ctx: Context, network: Network): Promise<void
     currentAction: 'withdrawing',
     pendingWithdraw: {
       network,
+      walletId: db.getWallet(userId, network)?.id,
       tokenAddress: 'native',
       tokenSymbol: nativeName,
       stage: 'enter_address',
@@ -913,7 +1460,7 @@ async function showWithdrawTokenList(ctx: Context, network: Network): Promise<vo
     if (network === 'solana') {
       holdings = await solana.getSolanaTokenHoldings(wallet.address);
     } else {
-      const trackedTokens = db.getTrackedTokens(userId, network);
+      const trackedTokens = db.getTrackedTokens(wallet.id);
       holdings = await base.getBaseTokenHoldings(wallet.address, trackedTokens);
     }
 
@@ -973,6 +1520,7 @@ async function startWithdrawToken(ctx: Context, network: Network, tokenAddress:
 
   let symbol = 'Token';
   let decimals = 18;
+  let transferFeeBps: number | undefined;
 
   try {
     if (network === 'base') {
@@ -982,11 +1530,12 @@ async function startWithdrawToken(ctx: Context, network: Network, tokenAddress:
     } else {
       // For Solana, try to get token info from holdings
       const holdings = await solana.getSolanaTokenHoldings(wallet.address);
-      const match = holdings.find((h: any) => h.mint === tokenAddress);
+      const match = holdings.find((h: any) => h.tokenAddress === tokenAddress);
       if (match) {
         symbol = match.symbol || 'Token';
         decimals = match.decimals || 9;
       }
+      transferFeeBps = (await solana.getTransferFee(tokenAddress))?.basisPoints;
     }
   } catch (err) {
     console.error('Error getting token info for withdraw:', err);
@@ -996,9 +1545,11 @@ async function startWithdrawToken(ctx: Context, network: Network, tokenAddress:
     currentAction: 'withdrawing',
     pendingWithdraw: {
       network,
+      walletId: wallet.id,
       tokenAddress,
       tokenSymbol: symbol,
       tokenDecimals: decimals,
+      transferFeeBps,
       stage: 'enter_address',
     },
   });
@@ -1024,21 +1575,24 @@ async function executeWithdraw(ctx: Context): Promise<void> {
   }
 
   await ctx.editMessageText('⏳ Processing withdrawal...');
+  const onQueued = (ahead: number) => {
+    ctx.editMessageText(`⏳ Processing withdrawal...\n${formatters.formatQueued(ahead)}`).catch(() => {});
+  };
 
   try {
     let result: any;
 
     if (pw.network === 'solana') {
       if (pw.tokenAddress === 'native') {
-        result = await solana.withdrawSol(userId, pw.toAddress, pw.amount);
+        result = await solana.withdrawSol(userId, pw.toAddress, pw.amount, pw.walletId, onQueued);
       } else {
-        result = await solana.withdrawSplToken(userId, pw.tokenAddress!, pw.toAddress, pw.amount, pw.tokenDecimals || 9);
+        result = await solana.withdrawSplToken(userId, pw.tokenAddress!, pw.toAddress, pw.amount, pw.tokenDecimals || 9, pw.walletId, onQueued);
       }
     } else {
       if (pw.tokenAddress === 'native') {
-        result = await base.withdrawEth(userId, pw.toAddress, pw.amount);
+        result = await base.withdrawEth(userId, pw.toAddress, pw.amount, pw.walletId, onQueued);
       } else {
-        result = await base.withdrawErc20Token(userId, pw.tokenAddress!, pw.toAddress, pw.amount, pw.tokenDecimals || 18);
+        result = await base.withdrawErc20Token(userId, pw.tokenAddress!, pw.toAddress, pw.amount, pw.tokenDecimals || 18, pw.walletId, onQueued);
       }
     }
 
@@ -1102,7 +1656,7 @@ async function showWithdrawMenu(ctx: Context, network: Network): Promise<void> {
         }
       }
     } else {
-      const trackedTokens = db.getTrackedTokens(userId, network);
+      const trackedTokens = db.getTrackedTokens(wallet.id);
       const holdings = await base.getBaseTokenHoldings(wallet.address, trackedTokens);
       for (const h of holdings) {
         if (parseFloat(h.balance) > 0 && h.tokenAddress !== '0x0000000000000000000000000000000000000000') {
@@ -1126,6 +1680,7 @@ async function startWithdrawAddress(ctx: Context, network: Network, tokenShortOr
   let tokenAddress: string | undefined;
   let tokenSymbol: string;
   let tokenDecimals: number;
+  let transferFeeBps: number | undefined;
   let nativeWarning = '';
 
   if (!tokenShortOrNative || tokenShortOrNative === 'native') {
@@ -1151,8 +1706,9 @@ async function startWithdrawAddress(ctx: Context, network: Network, tokenShortOr
           const match = holdings.find((h: any) => h.tokenAddress?.toLowerCase() === tokenAddress?.toLowerCase());
           tokenSymbol = match?.symbol || tokenAddress.slice(0, 8);
           tokenDecimals = match?.decimals || 9;
+          transferFeeBps = (await solana.getTransferFee(tokenAddress))?.basisPoints;
         } else {
-          const trackedTokens = db.getTrackedTokens(userId, network);
+          const trackedTokens = db.getTrackedTokens(wallet.id);
           const holdings = await base.getBaseTokenHoldings(wallet.address, trackedTokens);
           const match = holdings.find((h: any) => h.tokenAddress?.toLowerCase() === tokenAddress?.toLowerCase());
           tokenSymbol = match?.symbol || tokenAddress.slice(0, 8);
@@ -1170,7 +1726,15 @@ async function startWithdrawAddress(ctx: Context, network: Network, tokenShortOr
 
   setUserState(userId, {
     currentAction: 'withdrawing',
-    pendingWithdraw: { network, tokenAddress, tokenSymbol, tokenDecimals, stage: 'enter_address' },
+    pendingWithdraw: {
+      network,
+      walletId: db.getWallet(userId, network)?.id,
+      tokenAddress,
+      tokenSymbol,
+      tokenDecimals,
+      transferFeeBps,
+      stage: 'enter_address',
+    },
   });
 
   await ctx.editMessageText(
@@ -1193,24 +1757,27 @@ async function executeWithdrawAction(ctx: Context): Promise<void> {
   }
 
   await ctx.editMessageText('⏳ Processing withdrawal...');
+  const onQueued = (ahead: number) => {
+    ctx.editMessageText(`⏳ Processing withdrawal...\n${formatters.formatQueued(ahead)}`).catch(() => {});
+  };
 
   try {
     let result;
     if (pw.network === 'solana') {
       if (!pw.tokenAddress) {
         // Native SOL
-        result = await solana.withdrawSol(userId, pw.toAddress, pw.amount);
+        result = await solana.withdrawSol(userId, pw.toAddress, pw.amount, pw.walletId, onQueued);
       } else {
         // SPL Token
-        result = await solana.withdrawSplToken(userId, pw.tokenAddress, pw.toAddress, pw.amount, pw.tokenDecimals || 9);
+        result = await solana.withdrawSplToken(userId, pw.tokenAddress, pw.toAddress, pw.amount, pw.tokenDecimals || 9, pw.walletId, onQueued);
       }
     } else {
       if (!pw.tokenAddress) {
         // Native ETH
-        result = await base.withdrawEth(userId, pw.toAddress, pw.amount);
+        result = await base.withdrawEth(userId, pw.toAddress, pw.amount, pw.walletId, onQueued);
       } else {
         // ERC20 Token
-        result = await base.withdrawErc20Token(userId, pw.tokenAddress, pw.toAddress, pw.amount, pw.tokenDecimals || 18);
+        result = await base.withdrawErc20Token(userId, pw.tokenAddress, pw.toAddress, pw.amount, pw.tokenDecimals || 18, pw.walletId, onQueued);
       }
     }
 
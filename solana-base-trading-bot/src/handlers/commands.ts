@@ -1,21 +1,34 @@
-import { Context, Telegraf, Markup } from 'telegraf';
+import { Context, Markup } from 'telegraf';
 import { Message } from 'telegraf/types';
-import { Network, TokenInfo, UserState } from '../types';
+import { Network, UserState, PendingSwap, SwapQuote, SwapSimulation } from '../types';
 import { config } from '../config';
 import * as db from '../services/database';
 import { logger } from '../utils/logger';
 import * as solana from '../services/solana';
 import * as base from '../services/base';
 import * as dexscreener from '../services/dexscreener';
+import { getTokenSafetyReport } from '../services/token-safety';
+import { getGuardedQuote, checkPriceImpact, simulateSwap, checkSimulation } from '../services/slippage';
 import * as keyboards from '../utils/keyboards';
 import * as formatters from '../utils/formatters';
+import * as triggerOrders from '../services/trigger-orders';
 import { handleSecurityTextInput } from './security-handlers';
 import * as security from '../services/security';
 import { handleLimitTextInput } from './limit-order-handlers';
+import { handleDcaTextInput } from './dca-handlers';
+import { handleTwapTextInput } from './twap-handlers';
+import { handleBundleTextInput } from './bundle-handlers';
+import { handleCopyTextInput } from './copy-handlers';
+import { handleSwapTextInput } from './swap-handlers';
 
 // User states for conversation flow
 const userStates = new Map<number, UserState>();
 
+// Swap previews older than this are re-quoted before sending
+const QUOTE_TTL_MS = 30_000;
+const HIGH_IMPACT_WARNING_PCT = 5;
+const HIGH_TAX_WARNING_PCT = 10;
+
 export function getUserState(userId: number): UserState {
   if (!userStates.has(userId)) {
     userStates.set(userId, {});
@@ -187,12 +200,12 @@ export async function handleHistory(ctx: Context): Promise<void> {
   let message = '📜 *Recent Transactions*\n\n';
 
   for (const tx of transactions) {
-    const emoji = tx.action === 'buy' ? '🛒' : '💸';
+    const emoji = tx.action === 'buy' ? '🛒' : tx.action === 'swap' ? '🔀' : '💸';
     const network = tx.network === 'solana' ? '☀️' : '🔵';
     const date = new Date(tx.created_at).toLocaleDateString();
 
     message += `${emoji} ${network} ${tx.action.toUpperCase()} ${tx.token_symbol || 'Token'}\n`;
-    message += `   ${formatters.truncateAddress(tx.tx_hash)} | ${date}\n\n`;
+    message += `   ${formatters.truncateAddress(tx.tx_hash)} | 👛 ${tx.wallet_name || '-'} | ${date}\n\n`;
   }
 
   await ctx.reply(message, {
@@ -223,6 +236,57 @@ export async function handleTextMessage(ctx: Context): Promise<void> {
   // Handle limit order flows
   if (await handleLimitTextInput(ctx, text)) return;
 
+  // Handle DCA setup flow
+  if (await handleDcaTextInput(ctx, text)) return;
+
+  // Handle TWAP setup flow
+  if (await handleTwapTextInput(ctx, text)) return;
+
+  // Handle multi-wallet bundle flow
+  if (await handleBundleTextInput(ctx, text)) return;
+
+  // Handle copy-trading setup flow
+  if (await handleCopyTextInput(ctx, text)) return;
+
+  // Handle token-to-token swap flow
+  if (await handleSwapTextInput(ctx, text)) return;
+
+  // Handle auto TP/SL preset edits
+  if (state.pendingAutoSell) {
+    await handleAutoSellInput(ctx, text);
+    return;
+  }
+
+  // Handle custom / max priority fee
+  if (state.pendingPriorityFee) {
+    await handlePriorityFeeInput(ctx, text);
+    return;
+  }
+
+  // Handle Base gas tip / max fee / gas limit
+  if (state.pendingGasSetting) {
+    await handleGasSettingInput(ctx, text);
+    return;
+  }
+
+  // Handle auto slippage cap / price impact limit
+  if (state.pendingSlippageLimit) {
+    await handleSlippageLimitInput(ctx, text);
+    return;
+  }
+
+  // Handle custom Jito block engine URL
+  if (state.pendingJitoUrl) {
+    await handleJitoUrlInput(ctx, text);
+    return;
+  }
+
+  // Handle naming a new wallet
+  if (state.pendingWalletName) {
+    await handleWalletNameInput(ctx, text);
+    return;
+  }
+
   // Handle withdraw flow text input
   if (state.currentAction === 'withdrawing' && state.pendingWithdraw) {
     await handleWithdrawTextInput(ctx, text);
@@ -303,7 +367,6 @@ async function handleWithdrawTextInput(ctx: Context, text: string): Promise<void
       pendingWithdraw: { ...pw, toAddress: text, stage: 'enter_amount' },
     });
 
-    const nativeName = pw.network === 'solana' ? 'SOL' : 'ETH';
     const isNative = pw.tokenAddress === 'native';
 
     await ctx.reply(
@@ -332,7 +395,7 @@ async function handleWithdrawTextInput(ctx: Context, text: string): Promise<void
     const amount = isAll ? 'all' : text;
     const gasNote = pw.tokenAddress === 'native'
       ? `\n⚠️ Gas reserve will be kept automatically.`
-      : '';
+      : pw.transferFeeBps ? `\n${formatters.formatTransferFeeNote(pw.transferFeeBps, isAll ? undefined : amount)}` : '';
 
     // Save amount and show confirmation
     setUserState(userId, {
@@ -379,8 +442,9 @@ async function handleTokenAddressInput(
     return;
   }
 
-  // Display token info
-  const infoMessage = dexscreener.formatTokenInfoMessage(tokenInfo);
+  // Display token info with the on-chain safety checks
+  const safety = await getTokenSafetyReport(address, network);
+  const infoMessage = dexscreener.formatTokenInfoMessage(tokenInfo, safety);
 
   // Save pending trade state
   setUserState(userId, {
@@ -424,17 +488,250 @@ async function handleCustomBuyAmount(ctx: Context, amountStr: string): Promise<v
     return;
   }
 
-  const amount = formatters.parseAmount(amountStr);
-  logger.info(`[CUSTOM_BUY] user=${userId} parsed=${amount} from="${amountStr}"`);
+  const amountMode = trade.amountMode || 'native';
+  // Token counts are often pasted with thousands separators
+  const amount = formatters.parseAmount(amountMode === 'tokens' ? amountStr.replace(/,/g, '') : amountStr);
+  logger.info(`[CUSTOM_BUY] user=${userId} mode=${amountMode} parsed=${amount} from="${amountStr}"`);
 
   if (!amount || amount <= 0) {
     logger.warn(`[CUSTOM_BUY] user=${userId} invalid amount: "${amountStr}" -> ${amount}`);
-    await ctx.reply('❌ Invalid amount. Please enter a valid number (e.g., 0.5, 1.5, 100):');
+    await ctx.reply(amountMode === 'tokens'
+      ? '❌ Invalid amount. Please enter a token count (e.g., 1000, 250k, 1.5m):'
+      : '❌ Invalid amount. Please enter a valid number (e.g., 0.5, 1.5, 100):');
     return;
   }
 
   // Execute the buy
-  await executeBuy(ctx, trade.network, trade.tokenAddress, amount);
+  await executeBuy(ctx, trade.network, trade.tokenAddress, amount, amountMode);
+}
+
+/**
+ * Handle "<trigger %> <sell %>" for one leg of the auto TP/SL preset ("0" turns the leg off)
+ */
+async function handleAutoSellInput(ctx: Context, text: string): Promise<void> {
+  const userId = ctx.from!.id;
+  const { network, leg } = getUserState(userId).pendingAutoSell!;
+  const [trigger, sell = 100] = text.replace(/%/g, '').trim().split(/[\s,]+/).map(v => parseFloat(v));
+
+  const maxTrigger = leg === 'sl' ? 99 : 10_000;
+  if (isNaN(trigger) || isNaN(sell) || trigger < 0 || trigger > maxTrigger || sell <= 0 || sell > 100) {
+    await ctx.reply(`❌ Invalid values. Send the trigger % (0-${maxTrigger}) and sell % (1-100), e.g. \`${leg === 'tp' ? '100 50' : '30 100'}\`:`, {
+      parse_mode: 'Markdown',
+    });
+    return;
+  }
+
+  clearUserState(userId);
+
+  const settings = db.getTradeSettings(userId, network);
+  if (leg === 'tp') {
+    settings.autoSell.takeProfitPercent = trigger;
+    settings.autoSell.takeProfitSellPercent = sell;
+  } else {
+    settings.autoSell.stopLossPercent = trigger;
+    settings.autoSell.stopLossSellPercent = sell;
+  }
+  db.saveTradeSettings(settings);
+
+  await ctx.reply(
+    `✅ ${leg === 'tp' ? 'Take-profit' : 'Stop-loss'} ${trigger > 0 ? 'updated' : 'turned off'}.`,
+    keyboards.getAutoSellKeyboard(network, settings.autoSell)
+  );
+}
+
+/**
+ * Handle a custom priority fee or max cap, typed in SOL
+ */
+async function handlePriorityFeeInput(ctx: Context, text: string): Promise<void> {
+  const userId = ctx.from!.id;
+  const field = getUserState(userId).pendingPriorityFee!;
+  const sol = parseFloat(text.replace(/[^\d.]/g, ''));
+
+  if (isNaN(sol) || sol <= 0 || sol > 1) {
+    await ctx.reply('❌ Invalid amount. Enter a fee in SOL between 0 and 1:');
+    return;
+  }
+
+  clearUserState(userId);
+
+  const settings = db.getTradeSettings(userId, 'solana');
+  const lamports = Math.round(sol * 1_000_000_000);
+  if (field === 'custom') {
+    settings.priorityFeePreset = 'custom';
+    settings.priorityFeeLamports = lamports;
+  } else {
+    settings.priorityFeeMaxLamports = lamports;
+  }
+  db.saveTradeSettings(settings);
+
+  await ctx.reply(
+    `✅ Priority fee: ${formatters.formatPriorityFee(settings)}`,
+    keyboards.getPriorityFeeKeyboard(settings.priorityFeePreset)
+  );
+}
+
+/**
+ * Handle a Base gas setting: custom tip or max fee in gwei, or the gas limit multiplier
+ */
+async function handleGasSettingInput(ctx: Context, text: string): Promise<void> {
+  const userId = ctx.from!.id;
+  const field = getUserState(userId).pendingGasSetting!;
+  const value = parseFloat(text.replace(/[^\d.]/g, ''));
+
+  if (field === 'tip' && (isNaN(value) || value <= 0 || value > 100)) {
+    await ctx.reply('❌ Invalid tip. Enter a tip in gwei between 0 and 100:');
+    return;
+  }
+  if (field === 'maxFee' && (isNaN(value) || value < 0 || value > 1000)) {
+    await ctx.reply('❌ Invalid max fee. Enter a fee in gwei between 0 and 1000 (0 = no cap):');
+    return;
+  }
+  if (field === 'limit' && (isNaN(value) || value < 1 || value > 3)) {
+    await ctx.reply('❌ Invalid multiplier. Enter a number between 1 and 3:');
+    return;
+  }
+
+  clearUserState(userId);
+
+  const settings = db.getTradeSettings(userId, 'base');
+  if (field === 'tip') {
+    settings.gasPriorityTipGwei = value;
+  } else if (field === 'maxFee') {
+    settings.gasMaxFeeGwei = value || undefined;
+  } else {
+    settings.gasLimitMultiplier = value;
+  }
+  db.saveTradeSettings(settings);
+
+  await ctx.reply(
+    `✅ Gas: ${formatters.formatGasLimits(settings)}` +
+      (field === 'tip' ? '\nTap a speed until it shows ✏️ Custom to use this tip.' : ''),
+    keyboards.getGasKeyboard(settings)
+  );
+}
+
+/**
+ * Handle the auto slippage cap or the price impact limit, typed in percent
+ */
+async function handleSlippageLimitInput(ctx: Context, text: string): Promise<void> {
+  const userId = ctx.from!.id;
+  const { network, field } = getUserState(userId).pendingSlippageLimit!;
+  const percent = parseFloat(text.replace(/[^\d.]/g, ''));
+
+  if (field === 'maxSlippage' && (isNaN(percent) || percent < 0.1 || percent > 50)) {
+    await ctx.reply('❌ Invalid cap. Enter a percentage between 0.1 and 50:');
+    return;
+  }
+  if (field === 'maxImpact' && (isNaN(percent) || percent < 0 || percent > 100)) {
+    await ctx.reply('❌ Invalid limit. Enter a percentage between 0 and 100 (0 = off):');
+    return;
+  }
+
+  clearUserState(userId);
+
+  const settings = db.getTradeSettings(userId, network);
+  if (field === 'maxSlippage') {
+    settings.maxSlippageBps = Math.round(percent * 100);
+  } else {
+    settings.maxPriceImpactPct = percent;
+  }
+  db.saveTradeSettings(settings);
+
+  await ctx.reply(
+    field === 'maxSlippage'
+      ? `✅ Auto slippage capped at ${settings.maxSlippageBps / 100}%.`
+      : percent > 0
+        ? `✅ Trades above ${percent}% price impact will be refused.`
+        : '✅ Price impact limit turned off.',
+    keyboards.getSlippageKeyboard(network, settings)
+  );
+}
+
+/**
+ * Handle a custom Jito block engine URL
+ */
+async function handleJitoUrlInput(ctx: Context, text: string): Promise<void> {
+  const userId = ctx.from!.id;
+
+  let url: URL;
+  try {
+    url = new URL(text.trim());
+  } catch {
+    url = null;
+  }
+  if (!url || url.protocol !== 'https:') {
+    await ctx.reply('❌ Invalid URL. Send an https:// block engine URL:');
+    return;
+  }
+
+  clearUserState(userId);
+
+  const settings = db.getTradeSettings(userId, 'solana');
+  settings.jitoBlockEngineUrl = url.origin;
+  db.saveTradeSettings(settings);
+
+  await ctx.reply(
+    `✅ Bundles will be sent to ${url.origin}`,
+    keyboards.getJitoKeyboard(settings.jitoEnabled, settings.jitoTipLamports)
+  );
+}
+
+/**
+ * Handle the name for an additional wallet, then create it or ask for the key to import
+ */
+async function handleWalletNameInput(ctx: Context, text: string): Promise<void> {
+  const userId = ctx.from!.id;
+  const { network, mode } = getUserState(userId).pendingWalletName!;
+  const name = text.trim();
+
+  if (!/^[A-Za-z0-9_-]{1,16}$/.test(name)) {
+    await ctx.reply('❌ Invalid name. Use up to 16 letters, numbers, - or _:');
+    return;
+  }
+
+  if (db.getWalletByName(userId, network, name)) {
+    await ctx.reply(`❌ You already have a ${network === 'solana' ? 'Solana' : 'Base'} wallet named "${name}". Pick another name:`);
+    return;
+  }
+
+  if (mode === 'import') {
+    setUserState(userId, {
+      pendingWalletName: undefined,
+      importWalletName: name,
+      selectedNetwork: network,
+      currentAction: 'settings',
+    });
+    await ctx.reply(
+      `📥 *Import "${name}"*\n\n` +
+      `Please send the private key in the next message.\n\n` +
+      `🔒 Your private key will be encrypted and stored securely.\n` +
+      `⚠️ The message will be deleted for security.`,
+      { parse_mode: 'Markdown' }
+    );
+    return;
+  }
+
+  clearUserState(userId);
+
+  const result = network === 'solana'
+    ? await solana.createSolanaWallet(userId, undefined, name)
+    : await base.createBaseWallet(userId, undefined, name);
+
+  if (!result.created) {
+    await ctx.reply(
+      `❌ Failed to create wallet: ${result.error || 'Please unlock your wallet and try again'}`,
+      keyboards.getWalletMenuKeyboard(network, db.getWallets(userId, network))
+    );
+    return;
+  }
+
+  await ctx.reply(
+    `✅ *Wallet "${name}" Created!*\n\n` +
+    `*Address:*\n\`${result.address}\`\n\n` +
+    `Tap it below to make it the active wallet.\n` +
+    `⚠️ *Important:* Export and backup your private key!`,
+    { parse_mode: 'Markdown', ...keyboards.getWalletMenuKeyboard(network, db.getWallets(userId, network)) }
+  );
 }
 
 /**
@@ -462,16 +759,18 @@ async function handlePrivateKeyImport(ctx: Context, privateKey: string): Promise
 
   await ctx.reply('🔐 Importing wallet...');
 
+  const name = state.importWalletName || 'main';
+
   let result;
   if (network === 'solana') {
-    result = await solana.importSolanaWallet(userId, privateKey);
+    result = await solana.importSolanaWallet(userId, privateKey, undefined, name);
   } else {
-    result = await base.importBaseWallet(userId, privateKey);
+    result = await base.importBaseWallet(userId, privateKey, undefined, name);
   }
 
   if (result.success) {
     await ctx.reply(
-      `✅ Wallet imported successfully!\n\n` +
+      `✅ Wallet *${name}* imported successfully!\n\n` +
       `*Address:*\n\`${result.address}\`\n\n` +
       `⚠️ Your private key has been encrypted and stored securely.`,
       {
@@ -490,18 +789,20 @@ async function handlePrivateKeyImport(ctx: Context, privateKey: string): Promise
 }
 
 /**
- * Execute a buy transaction
+ * Quote a buy and show the preview. Nothing is sent until the user confirms.
+ * `amount` is SOL/ETH to spend, or the exact token count when amountMode is 'tokens'.
  */
 export async function executeBuy(
   ctx: Context,
   network: Network,
   tokenAddress: string,
-  amount: number
+  amount: number,
+  amountMode: 'native' | 'tokens' = 'native'
 ): Promise<void> {
   const userId = ctx.from?.id;
   if (!userId) return;
 
-  logger.trade(`[BUY_START] user=${userId} network=${network} token=${tokenAddress} amount=${amount}`);
+  logger.trade(`[BUY_START] user=${userId} network=${network} token=${tokenAddress} amount=${amount} mode=${amountMode}`);
 
   // Check wallet exists
   const wallet = db.getWallet(userId, network);
@@ -516,7 +817,7 @@ export async function executeBuy(
   // Check if wallet is locked — prompt for password instead of failing
   if (!security.isUnlocked(userId)) {
     const state = getUserState(userId);
-    state.pendingBuyAfterUnlock = { network, tokenAddress, amount };
+    state.pendingBuyAfterUnlock = { network, tokenAddress, amount, amountMode };
     state.pendingUnlock = true;
     logger.info(`[BUY] user=${userId} wallet locked, prompting for password`);
     await ctx.reply('🔒 Wallet is locked. Enter your password to continue:');
@@ -524,65 +825,44 @@ export async function executeBuy(
   }
 
   const settings = db.getTradeSettings(userId, network);
-  const nativeSymbol = network === 'solana' ? 'SOL' : 'ETH';
+  const { quoteCurrency } = settings;
+  const quoteSymbol = formatters.getQuoteSymbol(network, quoteCurrency);
 
-  await ctx.reply(`⏳ Executing buy for ${amount} ${nativeSymbol}...`);
+  if (amountMode === 'tokens') {
+    await ctx.reply(`🔍 Getting quote for ${formatters.formatNumber(amount)} tokens...`);
 
-  let result;
-  if (network === 'solana') {
-    result = await solana.buySolanaToken(
-      userId,
-      tokenAddress,
-      amount,
-      settings.slippageBps
+    const { quote, error, slippageBps } = await getGuardedQuote(settings, tokenAddress, slippage =>
+      network === 'solana'
+        ? solana.quoteSolanaExactOutBuy(userId, tokenAddress, amount, slippage, quoteCurrency, wallet.id)
+        : base.quoteBaseExactOutBuy(userId, tokenAddress, amount, slippage, quoteCurrency, wallet.id)
     );
-  } else {
-    result = await base.buyBaseToken(
-      userId,
-      tokenAddress,
-      amount,
-      settings.slippageBps
-    );
-  }
 
-  logger.trade(`[BUY_RESULT] user=${userId} network=${network} success=${result.success} error=${result.error || ""}`);
-  if (result.success) {
-    // Record transaction
-    db.recordTransaction(
-      userId,
+    await showSwapPreview(ctx, userId, {
       network,
-      result.signature || result.hash || '',
-      'buy',
+      side: 'buy',
       tokenAddress,
-      '',
-      amount.toString(),
-      '',
-    );
-
-    await ctx.reply(
-      `✅ *Buy Successful!*\n\n` +
-      `💰 Spent: ${amount} ${nativeSymbol}\n` +
-      `🔗 [View Transaction](${result.explorerUrl})`,
-      {
-        parse_mode: 'Markdown',
-        ...keyboards.getTransactionResultKeyboard(result.explorerUrl, network),
-      }
-    );
-  } else {
-    await ctx.reply(
-      `❌ *Buy Failed*\n\n${result.error}`,
-      {
-        parse_mode: 'Markdown',
-        ...keyboards.getMainMenuKeyboard(),
-      }
-    );
+      amount: parseFloat(quote?.inputAmountFormatted || '0'),
+      exactOutput: amount,
+      slippageBps,
+      quoteCurrency,
+      walletId: wallet.id,
+    }, quote, error);
+    return;
   }
 
-  clearUserState(userId);
+  await ctx.reply(`🔍 Getting quote for ${amount} ${quoteSymbol}...`);
+
+  const { quote, error, slippageBps } = await getGuardedQuote(settings, tokenAddress, slippage =>
+    network === 'solana'
+      ? solana.quoteSolanaBuy(tokenAddress, amount, slippage, quoteCurrency)
+      : base.quoteBaseBuy(userId, tokenAddress, amount, slippage, quoteCurrency, wallet.id)
+  );
+
+  await showSwapPreview(ctx, userId, { network, side: 'buy', tokenAddress, amount, slippageBps, quoteCurrency, walletId: wallet.id }, quote, error);
 }
 
 /**
- * Execute a sell transaction
+ * Quote a sell and show the preview. Nothing is sent until the user confirms.
  */
 export async function executeSell(
   ctx: Context,
@@ -594,60 +874,409 @@ export async function executeSell(
   if (!userId) return;
 
   const settings = db.getTradeSettings(userId, network);
-  const nativeSymbol = network === 'solana' ? 'SOL' : 'ETH';
+  const { quoteCurrency } = settings;
+  const walletId = db.getWallet(userId, network)?.id;
 
-  await ctx.reply(`⏳ Selling ${percentage}% of holdings...`);
+  await ctx.reply(`🔍 Getting quote for ${percentage}% of holdings...`);
 
-  let result;
-  if (network === 'solana') {
-    result = await solana.sellSolanaTokenPercentage(
-      userId,
-      tokenAddress,
-      percentage,
-      settings.slippageBps
-    );
+  const { quote, error, slippageBps } = await getGuardedQuote(settings, tokenAddress, slippage =>
+    network === 'solana'
+      ? solana.quoteSolanaSellPercentage(userId, tokenAddress, percentage, slippage, quoteCurrency, walletId)
+      : base.quoteBaseSellPercentage(userId, tokenAddress, percentage, slippage, quoteCurrency, walletId)
+  );
+
+  await showSwapPreview(ctx, userId, { network, side: 'sell', tokenAddress, amount: percentage, slippageBps, quoteCurrency, walletId }, quote, error);
+}
+
+/**
+ * Quote a token-to-token swap and show the preview. Nothing is sent until the user confirms.
+ * `amount` is a percentage of the input balance or an exact number of input tokens.
+ */
+export async function executeTokenSwap(
+  ctx: Context,
+  network: Network,
+  input: { tokenAddress: string; symbol: string },
+  output: { tokenAddress: string; symbol: string },
+  amount: number,
+  amountType: 'percentage' | 'tokens'
+): Promise<void> {
+  const userId = ctx.from?.id;
+  if (!userId) return;
+
+  const settings = db.getTradeSettings(userId, network);
+  const { quoteCurrency } = settings;
+  const walletId = db.getWallet(userId, network)?.id;
+
+  await ctx.reply(amountType === 'percentage'
+    ? `🔍 Getting quote for ${amount}% of your ${input.symbol}...`
+    : `🔍 Getting quote for ${formatters.formatNumber(amount, 4)} ${input.symbol}...`);
+
+  const { quote, error, slippageBps } = await getGuardedQuote(settings, output.tokenAddress, slippage =>
+    network === 'solana'
+      ? solana.quoteSolanaTokenSwap(userId, input.tokenAddress, output.tokenAddress, amount, amountType, slippage, walletId)
+      : base.quoteBaseTokenSwap(userId, input.tokenAddress, output.tokenAddress, amount, amountType, slippage, walletId)
+  );
+
+  await showSwapPreview(ctx, userId, {
+    network,
+    side: 'swap',
+    tokenAddress: output.tokenAddress,
+    tokenSymbol: output.symbol,
+    inputSymbol: input.symbol,
+    amount: parseFloat(quote?.inputAmountFormatted || '0'),
+    slippageBps,
+    quoteCurrency,
+    walletId,
+  }, quote, error);
+}
+
+/**
+ * Execute the swap the user confirmed from the preview.
+ * A quote older than QUOTE_TTL_MS is refreshed and shown again instead.
+ * Swaps the simulation blocked only go through with `override`.
+ */
+export async function confirmSwap(ctx: Context, override: boolean = false): Promise<void> {
+  const userId = ctx.from?.id;
+  if (!userId) return;
+
+  const pending = getUserState(userId).pendingSwap;
+  if (!pending) {
+    await ctx.reply('Quote expired. Please start again.', keyboards.getMainMenuKeyboard());
+    return;
+  }
+
+  if (pending.blocked && !override) {
+    logger.info(`[SWAP] user=${userId} refused blocked swap without override`);
+    await ctx.reply('⛔ This swap failed its safety simulation. Use *⚠️ Confirm Anyway* on the preview to send it regardless.', {
+      parse_mode: 'Markdown',
+    });
+    return;
+  }
+
+  if (Date.now() - (pending.quote.quotedAt || 0) > QUOTE_TTL_MS) {
+    logger.info(`[SWAP] user=${userId} quote stale, re-quoting`);
+    const fresh = await requoteSwap(userId, pending);
+    if (!fresh) {
+      clearUserState(userId);
+      await ctx.reply('❌ *Quote Failed*\n\nCould not refresh the quote. Please try again.', {
+        parse_mode: 'Markdown',
+        ...keyboards.getMainMenuKeyboard(),
+      });
+      return;
+    }
+
+    // The market may have moved past the user's impact limit since the first quote
+    const refusal = checkPriceImpact(db.getTradeSettings(userId, pending.network), fresh);
+    if (refusal) {
+      clearUserState(userId);
+      await ctx.reply(`❌ *Trade Refused*\n\n${refusal}`, {
+        parse_mode: 'Markdown',
+        ...keyboards.getMainMenuKeyboard(),
+      });
+      return;
+    }
+
+    const updated: PendingSwap = {
+      ...pending,
+      quote: fresh,
+      amount: pending.exactOutput ? parseFloat(fresh.inputAmountFormatted || '0') : pending.amount,
+    };
+    setUserState(userId, { pendingSwap: updated });
+    await sendSwapPreview(ctx, updated, pending.quote);
+    return;
+  }
+
+  clearUserState(userId);
+
+  const { network, side, tokenAddress, amount, quote } = pending;
+  const quoteSymbol = formatters.getQuoteSymbol(network, pending.quoteCurrency);
+
+  let progress: string;
+  let summary: string;
+  if (side === 'swap') {
+    progress = `⏳ Swapping ${formatters.formatNumber(amount, 4)} ${pending.inputSymbol} for ${pending.tokenSymbol}...`;
+    summary = `✅ *Swap Successful!*\n\n🔀 Swapped: ${formatters.formatNumber(amount, 4)} ${pending.inputSymbol} → ` +
+      `~${formatters.formatNumber(quote.outputAmountFormatted, 4)} ${pending.tokenSymbol}\n`;
+  } else if (pending.exactOutput) {
+    progress = `⏳ Buying ${formatters.formatNumber(pending.exactOutput)} ${pending.tokenSymbol}...`;
+    summary = `✅ *Buy Successful!*\n\n🎯 Bought: ${formatters.formatNumber(pending.exactOutput)} ${pending.tokenSymbol}\n` +
+      `💰 Spent: ~${formatters.formatNumber(amount, 6)} ${quoteSymbol}\n`;
+  } else if (side === 'buy') {
+    progress = `⏳ Executing buy for ${amount} ${quoteSymbol}...`;
+    summary = `✅ *Buy Successful!*\n\n💰 Spent: ${amount} ${quoteSymbol}\n`;
   } else {
-    result = await base.sellBaseTokenPercentage(
-      userId,
-      tokenAddress,
-      percentage,
-      settings.slippageBps
-    );
+    progress = `⏳ Selling ${amount}% of holdings...`;
+    summary = `✅ *Sell Successful!*\n\n💸 Sold: ${amount}% of holdings\n`;
   }
 
+  const progressMessage = await ctx.reply(progress);
+  const onQueued = (ahead: number) => {
+    ctx.telegram
+      .editMessageText(progressMessage.chat.id, progressMessage.message_id, undefined, `${progress}\n${formatters.formatQueued(ahead)}`)
+      .catch(() => {});
+  };
+
+  const result = network === 'solana'
+    ? await solana.executeSolanaQuote(userId, quote, pending.slippageBps, pending.walletId, onQueued)
+    : await base.executeBaseQuote(userId, quote, pending.slippageBps, pending.walletId, onQueued);
+
+  logger.trade(`[${side.toUpperCase()}_RESULT] user=${userId} network=${network} success=${result.success} error=${result.error || ""}`);
   if (result.success) {
     // Record transaction
     db.recordTransaction(
       userId,
+      pending.walletId,
       network,
       result.signature || result.hash || '',
-      'sell',
+      side,
       tokenAddress,
       '',
-      percentage.toString(),
+      amount.toString(),
       '',
     );
 
+    if (result.priorityFeeLamports) {
+      summary += `⚡ Priority Fee: ${formatters.formatLamports(result.priorityFeeLamports)}\n`;
+    }
+    if (result.routing) {
+      summary += `🛣 Route: ${formatters.formatRouting(result.routing)}\n`;
+    }
+
+    if (side === 'buy') {
+      summary += await placeAutoSellOrders(ctx, userId, pending);
+    }
+
     await ctx.reply(
-      `✅ *Sell Successful!*\n\n` +
-      `💸 Sold: ${percentage}% of holdings\n` +
-      `🔗 [View Transaction](${result.explorerUrl})`,
+      summary + `🔗 [View Transaction](${result.explorerUrl})`,
       {
         parse_mode: 'Markdown',
         ...keyboards.getTransactionResultKeyboard(result.explorerUrl, network),
       }
     );
   } else {
+    // Landed with a program error: link it so the user can see what reverted
+    const link = result.landing === 'failed' && result.explorerUrl
+      ? `\n\n🔗 [View Transaction](${result.explorerUrl})`
+      : '';
+
     await ctx.reply(
-      `❌ *Sell Failed*\n\n${result.error}`,
+      `❌ *${side === 'buy' ? 'Buy' : side === 'swap' ? 'Swap' : 'Sell'} Failed*\n\n${result.error}${link}`,
       {
         parse_mode: 'Markdown',
+        link_preview_options: { is_disabled: true },
         ...keyboards.getMainMenuKeyboard(),
       }
     );
   }
+}
+
+/**
+ * Attach the network's auto TP/SL preset to a filled buy.
+ * Returns a summary line for the buy message, or '' when nothing was placed.
+ */
+async function placeAutoSellOrders(ctx: Context, userId: number, pending: PendingSwap): Promise<string> {
+  const { autoSell } = db.getTradeSettings(userId, pending.network);
+  if (!autoSell.enabled) return '';
+
+  try {
+    const fillPrice = await getFillPriceUsd(pending);
+    const orders = triggerOrders.createAutoSellOrders({
+      telegramUserId: userId,
+      chatId: ctx.chat!.id,
+      network: pending.network,
+      walletId: pending.walletId,
+      tokenAddress: pending.tokenAddress,
+      tokenSymbol: pending.tokenSymbol,
+      preset: autoSell,
+      fillPrice,
+      slippageBps: pending.slippageBps,
+      quoteCurrency: pending.quoteCurrency,
+    });
+    if (orders.length === 0) return '';
+
+    const legs = orders.map(o => o.triggerCondition === 'above'
+      ? `TP +${autoSell.takeProfitPercent}% (sell ${autoSell.takeProfitSellPercent}%)`
+      : `SL -${autoSell.stopLossPercent}% (sell ${autoSell.stopLossSellPercent}%)`);
+    return `🎯 Auto TP/SL: ${legs.join(', ')}\n`;
+  } catch (error: any) {
+    logger.error(`[AUTO_SELL] user=${userId} token=${pending.tokenAddress} error=${error.message}`);
+    return `⚠️ Auto TP/SL not placed: ${error.message}\n`;
+  }
+}
+
+/**
+ * USD price per token implied by a buy quote. Falls back to the
+ * DexScreener price when the quote currency can't be priced.
+ */
+async function getFillPriceUsd(pending: PendingSwap): Promise<number> {
+  const { network, quote, quoteCurrency } = pending;
+  const tokensOut = parseFloat(quote.outputAmountFormatted);
+
+  let quoteUsd = 1;
+  if (quoteCurrency !== 'usdc') {
+    const nativeToken = network === 'solana' ? config.solana.nativeMint : config.base.wethAddress;
+    quoteUsd = parseFloat((await dexscreener.getTokenInfo(nativeToken, network))?.priceUsd || '0');
+  }
+
+  if (tokensOut > 0 && quoteUsd > 0) {
+    return (pending.amount * quoteUsd) / tokensOut;
+  }
+
+  const tokenInfo = await dexscreener.getTokenInfo(pending.tokenAddress, network);
+  return parseFloat(tokenInfo?.priceUsd || '0');
+}
 
+async function showSwapPreview(
+  ctx: Context,
+  userId: number,
+  swap: Omit<PendingSwap, 'quote' | 'tokenSymbol'> & { tokenSymbol?: string },
+  quote?: SwapQuote,
+  error?: string
+): Promise<void> {
   clearUserState(userId);
+
+  if (!quote) {
+    logger.trade(`[QUOTE_FAILED] user=${userId} network=${swap.network} token=${swap.tokenAddress} error=${error || ''}`);
+    await ctx.reply(
+      `❌ *Quote Failed*\n\n${error || 'No route found'}`,
+      {
+        parse_mode: 'Markdown',
+        ...keyboards.getMainMenuKeyboard(),
+      }
+    );
+    return;
+  }
+
+  const tokenSymbol = swap.tokenSymbol
+    || (await dexscreener.getTokenInfo(swap.tokenAddress, swap.network))?.symbol
+    || 'tokens';
+  const pending: PendingSwap = { ...swap, tokenSymbol, quote };
+
+  setUserState(userId, { pendingSwap: pending });
+  await sendSwapPreview(ctx, pending);
+}
+
+async function sendSwapPreview(ctx: Context, pending: PendingSwap, previousQuote?: SwapQuote): Promise<void> {
+  const { quote } = pending;
+  const quoteSymbol = formatters.getQuoteSymbol(pending.network, pending.quoteCurrency);
+  const outputSymbol = pending.side === 'sell' ? quoteSymbol : pending.tokenSymbol;
+  const impact = quote.priceImpactPct;
+
+  const wallet = db.getWalletById(pending.walletId);
+  const slippageMode = db.getTradeSettings(ctx.from!.id, pending.network).autoSlippage ? 'auto ' : '';
+
+  const lines = [
+    pending.side === 'swap'
+      ? `🧾 *Swap Preview* - ${pending.inputSymbol} → ${pending.tokenSymbol}`
+      : `🧾 *${pending.side === 'buy' ? 'Buy' : 'Sell'} Preview* - ${pending.tokenSymbol}`,
+    `👛 Wallet: ${wallet?.name || 'main'}`,
+    ``,
+  ];
+
+  if (previousQuote) {
+    // Exact-output buys fix the tokens received, so compare what they cost instead
+    const before = parseFloat(pending.exactOutput ? previousQuote.inputAmountFormatted || '0' : previousQuote.outputAmountFormatted);
+    const after = parseFloat(pending.exactOutput ? quote.inputAmountFormatted || '0' : quote.outputAmountFormatted);
+    const change = before > 0 ? ((after - before) / before) * 100 : 0;
+    lines.push(
+      `🔄 *Quote refreshed* - the previous one went stale`,
+      `${pending.exactOutput ? 'Cost' : 'Expected'}: ${formatters.formatNumber(before, 4)} → ${formatters.formatNumber(after, 4)} ${pending.exactOutput ? quoteSymbol : outputSymbol} (${change >= 0 ? '+' : ''}${change.toFixed(2)}%)`,
+      ``
+    );
+  }
+
+  if (pending.exactOutput) {
+    // Jupiter fills the exact amount; Base aggregators are sized so the minimum covers it
+    lines.push(
+      `🎯 You receive: ${quote.swapMode === 'ExactOut' ? 'exactly' : 'at least'} ${formatters.formatNumber(pending.exactOutput)} ${pending.tokenSymbol}`,
+      `💰 You pay: ~${formatters.formatNumber(quote.inputAmountFormatted || '0', 6)} ${quoteSymbol} (max ${formatters.formatNumber(quote.maximumInputFormatted || '0', 6)})`,
+    );
+  } else {
+    lines.push(
+      pending.side === 'swap'
+        ? `🔀 You swap: ${formatters.formatNumber(pending.amount, 4)} ${pending.inputSymbol}`
+        : pending.side === 'buy'
+          ? `💰 You pay: ${pending.amount} ${quoteSymbol}`
+          : `💸 You sell: ${pending.amount}% of holdings`,
+      `📥 Expected: ${formatters.formatNumber(quote.outputAmountFormatted, 4)} ${outputSymbol}`,
+      `🛡 Minimum received: ${formatters.formatNumber(quote.minimumOutputFormatted || '0', 4)} ${outputSymbol} (${pending.slippageBps / 100}% ${slippageMode}slippage)`,
+    );
+  }
+
+  lines.push(
+    `📉 Price impact: ${impact !== undefined ? `${impact.toFixed(2)}%` : 'unknown'}`,
+    `🛣 Route: ${quote.route}`,
+    `⛽ Est. fee: ${quote.estimatedFee || 'unknown'}`,
+  );
+
+  if (quote.transferFeeBps) {
+    lines.push(`🧾 Token transfer fee: ${quote.transferFeeBps / 100}% (added to slippage)`);
+  }
+
+  if ((impact ?? 0) >= HIGH_IMPACT_WARNING_PCT) {
+    lines.push(``, `⚠️ *High price impact!* You will receive noticeably less than market value.`);
+  }
+
+  const simulation = await simulateSwap(ctx.from!.id, pending.network, pending.quote, pending.walletId, pending.side === 'buy');
+  const blocked = !!checkSimulation(simulation);
+  lines.push(``, ...formatSimulation(simulation));
+  setUserState(ctx.from!.id, { pendingSwap: { ...pending, simulation, blocked } });
+
+  lines.push(``, `_Quotes older than ${QUOTE_TTL_MS / 1000}s are refreshed before sending._`);
+
+  await ctx.reply(lines.join('\n'), {
+    parse_mode: 'Markdown',
+    ...keyboards.getSwapConfirmKeyboard(blocked),
+  });
+}
+
+function formatSimulation(simulation: SwapSimulation | null): string[] {
+  if (!simulation) {
+    return [`🧪 Simulation: unavailable`];
+  }
+  if (!simulation.success) {
+    return [`⛔ *Simulation failed* - this swap would not go through:`, formatters.escapeLegacyMarkdown(simulation.error || 'Unknown error')];
+  }
+
+  const lines = [`🧪 Simulation: passed`];
+  const taxes = [
+    simulation.buyTaxPercent !== undefined ? `buy ${simulation.buyTaxPercent.toFixed(1)}%` : '',
+    simulation.sellTaxPercent !== undefined ? `sell ${simulation.sellTaxPercent.toFixed(1)}%` : '',
+  ].filter(Boolean);
+  if (taxes.length > 0) {
+    lines.push(`🧾 Simulated tax: ${taxes.join(' / ')}`);
+  }
+  if (simulation.sellBackUnavailable) {
+    lines.push(`🧪 Sell-back check: unavailable - sell tax and honeypot status not checked`);
+  }
+
+  if (simulation.sellable === false) {
+    lines.push(``, `⛔ *Can't sell this token back* - likely a honeypot. Only continue if you know why.`);
+  } else if (Math.max(simulation.buyTaxPercent || 0, simulation.sellTaxPercent || 0) >= HIGH_TAX_WARNING_PCT) {
+    lines.push(``, `⚠️ *High token tax!* A large share of this trade goes to the token contract.`);
+  }
+
+  return lines;
+}
+
+async function requoteSwap(userId: number, pending: PendingSwap): Promise<SwapQuote | null> {
+  const { quote } = pending;
+
+  if (pending.exactOutput) {
+    const result = pending.network === 'solana'
+      ? await solana.quoteSolanaExactOutBuy(userId, pending.tokenAddress, pending.exactOutput, pending.slippageBps, pending.quoteCurrency, pending.walletId)
+      : await base.quoteBaseExactOutBuy(userId, pending.tokenAddress, pending.exactOutput, pending.slippageBps, pending.quoteCurrency, pending.walletId);
+    return result.quote || null;
+  }
+
+  if (pending.network === 'solana') {
+    return solana.getJupiterQuote(quote.inputToken, quote.outputToken, quote.inputAmount, pending.slippageBps);
+  }
+
+  const wallet = db.getWalletById(pending.walletId);
+  if (!wallet) return null;
+
+  return base.getBaseSwapQuote(userId, quote.inputToken, quote.outputToken, quote.inputAmount, wallet.address, pending.slippageBps);
 }
 
 
@@ -677,7 +1306,7 @@ async function handleWithdrawAddressInput(ctx: Context, address: string): Promis
 
   let balanceStr = '';
   try {
-    const wallet = db.getWallet(userId, pw.network);
+    const wallet = pw.walletId ? db.getWalletById(pw.walletId) : db.getWallet(userId, pw.network);
     if (wallet) {
       if (!pw.tokenAddress) {
         if (pw.network === 'solana') {
@@ -722,7 +1351,9 @@ async function handleWithdrawAmountInput(ctx: Context, amountText: string): Prom
     pendingWithdraw: { ...pw, amount, stage: 'confirm' },
   });
 
-  const nativeNote = !pw.tokenAddress ? '\n_\u26a0\ufe0f A small gas reserve will be kept in the wallet._' : '';
+  const nativeNote = !pw.tokenAddress
+    ? '\n_\u26a0\ufe0f A small gas reserve will be kept in the wallet._'
+    : pw.transferFeeBps ? `\n${formatters.formatTransferFeeNote(pw.transferFeeBps, isAll ? undefined : amountText)}` : '';
   const displayAmount = isAll ? 'ALL' : amountText;
   const netLabel = pw.network === 'solana' ? 'Solana' : 'Base';
 
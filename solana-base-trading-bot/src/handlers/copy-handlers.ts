@@ -0,0 +1,419 @@
+import { Context, Markup } from 'telegraf';
+import { CopyFilterMode, CopyLeader, PendingCopyLeader } from '../types/copy-trading';
+import * as copyTrading from '../services/copy-trading';
+import * as db from '../services/database';
+import * as formatters from '../utils/formatters';
+import { replyOrEdit } from '../utils/replies';
+import { getUserState, setUserState, clearUserState } from './commands';
+
+// ============ Command Handlers ============
+
+/**
+ * /copy command - show followed wallets
+ */
+export async function handleCopy(ctx: Context): Promise<void> {
+  const userId = ctx.from?.id;
+  if (!userId) return;
+
+  await showLeaders(ctx, userId);
+}
+
+// ============ Callback Handlers ============
+
+/**
+ * Handle all copy-trading related callbacks
+ */
+export async function handleCopyCallback(ctx: Context, action: string): Promise<boolean> {
+  const userId = ctx.from?.id;
+  if (!userId) return false;
+
+  if (action === 'copy_list') {
+    await showLeaders(ctx, userId);
+    return true;
+  }
+
+  if (action === 'copy_cancel') {
+    clearUserState(userId);
+    await ctx.editMessageText('❌ Copy-trading setup cancelled.', {
+      reply_markup: Markup.inlineKeyboard([
+        [Markup.button.callback('🏠 Main Menu', 'menu')],
+      ]).reply_markup,
+    });
+    return true;
+  }
+
+  if (action === 'copy_add') {
+    setUserState(userId, { pendingCopyLeader: { stage: 'enter_address' } });
+    await replyOrEdit(
+      ctx,
+      `🪞 *Follow a Wallet*\n\n` +
+      `Swaps the wallet makes against SOL or ETH are replayed on your active wallet.\n\n` +
+      `*Step 1/4:* Send the Solana or Base address to follow:`,
+      [[Markup.button.callback('❌ Cancel', 'copy_cancel')]]
+    );
+    return true;
+  }
+
+  if (action.startsWith('copy_pause_') || action.startsWith('copy_resume_')) {
+    const paused = action.startsWith('copy_pause_');
+    const leaderId = parseInt(action.replace(paused ? 'copy_pause_' : 'copy_resume_', ''));
+    copyTrading.setCopyLeaderPaused(leaderId, userId, paused);
+    await showLeaders(ctx, userId);
+    return true;
+  }
+
+  if (action.startsWith('copy_del_')) {
+    copyTrading.removeCopyLeader(parseInt(action.replace('copy_del_', '')), userId);
+    await showLeaders(ctx, userId);
+    return true;
+  }
+
+  // Remaining actions belong to the setup flow
+  const pending = getUserState(userId).pendingCopyLeader;
+  if (!pending) return false;
+
+  if (action === 'copy_size_fixed' || action === 'copy_size_pct') {
+    await handleSizingSelected(ctx, userId, action === 'copy_size_fixed' ? 'fixed' : 'percent', pending);
+    return true;
+  }
+
+  if (action === 'copy_max_skip') {
+    await promptFilter(ctx, userId, { ...pending, maxPerTrade: undefined });
+    return true;
+  }
+
+  if (action.startsWith('copy_filter_')) {
+    await handleFilterSelected(ctx, userId, action.replace('copy_filter_', '') as CopyFilterMode, pending);
+    return true;
+  }
+
+  if (action === 'copy_confirm') {
+    await confirmAndCreateLeader(ctx, userId, pending);
+    return true;
+  }
+
+  return false;
+}
+
+/**
+ * Handle text input for copy-trading setup
+ */
+export async function handleCopyTextInput(ctx: Context, text: string): Promise<boolean> {
+  const userId = ctx.from?.id;
+  if (!userId) return false;
+
+  const pending = getUserState(userId).pendingCopyLeader;
+  if (!pending) return false;
+
+  if (pending.stage === 'enter_address') {
+    await handleAddressInput(ctx, userId, text.trim(), pending);
+    return true;
+  }
+
+  if (pending.stage === 'enter_size') {
+    await handleSizeInput(ctx, userId, text, pending);
+    return true;
+  }
+
+  if (pending.stage === 'enter_max') {
+    await handleMaxInput(ctx, userId, text, pending);
+    return true;
+  }
+
+  if (pending.stage === 'enter_filter') {
+    await handleFilterTokensInput(ctx, userId, text, pending);
+    return true;
+  }
+
+  return false;
+}
+
+// ============ Flow Handlers ============
+
+async function handleAddressInput(
+  ctx: Context,
+  userId: number,
+  address: string,
+  pending: PendingCopyLeader
+): Promise<void> {
+  const network = formatters.detectNetworkFromAddress(address);
+  if (!network) {
+    await ctx.reply('❌ Invalid address. Send a Solana or Base wallet address:');
+    return;
+  }
+
+  const wallet = db.getWallet(userId, network);
+  if (!wallet) {
+    await ctx.reply(`❌ You need a ${network === 'solana' ? 'Solana' : 'Base'} wallet to copy this address. Create one with /wallet.`);
+    clearUserState(userId);
+    return;
+  }
+
+  if (wallet.address.toLowerCase() === address.toLowerCase()) {
+    await ctx.reply('❌ That is your own wallet. Send another address:');
+    return;
+  }
+
+  setUserState(userId, {
+    pendingCopyLeader: { ...pending, network, leaderAddress: address, stage: 'select_sizing' },
+  });
+
+  await ctx.reply(
+    `🪞 *Follow* \`${formatters.truncateAddress(address)}\`\n\n` +
+    `*Step 2/4:* How should buys be sized?`,
+    {
+      parse_mode: 'Markdown',
+      ...Markup.inlineKeyboard([
+        [Markup.button.callback(`💰 Fixed ${network === 'solana' ? 'SOL' : 'ETH'} per trade`, 'copy_size_fixed')],
+        [Markup.button.callback("📐 % of the leader's size", 'copy_size_pct')],
+        [Markup.button.callback('❌ Cancel', 'copy_cancel')],
+      ]),
+    }
+  );
+}
+
+async function handleSizingSelected(
+  ctx: Context,
+  userId: number,
+  sizingMode: 'fixed' | 'percent',
+  pending: PendingCopyLeader
+): Promise<void> {
+  setUserState(userId, { pendingCopyLeader: { ...pending, sizingMode, stage: 'enter_size' } });
+
+  const currency = pending.network === 'solana' ? 'SOL' : 'ETH';
+  await replyOrEdit(
+    ctx,
+    sizingMode === 'fixed'
+      ? `*Step 2/4:* How much ${currency} should each copied buy spend?`
+      : `*Step 2/4:* What % of the leader's ${currency} size should you buy with?\n\n_e.g. 10 = the leader spends 5 ${currency}, you spend 0.5 ${currency}_`,
+    [[Markup.button.callback('❌ Cancel', 'copy_cancel')]]
+  );
+}
+
+async function handleSizeInput(
+  ctx: Context,
+  userId: number,
+  text: string,
+  pending: PendingCopyLeader
+): Promise<void> {
+  const sizeValue = parseFloat(text.replace(/[^\d.]/g, ''));
+  if (isNaN(sizeValue) || sizeValue <= 0 || (pending.sizingMode === 'percent' && sizeValue > 1000)) {
+    await ctx.reply('❌ Invalid value. Please enter a positive number:');
+    return;
+  }
+
+  setUserState(userId, { pendingCopyLeader: { ...pending, sizeValue, stage: 'enter_max' } });
+
+  const currency = pending.network === 'solana' ? 'SOL' : 'ETH';
+  await ctx.reply(
+    `*Step 3/4:* Maximum ${currency} per copied buy?\nType an amount or skip:`,
+    {
+      parse_mode: 'Markdown',
+      ...Markup.inlineKeyboard([
+        [Markup.button.callback('⏭ No limit', 'copy_max_skip')],
+        [Markup.button.callback('❌ Cancel', 'copy_cancel')],
+      ]),
+    }
+  );
+}
+
+async function handleMaxInput(
+  ctx: Context,
+  userId: number,
+  text: string,
+  pending: PendingCopyLeader
+): Promise<void> {
+  const maxPerTrade = parseFloat(text.replace(/[^\d.]/g, ''));
+  if (isNaN(maxPerTrade) || maxPerTrade <= 0) {
+    await ctx.reply('❌ Invalid amount. Please enter a positive number:');
+    return;
+  }
+
+  await promptFilter(ctx, userId, { ...pending, maxPerTrade });
+}
+
+async function promptFilter(ctx: Context, userId: number, pending: PendingCopyLeader): Promise<void> {
+  setUserState(userId, { pendingCopyLeader: { ...pending, stage: 'select_filter' } });
+
+  await replyOrEdit(
+    ctx,
+    `*Step 4/4:* Which tokens should be copied?`,
+    [
+      [Markup.button.callback('🌐 All tokens', 'copy_filter_all')],
+      [
+        Markup.button.callback('✅ Only these…', 'copy_filter_allow'),
+        Markup.button.callback('🚫 All except…', 'copy_filter_deny'),
+      ],
+      [Markup.button.callback('❌ Cancel', 'copy_cancel')],
+    ]
+  );
+}
+
+async function handleFilterSelected(
+  ctx: Context,
+  userId: number,
+  filterMode: CopyFilterMode,
+  pending: PendingCopyLeader
+): Promise<void> {
+  if (filterMode === 'all') {
+    await showConfirmation(ctx, userId, { ...pending, filterMode, filterTokens: [] });
+    return;
+  }
+
+  setUserState(userId, { pendingCopyLeader: { ...pending, filterMode, stage: 'enter_filter' } });
+  await replyOrEdit(
+    ctx,
+    `Send the token addresses to ${filterMode === 'allow' ? 'copy' : 'ignore'}, separated by spaces or commas:`,
+    [[Markup.button.callback('❌ Cancel', 'copy_cancel')]]
+  );
+}
+
+async function handleFilterTokensInput(
+  ctx: Context,
+  userId: number,
+  text: string,
+  pending: PendingCopyLeader
+): Promise<void> {
+  const tokens = text.split(/[\s,]+/).filter(Boolean);
+  const invalid = tokens.filter(t => formatters.detectNetworkFromAddress(t) !== pending.network);
+
+  if (tokens.length === 0 || invalid.length > 0) {
+    await ctx.reply(`❌ Invalid token address${invalid.length > 1 ? 'es' : ''}. Send ${pending.network === 'solana' ? 'Solana' : 'Base'} token addresses:`);
+    return;
+  }
+
+  await showConfirmation(ctx, userId, { ...pending, filterTokens: tokens });
+}
+
+async function showConfirmation(ctx: Context, userId: number, pending: PendingCopyLeader): Promise<void> {
+  setUserState(userId, { pendingCopyLeader: { ...pending, stage: 'confirm' } });
+
+  const wallet = db.getWallet(userId, pending.network!);
+  const message = [
+    `🪞 *Confirm Copy-Trading*`,
+    ``,
+    `👤 Leader: \`${pending.leaderAddress}\``,
+    `📍 Network: ${pending.network === 'solana' ? 'Solana' : 'Base'}`,
+    `👛 Your wallet: ${wallet?.name || '-'}`,
+    ``,
+    ...formatRules(pending),
+    ``,
+    `_Sells are mirrored as the same % of your holdings. Only trades from now on are copied._`,
+  ].join('\n');
+
+  await replyOrEdit(ctx, message, [
+    [Markup.button.callback('✅ Start Copying', 'copy_confirm')],
+    [Markup.button.callback('❌ Cancel', 'copy_cancel')],
+  ]);
+}
+
+async function confirmAndCreateLeader(
+  ctx: Context,
+  userId: number,
+  pending: PendingCopyLeader
+): Promise<void> {
+  if (pending.stage !== 'confirm' || !pending.network || !pending.leaderAddress || !pending.sizingMode || !pending.sizeValue) {
+    await ctx.reply('❌ Session expired. Please start again.');
+    clearUserState(userId);
+    return;
+  }
+
+  try {
+    const leader = copyTrading.createCopyLeader({
+      telegramUserId: userId,
+      chatId: ctx.chat!.id,
+      network: pending.network,
+      walletId: db.getWallet(userId, pending.network)?.id,
+      leaderAddress: pending.leaderAddress,
+      sizingMode: pending.sizingMode,
+      sizeValue: pending.sizeValue,
+      maxPerTrade: pending.maxPerTrade,
+      filterMode: pending.filterMode || 'all',
+      filterTokens: pending.filterTokens || [],
+    });
+
+    await ctx.editMessageText(
+      `✅ *Copying* \`${formatters.truncateAddress(leader.leaderAddress)}\`\n\n` +
+      `I'll notify you of every trade I mirror. Keep your wallet unlocked so trades can be signed.`,
+      {
+        parse_mode: 'Markdown',
+        reply_markup: Markup.inlineKeyboard([
+          [Markup.button.callback('📋 Followed Wallets', 'copy_list')],
+          [Markup.button.callback('🏠 Main Menu', 'menu')],
+        ]).reply_markup,
+      }
+    );
+
+    clearUserState(userId);
+
+  } catch (error: any) {
+    await ctx.reply(`❌ Failed to follow wallet: ${error.message}`);
+  }
+}
+
+// ============ View Leaders ============
+
+async function showLeaders(ctx: Context, userId: number): Promise<void> {
+  const leaders = copyTrading.getCopyLeaders(userId);
+
+  let message = '🪞 *Copy-Trading*\n\n';
+  const buttons: any[][] = [];
+
+  if (leaders.length === 0) {
+    message += '_You are not following any wallets._\n\nFollow one to mirror its swaps automatically.';
+  }
+
+  for (const leader of leaders) {
+    message += formatLeader(leader);
+    buttons.push([
+      leader.status === 'active'
+        ? Markup.button.callback(`⏸ Pause #${leader.id}`, `copy_pause_${leader.id}`)
+        : Markup.button.callback(`▶️ Resume #${leader.id}`, `copy_resume_${leader.id}`),
+      Markup.button.callback(`🗑 Remove #${leader.id}`, `copy_del_${leader.id}`),
+    ]);
+  }
+
+  if (leaders.length < copyTrading.MAX_LEADERS_PER_USER) {
+    buttons.push([Markup.button.callback('➕ Follow Wallet', 'copy_add')]);
+  }
+  buttons.push([Markup.button.callback('🏠 Main Menu', 'menu')]);
+
+  await replyOrEdit(ctx, message, buttons);
+}
+
+// ============ Helpers ============
+
+function formatLeader(leader: CopyLeader): string {
+  const networkEmoji = leader.network === 'solana' ? '☀️' : '🔵';
+  const statusEmoji = leader.status === 'active' ? '🟢' : '⏸';
+
+  let text = `${statusEmoji} #${leader.id} ${networkEmoji} \`${formatters.truncateAddress(leader.leaderAddress)}\`\n`;
+  for (const line of formatRules(leader)) {
+    text += `   ${line}\n`;
+  }
+  text += `   Copied: ${leader.tradesCopied} trade${leader.tradesCopied === 1 ? '' : 's'}\n`;
+  if (leader.error) {
+    text += `   ⚠️ Last error: ${leader.error}\n`;
+  }
+
+  return text + '\n';
+}
+
+function formatRules(rules: Partial<Pick<CopyLeader, 'network' | 'sizingMode' | 'sizeValue' | 'maxPerTrade' | 'filterMode' | 'filterTokens'>>): string[] {
+  const currency = rules.network === 'solana' ? 'SOL' : 'ETH';
+  const size = rules.sizingMode === 'fixed'
+    ? `${rules.sizeValue} ${currency} per buy`
+    : `${rules.sizeValue}% of leader's size`;
+  const tokens = rules.filterTokens?.length || 0;
+  const filter = rules.filterMode === 'allow'
+    ? `only ${tokens} token${tokens === 1 ? '' : 's'}`
+    : rules.filterMode === 'deny'
+      ? `all except ${tokens} token${tokens === 1 ? '' : 's'}`
+      : 'all tokens';
+
+  return [
+    `Size: ${size}${rules.maxPerTrade ? ` (max ${rules.maxPerTrade} ${currency})` : ''}`,
+    `Tokens: ${filter}`,
+  ];
+}
+
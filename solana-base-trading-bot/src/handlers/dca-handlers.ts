@@ -0,0 +1,466 @@
+import { Context, Markup } from 'telegraf';
+import { Network } from '../types';
+import { DcaInterval, DcaSchedule, PendingDcaSchedule } from '../types/trigger-orders';
+import * as triggerOrders from '../services/trigger-orders';
+import * as dexscreener from '../services/dexscreener';
+import * as db from '../services/database';
+import { formatAmount } from '../utils/formatters';
+import { replyOrEdit } from '../utils/replies';
+import { getUserState, setUserState, clearUserState } from './commands';
+
+const INTERVAL_LABELS: Record<DcaInterval, string> = {
+  hourly: 'Every hour',
+  daily: 'Every day',
+  weekly: 'Every week',
+};
+
+const AMOUNT_PRESETS: Record<Network, string[]> = {
+  solana: ['0.05', '0.1', '0.25', '0.5'],
+  base: ['0.005', '0.01', '0.025', '0.05'],
+};
+
+const MAX_EXECUTIONS = 1000;
+
+// ============ Command Handlers ============
+
+/**
+ * /dca command - show DCA schedules and management buttons
+ */
+export async function handleDca(ctx: Context): Promise<void> {
+  const userId = ctx.from?.id;
+  if (!userId) return;
+
+  await showSchedules(ctx, userId);
+}
+
+// ============ Callback Handlers ============
+
+/**
+ * Handle all DCA related callbacks
+ */
+export async function handleDcaCallback(ctx: Context, action: string): Promise<boolean> {
+  const userId = ctx.from?.id;
+  if (!userId) return false;
+
+  if (action === 'dca_menu') {
+    await showSchedules(ctx, userId);
+    return true;
+  }
+
+  if (action === 'dca_new') {
+    await startNewSchedule(ctx, userId);
+    return true;
+  }
+
+  if (action === 'dca_cancel') {
+    clearUserState(userId);
+    await ctx.editMessageText('❌ DCA setup cancelled.', {
+      reply_markup: Markup.inlineKeyboard([
+        [Markup.button.callback('🔁 DCA Schedules', 'dca_menu')],
+        [Markup.button.callback('🏠 Main Menu', 'menu')],
+      ]).reply_markup,
+    });
+    return true;
+  }
+
+  if (action.startsWith('dca_pause_')) {
+    const scheduleId = parseInt(action.replace('dca_pause_', ''));
+    triggerOrders.pauseDcaSchedule(scheduleId, userId);
+    await showSchedules(ctx, userId);
+    return true;
+  }
+
+  if (action.startsWith('dca_resume_')) {
+    const scheduleId = parseInt(action.replace('dca_resume_', ''));
+    triggerOrders.resumeDcaSchedule(scheduleId, userId);
+    await showSchedules(ctx, userId);
+    return true;
+  }
+
+  if (action.startsWith('dca_stop_')) {
+    const scheduleId = parseInt(action.replace('dca_stop_', ''));
+    triggerOrders.cancelDcaSchedule(scheduleId, userId);
+    await showSchedules(ctx, userId);
+    return true;
+  }
+
+  // Remaining actions belong to the creation flow
+  const pending = getUserState(userId).pendingDcaSchedule;
+  if (!pending) return false;
+
+  if (action.startsWith('dca_net_')) {
+    await handleNetworkSelected(ctx, userId, action.replace('dca_net_', '') as Network, pending);
+    return true;
+  }
+
+  if (action.startsWith('dca_amt_')) {
+    await handleAmountInput(ctx, userId, action.replace('dca_amt_', ''), pending);
+    return true;
+  }
+
+  if (action.startsWith('dca_int_')) {
+    await handleIntervalSelected(ctx, userId, action.replace('dca_int_', '') as DcaInterval, pending);
+    return true;
+  }
+
+  if (action.startsWith('dca_cnt_')) {
+    await handleCountInput(ctx, userId, action.replace('dca_cnt_', ''), pending);
+    return true;
+  }
+
+  if (action === 'dca_confirm') {
+    await confirmAndCreateSchedule(ctx, userId, pending);
+    return true;
+  }
+
+  return false;
+}
+
+/**
+ * Handle text input for DCA setup
+ */
+export async function handleDcaTextInput(ctx: Context, text: string): Promise<boolean> {
+  const userId = ctx.from?.id;
+  if (!userId) return false;
+
+  const pending = getUserState(userId).pendingDcaSchedule;
+  if (!pending) return false;
+
+  if (pending.stage === 'enter_token') {
+    await handleTokenAddressInput(ctx, userId, text, pending);
+    return true;
+  }
+
+  if (pending.stage === 'enter_amount') {
+    await handleAmountInput(ctx, userId, text, pending);
+    return true;
+  }
+
+  if (pending.stage === 'enter_count') {
+    await handleCountInput(ctx, userId, text, pending);
+    return true;
+  }
+
+  return false;
+}
+
+// ============ Flow Handlers ============
+
+async function startNewSchedule(ctx: Context, userId: number): Promise<void> {
+  setUserState(userId, { pendingDcaSchedule: { stage: 'select_network' } });
+
+  await replyOrEdit(
+    ctx,
+    `🔁 *New DCA Schedule*\n\n` +
+    `Buy a token automatically at a fixed interval.\n\n` +
+    `Select the network:`,
+    [
+      [
+        Markup.button.callback('☀️ Solana', 'dca_net_solana'),
+        Markup.button.callback('🔵 Base', 'dca_net_base'),
+      ],
+      [Markup.button.callback('❌ Cancel', 'dca_cancel')],
+    ]
+  );
+}
+
+async function handleNetworkSelected(
+  ctx: Context,
+  userId: number,
+  network: Network,
+  pending: PendingDcaSchedule
+): Promise<void> {
+  setUserState(userId, {
+    pendingDcaSchedule: { ...pending, network, stage: 'enter_token' },
+  });
+
+  const networkName = network === 'solana' ? 'Solana' : 'Base';
+
+  await replyOrEdit(
+    ctx,
+    `📍 Network: *${networkName}*\n\n` +
+    `Paste the token contract address:`,
+    [[Markup.button.callback('❌ Cancel', 'dca_cancel')]]
+  );
+}
+
+async function handleTokenAddressInput(
+  ctx: Context,
+  userId: number,
+  address: string,
+  pending: PendingDcaSchedule
+): Promise<void> {
+  const network = pending.network!;
+  const isValidSolana = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(address);
+  const isValidEvm = /^0x[a-fA-F0-9]{40}$/.test(address);
+
+  if (network === 'solana' && !isValidSolana) {
+    await ctx.reply('❌ Invalid Solana address. Please enter a valid token address:');
+    return;
+  }
+  if (network === 'base' && !isValidEvm) {
+    await ctx.reply('❌ Invalid Base address. Please enter a valid 0x token address:');
+    return;
+  }
+
+  await ctx.reply('🔍 Fetching token info...');
+
+  const tokenInfo = await dexscreener.getTokenInfo(address, network);
+
+  if (!tokenInfo) {
+    await ctx.reply(
+      '❌ Token not found or has no liquidity.\n\nPlease verify the address and try again:',
+      Markup.inlineKeyboard([
+        [Markup.button.callback('❌ Cancel', 'dca_cancel')],
+      ])
+    );
+    return;
+  }
+
+  setUserState(userId, {
+    pendingDcaSchedule: {
+      ...pending,
+      tokenAddress: address,
+      tokenSymbol: tokenInfo.symbol,
+      currentPrice: parseFloat(tokenInfo.priceUsd),
+      stage: 'enter_amount',
+    },
+  });
+
+  const currency = network === 'solana' ? 'SOL' : 'ETH';
+  const presets = AMOUNT_PRESETS[network];
+
+  await ctx.reply(
+    `🔁 *DCA* - ${tokenInfo.symbol}\n\n` +
+    `📍 Token: *${tokenInfo.name}*\n` +
+    `💵 Current Price: $${formatPrice(parseFloat(tokenInfo.priceUsd))}\n\n` +
+    `How much ${currency} should each buy spend?\n` +
+    `Select an amount or type a custom value:`,
+    {
+      parse_mode: 'Markdown',
+      ...Markup.inlineKeyboard([
+        presets.slice(0, 2).map(a => Markup.button.callback(`${a} ${currency}`, `dca_amt_${a}`)),
+        presets.slice(2).map(a => Markup.button.callback(`${a} ${currency}`, `dca_amt_${a}`)),
+        [Markup.button.callback('❌ Cancel', 'dca_cancel')],
+      ]),
+    }
+  );
+}
+
+async function handleAmountInput(
+  ctx: Context,
+  userId: number,
+  text: string,
+  pending: PendingDcaSchedule
+): Promise<void> {
+  const amount = parseFloat(text.replace(/[^\d.]/g, ''));
+
+  if (isNaN(amount) || amount <= 0) {
+    const currency = pending.network === 'solana' ? 'SOL' : 'ETH';
+    await ctx.reply(`❌ Invalid amount. Please enter a valid ${currency} amount:`);
+    return;
+  }
+
+  setUserState(userId, {
+    pendingDcaSchedule: { ...pending, amountPerBuy: amount.toString(), stage: 'select_interval' },
+  });
+
+  await replyOrEdit(
+    ctx,
+    `🔁 *DCA* - ${pending.tokenSymbol}\n\n` +
+    `💰 Per Buy: ${amount} ${pending.network === 'solana' ? 'SOL' : 'ETH'}\n\n` +
+    `How often should it buy?`,
+    [
+      [
+        Markup.button.callback('Hourly', 'dca_int_hourly'),
+        Markup.button.callback('Daily', 'dca_int_daily'),
+        Markup.button.callback('Weekly', 'dca_int_weekly'),
+      ],
+      [Markup.button.callback('❌ Cancel', 'dca_cancel')],
+    ]
+  );
+}
+
+async function handleIntervalSelected(
+  ctx: Context,
+  userId: number,
+  interval: DcaInterval,
+  pending: PendingDcaSchedule
+): Promise<void> {
+  if (!INTERVAL_LABELS[interval]) return;
+
+  setUserState(userId, {
+    pendingDcaSchedule: { ...pending, interval, stage: 'enter_count' },
+  });
+
+  await replyOrEdit(
+    ctx,
+    `🔁 *DCA* - ${pending.tokenSymbol}\n\n` +
+    `⏱ Interval: ${INTERVAL_LABELS[interval]}\n\n` +
+    `How many buys in total?\n` +
+    `Select a count or type a custom number:`,
+    [
+      [
+        Markup.button.callback('5', 'dca_cnt_5'),
+        Markup.button.callback('10', 'dca_cnt_10'),
+        Markup.button.callback('20', 'dca_cnt_20'),
+        Markup.button.callback('30', 'dca_cnt_30'),
+      ],
+      [Markup.button.callback('❌ Cancel', 'dca_cancel')],
+    ]
+  );
+}
+
+async function handleCountInput(
+  ctx: Context,
+  userId: number,
+  text: string,
+  pending: PendingDcaSchedule
+): Promise<void> {
+  const count = parseInt(text.replace(/[^\d]/g, ''));
+
+  if (isNaN(count) || count <= 0 || count > MAX_EXECUTIONS) {
+    await ctx.reply(`❌ Invalid count. Please enter a number between 1 and ${MAX_EXECUTIONS}:`);
+    return;
+  }
+
+  const updated: PendingDcaSchedule = { ...pending, totalExecutions: count, stage: 'confirm' };
+  setUserState(userId, { pendingDcaSchedule: updated });
+
+  const currency = updated.network === 'solana' ? 'SOL' : 'ETH';
+  const networkName = updated.network === 'solana' ? 'Solana' : 'Base';
+  const total = parseFloat(updated.amountPerBuy!) * count;
+
+  const message = [
+    `🔁 *Confirm DCA Schedule*`,
+    ``,
+    `📊 Token: *${updated.tokenSymbol}*`,
+    `📍 Network: ${networkName}`,
+    ``,
+    `💰 Per Buy: ${updated.amountPerBuy} ${currency}`,
+    `⏱ Interval: ${INTERVAL_LABELS[updated.interval!]}`,
+    `🔢 Buys: ${count}`,
+    `💵 Total: ${formatAmount(total)} ${currency}`,
+    ``,
+    `_The first buy runs within a minute. Your wallet must stay unlocked for buys to execute._`,
+  ].join('\n');
+
+  await replyOrEdit(ctx, message, [
+    [Markup.button.callback('✅ Start DCA', 'dca_confirm')],
+    [Markup.button.callback('❌ Cancel', 'dca_cancel')],
+  ]);
+}
+
+async function confirmAndCreateSchedule(
+  ctx: Context,
+  userId: number,
+  pending: PendingDcaSchedule
+): Promise<void> {
+  if (!pending.tokenAddress || !pending.amountPerBuy || !pending.interval || !pending.totalExecutions) {
+    await ctx.reply('❌ Session expired. Please start again.');
+    clearUserState(userId);
+    return;
+  }
+
+  try {
+    const settings = db.getTradeSettings(userId, pending.network!);
+
+    const schedule = triggerOrders.createDcaSchedule({
+      telegramUserId: userId,
+      chatId: ctx.chat!.id,
+      network: pending.network!,
+      walletId: db.getWallet(userId, pending.network!)?.id,
+      tokenAddress: pending.tokenAddress,
+      tokenSymbol: pending.tokenSymbol!,
+      amountPerBuy: pending.amountPerBuy,
+      interval: pending.interval,
+      totalExecutions: pending.totalExecutions,
+      slippageBps: settings.slippageBps,
+    });
+
+    await ctx.editMessageText(
+      `✅ *DCA Schedule Created!*\n\n` +
+      `🔁 #${schedule.id} - ${schedule.amountPerBuy} ${schedule.network === 'solana' ? 'SOL' : 'ETH'} ` +
+      `into *${schedule.tokenSymbol}*, ${INTERVAL_LABELS[schedule.interval].toLowerCase()}, ` +
+      `${schedule.totalExecutions} times.\n\n` +
+      `I'll notify you after each buy.`,
+      {
+        parse_mode: 'Markdown',
+        reply_markup: Markup.inlineKeyboard([
+          [Markup.button.callback('🔁 DCA Schedules', 'dca_menu')],
+          [Markup.button.callback('🏠 Main Menu', 'menu')],
+        ]).reply_markup,
+      }
+    );
+
+    clearUserState(userId);
+
+  } catch (error: any) {
+    await ctx.reply(`❌ Failed to create DCA schedule: ${error.message}`);
+  }
+}
+
+// ============ View Schedules ============
+
+async function showSchedules(ctx: Context, userId: number): Promise<void> {
+  const schedules = triggerOrders.getDcaSchedules(userId);
+
+  let message = '🔁 *DCA Schedules*\n\n';
+  const buttons: any[][] = [];
+
+  if (schedules.length === 0) {
+    message += 'Buy a token automatically every hour, day or week.\n\n_No active schedules._';
+  }
+
+  for (const schedule of schedules) {
+    message += formatSchedule(schedule);
+
+    buttons.push([
+      schedule.status === 'paused'
+        ? Markup.button.callback(`▶️ Resume #${schedule.id}`, `dca_resume_${schedule.id}`)
+        : Markup.button.callback(`⏸ Pause #${schedule.id}`, `dca_pause_${schedule.id}`),
+      Markup.button.callback(`❌ Cancel #${schedule.id}`, `dca_stop_${schedule.id}`),
+    ]);
+  }
+
+  buttons.push([Markup.button.callback('➕ New DCA', 'dca_new')]);
+  buttons.push([Markup.button.callback('🏠 Main Menu', 'menu')]);
+
+  await replyOrEdit(ctx, message, buttons);
+}
+
+// ============ Helpers ============
+
+function formatSchedule(schedule: DcaSchedule): string {
+  const networkEmoji = schedule.network === 'solana' ? '☀️' : '🔵';
+  const currency = schedule.network === 'solana' ? 'SOL' : 'ETH';
+  const statusLabel = schedule.status === 'paused' ? ' ⏸ _paused_' : '';
+
+  let text = `🔁 #${schedule.id} ${networkEmoji} *${schedule.tokenSymbol}*${statusLabel}\n`;
+  text += `   ${schedule.amountPerBuy} ${currency} ${schedule.interval} • ${schedule.executionsDone}/${schedule.totalExecutions} done\n`;
+  text += `   Spent: ${formatAmount(schedule.totalSpent)} ${currency}\n`;
+
+  if (schedule.status === 'active') {
+    text += `   Next: ${formatTimeUntil(schedule.nextRunAt)}\n`;
+  }
+
+  return text + '\n';
+}
+
+function formatTimeUntil(timestamp: number): string {
+  const minutes = Math.max(0, Math.round((timestamp - Date.now()) / 60000));
+  if (minutes < 1) return 'now';
+  if (minutes < 60) return `in ${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `in ${hours}h ${minutes % 60}m`;
+  return `in ${Math.floor(hours / 24)}d ${hours % 24}h`;
+}
+
+function formatPrice(price: number): string {
+  if (price === 0) return '0';
+  if (price < 0.00000001) return price.toExponential(2);
+  if (price < 0.0001) return price.toFixed(8);
+  if (price < 0.01) return price.toFixed(6);
+  if (price < 1) return price.toFixed(4);
+  return price.toFixed(2);
+}
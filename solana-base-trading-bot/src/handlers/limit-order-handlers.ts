@@ -1,10 +1,11 @@
 import { Context, Markup } from 'telegraf';
-import { Message } from 'telegraf/types';
-import { Network, TokenInfo } from '../types';
-import { PendingTriggerOrder, TriggerOrder } from '../types/trigger-orders';
+import { Network } from '../types';
+import { PendingTriggerOrder, TriggerOrder, TriggerType } from '../types/trigger-orders';
 import * as triggerOrders from '../services/trigger-orders';
 import * as dexscreener from '../services/dexscreener';
-import * as keyboards from '../utils/keyboards';
+import * as db from '../services/database';
+import { getQuoteSymbol } from '../utils/formatters';
+import { replyOrEdit } from '../utils/replies';
 import { getUserState, setUserState, clearUserState } from './commands';
 
 // ============ Command Handlers ============
@@ -86,11 +87,31 @@ export async function handleLimitCallback(ctx: Context, action: string): Promise
   }
   
   if (action.startsWith('limit_trigger_')) {
-    const triggerType = action.replace('limit_trigger_', '') as 'price' | 'marketcap';
+    const triggerType = action.replace('limit_trigger_', '') as TriggerType;
     await handleTriggerTypeSelected(ctx, userId, triggerType);
     return true;
   }
   
+  if (action.startsWith('limit_trail_')) {
+    const state = getUserState(userId);
+    const pending = (state as any).pendingTriggerOrder as PendingTriggerOrder | undefined;
+    if (!pending) return false;
+    await handleTrailInput(ctx, userId, action.replace('limit_trail_', ''), pending);
+    return true;
+  }
+  
+  if (action.startsWith('limit_exp_')) {
+    const state = getUserState(userId);
+    const pending = (state as any).pendingTriggerOrder as PendingTriggerOrder | undefined;
+    if (!pending) return false;
+    await handleExpiryInput(ctx, userId, `${action.replace('limit_exp_', '')}m`, pending);
+    return true;
+  }
+  
+  if (action.startsWith('limit_bk_')) {
+    return handleBracketCallback(ctx, userId, action.replace('limit_bk_', ''));
+  }
+  
   if (action.startsWith('limit_cond_')) {
     const condition = action.replace('limit_cond_', '') as 'above' | 'below';
     await handleConditionSelected(ctx, userId, condition);
@@ -155,11 +176,36 @@ export async function handleLimitTextInput(ctx: Context, text: string): Promise<
     return true;
   }
   
+  if (pending.stage === 'enter_trail') {
+    await handleTrailInput(ctx, userId, text, pending);
+    return true;
+  }
+  
   if (pending.stage === 'enter_amount') {
     await handleAmountInput(ctx, userId, text, pending);
     return true;
   }
   
+  if (pending.stage === 'select_expiry') {
+    await handleExpiryInput(ctx, userId, text, pending);
+    return true;
+  }
+  
+  if (pending.stage === 'bracket_tp') {
+    await handleBracketTakeProfit(ctx, userId, text, pending);
+    return true;
+  }
+  
+  if (pending.stage === 'bracket_sl') {
+    await handleBracketStopLoss(ctx, userId, text, pending);
+    return true;
+  }
+  
+  if (pending.stage === 'bracket_amount') {
+    await handleBracketAmount(ctx, userId, text, pending);
+    return true;
+  }
+  
   return false;
 }
 
@@ -269,6 +315,18 @@ async function handleTokenAddressInput(
   
   const sideEmoji = pending.side === 'buy' ? '🟢' : '🔴';
   
+  const triggerButtons = [
+    [
+      Markup.button.callback('💵 Price Target', 'limit_trigger_price'),
+      Markup.button.callback('🏛 Market Cap', 'limit_trigger_marketcap'),
+    ],
+  ];
+  
+  // Trailing stops only make sense for exits
+  if (pending.side === 'sell') {
+    triggerButtons.push([Markup.button.callback('📉 Trailing Stop', 'limit_trigger_trailing')]);
+  }
+  
   await ctx.reply(
     `${sideEmoji} *Limit ${pending.side!.toUpperCase()}* - ${tokenInfo.symbol}\n\n` +
     `📍 Token: *${tokenInfo.name}*\n` +
@@ -278,10 +336,7 @@ async function handleTokenAddressInput(
     {
       parse_mode: 'Markdown',
       ...Markup.inlineKeyboard([
-        [
-          Markup.button.callback('💵 Price Target', 'limit_trigger_price'),
-          Markup.button.callback('🏛 Market Cap', 'limit_trigger_marketcap'),
-        ],
+        ...triggerButtons,
         [Markup.button.callback('❌ Cancel', 'limit_cancel')],
       ]),
     }
@@ -291,13 +346,18 @@ async function handleTokenAddressInput(
 async function handleTriggerTypeSelected(
   ctx: Context, 
   userId: number, 
-  triggerType: 'price' | 'marketcap'
+  triggerType: TriggerType
 ): Promise<void> {
   const state = getUserState(userId);
   const pending = (state as any).pendingTriggerOrder as PendingTriggerOrder;
   
   if (!pending) return;
   
+  if (triggerType === 'trailing') {
+    await startTrailingStop(ctx, userId, pending);
+    return;
+  }
+  
   setUserState(userId, {
     pendingTriggerOrder: {
       ...pending,
@@ -310,11 +370,6 @@ async function handleTriggerTypeSelected(
     ? `$${formatPrice(pending.currentPrice || 0)}`
     : `$${formatNumber(pending.currentMcap || 0)}`;
   
-  // For buys: typically want to buy when price drops (below)
-  // For sells: typically want to sell when price rises (above)
-  const defaultCondition = pending.side === 'buy' ? 'below' : 'above';
-  const otherCondition = pending.side === 'buy' ? 'above' : 'below';
-  
   const belowLabel = pending.side === 'buy' 
     ? '📉 Below (Buy the Dip)' 
     : '📉 Below (Stop Loss)';
@@ -375,6 +430,76 @@ async function handleConditionSelected(
   );
 }
 
+async function startTrailingStop(
+  ctx: Context,
+  userId: number,
+  pending: PendingTriggerOrder
+): Promise<void> {
+  setUserState(userId, {
+    pendingTriggerOrder: {
+      ...pending,
+      triggerType: 'trailing',
+      triggerCondition: 'below',
+      stage: 'enter_trail',
+    },
+  } as any);
+  
+  await ctx.editMessageText(
+    `📊 *${pending.tokenSymbol}* - Trailing Stop\n\n` +
+    `Current: $${formatPrice(pending.currentPrice || 0)}\n\n` +
+    `The stop follows the highest price seen and sells when the price drops this far from the peak.\n\n` +
+    `Select or enter the trail percentage:`,
+    {
+      parse_mode: 'Markdown',
+      reply_markup: Markup.inlineKeyboard([
+        [
+          Markup.button.callback('5%', 'limit_trail_5'),
+          Markup.button.callback('10%', 'limit_trail_10'),
+          Markup.button.callback('15%', 'limit_trail_15'),
+        ],
+        [
+          Markup.button.callback('20%', 'limit_trail_20'),
+          Markup.button.callback('30%', 'limit_trail_30'),
+          Markup.button.callback('50%', 'limit_trail_50'),
+        ],
+        [Markup.button.callback('❌ Cancel', 'limit_cancel')],
+      ]).reply_markup,
+    }
+  );
+}
+
+async function handleTrailInput(
+  ctx: Context,
+  userId: number,
+  text: string,
+  pending: PendingTriggerOrder
+): Promise<void> {
+  const trailPercent = parseFloat(text.replace(/[%\s]/g, ''));
+  
+  if (isNaN(trailPercent) || trailPercent <= 0 || trailPercent >= 100) {
+    await ctx.reply('❌ Invalid percentage. Please enter a number between 0 and 100 (e.g. `10` for 10%):', {
+      parse_mode: 'Markdown',
+    });
+    return;
+  }
+  
+  const stopPrice = triggerOrders.getTrailingStopPrice(pending.currentPrice || 0, trailPercent);
+  const updated: PendingTriggerOrder = {
+    ...pending,
+    trailPercent,
+    triggerValue: stopPrice,
+    stage: 'enter_amount',
+  };
+  
+  setUserState(userId, { pendingTriggerOrder: updated } as any);
+  
+  await promptForAmount(
+    ctx,
+    updated,
+    `Trailing ${trailPercent}% (initial stop $${formatPrice(stopPrice)})`
+  );
+}
+
 async function handlePriceInput(
   ctx: Context,
   userId: number,
@@ -382,7 +507,7 @@ async function handlePriceInput(
   pending: PendingTriggerOrder
 ): Promise<void> {
   // Parse the target value
-  let targetValue = parseTargetValue(text);
+  const targetValue = parseTargetValue(text);
   
   if (!targetValue || targetValue <= 0) {
     await ctx.reply(
@@ -401,21 +526,27 @@ async function handlePriceInput(
     },
   } as any);
   
-  const currency = pending.network === 'solana' ? 'SOL' : 'ETH';
+  await promptForAmount(ctx, pending, `$${formatNumber(targetValue)}`);
+}
+
+async function promptForAmount(
+  ctx: Context,
+  pending: PendingTriggerOrder,
+  triggerLabel: string
+): Promise<void> {
+  const { quoteCurrency } = db.getTradeSettings(ctx.from!.id, pending.network!);
+  const currency = getQuoteSymbol(pending.network!, quoteCurrency);
+  const presets = quoteCurrency === 'usdc' ? ['10', '50', '100'] : ['0.1', '0.5', '1'];
   
   if (pending.side === 'buy') {
     await ctx.reply(
       `📊 *${pending.tokenSymbol}* - Limit BUY\n\n` +
-      `Trigger: $${formatNumber(targetValue)}\n\n` +
+      `Trigger: ${triggerLabel}\n\n` +
       `Enter the amount of *${currency}* to spend:`,
       {
         parse_mode: 'Markdown',
         ...Markup.inlineKeyboard([
-          [
-            Markup.button.callback('0.1 ' + currency, 'limit_amt_0.1'),
-            Markup.button.callback('0.5 ' + currency, 'limit_amt_0.5'),
-            Markup.button.callback('1 ' + currency, 'limit_amt_1'),
-          ],
+          presets.map(amt => Markup.button.callback(`${amt} ${currency}`, `limit_amt_${amt}`)),
           [Markup.button.callback('❌ Cancel', 'limit_cancel')],
         ]),
       }
@@ -423,8 +554,8 @@ async function handlePriceInput(
   } else {
     await ctx.reply(
       `📊 *${pending.tokenSymbol}* - Limit SELL\n\n` +
-      `Trigger: $${formatNumber(targetValue)}\n\n` +
-      `Enter the percentage of your holdings to sell:`,
+      `Trigger: ${triggerLabel}\n\n` +
+      `Enter the percentage of your holdings to sell for *${currency}*:`,
       {
         parse_mode: 'Markdown',
         ...Markup.inlineKeyboard([
@@ -473,11 +604,55 @@ async function handleAmountInput(
       ...pending,
       amount,
       amountType,
-      stage: 'confirm',
+      stage: 'select_expiry',
     },
   } as any);
   
-  await showConfirmation(ctx, userId, { ...pending, amount, amountType });
+  await ctx.reply(
+    `⌛ *Order Expiry*\n\n` +
+    `How long should this order stay active?\n` +
+    `Select an option or type a duration (e.g. \`90m\`, \`12h\`, \`3d\`) or a UTC date (e.g. \`2026-12-31 18:00\`):`,
+    {
+      parse_mode: 'Markdown',
+      ...Markup.inlineKeyboard([
+        [
+          Markup.button.callback('1h', 'limit_exp_60'),
+          Markup.button.callback('24h', 'limit_exp_1440'),
+          Markup.button.callback('7d', 'limit_exp_10080'),
+          Markup.button.callback('30d', 'limit_exp_43200'),
+        ],
+        [Markup.button.callback('♾ Never', 'limit_exp_0')],
+        [Markup.button.callback('❌ Cancel', 'limit_cancel')],
+      ]),
+    }
+  );
+}
+
+async function handleExpiryInput(
+  ctx: Context,
+  userId: number,
+  text: string,
+  pending: PendingTriggerOrder
+): Promise<void> {
+  const expiresAt = parseExpiry(text);
+  
+  if (expiresAt === null) {
+    await ctx.reply(
+      '❌ Invalid expiry. Enter a duration like `90m`, `12h` or `3d`, a future UTC date like `2026-12-31 18:00`, or `never`:',
+      { parse_mode: 'Markdown' }
+    );
+    return;
+  }
+  
+  const updated: PendingTriggerOrder = {
+    ...pending,
+    expiresAt: expiresAt || undefined,
+    stage: 'confirm',
+  };
+  
+  setUserState(userId, { pendingTriggerOrder: updated } as any);
+  
+  await showConfirmation(ctx, userId, updated);
 }
 
 async function showConfirmation(
@@ -487,18 +662,22 @@ async function showConfirmation(
 ): Promise<void> {
   const sideEmoji = pending.side === 'buy' ? '🟢' : '🔴';
   const networkName = pending.network === 'solana' ? 'Solana' : 'Base';
-  const currency = pending.network === 'solana' ? 'SOL' : 'ETH';
-  const triggerLabel = pending.triggerType === 'price' ? 'Price' : 'Market Cap';
+  const currency = getQuoteSymbol(pending.network!, db.getTradeSettings(userId, pending.network!).quoteCurrency);
+  const triggerLabel = pending.triggerType === 'marketcap' ? 'Market Cap' : 'Price';
   
   let amountLabel: string;
   if (pending.side === 'buy') {
     amountLabel = `${pending.amount} ${currency}`;
   } else {
-    amountLabel = `${pending.amount}% of holdings`;
+    amountLabel = `${pending.amount}% of holdings → ${currency}`;
   }
   
   const conditionLabel = pending.triggerCondition === 'above' ? '≥' : '≤';
   
+  const triggerLine = pending.triggerType === 'trailing'
+    ? `Trailing stop ${pending.trailPercent}% below peak (initial stop $${formatPrice(pending.triggerValue!)})`
+    : `${triggerLabel} ${conditionLabel} $${formatNumber(pending.triggerValue!)}`;
+  
   const message = [
     `${sideEmoji} *Confirm Limit ${pending.side!.toUpperCase()}*`,
     ``,
@@ -506,11 +685,12 @@ async function showConfirmation(
     `📍 Network: ${networkName}`,
     ``,
     `*Trigger Condition:*`,
-    `${triggerLabel} ${conditionLabel} $${formatNumber(pending.triggerValue!)}`,
+    triggerLine,
     ``,
     `*Amount:* ${amountLabel}`,
+    `*Expires:* ${pending.expiresAt ? `${formatExpiryDate(pending.expiresAt)} (${formatTimeRemaining(pending.expiresAt)})` : 'Never'}`,
     ``,
-    `_Current ${triggerLabel.toLowerCase()}: $${formatNumber(pending.triggerType === 'price' ? pending.currentPrice! : pending.currentMcap!)}*_`,
+    `_Current ${triggerLabel.toLowerCase()}: $${formatNumber(pending.triggerType === 'marketcap' ? pending.currentMcap! : pending.currentPrice!)}*_`,
   ].join('\n');
   
   await ctx.reply(message, {
@@ -537,15 +717,19 @@ async function confirmAndCreateOrder(ctx: Context, userId: number): Promise<void
       telegramUserId: userId,
       chatId: ctx.chat!.id,
       network: pending.network!,
+      walletId: db.getWallet(userId, pending.network!)?.id,
       tokenAddress: pending.tokenAddress,
       tokenSymbol: pending.tokenSymbol!,
       side: pending.side!,
       triggerType: pending.triggerType!,
       triggerCondition: pending.triggerCondition!,
       triggerValue: pending.triggerValue,
+      trailPercent: pending.trailPercent,
       amount: pending.amount!,
       amountType: pending.amountType!,
+      quoteCurrency: db.getTradeSettings(userId, pending.network!).quoteCurrency,
       currentPrice: pending.currentPrice!,
+      expiresAt: pending.expiresAt,
     });
     
     const sideEmoji = order.side === 'buy' ? '🟢' : '🔴';
@@ -571,6 +755,253 @@ async function confirmAndCreateOrder(ctx: Context, userId: number): Promise<void
   }
 }
 
+// ============ Bracket Orders (TP + SL) ============
+
+/**
+ * Start a linked take-profit / stop-loss pair for a held token
+ * (entered from the holding detail screen)
+ */
+export async function startBracketOrder(
+  ctx: Context,
+  network: Network,
+  tokenAddress: string
+): Promise<void> {
+  const userId = ctx.from?.id;
+  if (!userId) return;
+  
+  const tokenInfo = await dexscreener.getTokenInfo(tokenAddress, network);
+  if (!tokenInfo) {
+    await ctx.answerCbQuery('Token info not available');
+    return;
+  }
+  
+  const pending: PendingTriggerOrder = {
+    stage: 'bracket_tp',
+    side: 'sell',
+    network,
+    tokenAddress,
+    tokenSymbol: tokenInfo.symbol,
+    currentPrice: parseFloat(tokenInfo.priceUsd),
+    currentMcap: tokenInfo.marketCap,
+  };
+  
+  setUserState(userId, { pendingTriggerOrder: pending } as any);
+  
+  await replyOrEdit(
+    ctx,
+    `🎯 *TP/SL Bracket* - ${tokenInfo.symbol}\n\n` +
+    `💵 Current Price: $${formatPrice(pending.currentPrice!)}\n\n` +
+    `Whichever side hits first sells your position and cancels the other.\n\n` +
+    `*Step 1/3:* Select the take-profit level, or type a % gain (e.g. \`75\`) or a price (e.g. \`$0.002\`):`,
+    [
+      [
+        Markup.button.callback('+25%', 'limit_bk_tp_25'),
+        Markup.button.callback('+50%', 'limit_bk_tp_50'),
+      ],
+      [
+        Markup.button.callback('+100%', 'limit_bk_tp_100'),
+        Markup.button.callback('+200%', 'limit_bk_tp_200'),
+      ],
+      [Markup.button.callback('❌ Cancel', 'limit_cancel')],
+    ]
+  );
+  await ctx.answerCbQuery();
+}
+
+async function handleBracketCallback(ctx: Context, userId: number, action: string): Promise<boolean> {
+  const state = getUserState(userId);
+  const pending = (state as any).pendingTriggerOrder as PendingTriggerOrder | undefined;
+  
+  if (!pending) {
+    await ctx.answerCbQuery('Session expired — start again');
+    return true;
+  }
+  
+  if (action.startsWith('tp_')) {
+    await handleBracketTakeProfit(ctx, userId, action.replace('tp_', ''), pending);
+  } else if (action.startsWith('sl_')) {
+    await handleBracketStopLoss(ctx, userId, action.replace('sl_', ''), pending);
+  } else if (action.startsWith('pct_')) {
+    await handleBracketAmount(ctx, userId, action.replace('pct_', ''), pending);
+  } else if (action === 'confirm') {
+    await confirmAndCreateBracket(ctx, userId);
+  } else {
+    return false;
+  }
+  
+  return true;
+}
+
+async function handleBracketTakeProfit(
+  ctx: Context,
+  userId: number,
+  text: string,
+  pending: PendingTriggerOrder
+): Promise<void> {
+  const currentPrice = pending.currentPrice || 0;
+  const takeProfitPrice = parseBracketLevel(text, currentPrice, 'tp');
+  
+  if (!takeProfitPrice || takeProfitPrice <= currentPrice) {
+    await ctx.reply(
+      `❌ Take profit must be above the current price ($${formatPrice(currentPrice)}).\n\n` +
+      'Enter a % gain (e.g. `50`) or a price (e.g. `$0.002`):',
+      { parse_mode: 'Markdown' }
+    );
+    return;
+  }
+  
+  setUserState(userId, {
+    pendingTriggerOrder: { ...pending, takeProfitPrice, stage: 'bracket_sl' },
+  } as any);
+  
+  await replyOrEdit(
+    ctx,
+    `🎯 *TP/SL Bracket* - ${pending.tokenSymbol}\n\n` +
+    `📈 Take Profit: $${formatPrice(takeProfitPrice)}\n\n` +
+    `*Step 2/3:* Select the stop-loss level, or type a % drop (e.g. \`25\`) or a price:`,
+    [
+      [
+        Markup.button.callback('-10%', 'limit_bk_sl_10'),
+        Markup.button.callback('-20%', 'limit_bk_sl_20'),
+      ],
+      [
+        Markup.button.callback('-30%', 'limit_bk_sl_30'),
+        Markup.button.callback('-50%', 'limit_bk_sl_50'),
+      ],
+      [Markup.button.callback('❌ Cancel', 'limit_cancel')],
+    ]
+  );
+}
+
+async function handleBracketStopLoss(
+  ctx: Context,
+  userId: number,
+  text: string,
+  pending: PendingTriggerOrder
+): Promise<void> {
+  const currentPrice = pending.currentPrice || 0;
+  const stopLossPrice = parseBracketLevel(text, currentPrice, 'sl');
+  
+  if (!stopLossPrice || stopLossPrice <= 0 || stopLossPrice >= currentPrice) {
+    await ctx.reply(
+      `❌ Stop loss must be below the current price ($${formatPrice(currentPrice)}).\n\n` +
+      'Enter a % drop (e.g. `20`) or a price (e.g. `$0.0005`):',
+      { parse_mode: 'Markdown' }
+    );
+    return;
+  }
+  
+  setUserState(userId, {
+    pendingTriggerOrder: { ...pending, stopLossPrice, stage: 'bracket_amount' },
+  } as any);
+  
+  await replyOrEdit(
+    ctx,
+    `🎯 *TP/SL Bracket* - ${pending.tokenSymbol}\n\n` +
+    `📈 Take Profit: $${formatPrice(pending.takeProfitPrice!)}\n` +
+    `📉 Stop Loss: $${formatPrice(stopLossPrice)}\n\n` +
+    `*Step 3/3:* What percentage of your holdings should be sold?`,
+    [
+      [
+        Markup.button.callback('25%', 'limit_bk_pct_25'),
+        Markup.button.callback('50%', 'limit_bk_pct_50'),
+        Markup.button.callback('100%', 'limit_bk_pct_100'),
+      ],
+      [Markup.button.callback('❌ Cancel', 'limit_cancel')],
+    ]
+  );
+}
+
+async function handleBracketAmount(
+  ctx: Context,
+  userId: number,
+  text: string,
+  pending: PendingTriggerOrder
+): Promise<void> {
+  const percentage = parseInt(text.replace(/[^\d]/g, ''));
+  if (isNaN(percentage) || percentage <= 0 || percentage > 100) {
+    await ctx.reply('❌ Invalid percentage. Please enter a number between 1 and 100:');
+    return;
+  }
+  
+  const updated: PendingTriggerOrder = {
+    ...pending,
+    amount: percentage.toString(),
+    amountType: 'percentage',
+    stage: 'bracket_confirm',
+  };
+  setUserState(userId, { pendingTriggerOrder: updated } as any);
+  
+  const currentPrice = updated.currentPrice || 0;
+  const tpChange = ((updated.takeProfitPrice! / currentPrice) - 1) * 100;
+  const slChange = ((updated.stopLossPrice! / currentPrice) - 1) * 100;
+  const networkName = updated.network === 'solana' ? 'Solana' : 'Base';
+  
+  const message = [
+    `🎯 *Confirm TP/SL Bracket*`,
+    ``,
+    `📊 Token: *${updated.tokenSymbol}*`,
+    `📍 Network: ${networkName}`,
+    ``,
+    `📈 Take Profit: Price ≥ $${formatPrice(updated.takeProfitPrice!)} (+${tpChange.toFixed(1)}%)`,
+    `📉 Stop Loss: Price ≤ $${formatPrice(updated.stopLossPrice!)} (${slChange.toFixed(1)}%)`,
+    ``,
+    `*Amount:* ${percentage}% of holdings → ${getQuoteSymbol(updated.network!, db.getTradeSettings(userId, updated.network!).quoteCurrency)}`,
+    ``,
+    `_When one side executes, the other is cancelled automatically._`,
+  ].join('\n');
+  
+  await replyOrEdit(ctx, message, [
+    [Markup.button.callback('✅ Create Bracket', 'limit_bk_confirm')],
+    [Markup.button.callback('❌ Cancel', 'limit_cancel')],
+  ]);
+}
+
+async function confirmAndCreateBracket(ctx: Context, userId: number): Promise<void> {
+  const state = getUserState(userId);
+  const pending = (state as any).pendingTriggerOrder as PendingTriggerOrder;
+  
+  if (!pending || !pending.tokenAddress || !pending.takeProfitPrice || !pending.stopLossPrice) {
+    await ctx.reply('❌ Session expired. Please start again.');
+    clearUserState(userId);
+    return;
+  }
+  
+  try {
+    const orders = triggerOrders.createBracketOrder({
+      telegramUserId: userId,
+      chatId: ctx.chat!.id,
+      network: pending.network!,
+      walletId: db.getWallet(userId, pending.network!)?.id,
+      tokenAddress: pending.tokenAddress,
+      tokenSymbol: pending.tokenSymbol!,
+      takeProfitPrice: pending.takeProfitPrice,
+      stopLossPrice: pending.stopLossPrice,
+      sellPercentage: parseInt(pending.amount!),
+      quoteCurrency: db.getTradeSettings(userId, pending.network!).quoteCurrency,
+      currentPrice: pending.currentPrice!,
+    });
+    
+    await ctx.editMessageText(
+      `✅ *Bracket Created!*\n\n` +
+      `🎯 *${pending.tokenSymbol}* - TP #${orders[0].id} / SL #${orders[1].id}\n\n` +
+      `I'll sell when either level is hit and cancel the other side.`,
+      {
+        parse_mode: 'Markdown',
+        reply_markup: Markup.inlineKeyboard([
+          [Markup.button.callback('📋 View Orders', 'limit_view_active')],
+          [Markup.button.callback('🏠 Main Menu', 'menu')],
+        ]).reply_markup,
+      }
+    );
+    
+    clearUserState(userId);
+    
+  } catch (error: any) {
+    await ctx.reply(`❌ Failed to create bracket: ${error.message}`);
+  }
+}
+
 // ============ View Orders ============
 
 async function showActiveOrders(ctx: Context, userId: number): Promise<void> {
@@ -599,24 +1030,53 @@ async function showActiveOrders(ctx: Context, userId: number): Promise<void> {
     return;
   }
   
-  let message = `📋 *Active Limit Orders* (${orders.length})\n\n`;
+  // Orders linked into a bracket are shown and cancelled as one unit
+  const groups = new Map<number, TriggerOrder[]>();
+  for (const order of orders) {
+    if (order.groupId) {
+      groups.set(order.groupId, [...(groups.get(order.groupId) || []), order]);
+    }
+  }
+  const unitCount = orders.filter(o => !o.groupId).length + groups.size;
+  
+  let message = `📋 *Active Limit Orders* (${unitCount})\n\n`;
   
   const buttons: any[][] = [];
   
   for (const order of orders) {
+    if (order.groupId) {
+      const group = groups.get(order.groupId);
+      if (!group) continue; // Already shown with its group
+      groups.delete(order.groupId);
+      
+      message += formatBracket(group);
+      buttons.push([Markup.button.callback(`❌ Cancel Bracket #${order.groupId}`, `limit_cancel_${order.id}`)]);
+      continue;
+    }
+    
     const sideEmoji = order.side === 'buy' ? '🟢' : '🔴';
     const networkEmoji = order.network === 'solana' ? '☀️' : '🔵';
     const triggerLabel = order.triggerType === 'price' ? 'Price' : 'MCap';
     const condLabel = order.triggerCondition === 'above' ? '≥' : '≤';
     
     message += `${sideEmoji} #${order.id} ${networkEmoji} *${order.tokenSymbol}*\n`;
-    message += `   ${order.side.toUpperCase()} when ${triggerLabel} ${condLabel} $${formatNumber(order.triggerValue)}\n`;
-    message += `   Amount: ${order.side === 'buy' ? order.amount + (order.network === 'solana' ? ' SOL' : ' ETH') : order.amount + '%'}\n\n`;
+    if (order.triggerType === 'trailing') {
+      const peak = order.highWaterMark || order.priceAtCreation;
+      message += `   ${order.side.toUpperCase()} on ${order.trailPercent}% drop from peak\n`;
+      message += `   Peak: $${formatPrice(peak)} | Stop: $${formatPrice(order.triggerValue)}\n`;
+    } else {
+      message += `   ${order.side.toUpperCase()} when ${triggerLabel} ${condLabel} $${formatNumber(order.triggerValue)}\n`;
+    }
+    message += `   Amount: ${order.side === 'buy' ? order.amount : order.amount + '% →'} ${getQuoteSymbol(order.network, order.quoteCurrency)}\n`;
+    if (order.expiresAt) {
+      message += `   ⌛ Expires in ${formatTimeRemaining(order.expiresAt)}\n`;
+    }
+    message += `\n`;
     
     buttons.push([Markup.button.callback(`❌ Cancel #${order.id}`, `limit_cancel_${order.id}`)]);
   }
   
-  if (orders.length > 1) {
+  if (unitCount > 1) {
     buttons.push([Markup.button.callback('🗑 Cancel All', 'limit_cancel_all')]);
   }
   buttons.push([Markup.button.callback('📊 Limit Orders', 'limit_menu')]);
@@ -716,6 +1176,88 @@ function parseTargetValue(text: string): number | null {
   return value * multiplier;
 }
 
+function parseBracketLevel(text: string, currentPrice: number, leg: 'tp' | 'sl'): number | null {
+  const cleaned = text.replace(/[\s,]/g, '');
+  
+  // Absolute price
+  if (cleaned.startsWith('$')) {
+    return parseTargetValue(cleaned);
+  }
+  
+  // Percentage move from the current price
+  const percent = Math.abs(parseFloat(cleaned.replace(/[%+]/g, '')));
+  if (isNaN(percent) || percent <= 0) return null;
+  
+  return leg === 'tp'
+    ? currentPrice * (1 + percent / 100)
+    : currentPrice * (1 - percent / 100);
+}
+
+/**
+ * Parse an expiry given as a duration ("90m", "12h", "3d", "1w") or a UTC date.
+ * Returns the expiry as Unix ms, 0 for no expiry, or null if invalid.
+ */
+function parseExpiry(text: string): number | null {
+  const cleaned = text.trim().toLowerCase();
+  
+  if (cleaned === 'never' || cleaned === '0' || cleaned === '0m') return 0;
+  
+  const duration = cleaned.match(/^(\d+(?:\.\d+)?)\s*(m|min|h|d|w)$/);
+  if (duration) {
+    const unitMs: Record<string, number> = {
+      m: 60_000,
+      min: 60_000,
+      h: 3_600_000,
+      d: 86_400_000,
+      w: 604_800_000,
+    };
+    const ms = parseFloat(duration[1]) * unitMs[duration[2]];
+    return ms > 0 ? Date.now() + ms : null;
+  }
+  
+  // Absolute date, interpreted as UTC
+  const date = Date.parse(cleaned.toUpperCase().replace(' ', 'T') + (/[zZ]|[+-]\d\d:?\d\d$/.test(cleaned) ? '' : 'Z'));
+  if (!isNaN(date) && date > Date.now()) return date;
+  
+  return null;
+}
+
+function formatTimeRemaining(timestamp: number): string {
+  const minutes = Math.max(0, Math.round((timestamp - Date.now()) / 60000));
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ${minutes % 60}m`;
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+}
+
+function formatExpiryDate(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 16).replace('T', ' ') + ' UTC';
+}
+
+function formatBracket(group: TriggerOrder[]): string {
+  const first = group[0];
+  const networkEmoji = first.network === 'solana' ? '☀️' : '🔵';
+  const takeProfit = group.find(o => o.triggerCondition === 'above');
+  const stopLoss = group.find(o => o.triggerCondition === 'below');
+  
+  // Auto TP/SL legs can sell different shares; brackets sell the same from both
+  const sameAmount = group.every(o => o.amount === first.amount);
+  const legAmount = (order: TriggerOrder) => (sameAmount ? '' : ` (${order.amount}%)`);
+  
+  const legs: string[] = [];
+  if (takeProfit) legs.push(`TP ≥ $${formatPrice(takeProfit.triggerValue)}${legAmount(takeProfit)}`);
+  if (stopLoss) legs.push(`SL ≤ $${formatPrice(stopLoss.triggerValue)}${legAmount(stopLoss)}`);
+  
+  return (
+    `🎯 #${first.groupId} ${networkEmoji} *${first.tokenSymbol}* TP/SL\n` +
+    `   ${legs.join(' | ')}\n` +
+    (sameAmount
+      ? `   Amount: ${first.amount}% → ${getQuoteSymbol(first.network, first.quoteCurrency)}\n`
+      : `   Sells to ${getQuoteSymbol(first.network, first.quoteCurrency)}\n`) +
+    `\n`
+  );
+}
+
 function formatNumber(num: number): string {
   if (num >= 1_000_000_000) return (num / 1_000_000_000).toFixed(2) + 'B';
   if (num >= 1_000_000) return (num / 1_000_000).toFixed(2) + 'M';
@@ -739,6 +1281,7 @@ function getStatusEmoji(status: string): string {
     case 'executed': return '✅';
     case 'failed': return '❌';
     case 'cancelled': return '🚫';
+    case 'expired': return '⌛';
     default: return '❓';
   }
 }
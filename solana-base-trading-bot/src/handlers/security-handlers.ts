@@ -147,7 +147,7 @@ export async function handleSecurityCallback(ctx: Context, action: string): Prom
       await showWhitelist(ctx);
       break;
 
-    case 'limits':
+    case 'limits': {
       setUserState(userId, { currentAction: 'settings', settingLimits: true });
       const sec = securityDb.getUserSecurity(userId);
       await ctx.editMessageText(
@@ -159,6 +159,7 @@ export async function handleSecurityCallback(ctx: Context, action: string): Prom
         { parse_mode: 'Markdown' }
       );
       break;
+    }
 
     case 'log':
       await showSecurityLog(ctx);
@@ -280,9 +281,9 @@ async function handleUnlockInput(ctx: Context, password: string): Promise<void>
   if (result.success) {
     const remaining = security.getSessionTimeRemaining(userId);
     if (pendingBuy) {
-      await ctx.reply(`🔓 Unlocked (${remaining}m session). Executing buy...`);
+      await ctx.reply(`🔓 Unlocked (${remaining}m session). Getting quote...`);
       const { executeBuy } = await import('./commands');
-      await executeBuy(ctx, pendingBuy.network, pendingBuy.tokenAddress, pendingBuy.amount);
+      await executeBuy(ctx, pendingBuy.network, pendingBuy.tokenAddress, pendingBuy.amount, pendingBuy.amountMode);
     } else {
       await ctx.reply(`🔓 Wallet unlocked! (${remaining}m session)`);
     }
@@ -0,0 +1,194 @@
+import { Context, Markup } from 'telegraf';
+import { Network, PendingTokenSwap } from '../types';
+import * as dexscreener from '../services/dexscreener';
+import * as formatters from '../utils/formatters';
+import { getUserState, setUserState, clearUserState, executeTokenSwap } from './commands';
+
+// ============ Entry Point ============
+
+/**
+ * Start swapping a held token into another token (entered from the holding screen)
+ */
+export async function startTokenSwap(
+  ctx: Context,
+  network: Network,
+  tokenAddress: string
+): Promise<void> {
+  const userId = ctx.from?.id;
+  if (!userId) return;
+
+  const tokenInfo = await dexscreener.getTokenInfo(tokenAddress, network);
+  const inputSymbol = tokenInfo?.symbol || formatters.truncateAddress(tokenAddress);
+
+  setUserState(userId, {
+    pendingTokenSwap: {
+      stage: 'enter_output',
+      network,
+      inputToken: tokenAddress,
+      inputSymbol,
+    },
+  });
+
+  await replyOrEdit(
+    ctx,
+    `🔀 *Swap ${inputSymbol}*\n\n` +
+    `Paste the contract address of the ${network === 'solana' ? 'Solana' : 'Base'} token you want to receive:`,
+    [[Markup.button.callback('❌ Cancel', 'swap_cancel')]]
+  );
+  await ctx.answerCbQuery();
+}
+
+// ============ Callback Handlers ============
+
+/**
+ * Handle all token swap related callbacks
+ */
+export async function handleSwapCallback(ctx: Context, action: string): Promise<boolean> {
+  const userId = ctx.from?.id;
+  if (!userId) return false;
+
+  if (action === 'swap_cancel') {
+    clearUserState(userId);
+    await ctx.editMessageText('❌ Swap cancelled.', {
+      reply_markup: Markup.inlineKeyboard([
+        [Markup.button.callback('🏠 Main Menu', 'menu')],
+      ]).reply_markup,
+    });
+    return true;
+  }
+
+  const pending = getUserState(userId).pendingTokenSwap;
+  if (!pending || !pending.outputToken) return false;
+
+  if (action.startsWith('swap_pct_')) {
+    const percentage = parseInt(action.replace('swap_pct_', ''));
+    clearUserState(userId);
+    await quoteSwap(ctx, pending, percentage, 'percentage');
+    return true;
+  }
+
+  if (action === 'swap_amt') {
+    setUserState(userId, { pendingTokenSwap: { ...pending, stage: 'enter_amount' } });
+    await replyOrEdit(
+      ctx,
+      `🔀 *${pending.inputSymbol} → ${pending.outputSymbol}*\n\n` +
+      `How many *${pending.inputSymbol}* do you want to swap? (e.g. 1000, 250k)`,
+      [[Markup.button.callback('❌ Cancel', 'swap_cancel')]]
+    );
+    return true;
+  }
+
+  return false;
+}
+
+/**
+ * Handle text input for the swap flow
+ */
+export async function handleSwapTextInput(ctx: Context, text: string): Promise<boolean> {
+  const userId = ctx.from?.id;
+  if (!userId) return false;
+
+  const pending = getUserState(userId).pendingTokenSwap;
+  if (!pending) return false;
+
+  if (pending.stage === 'enter_output') {
+    await handleOutputTokenInput(ctx, userId, text, pending);
+    return true;
+  }
+
+  if (pending.stage === 'enter_amount') {
+    const amount = formatters.parseAmount(text.replace(/,/g, ''));
+    if (!amount || amount <= 0) {
+      await ctx.reply(`❌ Invalid amount. Please enter how many ${pending.inputSymbol} to swap:`);
+      return true;
+    }
+
+    clearUserState(userId);
+    await quoteSwap(ctx, pending, amount, 'tokens');
+    return true;
+  }
+
+  return false;
+}
+
+// ============ Flow Handlers ============
+
+async function handleOutputTokenInput(
+  ctx: Context,
+  userId: number,
+  text: string,
+  pending: PendingTokenSwap
+): Promise<void> {
+  const address = text.trim();
+  const isValid = pending.network === 'solana'
+    ? formatters.isValidSolanaAddress(address)
+    : formatters.isValidEvmAddress(address);
+
+  if (!isValid) {
+    await ctx.reply(`❌ Invalid ${pending.network === 'solana' ? 'Solana' : 'Base'} token address. Please paste a valid contract address:`);
+    return;
+  }
+
+  if (address.toLowerCase() === pending.inputToken.toLowerCase()) {
+    await ctx.reply('❌ That is the token you are swapping from. Please paste a different address:');
+    return;
+  }
+
+  const tokenInfo = await dexscreener.getTokenInfo(address, pending.network);
+  const outputSymbol = tokenInfo?.symbol || formatters.truncateAddress(address);
+
+  setUserState(userId, {
+    pendingTokenSwap: { ...pending, outputToken: address, outputSymbol, stage: 'select_amount' },
+  });
+
+  await replyOrEdit(
+    ctx,
+    `🔀 *${pending.inputSymbol} → ${outputSymbol}*\n\n` +
+    (tokenInfo
+      ? `💵 ${outputSymbol} price: $${tokenInfo.priceUsd}\n\n`
+      : `⚠️ No market data found for this token. Double-check the address.\n\n`) +
+    `How much ${pending.inputSymbol} do you want to swap?`,
+    [
+      [
+        Markup.button.callback('25%', 'swap_pct_25'),
+        Markup.button.callback('50%', 'swap_pct_50'),
+        Markup.button.callback('75%', 'swap_pct_75'),
+        Markup.button.callback('100%', 'swap_pct_100'),
+      ],
+      [Markup.button.callback(`✏️ Exact ${pending.inputSymbol} amount`, 'swap_amt')],
+      [Markup.button.callback('❌ Cancel', 'swap_cancel')],
+    ]
+  );
+}
+
+async function quoteSwap(
+  ctx: Context,
+  pending: PendingTokenSwap,
+  amount: number,
+  amountType: 'percentage' | 'tokens'
+): Promise<void> {
+  await executeTokenSwap(
+    ctx,
+    pending.network,
+    { tokenAddress: pending.inputToken, symbol: pending.inputSymbol },
+    { tokenAddress: pending.outputToken!, symbol: pending.outputSymbol! },
+    amount,
+    amountType
+  );
+}
+
+// ============ Helpers ============
+
+async function replyOrEdit(ctx: Context, message: string, buttons: any[][]): Promise<void> {
+  if (ctx.callbackQuery) {
+    await ctx.editMessageText(message, {
+      parse_mode: 'Markdown',
+      reply_markup: Markup.inlineKeyboard(buttons).reply_markup,
+    });
+  } else {
+    await ctx.reply(message, {
+      parse_mode: 'Markdown',
+      ...Markup.inlineKeyboard(buttons),
+    });
+  }
+}
@@ -0,0 +1,419 @@
+import { Context, Markup } from 'telegraf';
+import { Network } from '../types';
+import { OrderSide } from '../types/trigger-orders';
+import { PendingTwapOrder, TwapOrder } from '../types/twap';
+import * as twap from '../services/twap';
+import * as dexscreener from '../services/dexscreener';
+import * as db from '../services/database';
+import { replyOrEdit } from '../utils/replies';
+import { getUserState, setUserState, clearUserState } from './commands';
+
+const AMOUNT_PRESETS: Record<Network, string[]> = {
+  solana: ['1', '2', '5', '10'],
+  base: ['0.1', '0.25', '0.5', '1'],
+};
+
+// ============ Command Handlers ============
+
+/**
+ * /twap command - show running TWAP orders
+ */
+export async function handleTwap(ctx: Context): Promise<void> {
+  const userId = ctx.from?.id;
+  if (!userId) return;
+
+  await showActiveTwaps(ctx, userId);
+}
+
+/**
+ * Start a TWAP order for a token (entered from the buy/sell amount screens)
+ */
+export async function startTwapOrder(
+  ctx: Context,
+  network: Network,
+  tokenAddress: string,
+  side: OrderSide
+): Promise<void> {
+  const userId = ctx.from?.id;
+  if (!userId) return;
+
+  const tokenInfo = await dexscreener.getTokenInfo(tokenAddress, network);
+  if (!tokenInfo) {
+    await ctx.answerCbQuery('Token info not available');
+    return;
+  }
+
+  setUserState(userId, {
+    pendingTwapOrder: {
+      stage: 'enter_amount',
+      network,
+      tokenAddress,
+      tokenSymbol: tokenInfo.symbol,
+      side,
+    },
+  });
+
+  const currency = network === 'solana' ? 'SOL' : 'ETH';
+  const buttons = side === 'sell'
+    ? [[
+        Markup.button.callback('25%', 'twap_amt_25'),
+        Markup.button.callback('50%', 'twap_amt_50'),
+        Markup.button.callback('100%', 'twap_amt_100'),
+      ]]
+    : [
+        AMOUNT_PRESETS[network].slice(0, 2).map(a => Markup.button.callback(`${a} ${currency}`, `twap_amt_${a}`)),
+        AMOUNT_PRESETS[network].slice(2).map(a => Markup.button.callback(`${a} ${currency}`, `twap_amt_${a}`)),
+      ];
+
+  await replyOrEdit(
+    ctx,
+    `⏱ *TWAP ${side === 'buy' ? 'Buy' : 'Sell'}* - ${tokenInfo.symbol}\n\n` +
+    `Splits a large order into slices spread over time to limit price impact.\n\n` +
+    (side === 'sell'
+      ? `*Step 1/4:* What percentage of your holdings should be sold?`
+      : `*Step 1/4:* How much ${currency} should be spent in total?`) +
+    `\nSelect or type a value:`,
+    [...buttons, [Markup.button.callback('❌ Cancel', 'twap_cancel')]]
+  );
+  await ctx.answerCbQuery();
+}
+
+// ============ Callback Handlers ============
+
+/**
+ * Handle all TWAP related callbacks
+ */
+export async function handleTwapCallback(ctx: Context, action: string): Promise<boolean> {
+  const userId = ctx.from?.id;
+  if (!userId) return false;
+
+  if (action === 'twap_list') {
+    await showActiveTwaps(ctx, userId);
+    return true;
+  }
+
+  if (action === 'twap_cancel') {
+    clearUserState(userId);
+    await ctx.editMessageText('❌ TWAP setup cancelled.', {
+      reply_markup: Markup.inlineKeyboard([
+        [Markup.button.callback('🏠 Main Menu', 'menu')],
+      ]).reply_markup,
+    });
+    return true;
+  }
+
+  if (action.startsWith('twap_abort_')) {
+    const orderId = parseInt(action.replace('twap_abort_', ''));
+    twap.abortTwapOrder(orderId, userId);
+    await showActiveTwaps(ctx, userId);
+    return true;
+  }
+
+  // Remaining actions belong to the creation flow
+  const pending = getUserState(userId).pendingTwapOrder;
+  if (!pending) return false;
+
+  if (action.startsWith('twap_amt_')) {
+    await handleAmountInput(ctx, userId, action.replace('twap_amt_', ''), pending);
+    return true;
+  }
+
+  if (action.startsWith('twap_n_')) {
+    await handleSlicesInput(ctx, userId, action.replace('twap_n_', ''), pending);
+    return true;
+  }
+
+  if (action.startsWith('twap_dur_')) {
+    await handleDurationSelected(ctx, userId, parseInt(action.replace('twap_dur_', '')), pending);
+    return true;
+  }
+
+  if (action.startsWith('twap_imp_')) {
+    await handleImpactInput(ctx, userId, action.replace('twap_imp_', ''), pending);
+    return true;
+  }
+
+  if (action === 'twap_confirm') {
+    await confirmAndCreateTwap(ctx, userId, pending);
+    return true;
+  }
+
+  return false;
+}
+
+/**
+ * Handle text input for TWAP setup
+ */
+export async function handleTwapTextInput(ctx: Context, text: string): Promise<boolean> {
+  const userId = ctx.from?.id;
+  if (!userId) return false;
+
+  const pending = getUserState(userId).pendingTwapOrder;
+  if (!pending) return false;
+
+  if (pending.stage === 'enter_amount') {
+    await handleAmountInput(ctx, userId, text, pending);
+    return true;
+  }
+
+  if (pending.stage === 'select_slices') {
+    await handleSlicesInput(ctx, userId, text, pending);
+    return true;
+  }
+
+  if (pending.stage === 'select_impact') {
+    await handleImpactInput(ctx, userId, text, pending);
+    return true;
+  }
+
+  return false;
+}
+
+// ============ Flow Handlers ============
+
+async function handleAmountInput(
+  ctx: Context,
+  userId: number,
+  text: string,
+  pending: PendingTwapOrder
+): Promise<void> {
+  const amount = parseFloat(text.replace(/[^\d.]/g, ''));
+
+  if (pending.side === 'sell' && (isNaN(amount) || amount <= 0 || amount > 100)) {
+    await ctx.reply('❌ Invalid percentage. Please enter a number between 1 and 100:');
+    return;
+  }
+  if (pending.side === 'buy' && (isNaN(amount) || amount <= 0)) {
+    const currency = pending.network === 'solana' ? 'SOL' : 'ETH';
+    await ctx.reply(`❌ Invalid amount. Please enter a valid ${currency} amount:`);
+    return;
+  }
+
+  setUserState(userId, {
+    pendingTwapOrder: { ...pending, amount, stage: 'select_slices' },
+  });
+
+  await replyOrEdit(
+    ctx,
+    `⏱ *TWAP* - ${pending.tokenSymbol}\n\n` +
+    `💰 Size: ${formatSize({ ...pending, amount })}\n\n` +
+    `*Step 2/4:* How many slices?\nSelect or type a number:`,
+    [
+      [
+        Markup.button.callback('4', 'twap_n_4'),
+        Markup.button.callback('8', 'twap_n_8'),
+        Markup.button.callback('12', 'twap_n_12'),
+        Markup.button.callback('20', 'twap_n_20'),
+      ],
+      [Markup.button.callback('❌ Cancel', 'twap_cancel')],
+    ]
+  );
+}
+
+async function handleSlicesInput(
+  ctx: Context,
+  userId: number,
+  text: string,
+  pending: PendingTwapOrder
+): Promise<void> {
+  const sliceCount = parseInt(text.replace(/[^\d]/g, ''));
+
+  if (isNaN(sliceCount) || sliceCount < 2 || sliceCount > 100) {
+    await ctx.reply('❌ Invalid slice count. Please enter a number between 2 and 100:');
+    return;
+  }
+
+  setUserState(userId, {
+    pendingTwapOrder: { ...pending, sliceCount, stage: 'select_duration' },
+  });
+
+  await replyOrEdit(
+    ctx,
+    `⏱ *TWAP* - ${pending.tokenSymbol}\n\n` +
+    `🔪 Slices: ${sliceCount}\n\n` +
+    `*Step 3/4:* Spread the slices over:`,
+    [
+      [
+        Markup.button.callback('15m', 'twap_dur_15'),
+        Markup.button.callback('1h', 'twap_dur_60'),
+        Markup.button.callback('4h', 'twap_dur_240'),
+      ],
+      [
+        Markup.button.callback('12h', 'twap_dur_720'),
+        Markup.button.callback('24h', 'twap_dur_1440'),
+      ],
+      [Markup.button.callback('❌ Cancel', 'twap_cancel')],
+    ]
+  );
+}
+
+async function handleDurationSelected(
+  ctx: Context,
+  userId: number,
+  minutes: number,
+  pending: PendingTwapOrder
+): Promise<void> {
+  const durationMs = minutes * 60 * 1000;
+
+  if (isNaN(minutes) || durationMs / pending.sliceCount! < twap.MIN_SLICE_INTERVAL_MS) {
+    await ctx.reply('❌ Too many slices for this duration. Slices must be at least 30 seconds apart.');
+    return;
+  }
+
+  setUserState(userId, {
+    pendingTwapOrder: { ...pending, durationMs, stage: 'select_impact' },
+  });
+
+  await replyOrEdit(
+    ctx,
+    `⏱ *TWAP* - ${pending.tokenSymbol}\n\n` +
+    `🕐 Duration: ${twap.formatDuration(durationMs)} ` +
+    `(a slice every ${twap.formatDuration(durationMs / pending.sliceCount!)})\n\n` +
+    `*Step 4/4:* Maximum price impact per slice?\n` +
+    `Slices quoting above it wait for liquidity to recover. Select or type a %:`,
+    [
+      [
+        Markup.button.callback('0.5%', 'twap_imp_0.5'),
+        Markup.button.callback('1%', 'twap_imp_1'),
+        Markup.button.callback('2%', 'twap_imp_2'),
+        Markup.button.callback('5%', 'twap_imp_5'),
+      ],
+      [Markup.button.callback('❌ Cancel', 'twap_cancel')],
+    ]
+  );
+}
+
+async function handleImpactInput(
+  ctx: Context,
+  userId: number,
+  text: string,
+  pending: PendingTwapOrder
+): Promise<void> {
+  const maxImpactPct = parseFloat(text.replace(/[^\d.]/g, ''));
+
+  if (isNaN(maxImpactPct) || maxImpactPct <= 0 || maxImpactPct > 50) {
+    await ctx.reply('❌ Invalid price impact. Please enter a percentage between 0.1 and 50:');
+    return;
+  }
+
+  const updated: PendingTwapOrder = { ...pending, maxImpactPct, stage: 'confirm' };
+  setUserState(userId, { pendingTwapOrder: updated });
+
+  const sideEmoji = updated.side === 'buy' ? '🟢' : '🔴';
+  const networkName = updated.network === 'solana' ? 'Solana' : 'Base';
+
+  const message = [
+    `${sideEmoji} *Confirm TWAP ${updated.side === 'buy' ? 'Buy' : 'Sell'}*`,
+    ``,
+    `📊 Token: *${updated.tokenSymbol}*`,
+    `📍 Network: ${networkName}`,
+    ``,
+    `💰 Size: ${formatSize(updated)}`,
+    `🔪 Slices: ${updated.sliceCount} × every ${twap.formatDuration(updated.durationMs! / updated.sliceCount!)}`,
+    `🕐 Duration: ${twap.formatDuration(updated.durationMs!)}`,
+    `📉 Max Impact: ${maxImpactPct}% per slice`,
+    ``,
+    `_Keep your wallet unlocked while the order runs. You can abort at any time with /twap._`,
+  ].join('\n');
+
+  await replyOrEdit(ctx, message, [
+    [Markup.button.callback('✅ Start TWAP', 'twap_confirm')],
+    [Markup.button.callback('❌ Cancel', 'twap_cancel')],
+  ]);
+}
+
+async function confirmAndCreateTwap(
+  ctx: Context,
+  userId: number,
+  pending: PendingTwapOrder
+): Promise<void> {
+  if (!pending.amount || !pending.sliceCount || !pending.durationMs || !pending.maxImpactPct) {
+    await ctx.reply('❌ Session expired. Please start again.');
+    clearUserState(userId);
+    return;
+  }
+
+  try {
+    const settings = db.getTradeSettings(userId, pending.network);
+
+    const order = await twap.createTwapOrder({
+      telegramUserId: userId,
+      chatId: ctx.chat!.id,
+      network: pending.network,
+      walletId: db.getWallet(userId, pending.network)?.id,
+      tokenAddress: pending.tokenAddress,
+      tokenSymbol: pending.tokenSymbol,
+      side: pending.side,
+      amount: pending.amount,
+      sliceCount: pending.sliceCount,
+      durationMs: pending.durationMs,
+      maxImpactPct: pending.maxImpactPct,
+      slippageBps: settings.slippageBps,
+    });
+
+    await ctx.editMessageText(
+      `✅ *TWAP #${order.id} Started!*\n\n` +
+      `⏱ *${order.tokenSymbol}* - ${order.sliceCount} slices every ${twap.formatDuration(order.intervalMs)}\n\n` +
+      `The first slice runs within a few seconds. I'll report each fill.`,
+      {
+        parse_mode: 'Markdown',
+        reply_markup: Markup.inlineKeyboard([
+          [Markup.button.callback('📋 View TWAPs', 'twap_list')],
+          [Markup.button.callback('🏠 Main Menu', 'menu')],
+        ]).reply_markup,
+      }
+    );
+
+    clearUserState(userId);
+
+  } catch (error: any) {
+    await ctx.reply(`❌ Failed to create TWAP: ${error.message}`);
+  }
+}
+
+// ============ View Orders ============
+
+async function showActiveTwaps(ctx: Context, userId: number): Promise<void> {
+  const orders = twap.getActiveTwapOrders(userId);
+
+  let message = '⏱ *Running TWAP Orders*\n\n';
+  const buttons: any[][] = [];
+
+  if (orders.length === 0) {
+    message += '_No running TWAP orders._\n\nStart one from the buy or sell amount screen of a token.';
+  }
+
+  for (const order of orders) {
+    message += formatTwap(order);
+    buttons.push([Markup.button.callback(`🛑 Abort #${order.id}`, `twap_abort_${order.id}`)]);
+  }
+
+  buttons.push([Markup.button.callback('🏠 Main Menu', 'menu')]);
+
+  await replyOrEdit(ctx, message, buttons);
+}
+
+// ============ Helpers ============
+
+function formatTwap(order: TwapOrder): string {
+  const sideEmoji = order.side === 'buy' ? '🟢' : '🔴';
+  const networkEmoji = order.network === 'solana' ? '☀️' : '🔵';
+  const minutesToNext = Math.max(0, Math.round((order.nextSliceAt - Date.now()) / 60000));
+
+  let text = `${sideEmoji} #${order.id} ${networkEmoji} *${order.tokenSymbol}* ${order.side.toUpperCase()}\n`;
+  for (const line of twap.formatTwapProgress(order)) {
+    text += `   ${line}\n`;
+  }
+  text += `   Next slice: ${minutesToNext < 1 ? 'now' : `in ${minutesToNext}m`}\n`;
+  if (order.deferrals > 0 && order.error) {
+    text += `   ⏸ ${order.error}\n`;
+  }
+
+  return text + '\n';
+}
+
+function formatSize(pending: PendingTwapOrder): string {
+  if (pending.side === 'sell') return `${pending.amount}% of holdings`;
+  return `${pending.amount} ${pending.network === 'solana' ? 'SOL' : 'ETH'}`;
+}
+
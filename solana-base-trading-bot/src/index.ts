@@ -16,8 +16,14 @@ import {
 import { handleCallback } from './handlers/callbacks';
 import { handleSecurity, handleUnlock, handleLock } from './handlers/security-handlers';
 import { handleLimit, handleOrders } from './handlers/limit-order-handlers';
+import { handleDca } from './handlers/dca-handlers';
+import { handleTwap } from './handlers/twap-handlers';
+import { handleCopy } from './handlers/copy-handlers';
 import { startSessionCleanup, stopSessionCleanup } from './services/session-manager';
 import { initTriggerOrderService, startMonitoring, stopMonitoring } from './services/trigger-orders';
+import { initTwapService, startTwapMonitoring, stopTwapMonitoring } from './services/twap';
+import { initCopyTradingService, startCopyMonitoring, stopCopyMonitoring } from './services/copy-trading';
+import { initBaseTransactionService } from './services/base-transactions';
 
 // Validate configuration
 try {
@@ -40,6 +46,15 @@ const bot = new Telegraf(config.telegramBotToken);
 // Initialize trigger order service
 initTriggerOrderService(bot);
 
+// Initialize TWAP service
+initTwapService(bot);
+
+// Initialize copy-trading service
+initCopyTradingService(bot);
+
+// Initialize stuck Base transaction prompts
+initBaseTransactionService(bot);
+
 // Error handling
 bot.catch((err, ctx) => {
   console.error('Bot error:', err);
@@ -65,6 +80,15 @@ bot.command('lock', handleLock);
 bot.command('limit', handleLimit);
 bot.command('orders', handleOrders);
 
+// DCA commands
+bot.command('dca', handleDca);
+
+// TWAP commands
+bot.command('twap', handleTwap);
+
+// Copy-trading commands
+bot.command('copy', handleCopy);
+
 // Callback query handler (inline button presses)
 bot.on('callback_query', handleCallback);
 
@@ -78,6 +102,8 @@ const shutdown = async (signal: string) => {
   bot.stop(signal);
   stopSessionCleanup();
   stopMonitoring();
+  stopTwapMonitoring();
+  stopCopyMonitoring();
   closeDatabase();
   
   process.exit(0);
@@ -93,6 +119,10 @@ bot.launch()
     console.log('✅ Bot is running!');
     console.log('Starting limit order monitoring...');
     startMonitoring();
+    console.log('Resuming TWAP orders...');
+    startTwapMonitoring();
+    console.log('Starting copy-trading monitoring...');
+    startCopyMonitoring();
     console.log('Press Ctrl+C to stop.');
   })
   .catch((error) => {
@@ -0,0 +1,82 @@
+import Database from 'better-sqlite3';
+import { TokenApproval } from '../types/approvals';
+
+let db: Database.Database;
+
+/**
+ * Initialize token approvals table
+ */
+export function initTokenApprovalsTable(database: Database.Database): void {
+  db = database;
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS token_approvals (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      wallet_address TEXT NOT NULL,
+      token_address TEXT NOT NULL,
+      spender TEXT NOT NULL,
+      amount TEXT NOT NULL,
+      created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+
+      UNIQUE(wallet_address, token_address, spender)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_token_approvals_wallet
+      ON token_approvals(wallet_address);
+  `);
+}
+
+/**
+ * Save an approval the bot sent, replacing any earlier one for the same token and spender
+ */
+export function recordTokenApproval(
+  walletAddress: string,
+  tokenAddress: string,
+  spender: string,
+  amount: bigint
+): void {
+  db.prepare(`
+    INSERT INTO token_approvals (wallet_address, token_address, spender, amount)
+    VALUES (?, ?, ?, ?)
+    ON CONFLICT(wallet_address, token_address, spender) DO UPDATE SET
+      amount = excluded.amount,
+      created_at = CURRENT_TIMESTAMP
+  `).run(walletAddress.toLowerCase(), tokenAddress.toLowerCase(), spender.toLowerCase(), amount.toString());
+}
+
+/**
+ * Approvals saved for a wallet, newest first
+ */
+export function getTokenApprovals(walletAddress: string): TokenApproval[] {
+  const rows = db.prepare(`
+    SELECT * FROM token_approvals
+    WHERE wallet_address = ?
+    ORDER BY created_at DESC
+  `).all(walletAddress.toLowerCase()) as any[];
+
+  return rows.map(mapRowToTokenApproval);
+}
+
+/**
+ * Forget an approval once it is revoked or used up
+ */
+export function deleteTokenApproval(walletAddress: string, tokenAddress: string, spender: string): void {
+  db.prepare(`
+    DELETE FROM token_approvals
+    WHERE wallet_address = ? AND token_address = ? AND spender = ?
+  `).run(walletAddress.toLowerCase(), tokenAddress.toLowerCase(), spender.toLowerCase());
+}
+
+/**
+ * Map database row to TokenApproval object
+ */
+function mapRowToTokenApproval(row: any): TokenApproval {
+  return {
+    id: row.id,
+    walletAddress: row.wallet_address,
+    tokenAddress: row.token_address,
+    spender: row.spender,
+    amount: row.amount,
+    createdAt: row.created_at,
+  };
+}
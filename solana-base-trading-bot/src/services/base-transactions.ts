@@ -0,0 +1,195 @@
+import { Telegraf } from 'telegraf';
+import { createPublicClient, http, Address, Hex, TransactionReceipt } from 'viem';
+import { base } from 'viem/chains';
+import { BaseTxOutcome, PendingBaseTransaction } from '../types/base-transactions';
+import { getStuckTransactionKeyboard } from '../utils/keyboards';
+import { config } from '../config';
+
+// Base produces a block every 2s; anything unmined after this is offered Speed up / Cancel
+const STUCK_AFTER_MS = 45000;
+
+const POLL_INTERVAL_MS = 2000;
+
+// Give up waiting eventually - a transaction the node dropped will never be mined
+const MAX_PENDING_MS = 30 * 60 * 1000;
+
+const publicClient = createPublicClient({
+  chain: base,
+  transport: http(config.baseRpcUrl),
+});
+
+let bot: Telegraf | null = null;
+let nextId = 1;
+const pending = new Map<number, PendingBaseTransaction>();
+
+export interface TrackedResult {
+  outcome: BaseTxOutcome;
+  receipt?: TransactionReceipt; // Unset when another transaction used the nonce
+}
+
+/**
+ * Initialize the stuck transaction prompts with the Telegram bot instance
+ */
+export function initBaseTransactionService(telegrafBot: Telegraf): void {
+  bot = telegrafBot;
+  console.log('[BaseTx] Service initialized');
+}
+
+/**
+ * Start tracking a transaction that was just broadcast
+ */
+export function trackTransaction(
+  tx: Omit<PendingBaseTransaction, 'id' | 'hashes' | 'sentAt'>,
+  hash: string
+): PendingBaseTransaction {
+  const tracked: PendingBaseTransaction = { ...tx, id: nextId++, hashes: [hash], sentAt: Date.now() };
+  pending.set(tracked.id, tracked);
+  return tracked;
+}
+
+/**
+ * A transaction that is still waiting to be mined
+ */
+export function getPendingTransaction(id: number): PendingBaseTransaction | undefined {
+  return pending.get(id);
+}
+
+/**
+ * Record a speed-up or cancel sent with the same nonce
+ */
+export function recordReplacement(
+  tx: PendingBaseTransaction,
+  hash: string,
+  fees: { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint },
+  isCancel: boolean
+): void {
+  tx.hashes.push(hash);
+  tx.maxFeePerGas = fees.maxFeePerGas;
+  tx.maxPriorityFeePerGas = fees.maxPriorityFeePerGas;
+  if (isCancel) {
+    tx.cancelHash = hash;
+  }
+}
+
+/**
+ * Wait until the original transaction or one of its replacements is mined.
+ * Past STUCK_AFTER_MS the user gets a Speed up / Cancel prompt, which is
+ * edited with the outcome once the nonce is used.
+ */
+export async function waitForTransaction(tx: PendingBaseTransaction): Promise<TrackedResult> {
+  let prompted = false;
+
+  try {
+    while (Date.now() - tx.sentAt < MAX_PENDING_MS) {
+      const receipt = await findReceipt(tx);
+      if (receipt) {
+        return await finish(tx, { outcome: toOutcome(tx, receipt), receipt });
+      }
+
+      // The nonce moved on without any of our hashes, e.g. sent from another wallet app
+      const minedNonce = await publicClient
+        .getTransactionCount({ address: tx.from as Address, blockTag: 'latest' })
+        .catch(() => 0);
+      if (minedNonce > tx.nonce) {
+        const lastLook = await findReceipt(tx);
+        return await finish(tx, lastLook
+          ? { outcome: toOutcome(tx, lastLook), receipt: lastLook }
+          : { outcome: 'replaced' });
+      }
+
+      if (!prompted && Date.now() - tx.sentAt >= STUCK_AFTER_MS) {
+        prompted = true;
+        await promptStuck(tx);
+      }
+
+      await sleep(POLL_INTERVAL_MS);
+    }
+  } catch (error) {
+    pending.delete(tx.id);
+    throw error;
+  }
+
+  pending.delete(tx.id);
+  await editPrompt(tx, `⌛ *${tx.label} still pending* after ${MAX_PENDING_MS / 60000} minutes. It may still confirm later.`);
+  throw new Error(`Transaction not confirmed after ${MAX_PENDING_MS / 60000} minutes (nonce ${tx.nonce})`);
+}
+
+/**
+ * Newest hash first: a replacement that landed means the older ones never will
+ */
+async function findReceipt(tx: PendingBaseTransaction): Promise<TransactionReceipt | null> {
+  for (const hash of [...tx.hashes].reverse()) {
+    const receipt = await publicClient
+      .getTransactionReceipt({ hash: hash as Hex })
+      .catch(() => null);
+    if (receipt) return receipt;
+  }
+  return null;
+}
+
+function toOutcome(tx: PendingBaseTransaction, receipt: TransactionReceipt): BaseTxOutcome {
+  if (receipt.transactionHash === tx.cancelHash) return 'cancelled';
+  return receipt.status === 'success' ? 'confirmed' : 'reverted';
+}
+
+async function finish(tx: PendingBaseTransaction, result: TrackedResult): Promise<TrackedResult> {
+  pending.delete(tx.id);
+
+  if (tx.promptMessageId) {
+    const hash = result.receipt?.transactionHash;
+    const link = hash ? `\n[View transaction](${config.explorers.base}${hash})` : '';
+    const sped = hash && hash !== tx.hashes[0] && result.outcome !== 'cancelled' ? ' (sped up)' : '';
+    const messages: Record<BaseTxOutcome, string> = {
+      confirmed: `✅ *${tx.label} confirmed*${sped}`,
+      reverted: `❌ *${tx.label} reverted*${sped}`,
+      cancelled: `✖️ *${tx.label} cancelled* - nothing but gas was spent`,
+      replaced: `ℹ️ *${tx.label} replaced* - another transaction from this wallet used its nonce`,
+    };
+    await editPrompt(tx, messages[result.outcome] + link);
+  }
+
+  return result;
+}
+
+async function promptStuck(tx: PendingBaseTransaction): Promise<void> {
+  if (!bot) return;
+
+  const message = [
+    `⏳ *${tx.label} not confirmed yet*`,
+    ``,
+    `Sent ${Math.round((Date.now() - tx.sentAt) / 1000)}s ago with nonce ${tx.nonce}.`,
+    `⚡ *Speed up* resends it with higher fees.`,
+    `✖️ *Cancel* replaces it with an empty transfer to yourself.`,
+    ``,
+    `[View transaction](${config.explorers.base}${tx.hashes[0]})`,
+  ].join('\n');
+
+  try {
+    // Private chats share the user's id
+    const sent = await bot.telegram.sendMessage(tx.telegramUserId, message, {
+      parse_mode: 'Markdown',
+      link_preview_options: { is_disabled: true },
+      ...getStuckTransactionKeyboard(tx.id),
+    });
+    tx.promptMessageId = sent.message_id;
+  } catch (err) {
+    console.error('[BaseTx] Failed to send stuck transaction prompt:', err);
+  }
+}
+
+async function editPrompt(tx: PendingBaseTransaction, text: string): Promise<void> {
+  if (!bot || !tx.promptMessageId) return;
+
+  try {
+    await bot.telegram.editMessageText(tx.telegramUserId, tx.promptMessageId, undefined, text, {
+      parse_mode: 'Markdown',
+      link_preview_options: { is_disabled: true },
+    });
+  } catch (err) {
+    console.error('[BaseTx] Failed to update stuck transaction prompt:', err);
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -10,17 +10,44 @@ import {
   Address,
   Hex,
   encodeFunctionData,
+  decodeAbiParameters,
+  hexToBigInt,
   erc20Abi,
+  maxUint256,
 } from 'viem';
 import { base } from 'viem/chains';
-import { privateKeyToAccount } from 'viem/accounts';
+import { privateKeyToAccount, generatePrivateKey, PrivateKeyAccount } from 'viem/accounts';
 import axios from 'axios';
 import crypto from 'crypto';
 import { config } from '../config';
 
-import { getWallet, saveWallet } from './database';
+import { getWallet, getWalletById, getWalletByName, getTradeSettings, getTrackedTokens } from './database';
+import { recordTokenApproval, getTokenApprovals, deleteTokenApproval } from './approvals-db';
 import { getTokenInfo, getMultipleTokensInfo } from './dexscreener';
-import { TokenHolding, SwapQuote, TransactionResult } from '../types';
+import { getGasFees, applyGasLimitMultiplier, estimateGasCost } from './gas';
+import { formatGasPreset, formatRouting } from '../utils/formatters';
+import {
+  trackTransaction,
+  waitForTransaction,
+  getPendingTransaction,
+  recordReplacement,
+  TrackedResult,
+} from './base-transactions';
+import { BaseTxRequest } from '../types/base-transactions';
+import { TokenAllowance } from '../types/approvals';
+import { runExclusive, walletKey } from './wallet-queue';
+import {
+  TokenHolding,
+  SwapQuote,
+  SwapSimulation,
+  TransactionResult,
+  SwapExecutionOptions,
+  QuoteCurrency,
+  QueuedCallback,
+  GasAction,
+  BaseAggregator,
+  RouteComparison,
+} from '../types';
 
 // Create clients
 const publicClient = createPublicClient({
@@ -84,14 +111,15 @@ const AGGREGATION_ROUTER_V6 = '0x111111125421ca6dc452d289314280a0f8842a65';
 // ============ Wallet Management ============
 export async function createBaseWallet(
   telegramUserId: number,
-  password?: string
+  password?: string,
+  name: string = 'main'
 ): Promise<{
   address: string;
   created: boolean;
   needsPassword?: boolean;
   error?: string;
 }> {
-  const existing = getWallet(telegramUserId, 'base');
+  const existing = getWalletByName(telegramUserId, 'base', name);
   if (existing) {
     return { address: existing.address, created: false };
   }
@@ -107,7 +135,7 @@ export async function createBaseWallet(
   const privateKey = ('0x' + crypto.randomBytes(32).toString('hex')) as Hex;
   const account = privateKeyToAccount(privateKey);
   
-  const result = security.createEncryptedWallet(telegramUserId, 'base', account.address, privateKey, password);
+  const result = security.createEncryptedWallet(telegramUserId, 'base', account.address, privateKey, password, name);
   if (!result.success) {
     return { address: '', created: false, error: result.error };
   }
@@ -118,7 +146,8 @@ export async function createBaseWallet(
 export async function importBaseWallet(
   telegramUserId: number,
   privateKey: string,
-  password?: string
+  password?: string,
+  name: string = 'main'
 ): Promise<{ address: string; success: boolean; needsPassword?: boolean; error?: string }> {
   if (security.needsPasswordSetup(telegramUserId)) {
     return { address: '', success: false, error: 'Please set up security first with /security' };
@@ -131,7 +160,7 @@ export async function importBaseWallet(
   try {
     const key = (privateKey.startsWith('0x') ? privateKey : '0x' + privateKey) as Hex;
     const account = privateKeyToAccount(key);
-    const result = security.createEncryptedWallet(telegramUserId, 'base', account.address, key, password);
+    const result = security.createEncryptedWallet(telegramUserId, 'base', account.address, key, password, name);
     if (!result.success) {
       return { address: '', success: false, error: result.error };
     }
@@ -143,9 +172,9 @@ export async function importBaseWallet(
 }
 
 
-export function getBaseAccount(telegramUserId: number) {
+export function getBaseAccount(telegramUserId: number, walletId?: number) {
   // Must be unlocked to use wallet
-  const privateKey = security.getPrivateKey(telegramUserId, 'base');
+  const privateKey = security.getPrivateKey(telegramUserId, 'base', walletId);
   if (!privateKey) return null;
   
   try {
@@ -156,9 +185,9 @@ export function getBaseAccount(telegramUserId: number) {
   }
 }
 
-export function exportBasePrivateKey(telegramUserId: number): string | null {
+export function exportBasePrivateKey(telegramUserId: number, walletId?: number): string | null {
   // Must be unlocked - returns key from session
-  return security.getPrivateKey(telegramUserId, 'base');
+  return security.getPrivateKey(telegramUserId, 'base', walletId);
 }
 // ============ Balance & Holdings ============
 
@@ -185,6 +214,20 @@ export async function getEthBalance(address: string): Promise<{
   }
 }
 
+export async function getTokenDecimals(tokenAddress: string): Promise<number> {
+  try {
+    const decimals = await (publicClient as any).readContract({
+      address: tokenAddress as Address,
+      abi: ERC20_ABI,
+      functionName: 'decimals',
+    });
+    return decimals as number;
+  } catch (error) {
+    console.error('Error getting token decimals:', error);
+    return 18;
+  }
+}
+
 export async function getTokenBalance(
   walletAddress: string,
   tokenAddress: string
@@ -253,15 +296,202 @@ export async function getBaseTokenHoldings(
   return holdings;
 }
 
-// ============ Odos Trading ============
+// ============ Aggregator Routing ============
 
 // Odos V2 Router on Base
 const ODOS_ROUTER_V2 = '0x19cEeAd7105607Cd444F5ad10dd51356436095a1';
 const ODOS_API_BASE = 'https://api.odos.xyz';
 
-// Native ETH address used by Odos
+// LlamaSwap quotes one underlying aggregator per request; KyberSwap adds liquidity the other two don't cover
+const LLAMASWAP_PROTOCOL = 'KyberSwap';
+
+// KyberSwap MetaAggregationRouterV2, the spender of LlamaSwap's KyberSwap routes
+const KYBERSWAP_ROUTER = '0x6131B5fae19EA4f9D964eAc0408E4408b66337b5';
+
+// Gas assumed for quotes that come without an estimate, so they can't win on gas they didn't report
+const DEFAULT_SWAP_GAS = 300000;
+
+// Native ETH address used by Odos and LlamaSwap
 const NATIVE_TOKEN_ADDRESS = '0x0000000000000000000000000000000000000000';
 
+const USDC_DECIMALS = 6;
+
+// Sell-back simulations accept heavy slippage so a big sell tax shows up as a tax, not a revert
+const SELL_BACK_SLIPPAGE_BPS = 5000;
+
+// Buy size used to probe whether a token can be sold, before the user trades it
+const SELL_PROBE_ETH = '0.01';
+
+type AggregatorQuoter = (
+  fromToken: string,
+  toToken: string,
+  amount: string,
+  userAddr: string,
+  slippageBps: number
+) => Promise<SwapQuote | null>;
+
+/**
+ * Token that buys are paid with and sells pay out in
+ */
+export function getQuoteToken(quoteCurrency: QuoteCurrency = 'native'): string {
+  return quoteCurrency === 'usdc' ? config.base.usdcAddress : config.base.nativeToken;
+}
+
+/**
+ * Convert an ETH or USDC amount to raw base units
+ */
+function toQuoteRawAmount(amount: number, quoteCurrency: QuoteCurrency): bigint {
+  return quoteCurrency === 'usdc'
+    ? parseUnits(amount.toString(), USDC_DECIMALS)
+    : parseEther(amount.toString());
+}
+
+/**
+ * Quote a swap on every enabled aggregator in parallel and rank the quotes by
+ * output net of gas at the user's gas speed. The best one comes back with the
+ * others attached as fallbacks for when it can't be built or sent.
+ */
+export async function getBaseSwapQuote(
+  telegramUserId: number,
+  fromToken: string,
+  toToken: string,
+  amount: string,
+  userAddr: string,
+  slippageBps: number = 100
+): Promise<SwapQuote | null> {
+  const quoters: Record<BaseAggregator, AggregatorQuoter> = {
+    odos: getOdosQuote,
+    '1inch': getOneInchQuote,
+    llamaswap: getLlamaSwapQuote,
+  };
+  // 1inch needs an API key; the others are open
+  const aggregators: BaseAggregator[] = config.oneInchApiKey ? ['odos', '1inch', 'llamaswap'] : ['odos', 'llamaswap'];
+
+  const quotes = (await Promise.all(
+    aggregators.map(a => quoters[a](fromToken, toToken, amount, userAddr, slippageBps))
+  )).filter((q): q is SwapQuote => q !== null && BigInt(q.outputAmount) > 0n);
+  if (quotes.length === 0) return null;
+
+  const settings = getTradeSettings(telegramUserId, 'base');
+  const preset = settings.gasPresets[getSwapGasAction(fromToken)];
+  const [fees, ethInfo] = await Promise.all([
+    getGasFees(publicClient as any, preset, settings.gasPriorityTipGwei, settings.gasMaxFeeGwei).catch((error: any) => {
+      console.warn('Gas fees unavailable, ranking routes on gross output:', error.message);
+      return null;
+    }),
+    getTokenInfo(config.base.wethAddress, 'base'),
+  ]);
+  const ethPriceUsd = parseFloat(ethInfo?.priceUsd || '0');
+  const outputPerWei = fees ? await getOutputPerWei(quotes, ethPriceUsd) : 0;
+
+  const ranked = quotes
+    .map(quote => {
+      const gasCost = fees ? estimateGasCost(BigInt(Math.ceil(Number(quote.estimatedGas || DEFAULT_SWAP_GAS))), fees) : 0n;
+      const net = BigInt(quote.outputAmount) - BigInt(Math.floor(Number(gasCost) * outputPerWei));
+      return { ...quote, netOutputAmount: net.toString() };
+    })
+    .sort((a, b) => (BigInt(b.netOutputAmount) > BigInt(a.netOutputAmount) ? 1 : -1));
+
+  const [best, ...alternatives] = ranked;
+  const routing = compareRoutes(ranked, 0);
+
+  let estimatedFee = best.estimatedFee;
+  if (fees && best.estimatedGas) {
+    const cost = parseFloat(formatEther(estimateGasCost(BigInt(Math.ceil(Number(best.estimatedGas))), fees)));
+    estimatedFee = `~${parseFloat(cost.toPrecision(3))} ETH ($${(cost * ethPriceUsd).toFixed(4)}) gas, ${formatGasPreset(preset)}` +
+      (fees.capped ? ' (capped)' : '');
+  }
+
+  return {
+    ...best,
+    route: formatRouting(routing),
+    // 1inch and LlamaSwap don't report impact; the same trade on the same pools moves price about as much.
+    // Left unknown when no aggregator reported one, so the impact limit can't pass it by default.
+    priceImpactPct: best.priceImpactPct ?? getReportedImpact(ranked),
+    estimatedFee,
+    alternatives,
+    routing,
+  };
+}
+
+/**
+ * Highest price impact any aggregator reported for the trade, undefined when none did
+ */
+function getReportedImpact(quotes: SwapQuote[]): number | undefined {
+  const reported = quotes.map(q => q.priceImpactPct).filter((pct): pct is number => pct !== undefined);
+  return reported.length > 0 ? Math.max(...reported) : undefined;
+}
+
+/**
+ * How one ranked quote compares with the next one down
+ */
+function compareRoutes(ranked: SwapQuote[], index: number): RouteComparison {
+  const chosen = ranked[index];
+  const runnerUp = ranked[index + 1];
+  const net = (quote: SwapQuote) => Number(quote.netOutputAmount ?? quote.outputAmount);
+
+  return {
+    aggregator: chosen.aggregator!,
+    runnerUp: runnerUp?.aggregator,
+    runnerUpDeltaPct: runnerUp && net(runnerUp) > 0 ? (net(chosen) / net(runnerUp) - 1) * 100 : undefined,
+    fallbackFrom: index > 0 ? ranked.slice(0, index).map(q => q.aggregator!) : undefined,
+  };
+}
+
+/**
+ * Raw output token units one wei of gas is worth, so gas can be taken off each quote's output.
+ * Zero when there is no price to convert with, which ranks on gross output.
+ */
+async function getOutputPerWei(quotes: SwapQuote[], ethPriceUsd: number): Promise<number> {
+  const { inputToken, outputToken, outputDecimals = 18 } = quotes[0];
+  if (isNativeToken(outputToken)) return 1;
+
+  // Buys with ETH: the quotes themselves are the price
+  if (isNativeToken(inputToken)) {
+    const best = Math.max(...quotes.map(q => Number(q.outputAmount)));
+    return best / Number(quotes[0].inputAmount);
+  }
+
+  const output = await getTokenInfo(outputToken, 'base');
+  const outputPriceUsd = parseFloat(output?.priceUsd || '0');
+  if (!ethPriceUsd || !outputPriceUsd) return 0;
+
+  return (ethPriceUsd / outputPriceUsd) * 10 ** (outputDecimals - 18);
+}
+
+/**
+ * Fill in the fields every aggregator's quote shares
+ */
+async function toSwapQuote(
+  aggregator: BaseAggregator,
+  fromToken: string,
+  toToken: string,
+  amount: string,
+  outputAmount: string,
+  slippageBps: number,
+  details: Pick<SwapQuote, 'spender' | 'estimatedGas' | 'priceImpactPct' | 'estimatedFee' | 'raw'>
+): Promise<SwapQuote> {
+  const outputDecimals = isNativeToken(toToken) ? 18 : await getTokenDecimals(toToken);
+  // Quotes are exact-in; the router reverts below this amount
+  const minimumOutputAmount = (BigInt(outputAmount) * BigInt(10000 - slippageBps) / 10000n).toString();
+
+  return {
+    inputToken: fromToken,
+    outputToken: toToken,
+    inputAmount: amount,
+    outputAmount,
+    outputAmountFormatted: formatUnits(BigInt(outputAmount), outputDecimals),
+    priceImpact: details.priceImpactPct?.toString() || '0',
+    route: formatRouting({ aggregator }),
+    outputDecimals,
+    minimumOutputAmount,
+    minimumOutputFormatted: formatUnits(BigInt(minimumOutputAmount), outputDecimals),
+    quotedAt: Date.now(),
+    aggregator,
+    ...details,
+  };
+}
+
 export async function getOdosQuote(
   fromToken: string,
   toToken: string,
@@ -270,15 +500,10 @@ export async function getOdosQuote(
   slippageBps: number = 100
 ): Promise<SwapQuote | null> {
   try {
-    const inToken = fromToken.toLowerCase() === '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee'
-      ? NATIVE_TOKEN_ADDRESS : fromToken;
-    const outToken = toToken.toLowerCase() === '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee'
-      ? NATIVE_TOKEN_ADDRESS : toToken;
-
     const response = await swapApi.post(`${ODOS_API_BASE}/sor/quote/v2`, {
       chainId: 8453,
-      inputTokens: [{ tokenAddress: inToken, amount }],
-      outputTokens: [{ tokenAddress: outToken, proportion: 1 }],
+      inputTokens: [{ tokenAddress: toZeroAddressNative(fromToken), amount }],
+      outputTokens: [{ tokenAddress: toZeroAddressNative(toToken), proportion: 1 }],
       slippageLimitPercent: slippageBps / 100,
       userAddr,
       referralCode: 0,
@@ -286,151 +511,911 @@ export async function getOdosQuote(
     });
 
     const data = response.data;
-
-    return {
-      inputToken: fromToken,
-      outputToken: toToken,
-      inputAmount: amount,
-      outputAmount: data.outAmounts?.[0] || '0',
-      outputAmountFormatted: data.outAmounts?.[0] || '0',
-      priceImpact: data.priceImpact?.toString() || '0',
-      route: 'Odos',
-    };
+    return await toSwapQuote('odos', fromToken, toToken, amount, data.outAmounts?.[0] || '0', slippageBps, {
+      spender: ODOS_ROUTER_V2,
+      estimatedGas: data.gasEstimate?.toString(),
+      // Odos reports impact in percent, negative when the trade moves price against us
+      priceImpactPct: Math.abs(parseFloat(data.priceImpact || '0')),
+      estimatedFee: data.gasEstimateValue ? `~$${parseFloat(data.gasEstimateValue).toFixed(4)} gas` : undefined,
+      raw: data,
+    });
   } catch (error: any) {
     console.error('Error getting Odos quote:', error.response?.data || error.message);
     return null;
   }
 }
 
-export async function executeOdosSwap(
+async function getOneInchQuote(
+  fromToken: string,
+  toToken: string,
+  amount: string,
+  _userAddr: string,
+  slippageBps: number
+): Promise<SwapQuote | null> {
+  try {
+    const response = await swapApi.get(`${config.oneInchApiUrl}/quote`, {
+      headers: { Authorization: `Bearer ${config.oneInchApiKey}` },
+      params: { src: fromToken, dst: toToken, amount, includeGas: true },
+    });
+
+    const data = response.data;
+    return await toSwapQuote('1inch', fromToken, toToken, amount, data.dstAmount || '0', slippageBps, {
+      spender: AGGREGATION_ROUTER_V6,
+      estimatedGas: data.gas?.toString(),
+      // The swap call is built later and must use the slippage the quote was shown with
+      raw: { ...data, slippageBps },
+    });
+  } catch (error: any) {
+    console.error('Error getting 1inch quote:', error.response?.data || error.message);
+    return null;
+  }
+}
+
+async function getLlamaSwapQuote(
+  fromToken: string,
+  toToken: string,
+  amount: string,
+  userAddr: string,
+  slippageBps: number
+): Promise<SwapQuote | null> {
+  try {
+    const response = await swapApi.post(
+      `${config.llamaSwapApiUrl}/dexAggregatorQuote`,
+      { userAddress: userAddr, slippage: (slippageBps / 100).toString() },
+      {
+        params: {
+          protocol: LLAMASWAP_PROTOCOL,
+          chain: 'base',
+          from: toZeroAddressNative(fromToken),
+          to: toZeroAddressNative(toToken),
+          amount,
+        },
+      }
+    );
+
+    const data = response.data;
+    if (!data.tx) {
+      console.error('No transaction in LlamaSwap quote response:', data);
+      return null;
+    }
+
+    return await toSwapQuote('llamaswap', fromToken, toToken, amount, data.amountReturned || '0', slippageBps, {
+      spender: data.tokenApprovalAddress || KYBERSWAP_ROUTER,
+      estimatedGas: data.estimatedGas?.toString(),
+      raw: data,
+    });
+  } catch (error: any) {
+    console.error('Error getting LlamaSwap quote:', error.response?.data || error.message);
+    return null;
+  }
+}
+
+/**
+ * Build the router transaction for a quote from whichever aggregator made it
+ */
+async function buildSwapTransaction(quote: SwapQuote, userAddr: string): Promise<SwapTransaction | null> {
+  switch (quote.aggregator) {
+    case '1inch': {
+      const response = await swapApi.get(`${config.oneInchApiUrl}/swap`, {
+        headers: { Authorization: `Bearer ${config.oneInchApiKey}` },
+        params: {
+          src: quote.inputToken,
+          dst: quote.outputToken,
+          amount: quote.inputAmount,
+          from: userAddr,
+          origin: userAddr,
+          slippage: quote.raw.slippageBps / 100,
+          // Estimation fails before the approval lands; the gas is estimated once it has
+          disableEstimate: true,
+        },
+      });
+      return response.data.tx || null;
+    }
+
+    case 'llamaswap':
+      // LlamaSwap quotes come with the transaction already built for the quoting wallet
+      return quote.raw?.tx ? { to: quote.raw.tx.to, data: quote.raw.tx.data, value: quote.raw.tx.value } : null;
+
+    default:
+      return quote.raw?.pathId ? assembleOdosTransaction(quote.raw.pathId, userAddr) : null;
+  }
+}
+
+/**
+ * Execute a swap on the best Base route. Transactions from the same wallet go
+ * out one at a time so each one takes the next nonce.
+ */
+export async function executeBaseSwap(
   telegramUserId: number,
   fromToken: string,
   toToken: string,
   amount: string,
-  slippageBps: number = 100
+  slippageBps: number = 100,
+  options: SwapExecutionOptions = {}
+): Promise<TransactionResult> {
+  const account = getBaseAccount(telegramUserId, options.walletId);
+  if (!account) {
+    return { success: false, error: 'Wallet not found' };
+  }
+
+  return runExclusive(
+    walletKey('base', account.address),
+    () => sendBaseSwap(telegramUserId, account, fromToken, toToken, amount, slippageBps, options),
+    options.onQueued
+  );
+}
+
+async function sendBaseSwap(
+  telegramUserId: number,
+  account: PrivateKeyAccount,
+  fromToken: string,
+  toToken: string,
+  amount: string,
+  slippageBps: number,
+  options: SwapExecutionOptions
 ): Promise<TransactionResult> {
   try {
-    const account = getBaseAccount(telegramUserId);
-    if (!account) {
-      return { success: false, error: 'Wallet not found' };
+    // Use the confirmed quote when given, otherwise route now
+    const best = options.quote
+      || await getBaseSwapQuote(telegramUserId, fromToken, toToken, amount, account.address, slippageBps);
+    if (!best) {
+      return { success: false, error: 'No route found for this swap' };
+    }
+
+    const gasAction = getSwapGasAction(fromToken);
+    const routes = [best, ...(best.alternatives || [])];
+    let lastError = 'Failed to build swap transaction';
+
+    // Fall back down the ranking while a route can't be built or would revert; once one is sent, it's final
+    for (let i = 0; i < routes.length; i++) {
+      const quote = routes[i];
+      const label = formatRouting({ aggregator: quote.aggregator || 'odos' });
+
+      let tx: SwapTransaction | null;
+      try {
+        tx = await buildSwapTransaction(quote, account.address);
+      } catch (error: any) {
+        console.error(`Error building ${label} swap:`, error.response?.data || error.message);
+        tx = null;
+      }
+      if (!tx) {
+        lastError = `${label}: failed to build swap transaction`;
+        continue;
+      }
+
+      if (!isNativeToken(fromToken)) {
+        const spender = quote.spender || ODOS_ROUTER_V2;
+
+        // Gas estimation can't see past a missing allowance, so check approval and swap together
+        // before approving: a route that would revert must not leave an approval behind
+        let routeError: string | null;
+        try {
+          routeError = await checkApprovedRoute(account.address, fromToken, BigInt(amount), spender, tx);
+        } catch (error: any) {
+          routeError = error.shortMessage || error.message;
+        }
+        if (routeError) {
+          console.error(`${label} swap would revert:`, routeError);
+          lastError = `${label}: ${routeError}`;
+          continue;
+        }
+
+        const approvalError = await approveSwapSpender(
+          telegramUserId,
+          account,
+          options.walletId,
+          fromToken,
+          spender,
+          BigInt(amount),
+          gasAction
+        );
+        if (approvalError) {
+          return { success: false, error: approvalError };
+        }
+      }
+
+      let gasEstimate: bigint;
+      try {
+        gasEstimate = tx.gas
+          ? BigInt(tx.gas)
+          : await publicClient.estimateGas({
+              account: account.address,
+              to: tx.to as Address,
+              data: tx.data as Hex,
+              value: BigInt(tx.value || '0'),
+            });
+      } catch (error: any) {
+        console.error(`${label} swap would revert:`, error.shortMessage || error.message);
+        lastError = `${label}: ${error.shortMessage || error.message}`;
+        // This route's spender is approved now; don't go on to approve another one
+        if (!isNativeToken(fromToken)) break;
+        continue;
+      }
+
+      console.log(`${label} tx assembled, sending...`);
+
+      const { outcome, receipt } = await sendTrackedTransaction(
+        telegramUserId,
+        account,
+        options.walletId,
+        'Swap',
+        { to: tx.to, data: tx.data, value: BigInt(tx.value || '0'), gas: gasEstimate },
+        gasAction
+      );
+
+      if (outcome === 'cancelled' || outcome === 'replaced') {
+        return { success: false, error: `Transaction ${outcome} - nothing was swapped` };
+      }
+
+      // A sped-up replacement has its own hash
+      const hash = receipt.transactionHash;
+      const routing = compareRoutes(routes, i);
+
+      if (receipt.status === 'reverted') {
+        return {
+          success: false,
+          hash,
+          error: 'Transaction reverted',
+          explorerUrl: `${config.explorers.base}${hash}`,
+          routing,
+        };
+      }
+
+      return {
+        success: true,
+        hash,
+        explorerUrl: `${config.explorers.base}${hash}`,
+        inputAmount: amount,
+        outputAmount: quote.outputAmount,
+        routing,
+      };
     }
 
+    return { success: false, error: lastError };
+  } catch (error: any) {
+    console.error('Error executing Base swap:', error.response?.data || error);
+    return {
+      success: false,
+      error: error.shortMessage || error.message || 'Swap failed',
+    };
+  }
+}
+
+/**
+ * Approve `spender` for the swap's input token when its allowance is short.
+ * Returns an error message when the approval didn't confirm.
+ */
+async function approveSwapSpender(
+  telegramUserId: number,
+  account: PrivateKeyAccount,
+  walletId: number | undefined,
+  token: string,
+  spender: string,
+  amount: bigint,
+  gasAction: GasAction
+): Promise<string | null> {
+  const allowance: bigint = await (publicClient as any).readContract({
+    address: token as Address,
+    abi: ERC20_ABI,
+    functionName: 'allowance',
+    args: [account.address, spender as Address],
+  });
+  if (allowance >= amount) return null;
+
+  console.log('Approving', spender, 'for', token);
+  const approvalAmount = getTradeSettings(telegramUserId, 'base').exactApprovals ? amount : maxUint256;
+  const approval = await sendTrackedTransaction(
+    telegramUserId,
+    account,
+    walletId,
+    'Token approval',
+    {
+      to: token,
+      data: encodeFunctionData({
+        abi: erc20Abi,
+        functionName: 'approve',
+        args: [spender as Address, approvalAmount],
+      }),
+      value: 0n,
+    },
+    gasAction
+  );
+  if (approval.outcome !== 'confirmed') {
+    return `Token approval ${approval.outcome} - nothing was swapped`;
+  }
+
+  console.log('Approval confirmed:', approval.receipt.transactionHash);
+  recordTokenApproval(account.address, token, spender, approvalAmount);
+  return null;
+}
+
+// Replacements must outbid the pending transaction; nodes want at least +10% on both fees
+const REPLACEMENT_FEE_BUMP_PERCENT = 25n;
+
+// Gas for a plain ETH transfer, which is what a cancel is
+const CANCEL_GAS = 21000n;
+
+/**
+ * Broadcast a transaction with the next nonce and wait for it, or for whichever
+ * speed-up or cancel of it is mined. Stuck ones get a Speed up / Cancel prompt.
+ */
+async function sendTrackedTransaction(
+  telegramUserId: number,
+  account: PrivateKeyAccount,
+  walletId: number | undefined,
+  label: string,
+  request: BaseTxRequest,
+  gasAction: GasAction
+): Promise<TrackedResult> {
+  const walletClient = createWalletClient({
+    account,
+    chain: base,
+    transport: http(config.baseRpcUrl),
+  });
+
+  const gas = await getGasOverrides(telegramUserId, gasAction, request.gas);
+  const nonce = await publicClient.getTransactionCount({ address: account.address, blockTag: 'pending' });
+
+  const hash = await (walletClient as any).sendTransaction({
+    to: request.to as Address,
+    data: request.data as Hex | undefined,
+    value: request.value,
+    nonce,
+    chain: base,
+    ...gas,
+  });
+
+  const tx = trackTransaction({
+    telegramUserId,
+    walletId,
+    from: account.address,
+    nonce,
+    label,
+    request: { ...request, gas: gas.gas },
+    maxFeePerGas: gas.maxFeePerGas,
+    maxPriorityFeePerGas: gas.maxPriorityFeePerGas,
+  }, hash);
+
+  return waitForTransaction(tx);
+}
+
+/**
+ * Resend a stuck transaction with the same nonce and higher fees
+ */
+export async function speedUpBaseTransaction(telegramUserId: number, id: number): Promise<TransactionResult> {
+  return replaceBaseTransaction(telegramUserId, id, false);
+}
+
+/**
+ * Replace a stuck transaction with a zero-value transfer to the sender
+ */
+export async function cancelBaseTransaction(telegramUserId: number, id: number): Promise<TransactionResult> {
+  return replaceBaseTransaction(telegramUserId, id, true);
+}
+
+async function replaceBaseTransaction(telegramUserId: number, id: number, cancel: boolean): Promise<TransactionResult> {
+  const tx = getPendingTransaction(id);
+  if (!tx || tx.telegramUserId !== telegramUserId) {
+    return { success: false, error: 'This transaction is no longer pending' };
+  }
+  if (tx.cancelHash) {
+    return { success: false, error: 'A cancel is already on its way' };
+  }
+
+  const account = getBaseAccount(telegramUserId, tx.walletId);
+  if (!account) {
+    return { success: false, error: 'Wallet locked - please unlock with /unlock' };
+  }
+
+  try {
+    // Outbid the last send, or the network's current turbo fees when those are higher
+    const network = await getGasFees(publicClient as any, 'turbo');
+    const bump = (fee: bigint) => (fee * (100n + REPLACEMENT_FEE_BUMP_PERCENT)) / 100n;
+    const maxPriorityFeePerGas = max(bump(tx.maxPriorityFeePerGas), network.maxPriorityFeePerGas);
+    const fees = {
+      maxPriorityFeePerGas,
+      maxFeePerGas: max(bump(tx.maxFeePerGas), network.maxFeePerGas, maxPriorityFeePerGas),
+    };
+
+    const request: BaseTxRequest = cancel
+      ? { to: tx.from, value: 0n, gas: CANCEL_GAS }
+      : tx.request;
+
     const walletClient = createWalletClient({
       account,
       chain: base,
       transport: http(config.baseRpcUrl),
     });
 
-    const isFromETH = fromToken.toLowerCase() === config.base.nativeToken.toLowerCase() ||
-                       fromToken.toLowerCase() === '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee';
+    const hash = await (walletClient as any).sendTransaction({
+      to: request.to as Address,
+      data: request.data as Hex | undefined,
+      value: request.value,
+      gas: request.gas,
+      nonce: tx.nonce,
+      chain: base,
+      ...fees,
+    });
 
-    if (!isFromETH) {
-      const allowance = await (publicClient as any).readContract({
-        address: fromToken as Address,
-        abi: ERC20_ABI,
-        functionName: 'allowance',
-        args: [account.address, ODOS_ROUTER_V2 as Address],
-      });
+    recordReplacement(tx, hash, fees, cancel);
+    return { success: true, hash, explorerUrl: `${config.explorers.base}${hash}` };
+  } catch (error: any) {
+    console.error(`Error ${cancel ? 'cancelling' : 'speeding up'} Base transaction:`, error);
+    return { success: false, error: error.shortMessage || error.message || 'Replacement failed' };
+  }
+}
 
-      if ((allowance as bigint) < BigInt(amount)) {
-        console.log('Approving Odos router for', fromToken);
-        const approveHash = await (walletClient as any).writeContract({
-          address: fromToken as Address,
-          abi: erc20Abi,
-          functionName: 'approve',
-          args: [ODOS_ROUTER_V2 as Address, BigInt('0xffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff')],
-          chain: base,
-        });
-        await publicClient.waitForTransactionReceipt({ hash: approveHash });
-        console.log('Approval confirmed:', approveHash);
+function max(...values: bigint[]): bigint {
+  return values.reduce((a, b) => (b > a ? b : a));
+}
+
+/**
+ * Swaps out of ETH or USDC are buys, everything else sells
+ */
+function getSwapGasAction(fromToken: string): GasAction {
+  return isNativeToken(fromToken) || fromToken.toLowerCase() === config.base.usdcAddress.toLowerCase()
+    ? 'buy'
+    : 'sell';
+}
+
+/**
+ * EIP-1559 fields for a transaction, priced from the user's gas speed for `action`.
+ * `gasEstimate` is scaled by their gas limit multiplier; without it viem estimates the limit.
+ */
+async function getGasOverrides(
+  telegramUserId: number,
+  action: GasAction,
+  gasEstimate?: bigint
+): Promise<{ gas?: bigint; maxFeePerGas: bigint; maxPriorityFeePerGas: bigint }> {
+  const settings = getTradeSettings(telegramUserId, 'base');
+  const fees = await getGasFees(
+    publicClient as any,
+    settings.gasPresets[action],
+    settings.gasPriorityTipGwei,
+    settings.gasMaxFeeGwei
+  );
+
+  return {
+    gas: gasEstimate ? applyGasLimitMultiplier(gasEstimate, settings.gasLimitMultiplier) : undefined,
+    maxFeePerGas: fees.maxFeePerGas,
+    maxPriorityFeePerGas: fees.maxPriorityFeePerGas,
+  };
+}
+
+/**
+ * Build the router transaction for a quoted Odos path
+ */
+async function assembleOdosTransaction(pathId: string, userAddr: string): Promise<SwapTransaction | null> {
+  const assembleResponse = await swapApi.post(`${ODOS_API_BASE}/sor/assemble`, {
+    pathId,
+    userAddr,
+  });
+
+  const tx = assembleResponse.data.transaction;
+  if (!tx) {
+    console.error('No transaction in Odos assemble response:', assembleResponse.data);
+    return null;
+  }
+
+  return tx;
+}
+
+/**
+ * Simulate a confirmed quote from the user's wallet before it is sent.
+ * The swap alone is checked with eth_call. For buys, `checkSellBack` simulates
+ * the buy followed by selling everything received straight back (eth_simulateV1),
+ * which reveals honeypots and buy/sell taxes.
+ * Throws on RPC errors; a reverting swap is returned as `success: false`.
+ */
+export async function simulateBaseQuote(
+  telegramUserId: number,
+  quote: SwapQuote,
+  walletId?: number,
+  checkSellBack: boolean = false
+): Promise<SwapSimulation> {
+  const account = getBaseAccount(telegramUserId, walletId);
+  if (!account) {
+    return { success: false, error: 'Wallet not found' };
+  }
+
+  return simulateQuote(account.address, quote, checkSellBack);
+}
+
+/**
+ * Buy-and-sell-back check for a token before anyone holds it. Runs from a
+ * throwaway address funded only in simulation, so no wallet or ETH is needed.
+ */
+export async function probeBaseSellability(tokenAddress: string): Promise<SwapSimulation> {
+  const probe = privateKeyToAccount(generatePrivateKey()).address;
+  const amount = parseEther(SELL_PROBE_ETH);
+
+  const quote = await getOdosQuote(config.base.nativeToken, tokenAddress, amount.toString(), probe, SELL_BACK_SLIPPAGE_BPS);
+  if (!quote) {
+    return { success: false, error: 'No route found for this token' };
+  }
+
+  return simulateQuote(probe, quote, true, [{ address: probe, balance: amount * 2n }]);
+}
+
+async function simulateQuote(
+  owner: Address,
+  quote: SwapQuote,
+  checkSellBack: boolean,
+  stateOverrides?: { address: Address; balance: bigint }[]
+): Promise<SwapSimulation> {
+  const swapTx = await buildSwapTransaction(quote, owner).catch(() => null);
+  if (!swapTx) {
+    return { success: false, error: 'Failed to build swap transaction' };
+  }
+
+  // Token inputs need router allowance first; simulate the approval alongside when it's missing
+  const setup = await getApprovalCalls(quote.inputToken, owner, BigInt(quote.inputAmount), quote.spender || ODOS_ROUTER_V2);
+  const swapCall = toCall(swapTx);
+
+  if (!checkSellBack) {
+    if (setup.length === 0) {
+      try {
+        await publicClient.call({ account: owner, ...swapCall, stateOverride: stateOverrides });
+        return { success: true };
+      } catch (error: any) {
+        if (isRpcError(error)) throw error;
+        return { success: false, error: error.shortMessage || error.message };
       }
     }
 
-    const inToken = fromToken.toLowerCase() === '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee'
-      ? NATIVE_TOKEN_ADDRESS : fromToken;
-    const outToken = toToken.toLowerCase() === '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee'
-      ? NATIVE_TOKEN_ADDRESS : toToken;
+    const results = await simulateCalls(owner, [...setup, swapCall], stateOverrides);
+    return toSimulation(results[results.length - 1]);
+  }
 
-    console.log('Odos quote:', { inToken, outToken, amount, userAddr: account.address });
+  const token = quote.outputToken as Address;
+  const { balance: balanceBefore } = await getTokenBalance(owner, token);
 
-    const quoteResponse = await swapApi.post(`${ODOS_API_BASE}/sor/quote/v2`, {
-      chainId: 8453,
-      inputTokens: [{ tokenAddress: inToken, amount }],
-      outputTokens: [{ tokenAddress: outToken, proportion: 1 }],
-      slippageLimitPercent: slippageBps / 100,
-      userAddr: account.address,
-      referralCode: 0,
-      compact: true,
-    });
+  const buyResults = await simulateCalls(owner, [...setup, swapCall, balanceOfCall(token, owner)], stateOverrides);
+  const buy = toSimulation(buyResults[buyResults.length - 2]);
+  if (!buy.success) return buy;
 
-    const pathId = quoteResponse.data.pathId;
-    if (!pathId) {
-      console.error('No pathId in Odos quote response:', quoteResponse.data);
-      return { success: false, error: 'Failed to get swap route' };
-    }
+  const received = hexToBigInt(buyResults[buyResults.length - 1].data) - balanceBefore;
+  const quoted = BigInt(quote.outputAmount);
+  const buyTaxPercent = quoted > 0n && received < quoted
+    ? (Number(quoted - received) / Number(quoted)) * 100
+    : 0;
 
-    console.log('Odos pathId:', pathId, 'outAmounts:', quoteResponse.data.outAmounts);
+  if (received <= 0n) {
+    return { success: true, sellable: false, buyTaxPercent: 100 };
+  }
 
-    const assembleResponse = await swapApi.post(`${ODOS_API_BASE}/sor/assemble`, {
-      pathId,
-      userAddr: account.address,
-    });
+  const sellQuote = await getOdosQuote(token, quote.inputToken, received.toString(), owner, SELL_BACK_SLIPPAGE_BPS);
+  const sellTx = sellQuote?.raw?.pathId ? await assembleOdosTransaction(sellQuote.raw.pathId, owner) : null;
+  if (!sellTx) {
+    return { success: true, sellable: false, buyTaxPercent };
+  }
 
-    const tx = assembleResponse.data.transaction;
-    if (!tx) {
-      console.error('No transaction in Odos assemble response:', assembleResponse.data);
-      return { success: false, error: 'Failed to build swap transaction' };
-    }
+  const sellResults = await simulateCalls(owner, [
+    ...setup,
+    swapCall,
+    approveCall(token, received, ODOS_ROUTER_V2),
+    toCall(sellTx),
+  ], stateOverrides);
+  const sell = sellResults[sellResults.length - 1];
+  if (sell.status !== 'success') {
+    return { success: true, sellable: false, buyTaxPercent };
+  }
 
-    console.log('Odos tx assembled, sending...');
+  // The router returns the amount it paid out; compare the round trip with what the buy tax explains
+  const [returned] = decodeAbiParameters([{ type: 'uint256' }], sell.data);
+  const spent = Number(BigInt(quote.inputAmount));
+  const kept = Number(returned) / (spent * (1 - buyTaxPercent / 100));
+  const sellTaxPercent = Math.min(100, Math.max(0, (1 - kept) * 100));
 
-    const hash = await (walletClient as any).sendTransaction({
-      to: tx.to as Address,
-      data: tx.data as Hex,
-      value: BigInt(tx.value || '0'),
-      gas: tx.gas ? BigInt(tx.gas) : undefined,
-      chain: base,
-    });
+  return { success: true, sellable: true, buyTaxPercent, sellTaxPercent };
+}
 
-    const receipt = await publicClient.waitForTransactionReceipt({ hash });
+/**
+ * Revert reason when a token-input swap fails with its approval in place, null when it goes through.
+ * Routes the spender already covers are left to gas estimation.
+ */
+async function checkApprovedRoute(
+  owner: Address,
+  inputToken: string,
+  amount: bigint,
+  spender: string,
+  tx: SwapTransaction
+): Promise<string | null> {
+  const setup = await getApprovalCalls(inputToken, owner, amount, spender);
+  if (setup.length === 0) return null;
+
+  const results = await simulateCalls(owner, [...setup, toCall(tx)]);
+  const swap = toSimulation(results[results.length - 1]);
+  return swap.success ? null : swap.error || 'Swap reverts';
+}
 
-    if (receipt.status === 'reverted') {
-      return {
-        success: false,
-        hash,
-        error: 'Transaction reverted',
-        explorerUrl: `${config.explorers.base}${hash}`,
-      };
+interface SwapTransaction {
+  to: string;
+  data: string;
+  value?: string;
+  gas?: number | string;
+}
+
+interface SimulatedCall {
+  to: Address;
+  data: Hex;
+  value?: bigint;
+}
+
+function toCall(tx: SwapTransaction): SimulatedCall {
+  return { to: tx.to as Address, data: tx.data as Hex, value: BigInt(tx.value || '0') };
+}
+
+function approveCall(token: Address, amount: bigint, spender: string): SimulatedCall {
+  return {
+    to: token,
+    data: encodeFunctionData({ abi: erc20Abi, functionName: 'approve', args: [spender as Address, amount] }),
+  };
+}
+
+function balanceOfCall(token: Address, owner: Address): SimulatedCall {
+  return {
+    to: token,
+    data: encodeFunctionData({ abi: erc20Abi, functionName: 'balanceOf', args: [owner] }),
+  };
+}
+
+async function getApprovalCalls(inputToken: string, owner: Address, amount: bigint, spender: string): Promise<SimulatedCall[]> {
+  if (isNativeToken(inputToken)) return [];
+
+  const allowance: bigint = await (publicClient as any).readContract({
+    address: inputToken as Address,
+    abi: ERC20_ABI,
+    functionName: 'allowance',
+    args: [owner, spender as Address],
+  });
+
+  return allowance < amount ? [approveCall(inputToken as Address, amount, spender)] : [];
+}
+
+async function simulateCalls(
+  account: Address,
+  calls: SimulatedCall[],
+  stateOverrides?: { address: Address; balance: bigint }[]
+) {
+  const { results } = await (publicClient as any).simulateCalls({ account, calls, stateOverrides });
+  return results as { status: 'success' | 'failure'; data: Hex; error?: any }[];
+}
+
+function toSimulation(result: { status: 'success' | 'failure'; error?: any }): SwapSimulation {
+  return result.status === 'success'
+    ? { success: true }
+    : { success: false, error: result.error?.shortMessage || result.error?.message || 'Swap reverts' };
+}
+
+/**
+ * Odos and LlamaSwap take native ETH as the zero address
+ */
+function toZeroAddressNative(token: string): string {
+  return isNativeToken(token) ? NATIVE_TOKEN_ADDRESS : token;
+}
+
+function isNativeToken(token: string): boolean {
+  const address = token.toLowerCase();
+  return address === config.base.nativeToken.toLowerCase()
+    || address === '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee'
+    || address === NATIVE_TOKEN_ADDRESS;
+}
+
+// Transport failures mean the simulation couldn't run, not that the swap fails
+function isRpcError(error: any): boolean {
+  return !!error?.walk?.((e: any) => e?.name === 'HttpRequestError' || e?.name === 'TimeoutError');
+}
+
+export async function quoteBaseBuy(
+  telegramUserId: number,
+  tokenAddress: string,
+  amount: number,
+  slippageBps: number = 100,
+  quoteCurrency: QuoteCurrency = 'native',
+  walletId?: number
+): Promise<{ quote?: SwapQuote; error?: string }> {
+  const account = getBaseAccount(telegramUserId, walletId);
+  if (!account) {
+    return { error: 'Wallet not found' };
+  }
+
+  const rawAmount = toQuoteRawAmount(amount, quoteCurrency).toString();
+
+  const quote = await getBaseSwapQuote(telegramUserId, getQuoteToken(quoteCurrency), tokenAddress, rawAmount, account.address, slippageBps);
+  return quote ? { quote } : { error: 'No route found for this swap' };
+}
+
+/**
+ * Quote buying at least a given number of tokens with ETH (or USDC).
+ * Aggregators only quote exact-in, so the input is resized from successive
+ * quotes until the slippage-adjusted minimum output covers the target.
+ */
+export async function quoteBaseExactOutBuy(
+  telegramUserId: number,
+  tokenAddress: string,
+  tokenAmount: number,
+  slippageBps: number = 100,
+  quoteCurrency: QuoteCurrency = 'native',
+  walletId?: number
+): Promise<{ quote?: SwapQuote; error?: string }> {
+  const account = getBaseAccount(telegramUserId, walletId);
+  if (!account) {
+    return { error: 'Wallet not found' };
+  }
+
+  const MAX_SIZING_QUOTES = 5;
+  // A quote whose minimum covers the target by at most this much is close enough (2%)
+  const OVERSHOOT_TOLERANCE_BPS = 200n;
+  const isUsdc = quoteCurrency === 'usdc';
+  const inputToken = getQuoteToken(quoteCurrency);
+  const inputDecimals = isUsdc ? USDC_DECIMALS : 18;
+  const symbol = isUsdc ? 'USDC' : 'ETH';
+  const probe = isUsdc ? parseUnits('1', USDC_DECIMALS) : parseEther('0.001');
+  // Gas is paid in ETH, so only an ETH input needs a reserve
+  const reserve = isUsdc ? 0n : parseEther('0.0005');
+
+  const decimals = await getTokenDecimals(tokenAddress);
+  const target = parseUnits(tokenAmount.toString(), decimals);
+  if (target === 0n) {
+    return { error: 'Amount is below the token\'s smallest unit' };
+  }
+
+  const balance = isUsdc
+    ? (await getTokenBalance(account.address, inputToken)).balance
+    : await publicClient.getBalance({ address: account.address });
+  const spendable = balance - reserve;
+
+  // Smallest affordable input seen whose minimum output covers the target
+  let covering: { quote: SwapQuote; input: bigint } | null = null;
+
+  let input = probe;
+  for (let i = 0; i < MAX_SIZING_QUOTES; i++) {
+    const quote = await getBaseSwapQuote(telegramUserId, inputToken, tokenAddress, input.toString(), account.address, slippageBps);
+    if (!quote) {
+      return { error: 'No route found for this swap' };
     }
 
+    const minimumOut = BigInt(quote.minimumOutputAmount ?? quote.outputAmount);
+    if (minimumOut === 0n) {
+      return { error: 'No liquidity for this token' };
+    }
+
+    if (minimumOut >= target && input <= spendable) {
+      if (!covering || input < covering.input) {
+        covering = { quote, input };
+      }
+      if (minimumOut * 10000n <= target * (10000n + OVERSHOOT_TOLERANCE_BPS)) break;
+    }
+
+    // Scale toward the target, up on a shortfall or down on an overshoot, with a
+    // small buffer so the next quote lands just above it
+    input = (input * target * 1005n) / (minimumOut * 1000n) + 1n;
+    if (input > spendable && !covering) break;
+  }
+
+  if (covering) {
     return {
-      success: true,
-      hash,
-      explorerUrl: `${config.explorers.base}${hash}`,
+      quote: {
+        ...covering.quote,
+        inputAmountFormatted: formatUnits(covering.input, inputDecimals),
+        maximumInputAmount: covering.input.toString(),
+        maximumInputFormatted: formatUnits(covering.input, inputDecimals),
+      },
     };
-  } catch (error: any) {
-    console.error('Error executing Odos swap:', error.response?.data || error);
+  }
+
+  if (input > spendable) {
     return {
-      success: false,
-      error: error.shortMessage || error.message || 'Swap failed',
+      error: `Insufficient ${symbol}. About ${parseFloat(formatUnits(input, inputDecimals)).toFixed(6)} ${symbol} needed` +
+        (reserve > 0n ? ` (plus ${formatEther(reserve)} reserve)` : '') +
+        `, have ${parseFloat(formatUnits(balance, inputDecimals)).toFixed(6)} ${symbol}`,
     };
   }
+  return { error: 'Could not size a quote for this amount, try again' };
 }
 
-export async function buyBaseToken(
+export async function quoteBaseSellPercentage(
   telegramUserId: number,
   tokenAddress: string,
-  ethAmount: number,
-  slippageBps: number = 100
+  percentage: number,
+  slippageBps: number = 100,
+  quoteCurrency: QuoteCurrency = 'native',
+  walletId?: number
+): Promise<{ quote?: SwapQuote; error?: string }> {
+  const account = getBaseAccount(telegramUserId, walletId);
+  if (!account) {
+    return { error: 'Wallet not found' };
+  }
+
+  const { balance } = await getTokenBalance(account.address, tokenAddress);
+  const sellAmount = (balance * BigInt(percentage)) / 100n;
+
+  if (sellAmount === 0n) {
+    return { error: 'No token balance found' };
+  }
+
+  const quote = await getBaseSwapQuote(telegramUserId, tokenAddress, getQuoteToken(quoteCurrency), sellAmount.toString(), account.address, slippageBps);
+  return quote ? { quote } : { error: 'No route found for this swap' };
+}
+
+/**
+ * Quote swapping a held token into any other token.
+ * `amount` is a percentage of the balance or an exact number of input tokens.
+ */
+export async function quoteBaseTokenSwap(
+  telegramUserId: number,
+  fromToken: string,
+  toToken: string,
+  amount: number,
+  amountType: 'percentage' | 'tokens',
+  slippageBps: number = 100,
+  walletId?: number
+): Promise<{ quote?: SwapQuote; error?: string }> {
+  const account = getBaseAccount(telegramUserId, walletId);
+  if (!account) {
+    return { error: 'Wallet not found' };
+  }
+
+  if (fromToken.toLowerCase() === toToken.toLowerCase()) {
+    return { error: 'Input and output token are the same' };
+  }
+
+  const { balance, decimals } = await getTokenBalance(account.address, fromToken);
+  const swapAmount = amountType === 'percentage'
+    ? (balance * BigInt(Math.floor(amount))) / 100n
+    : parseUnits(amount.toString(), decimals);
+
+  if (swapAmount === 0n) {
+    return { error: 'No token balance found' };
+  }
+  if (swapAmount > balance) {
+    return { error: `Insufficient balance. You hold ${formatUnits(balance, decimals)}` };
+  }
+
+  const quote = await getBaseSwapQuote(telegramUserId, fromToken, toToken, swapAmount.toString(), account.address, slippageBps);
+  if (!quote) {
+    return { error: 'No route found for this swap' };
+  }
+
+  return { quote: { ...quote, inputAmountFormatted: formatUnits(swapAmount, decimals) } };
+}
+
+/**
+ * Execute a previously confirmed quote, on the aggregator it came from
+ */
+export async function executeBaseQuote(
+  telegramUserId: number,
+  quote: SwapQuote,
+  slippageBps: number = 100,
+  walletId?: number,
+  onQueued?: QueuedCallback
 ): Promise<TransactionResult> {
-  const weiAmount = parseEther(ethAmount.toString()).toString();
+  return executeBaseSwap(
+    telegramUserId,
+    quote.inputToken,
+    quote.outputToken,
+    quote.inputAmount,
+    slippageBps,
+    { quote, walletId, onQueued }
+  );
+}
 
-  return executeOdosSwap(
+export async function buyBaseToken(
+  telegramUserId: number,
+  tokenAddress: string,
+  amount: number,
+  slippageBps: number = 100,
+  quoteCurrency: QuoteCurrency = 'native',
+  walletId?: number
+): Promise<TransactionResult> {
+  return executeBaseSwap(
     telegramUserId,
-    config.base.nativeToken,
+    getQuoteToken(quoteCurrency),
     tokenAddress,
-    weiAmount,
-    slippageBps
+    toQuoteRawAmount(amount, quoteCurrency).toString(),
+    slippageBps,
+    { walletId }
   );
 }
 
@@ -438,14 +1423,17 @@ export async function sellBaseToken(
   telegramUserId: number,
   tokenAddress: string,
   tokenAmount: string,
-  slippageBps: number = 100
+  slippageBps: number = 100,
+  quoteCurrency: QuoteCurrency = 'native',
+  walletId?: number
 ): Promise<TransactionResult> {
-  return executeOdosSwap(
+  return executeBaseSwap(
     telegramUserId,
     tokenAddress,
-    config.base.nativeToken,
+    getQuoteToken(quoteCurrency),
     tokenAmount,
-    slippageBps
+    slippageBps,
+    { walletId }
   );
 }
 
@@ -453,10 +1441,12 @@ export async function sellBaseTokenPercentage(
   telegramUserId: number,
   tokenAddress: string,
   percentage: number,
-  slippageBps: number = 100
+  slippageBps: number = 100,
+  quoteCurrency: QuoteCurrency = 'native',
+  walletId?: number
 ): Promise<TransactionResult> {
   try {
-    const account = getBaseAccount(telegramUserId);
+    const account = getBaseAccount(telegramUserId, walletId);
     if (!account) {
       return { success: false, error: 'Wallet not found' };
     }
@@ -477,7 +1467,9 @@ export async function sellBaseTokenPercentage(
       telegramUserId,
       tokenAddress,
       sellAmount.toString(),
-      slippageBps
+      slippageBps,
+      quoteCurrency,
+      walletId
     );
   } catch (error: any) {
     console.error('Error selling token percentage:', error);
@@ -494,11 +1486,28 @@ export async function sellBaseTokenPercentage(
 export async function withdrawEth(
   telegramUserId: number,
   toAddress: string,
-  amount: string // "all" or ETH amount
+  amount: string, // "all" or ETH amount
+  walletId?: number,
+  onQueued?: QueuedCallback
 ): Promise<TransactionResult> {
-  const account = getBaseAccount(telegramUserId);
+  const account = getBaseAccount(telegramUserId, walletId);
   if (!account) throw new Error('No Base wallet found');
 
+  return runExclusive(
+    walletKey('base', account.address),
+    () => transferEth(telegramUserId, account, walletId, toAddress, amount),
+    onQueued
+  );
+}
+
+async function transferEth(
+  telegramUserId: number,
+  account: PrivateKeyAccount,
+  walletId: number | undefined,
+  toAddress: string,
+  amount: string
+): Promise<TransactionResult> {
+
   const balance = await getEthBalance(account.address);
   const GAS_RESERVE = 0.0005; // Reserve 0.0005 ETH for future gas
 
@@ -514,22 +1523,28 @@ export async function withdrawEth(
 
   if (ethToSend <= 0) throw new Error(`Insufficient balance. Need to keep ${GAS_RESERVE} ETH for gas.`);
 
-  const walletClient = createWalletClient({
-    account,
-    chain: base,
-    transport: http(config.baseRpcUrl),
-  });
-
-  const hash = await (walletClient as any).sendTransaction({
+  const value = parseEther(ethToSend.toFixed(18));
+  const gasEstimate = await publicClient.estimateGas({
+    account: account.address,
     to: toAddress as Address,
-    value: parseEther(ethToSend.toFixed(18)),
+    value,
   });
 
-  const receipt = await publicClient.waitForTransactionReceipt({ hash });
+  const { outcome, receipt } = await sendTrackedTransaction(
+    telegramUserId,
+    account,
+    walletId,
+    'Withdrawal',
+    { to: toAddress, value, gas: gasEstimate },
+    'withdraw'
+  );
+  if (outcome === 'cancelled' || outcome === 'replaced') {
+    throw new Error(`Withdrawal ${outcome} - nothing was sent`);
+  }
 
   return {
     success: receipt.status === 'success',
-    signature: hash,
+    signature: receipt.transactionHash,
     message: `Withdrew ${ethToSend.toFixed(6)} ETH`,
   };
 }
@@ -542,11 +1557,30 @@ export async function withdrawErc20Token(
   tokenAddress: string,
   toAddress: string,
   amount: string, // "all" or token amount
-  decimals: number
+  decimals: number,
+  walletId?: number,
+  onQueued?: QueuedCallback
 ): Promise<TransactionResult> {
-  const account = getBaseAccount(telegramUserId);
+  const account = getBaseAccount(telegramUserId, walletId);
   if (!account) throw new Error('No Base wallet found');
 
+  return runExclusive(
+    walletKey('base', account.address),
+    () => transferErc20Token(telegramUserId, account, walletId, tokenAddress, toAddress, amount, decimals),
+    onQueued
+  );
+}
+
+async function transferErc20Token(
+  telegramUserId: number,
+  account: PrivateKeyAccount,
+  walletId: number | undefined,
+  tokenAddress: string,
+  toAddress: string,
+  amount: string,
+  decimals: number
+): Promise<TransactionResult> {
+
   const { balance: rawBalance } = await getTokenBalance(account.address, tokenAddress);
   const tokenBalance = parseFloat(formatUnits(rawBalance, decimals));
 
@@ -561,24 +1595,198 @@ export async function withdrawErc20Token(
 
   const rawAmount = parseUnits(tokensToSend.toString(), decimals);
 
-  const walletClient = createWalletClient({
-    account,
-    chain: base,
-    transport: http(config.baseRpcUrl),
-  });
-
-  const hash = await (walletClient as any).writeContract({
-    address: tokenAddress as Address,
+  const data = encodeFunctionData({
     abi: erc20Abi,
     functionName: 'transfer',
     args: [toAddress as Address, rawAmount],
   });
+  const gasEstimate = await publicClient.estimateGas({
+    account: account.address,
+    to: tokenAddress as Address,
+    data,
+  });
 
-  const receipt = await publicClient.waitForTransactionReceipt({ hash });
+  const { outcome, receipt } = await sendTrackedTransaction(
+    telegramUserId,
+    account,
+    walletId,
+    'Withdrawal',
+    { to: tokenAddress, data, value: 0n, gas: gasEstimate },
+    'withdraw'
+  );
+  if (outcome === 'cancelled' || outcome === 'replaced') {
+    throw new Error(`Withdrawal ${outcome} - nothing was sent`);
+  }
 
   return {
     success: receipt.status === 'success',
-    signature: hash,
+    signature: receipt.transactionHash,
     message: `Withdrew ${tokensToSend} tokens`,
   };
 }
+
+// ============== Token Approvals ==============
+
+// Routers the bot approves; every traded token is checked against each
+const KNOWN_SPENDERS: Record<string, string> = {
+  [ODOS_ROUTER_V2.toLowerCase()]: 'Odos Router',
+  [AGGREGATION_ROUTER_V6.toLowerCase()]: '1inch Router',
+  [KYBERSWAP_ROUTER.toLowerCase()]: 'KyberSwap Router',
+};
+
+// Some tokens count unlimited approvals down as they are spent, so anything this large still counts
+const UNLIMITED_ALLOWANCE = maxUint256 / 2n;
+
+/**
+ * Open ERC-20 allowances a wallet has granted: every approval the bot saved,
+ * plus each token the wallet traded checked on-chain against the known routers.
+ * Saved approvals that are used up or were revoked elsewhere are forgotten.
+ */
+export async function getTokenAllowances(telegramUserId: number, walletId?: number): Promise<TokenAllowance[]> {
+  const wallet = walletId ? getWalletById(walletId) : getWallet(telegramUserId, 'base');
+  if (!wallet || wallet.telegramUserId !== telegramUserId || wallet.network !== 'base') {
+    return [];
+  }
+
+  const saved = getTokenApprovals(wallet.address);
+  const pairs = new Map<string, { token: string; spender: string; saved: boolean }>();
+  for (const approval of saved) {
+    pairs.set(`${approval.tokenAddress}:${approval.spender}`, {
+      token: approval.tokenAddress,
+      spender: approval.spender,
+      saved: true,
+    });
+  }
+
+  const traded = [...getTrackedTokens(wallet.id), config.base.usdcAddress]
+    .map(t => t.toLowerCase())
+    .filter(t => !isNativeToken(t));
+  for (const token of new Set(traded)) {
+    for (const spender of Object.keys(KNOWN_SPENDERS)) {
+      const key = `${token}:${spender}`;
+      if (!pairs.has(key)) {
+        pairs.set(key, { token, spender, saved: false });
+      }
+    }
+  }
+
+  const checked = await Promise.all([...pairs.values()].map(async pair => {
+    const allowance: bigint = await (publicClient as any).readContract({
+      address: pair.token as Address,
+      abi: ERC20_ABI,
+      functionName: 'allowance',
+      args: [wallet.address as Address, pair.spender as Address],
+    }).catch(() => null);
+    return { ...pair, allowance };
+  }));
+
+  const open = checked.filter(c => {
+    if (c.allowance === 0n && c.saved) {
+      deleteTokenApproval(wallet.address, c.token, c.spender);
+    }
+    return c.allowance !== null && c.allowance > 0n;
+  });
+  if (open.length === 0) return [];
+
+  const tokenInfoMap = await getMultipleTokensInfo([...new Set(open.map(c => c.token))], 'base');
+
+  return Promise.all(open.map(async c => {
+    const decimals = await getTokenDecimals(c.token);
+    const unlimited = c.allowance >= UNLIMITED_ALLOWANCE;
+    return {
+      tokenAddress: c.token,
+      symbol: tokenInfoMap.get(c.token)?.symbol || 'UNKNOWN',
+      spender: c.spender,
+      spenderName: KNOWN_SPENDERS[c.spender] || `${c.spender.slice(0, 6)}...${c.spender.slice(-4)}`,
+      allowance: c.allowance.toString(),
+      allowanceFormatted: unlimited ? 'Unlimited' : formatUnits(c.allowance, decimals),
+      decimals,
+      unlimited,
+    };
+  }));
+}
+
+/**
+ * Set a spender's allowance back to zero. Goes through the wallet's queue
+ * like any other transaction from it.
+ */
+export async function revokeTokenApproval(
+  telegramUserId: number,
+  tokenAddress: string,
+  spender: string,
+  walletId?: number,
+  onQueued?: QueuedCallback
+): Promise<TransactionResult> {
+  const account = getBaseAccount(telegramUserId, walletId);
+  if (!account) {
+    return { success: false, error: 'Wallet locked - please unlock with /unlock' };
+  }
+
+  return runExclusive(
+    walletKey('base', account.address),
+    () => sendRevoke(telegramUserId, account, walletId, tokenAddress, spender),
+    onQueued
+  );
+}
+
+/**
+ * Revoke every open allowance of a wallet, one transaction at a time
+ */
+export async function revokeAllTokenApprovals(
+  telegramUserId: number,
+  walletId?: number,
+  onQueued?: QueuedCallback
+): Promise<TransactionResult[]> {
+  const allowances = await getTokenAllowances(telegramUserId, walletId);
+
+  const results: TransactionResult[] = [];
+  for (const a of allowances) {
+    results.push(await revokeTokenApproval(telegramUserId, a.tokenAddress, a.spender, walletId, onQueued));
+  }
+  return results;
+}
+
+async function sendRevoke(
+  telegramUserId: number,
+  account: PrivateKeyAccount,
+  walletId: number | undefined,
+  tokenAddress: string,
+  spender: string
+): Promise<TransactionResult> {
+  try {
+    const data = encodeFunctionData({
+      abi: erc20Abi,
+      functionName: 'approve',
+      args: [spender as Address, 0n],
+    });
+    const gasEstimate = await publicClient.estimateGas({
+      account: account.address,
+      to: tokenAddress as Address,
+      data,
+    });
+
+    // Nothing is racing a revoke, so it goes at the (cheap) withdrawal speed
+    const { outcome, receipt } = await sendTrackedTransaction(
+      telegramUserId,
+      account,
+      walletId,
+      'Revoke approval',
+      { to: tokenAddress, data, value: 0n, gas: gasEstimate },
+      'withdraw'
+    );
+    if (outcome === 'cancelled' || outcome === 'replaced') {
+      return { success: false, error: `Revoke ${outcome} - the approval is still open` };
+    }
+
+    const hash = receipt.transactionHash;
+    if (receipt.status === 'reverted') {
+      return { success: false, hash, error: 'Transaction reverted', explorerUrl: `${config.explorers.base}${hash}` };
+    }
+
+    deleteTokenApproval(account.address, tokenAddress, spender);
+    return { success: true, hash, explorerUrl: `${config.explorers.base}${hash}` };
+  } catch (error: any) {
+    console.error('Error revoking token approval:', error);
+    return { success: false, error: error.shortMessage || error.message || 'Revoke failed' };
+  }
+}
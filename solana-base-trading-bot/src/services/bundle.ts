@@ -0,0 +1,134 @@
+import { SwapQuote, TransactionResult, UserWallet } from '../types';
+import { BundleLeg, BundleLegResult, ExecuteBundleParams } from '../types/bundle';
+import { OrderSide } from '../types/trigger-orders';
+import * as db from './database';
+import { quoteSolanaBuy, quoteSolanaSellPercentage, executeSolanaQuote } from './solana';
+import { quoteBaseBuy, quoteBaseSellPercentage, executeBaseQuote } from './base';
+import { getGuardedQuote, getSimulationRefusal } from './slippage';
+
+// Legs sent at the same time; keeps RPC and aggregator rate limits in check
+export const MAX_CONCURRENT_LEGS = 3;
+
+/**
+ * Split a bundle across wallets.
+ * Buys divide the total by weight (evenly when no weights are given);
+ * sells apply the same percentage to every wallet's holdings.
+ */
+export function buildBundleLegs(
+  side: OrderSide,
+  amount: number,
+  wallets: UserWallet[],
+  weights?: number[]
+): BundleLeg[] {
+  if (side === 'sell') {
+    return wallets.map(w => ({ walletId: w.id, walletName: w.name, amount }));
+  }
+
+  const shares = weights && weights.length === wallets.length ? weights : wallets.map(() => 1);
+  const totalWeight = shares.reduce((sum, w) => sum + w, 0);
+
+  return wallets.map((w, i) => ({
+    walletId: w.id,
+    walletName: w.name,
+    amount: (amount * shares[i]) / totalWeight,
+  }));
+}
+
+/**
+ * Execute every leg of a bundle, each signed by its own wallet.
+ * Legs are independent: one failing does not stop the others.
+ */
+export async function executeBundle(params: ExecuteBundleParams): Promise<BundleLegResult[]> {
+  console.log(`[Bundle] user=${params.telegramUserId} ${params.side} ${params.tokenSymbol} across ${params.legs.length} wallets`);
+
+  return mapWithConcurrency(params.legs, MAX_CONCURRENT_LEGS, async (leg) => {
+    try {
+      const result = await executeLeg(params, leg);
+
+      if (!result.success) {
+        return { ...leg, success: false, error: result.error || 'Transaction failed' };
+      }
+
+      const signature = result.signature || result.hash || '';
+      db.recordTransaction(
+        params.telegramUserId,
+        leg.walletId,
+        params.network,
+        signature,
+        params.side,
+        params.tokenAddress,
+        params.tokenSymbol,
+        leg.amount.toString(),
+        ''
+      );
+
+      return { ...leg, success: true, signature, explorerUrl: result.explorerUrl };
+    } catch (error: any) {
+      return { ...leg, success: false, error: error.message || 'Unknown error' };
+    }
+  });
+}
+
+async function executeLeg(params: ExecuteBundleParams, leg: BundleLeg): Promise<TransactionResult> {
+  const { telegramUserId, tokenAddress } = params;
+
+  // Each leg is its own swap, so each gets its own impact check and auto slippage
+  const settings = db.getTradeSettings(telegramUserId, params.network);
+  const { quote, error, slippageBps } = await getGuardedQuote(
+    settings,
+    tokenAddress,
+    slippage => quoteLeg(params, leg, slippage),
+    params.slippageBps
+  );
+  if (!quote) {
+    return { success: false, error: error || 'No route found for this swap' };
+  }
+
+  const refusal = await getSimulationRefusal(telegramUserId, params.network, quote, leg.walletId, params.side === 'buy');
+  if (refusal) {
+    return { success: false, error: refusal };
+  }
+
+  return params.network === 'solana'
+    ? executeSolanaQuote(telegramUserId, quote, slippageBps, leg.walletId)
+    : executeBaseQuote(telegramUserId, quote, slippageBps, leg.walletId);
+}
+
+/**
+ * Quote one leg: buys spend the leg amount of the quote currency, sells a % of the wallet's holdings
+ */
+function quoteLeg(params: ExecuteBundleParams, leg: BundleLeg, slippageBps: number): Promise<{ quote?: SwapQuote; error?: string }> {
+  const { telegramUserId, tokenAddress, quoteCurrency } = params;
+
+  if (params.side === 'buy') {
+    return params.network === 'solana'
+      ? quoteSolanaBuy(tokenAddress, leg.amount, slippageBps, quoteCurrency)
+      : quoteBaseBuy(telegramUserId, tokenAddress, leg.amount, slippageBps, quoteCurrency, leg.walletId);
+  }
+
+  return params.network === 'solana'
+    ? quoteSolanaSellPercentage(telegramUserId, tokenAddress, leg.amount, slippageBps, quoteCurrency, leg.walletId)
+    : quoteBaseSellPercentage(telegramUserId, tokenAddress, leg.amount, slippageBps, quoteCurrency, leg.walletId);
+}
+
+/**
+ * Map over items with at most `limit` calls in flight, preserving order
+ */
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
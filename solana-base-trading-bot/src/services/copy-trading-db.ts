@@ -0,0 +1,207 @@
+import Database from 'better-sqlite3';
+import { Network } from '../types';
+import {
+  CopyLeader,
+  CopyLeaderStatus,
+  CopySizingMode,
+  CopyFilterMode,
+  CreateCopyLeaderParams,
+} from '../types/copy-trading';
+
+let db: Database.Database;
+
+/**
+ * Initialize copy-trading leaders table
+ */
+export function initCopyLeadersTable(database: Database.Database): void {
+  db = database;
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS copy_leaders (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      telegram_user_id INTEGER NOT NULL,
+      chat_id INTEGER NOT NULL,
+      network TEXT NOT NULL,
+      wallet_id INTEGER NOT NULL,
+      leader_address TEXT NOT NULL,
+
+      sizing_mode TEXT NOT NULL,
+      size_value REAL NOT NULL,
+      max_per_trade REAL,
+
+      filter_mode TEXT DEFAULT 'all',
+      filter_tokens TEXT DEFAULT '[]',
+
+      status TEXT DEFAULT 'active',
+      cursor TEXT,
+      trades_copied INTEGER DEFAULT 0,
+      created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+      last_trade_at TEXT,
+      error TEXT,
+
+      UNIQUE(telegram_user_id, network, leader_address)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_copy_leaders_user
+      ON copy_leaders(telegram_user_id);
+    CREATE INDEX IF NOT EXISTS idx_copy_leaders_status
+      ON copy_leaders(status);
+  `);
+}
+
+/**
+ * Start following a leader
+ */
+export function createCopyLeader(params: CreateCopyLeaderParams): CopyLeader {
+  const result = db.prepare(`
+    INSERT INTO copy_leaders (
+      telegram_user_id, chat_id, network, wallet_id, leader_address,
+      sizing_mode, size_value, max_per_trade, filter_mode, filter_tokens
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    params.telegramUserId,
+    params.chatId,
+    params.network,
+    params.walletId,
+    params.leaderAddress,
+    params.sizingMode,
+    params.sizeValue,
+    params.maxPerTrade ?? null,
+    params.filterMode,
+    JSON.stringify(params.filterTokens)
+  );
+
+  return getCopyLeader(result.lastInsertRowid as number)!;
+}
+
+/**
+ * Get a leader config by ID
+ */
+export function getCopyLeader(id: number): CopyLeader | null {
+  const row = db.prepare(`SELECT * FROM copy_leaders WHERE id = ?`).get(id) as any;
+  if (!row) return null;
+  return mapRowToCopyLeader(row);
+}
+
+/**
+ * Find a user's config for a leader address
+ */
+export function getCopyLeaderByAddress(
+  telegramUserId: number,
+  network: Network,
+  leaderAddress: string
+): CopyLeader | null {
+  const row = db.prepare(`
+    SELECT * FROM copy_leaders
+    WHERE telegram_user_id = ? AND network = ? AND leader_address = ? COLLATE NOCASE
+  `).get(telegramUserId, network, leaderAddress) as any;
+  if (!row) return null;
+  return mapRowToCopyLeader(row);
+}
+
+/**
+ * Get all leaders being actively copied
+ */
+export function getActiveCopyLeaders(): CopyLeader[] {
+  const rows = db.prepare(`
+    SELECT * FROM copy_leaders WHERE status = 'active' ORDER BY id ASC
+  `).all() as any[];
+
+  return rows.map(mapRowToCopyLeader);
+}
+
+/**
+ * Get a user's leaders
+ */
+export function getUserCopyLeaders(telegramUserId: number): CopyLeader[] {
+  const rows = db.prepare(`
+    SELECT * FROM copy_leaders WHERE telegram_user_id = ? ORDER BY created_at ASC
+  `).all(telegramUserId) as any[];
+
+  return rows.map(mapRowToCopyLeader);
+}
+
+/**
+ * Save how far the leader's activity has been processed
+ */
+export function updateCopyCursor(id: number, cursor: string): void {
+  db.prepare(`UPDATE copy_leaders SET cursor = ? WHERE id = ?`).run(cursor, id);
+}
+
+/**
+ * Record a mirrored trade
+ */
+export function recordCopiedTrade(id: number): void {
+  db.prepare(`
+    UPDATE copy_leaders
+    SET trades_copied = trades_copied + 1, last_trade_at = CURRENT_TIMESTAMP, error = NULL
+    WHERE id = ?
+  `).run(id);
+}
+
+/**
+ * Record the latest mirroring error
+ */
+export function recordCopyError(id: number, error: string): void {
+  db.prepare(`UPDATE copy_leaders SET error = ? WHERE id = ?`).run(error, id);
+}
+
+/**
+ * Pause or resume a leader. Resuming drops the cursor so trades made while paused are skipped.
+ */
+export function setCopyLeaderStatus(id: number, telegramUserId: number, status: CopyLeaderStatus): boolean {
+  const result = db.prepare(`
+    UPDATE copy_leaders
+    SET status = ?, cursor = CASE WHEN ? = 'active' THEN NULL ELSE cursor END
+    WHERE id = ? AND telegram_user_id = ?
+  `).run(status, status, id, telegramUserId);
+
+  return result.changes > 0;
+}
+
+/**
+ * Stop following a leader
+ */
+export function deleteCopyLeader(id: number, telegramUserId: number): boolean {
+  const result = db.prepare(`
+    DELETE FROM copy_leaders WHERE id = ? AND telegram_user_id = ?
+  `).run(id, telegramUserId);
+
+  return result.changes > 0;
+}
+
+/**
+ * Stop following every leader mirrored into a wallet that is going away
+ */
+export function deleteWalletCopyLeaders(walletId: number): number {
+  const result = db.prepare(`
+    DELETE FROM copy_leaders WHERE wallet_id = ?
+  `).run(walletId);
+
+  return result.changes;
+}
+
+/**
+ * Map database row to CopyLeader object
+ */
+function mapRowToCopyLeader(row: any): CopyLeader {
+  return {
+    id: row.id,
+    telegramUserId: row.telegram_user_id,
+    chatId: row.chat_id,
+    network: row.network as Network,
+    walletId: row.wallet_id,
+    leaderAddress: row.leader_address,
+    sizingMode: row.sizing_mode as CopySizingMode,
+    sizeValue: row.size_value,
+    maxPerTrade: row.max_per_trade ?? undefined,
+    filterMode: row.filter_mode as CopyFilterMode,
+    filterTokens: JSON.parse(row.filter_tokens || '[]'),
+    status: row.status as CopyLeaderStatus,
+    cursor: row.cursor ?? undefined,
+    tradesCopied: row.trades_copied,
+    createdAt: row.created_at,
+    lastTradeAt: row.last_trade_at ?? undefined,
+    error: row.error ?? undefined
+  };
+}
@@ -0,0 +1,226 @@
+import {
+  Connection,
+  LAMPORTS_PER_SOL,
+  ParsedTransactionWithMeta,
+  PublicKey,
+} from '@solana/web3.js';
+import {
+  createPublicClient,
+  erc20Abi,
+  formatEther,
+  http,
+  parseAbiItem,
+  Address,
+  Hex,
+} from 'viem';
+import { base } from 'viem/chains';
+import { LeaderSwap, LeaderSwapSource } from '../types/copy-trading';
+import { config } from '../config';
+
+// Only swaps against SOL/ETH are detected; token-to-token and stablecoin trades are ignored
+const MAX_SIGNATURES_PER_POLL = 25;
+const MAX_BLOCKS_PER_POLL = 500n; // ~15 minutes of Base blocks
+
+const TRANSFER_EVENT = parseAbiItem('event Transfer(address indexed from, address indexed to, uint256 value)');
+
+// ============ Solana ============
+
+/**
+ * Detect a leader's swaps from their recent signatures.
+ * Point `rpcUrl` at a local validator or RPC stand-in to exercise it offline.
+ */
+export function createSolanaSignatureSource(rpcUrl: string = config.solanaRpcUrl): LeaderSwapSource {
+  const connection = new Connection(rpcUrl, 'confirmed');
+
+  return {
+    async poll(leaderAddress: string, cursor?: string) {
+      const signatures = await connection.getSignaturesForAddress(
+        new PublicKey(leaderAddress),
+        { until: cursor, limit: MAX_SIGNATURES_PER_POLL }
+      );
+
+      if (signatures.length === 0) return { swaps: [], cursor };
+
+      // Newest first; anything beyond the limit since the last poll is skipped
+      const newest = signatures[0].signature;
+      if (!cursor) return { swaps: [], cursor: newest };
+
+      const swaps: LeaderSwap[] = [];
+      for (const sig of signatures.slice().reverse()) {
+        if (sig.err) continue;
+
+        const tx = await connection.getParsedTransaction(sig.signature, {
+          maxSupportedTransactionVersion: 0,
+          commitment: 'confirmed',
+        });
+        const swap = tx ? parseSolanaSwap(tx, leaderAddress, sig.signature) : null;
+        if (swap) swaps.push(swap);
+      }
+
+      return { swaps, cursor: newest };
+    },
+  };
+}
+
+/**
+ * Read a swap from the leader's balance changes: exactly one token moved
+ * one way while SOL (or wrapped SOL) moved the other.
+ */
+export function parseSolanaSwap(
+  tx: ParsedTransactionWithMeta,
+  owner: string,
+  signature: string
+): LeaderSwap | null {
+  const meta = tx.meta;
+  if (!meta || meta.err) return null;
+
+  const balances = new Map<string, { pre: number; post: number }>();
+  const entry = (mint: string) => {
+    if (!balances.has(mint)) balances.set(mint, { pre: 0, post: 0 });
+    return balances.get(mint)!;
+  };
+
+  for (const b of meta.preTokenBalances || []) {
+    if (b.owner === owner) entry(b.mint).pre += parseFloat(b.uiTokenAmount.uiAmountString || '0');
+  }
+  for (const b of meta.postTokenBalances || []) {
+    if (b.owner === owner) entry(b.mint).post += parseFloat(b.uiTokenAmount.uiAmountString || '0');
+  }
+
+  const accountIndex = tx.transaction.message.accountKeys.findIndex(k => k.pubkey.toBase58() === owner);
+  if (accountIndex < 0) return null;
+
+  // Network fee is not part of the trade size
+  const feePaid = accountIndex === 0 ? meta.fee : 0;
+  let nativeDelta = (meta.postBalances[accountIndex] - meta.preBalances[accountIndex] + feePaid) / LAMPORTS_PER_SOL;
+
+  const wrapped = balances.get(config.solana.nativeMint);
+  if (wrapped) {
+    nativeDelta += wrapped.post - wrapped.pre;
+    balances.delete(config.solana.nativeMint);
+  }
+
+  const changed = [...balances].filter(([, b]) => b.post !== b.pre);
+  if (changed.length !== 1) return null;
+
+  const [tokenAddress, { pre, post }] = changed[0];
+
+  if (post > pre && nativeDelta < 0) {
+    return { txHash: signature, tokenAddress, side: 'buy', nativeAmount: -nativeDelta };
+  }
+  if (post < pre && nativeDelta > 0) {
+    return {
+      txHash: signature,
+      tokenAddress,
+      side: 'sell',
+      nativeAmount: nativeDelta,
+      soldPercent: ((pre - post) / pre) * 100,
+    };
+  }
+
+  return null;
+}
+
+// ============ Base ============
+
+/**
+ * Detect a leader's swaps from ERC-20 Transfer logs to and from their address.
+ * Point `rpcUrl` at a local node or RPC stand-in to exercise it offline.
+ */
+export function createBaseLogSource(rpcUrl: string = config.baseRpcUrl): LeaderSwapSource {
+  const client = createPublicClient({ chain: base, transport: http(rpcUrl) });
+  const weth = config.base.wethAddress.toLowerCase();
+
+  // ETH the leader gained over the block holding their transaction, with its gas added back.
+  // Other activity in the same block is counted too.
+  const getNativeReceived = async (leader: Address, hash: Hex, blockNumber: bigint): Promise<bigint> => {
+    const [before, after, receipt] = await Promise.all([
+      client.getBalance({ address: leader, blockNumber: blockNumber - 1n }),
+      client.getBalance({ address: leader, blockNumber }),
+      client.getTransactionReceipt({ hash }),
+    ]);
+    return after - before + receipt.gasUsed * receipt.effectiveGasPrice;
+  };
+
+  return {
+    async poll(leaderAddress: string, cursor?: string) {
+      const latest = await client.getBlockNumber();
+      if (!cursor) return { swaps: [], cursor: latest.toString() };
+
+      let fromBlock = BigInt(cursor) + 1n;
+      if (fromBlock > latest) return { swaps: [], cursor };
+      if (latest - fromBlock > MAX_BLOCKS_PER_POLL) {
+        fromBlock = latest - MAX_BLOCKS_PER_POLL;
+      }
+
+      const leader = leaderAddress as Address;
+      const [incoming, outgoing] = await Promise.all([
+        client.getLogs({ event: TRANSFER_EVENT, args: { to: leader }, fromBlock, toBlock: latest }),
+        client.getLogs({ event: TRANSFER_EVENT, args: { from: leader }, fromBlock, toBlock: latest }),
+      ]);
+
+      // Net token flow per transaction, keyed by token address
+      const txs = new Map<Hex, { blockNumber: bigint; flows: Map<string, bigint> }>();
+      const addFlow = (log: typeof incoming[number], sign: bigint) => {
+        if (!log.transactionHash || log.blockNumber === null) return;
+        if (!txs.has(log.transactionHash)) {
+          txs.set(log.transactionHash, { blockNumber: log.blockNumber, flows: new Map() });
+        }
+        const flows = txs.get(log.transactionHash)!.flows;
+        const token = log.address.toLowerCase();
+        flows.set(token, (flows.get(token) || 0n) + sign * (log.args.value || 0n));
+      };
+      incoming.forEach(log => addFlow(log, 1n));
+      outgoing.forEach(log => addFlow(log, -1n));
+
+      const ordered = [...txs].sort(([, a], [, b]) => (a.blockNumber < b.blockNumber ? -1 : 1));
+      const swaps: LeaderSwap[] = [];
+
+      for (const [hash, { blockNumber, flows }] of ordered) {
+        const wethFlow = flows.get(weth) || 0n;
+        flows.delete(weth);
+
+        const changed = [...flows].filter(([, amount]) => amount !== 0n);
+        if (changed.length !== 1) continue;
+
+        // Only trades the leader sent themselves, not airdrops or transfers to them
+        const tx = await client.getTransaction({ hash });
+        if (tx.from.toLowerCase() !== leader.toLowerCase()) continue;
+
+        const [tokenAddress, amount] = changed[0];
+
+        if (amount > 0n) {
+          const spent = tx.value > 0n ? tx.value : -wethFlow;
+          if (spent <= 0n) continue;
+          swaps.push({ txHash: hash, tokenAddress, side: 'buy', nativeAmount: parseFloat(formatEther(spent)) });
+          continue;
+        }
+
+        // A sell brings ETH or WETH back; a plain transfer out to another wallet doesn't
+        const received = wethFlow > 0n
+          ? wethFlow
+          : await getNativeReceived(leader, hash, blockNumber).catch(() => 0n);
+        if (received <= 0n) continue;
+
+        const remaining: bigint = await (client as any).readContract({
+          address: tokenAddress as Address,
+          abi: erc20Abi,
+          functionName: 'balanceOf',
+          args: [leader],
+          blockNumber,
+        });
+        const sold = -amount;
+
+        swaps.push({
+          txHash: hash,
+          tokenAddress,
+          side: 'sell',
+          nativeAmount: parseFloat(formatEther(received)),
+          soldPercent: Number((sold * 10000n) / (remaining + sold)) / 100,
+        });
+      }
+
+      return { swaps, cursor: latest.toString() };
+    },
+  };
+}
@@ -0,0 +1,332 @@
+import { Telegraf } from 'telegraf';
+import { Network, SwapQuote, TransactionResult } from '../types';
+import {
+  CopyLeader,
+  CreateCopyLeaderParams,
+  LeaderSwap,
+  LeaderSwapSource,
+} from '../types/copy-trading';
+import {
+  quoteSolanaBuy,
+  quoteSolanaSellPercentage,
+  executeSolanaQuote,
+  getSolanaKeypair,
+  getSplTokenBalance,
+} from './solana';
+import {
+  quoteBaseBuy,
+  quoteBaseSellPercentage,
+  executeBaseQuote,
+  getBaseAccount,
+  getTokenBalance,
+} from './base';
+import { createSolanaSignatureSource, createBaseLogSource } from './copy-trading-sources';
+import { getTokenInfo } from './dexscreener';
+import * as copyDb from './copy-trading-db';
+import * as db from './database';
+import { getGuardedQuote, getSimulationRefusal } from './slippage';
+import { truncateAddress, formatAmount, escapeLegacyMarkdown } from '../utils/formatters';
+
+// Monitoring configuration
+const POLL_INTERVAL_MS = 15000; // Leaders are polled one after another, so keep the pass short
+export const MAX_LEADERS_PER_USER = 10;
+
+const sources: Record<Network, LeaderSwapSource> = {
+  solana: createSolanaSignatureSource(),
+  base: createBaseLogSource(),
+};
+
+let bot: Telegraf | null = null;
+let isMonitoring = false;
+let monitoringTimeout: NodeJS.Timeout | null = null;
+
+/**
+ * Initialize the copy-trading service with the Telegram bot instance
+ */
+export function initCopyTradingService(telegrafBot: Telegraf): void {
+  bot = telegrafBot;
+  console.log('[Copy] Service initialized');
+}
+
+/**
+ * Replace the swap source for a network (e.g. one backed by a local RPC stand-in)
+ */
+export function setLeaderSwapSource(network: Network, source: LeaderSwapSource): void {
+  sources[network] = source;
+}
+
+/**
+ * Start polling followed leaders
+ */
+export function startCopyMonitoring(): void {
+  if (isMonitoring) return;
+
+  isMonitoring = true;
+  console.log('[Copy] Starting leader monitoring...');
+  scheduleNextCheck();
+}
+
+/**
+ * Stop polling followed leaders
+ */
+export function stopCopyMonitoring(): void {
+  isMonitoring = false;
+  if (monitoringTimeout) {
+    clearTimeout(monitoringTimeout);
+    monitoringTimeout = null;
+  }
+  console.log('[Copy] Leader monitoring stopped');
+}
+
+function scheduleNextCheck(): void {
+  if (!isMonitoring) return;
+
+  monitoringTimeout = setTimeout(async () => {
+    await pollLeaders();
+    scheduleNextCheck();
+  }, POLL_INTERVAL_MS);
+}
+
+/**
+ * Check every active leader for new swaps and mirror them
+ */
+async function pollLeaders(): Promise<void> {
+  try {
+    for (const leader of copyDb.getActiveCopyLeaders()) {
+      await processLeader(leader);
+    }
+  } catch (error) {
+    console.error('[Copy] Error in leader monitoring:', error);
+  }
+}
+
+async function processLeader(leader: CopyLeader): Promise<void> {
+  try {
+    const { swaps, cursor } = await sources[leader.network].poll(leader.leaderAddress, leader.cursor);
+
+    // Advance before mirroring so a crash mid-trade can never replay a swap
+    if (cursor && cursor !== leader.cursor) {
+      copyDb.updateCopyCursor(leader.id, cursor);
+    }
+
+    for (const swap of swaps) {
+      await mirrorSwap(leader, swap);
+    }
+  } catch (error: any) {
+    console.error(`[Copy] Failed to poll leader #${leader.id}:`, error.message);
+  }
+}
+
+/**
+ * Whether a leader's trade in this token passes the follower's filter
+ */
+export function shouldCopyToken(leader: CopyLeader, tokenAddress: string): boolean {
+  const listed = leader.filterTokens.some(t => t.toLowerCase() === tokenAddress.toLowerCase());
+
+  if (leader.filterMode === 'allow') return listed;
+  if (leader.filterMode === 'deny') return !listed;
+  return true;
+}
+
+/**
+ * SOL/ETH to spend mirroring a leader's buy, after the per-trade cap
+ */
+export function getCopyBuyAmount(leader: CopyLeader, swap: LeaderSwap): number {
+  const amount = leader.sizingMode === 'fixed'
+    ? leader.sizeValue
+    : (swap.nativeAmount * leader.sizeValue) / 100;
+
+  return leader.maxPerTrade ? Math.min(amount, leader.maxPerTrade) : amount;
+}
+
+/**
+ * Replay one leader swap on the follower's wallet
+ */
+async function mirrorSwap(leader: CopyLeader, swap: LeaderSwap): Promise<void> {
+  if (!shouldCopyToken(leader, swap.tokenAddress)) return;
+
+  const settings = db.getTradeSettings(leader.telegramUserId, leader.network);
+  const { telegramUserId, walletId } = leader;
+  const isSolana = leader.network === 'solana';
+
+  let result: TransactionResult;
+  let size: string;
+
+  try {
+    const walletAddress = isSolana
+      ? getSolanaKeypair(leader.telegramUserId, leader.walletId)?.publicKey.toBase58()
+      : getBaseAccount(leader.telegramUserId, leader.walletId)?.address;
+    if (!walletAddress) {
+      throw new Error('Wallet locked - please unlock with /unlock');
+    }
+
+    let quoteFn: (slippageBps: number) => Promise<{ quote?: SwapQuote; error?: string }>;
+
+    if (swap.side === 'buy') {
+      const amount = getCopyBuyAmount(leader, swap);
+      if (amount <= 0) return;
+
+      size = `${formatAmount(amount)} ${isSolana ? 'SOL' : 'ETH'}`;
+      quoteFn = slippageBps => isSolana
+        ? quoteSolanaBuy(swap.tokenAddress, amount, slippageBps, 'native')
+        : quoteBaseBuy(telegramUserId, swap.tokenAddress, amount, slippageBps, 'native', walletId);
+    } else {
+      // Leader sells only matter when the follower holds the token
+      const { balance } = isSolana
+        ? await getSplTokenBalance(walletAddress, swap.tokenAddress)
+        : await getTokenBalance(walletAddress, swap.tokenAddress);
+      if (balance === 0n) return;
+
+      const percent = Math.min(100, Math.max(1, Math.round(swap.soldPercent ?? 100)));
+      size = `${percent}% of holdings`;
+      quoteFn = slippageBps => isSolana
+        ? quoteSolanaSellPercentage(telegramUserId, swap.tokenAddress, percent, slippageBps, 'native', walletId)
+        : quoteBaseSellPercentage(telegramUserId, swap.tokenAddress, percent, slippageBps, 'native', walletId);
+    }
+
+    // Mirrored trades get the same impact limit and auto slippage as the follower's own
+    const { quote, error, slippageBps } = await getGuardedQuote(settings, swap.tokenAddress, quoteFn);
+    if (!quote) {
+      throw new Error(error || 'No route found for this swap');
+    }
+
+    const refusal = await getSimulationRefusal(telegramUserId, leader.network, quote, walletId, swap.side === 'buy');
+    if (refusal) {
+      throw new Error(refusal);
+    }
+
+    result = isSolana
+      ? await executeSolanaQuote(telegramUserId, quote, slippageBps, walletId)
+      : await executeBaseQuote(telegramUserId, quote, slippageBps, walletId);
+  } catch (error: any) {
+    result = { success: false, error: error.message || 'Unknown error' };
+    size = swap.side === 'buy' ? '-' : `${Math.round(swap.soldPercent ?? 100)}% of holdings`;
+  }
+
+  const symbol = (await getTokenInfo(swap.tokenAddress, leader.network))?.symbol || truncateAddress(swap.tokenAddress);
+
+  if (!result.success) {
+    console.error(`[Copy] Leader #${leader.id} ${swap.side} ${symbol} not mirrored:`, result.error);
+    copyDb.recordCopyError(leader.id, result.error || 'Transaction failed');
+    await notifyCopyFailed(leader, swap, symbol, result.error || 'Transaction failed');
+    return;
+  }
+
+  const txHash = result.signature || result.hash || '';
+  db.recordTransaction(
+    leader.telegramUserId,
+    leader.walletId,
+    leader.network,
+    txHash,
+    swap.side,
+    swap.tokenAddress,
+    symbol,
+    size,
+    ''
+  );
+  copyDb.recordCopiedTrade(leader.id);
+  console.log(`[Copy] Leader #${leader.id} ${swap.side} ${symbol} mirrored: ${txHash}`);
+
+  await notifyCopyExecuted(leader, swap, symbol, size, result.explorerUrl);
+}
+
+// ============ Notifications ============
+
+async function notifyCopyExecuted(
+  leader: CopyLeader,
+  swap: LeaderSwap,
+  symbol: string,
+  size: string,
+  explorerUrl?: string
+): Promise<void> {
+  if (!bot) return;
+
+  const sideEmoji = swap.side === 'buy' ? '🟢' : '🔴';
+  const networkName = leader.network === 'solana' ? 'Solana' : 'Base';
+
+  const message = [
+    `${sideEmoji} *COPY TRADE ${swap.side === 'buy' ? 'BUY' : 'SELL'}*`,
+    ``,
+    `📊 *${escapeLegacyMarkdown(symbol)}* (${networkName})`,
+    `👤 Leader: \`${truncateAddress(leader.leaderAddress)}\``,
+    `💰 Size: ${size}`,
+    ``,
+    explorerUrl ? `🔗 [View Transaction](${explorerUrl})` : '',
+  ].join('\n');
+
+  try {
+    await bot.telegram.sendMessage(leader.chatId, message, {
+      parse_mode: 'Markdown',
+      link_preview_options: { is_disabled: true }
+    });
+  } catch (err) {
+    console.error('[Copy] Failed to send trade notification:', err);
+  }
+}
+
+async function notifyCopyFailed(leader: CopyLeader, swap: LeaderSwap, symbol: string, error: string): Promise<void> {
+  if (!bot) return;
+
+  const message = [
+    `⚠️ *COPY TRADE FAILED*`,
+    ``,
+    `📊 *${escapeLegacyMarkdown(symbol)}* - leader \`${truncateAddress(leader.leaderAddress)}\` ${swap.side === 'buy' ? 'bought' : 'sold'}`,
+    ``,
+    `❌ Error: ${escapeLegacyMarkdown(error)}`,
+    ``,
+    `_Manage followed wallets with /copy._`
+  ].join('\n');
+
+  try {
+    await bot.telegram.sendMessage(leader.chatId, message, { parse_mode: 'Markdown' });
+  } catch (err) {
+    console.error('[Copy] Failed to send failure notification:', err);
+  }
+}
+
+// ============ Public API ============
+
+/**
+ * Start following a leader. Only swaps made from now on are mirrored.
+ */
+export function createCopyLeader(params: CreateCopyLeaderParams): CopyLeader {
+  if (copyDb.getUserCopyLeaders(params.telegramUserId).length >= MAX_LEADERS_PER_USER) {
+    throw new Error(`You can follow up to ${MAX_LEADERS_PER_USER} wallets`);
+  }
+  if (copyDb.getCopyLeaderByAddress(params.telegramUserId, params.network, params.leaderAddress)) {
+    throw new Error('You are already following this wallet');
+  }
+
+  const leader = copyDb.createCopyLeader(params);
+  console.log(`[Copy] User ${leader.telegramUserId} following ${leader.network} ${leader.leaderAddress} (#${leader.id})`);
+
+  if (!isMonitoring) {
+    startCopyMonitoring();
+  }
+
+  return leader;
+}
+
+/**
+ * Pause or resume mirroring a leader. Trades made while paused are not replayed.
+ */
+export function setCopyLeaderPaused(leaderId: number, userId: number, paused: boolean): boolean {
+  return copyDb.setCopyLeaderStatus(leaderId, userId, paused ? 'paused' : 'active');
+}
+
+/**
+ * Stop following a leader
+ */
+export function removeCopyLeader(leaderId: number, userId: number): boolean {
+  return copyDb.deleteCopyLeader(leaderId, userId);
+}
+
+/**
+ * Get the wallets a user follows
+ */
+export function getCopyLeaders(userId: number): CopyLeader[] {
+  return copyDb.getUserCopyLeaders(userId);
+}
+
+// ============ Helpers ============
+
@@ -1,13 +1,26 @@
 import { initSecurityTables } from './security-database';
-import { initTriggerOrdersTable } from './trigger-orders-db';
+import { initTriggerOrdersTable, cancelWalletOrders } from './trigger-orders-db';
+import { initTwapOrdersTable, abortWalletTwapOrders } from './twap-db';
+import { initCopyLeadersTable, deleteWalletCopyLeaders } from './copy-trading-db';
+import { initTokenApprovalsTable } from './approvals-db';
 import Database from 'better-sqlite3';
 import path from 'path';
 import fs from 'fs';
 import { config } from '../config';
-import { UserWallet, TradeSettings, Network } from '../types';
+import { UserWallet, TradeSettings, Network, QuoteCurrency, AutoSellPreset, PriorityFeePreset, GasSpeedPreset } from '../types';
+import { DEFAULT_GAS_PRESETS } from './gas';
 
 let db: Database.Database;
 
+// Off until the user turns it on; values are what the settings page starts from
+const DEFAULT_AUTO_SELL: AutoSellPreset = {
+  enabled: false,
+  takeProfitPercent: 100,
+  takeProfitSellPercent: 50,
+  stopLossPercent: 30,
+  stopLossSellPercent: 100,
+};
+
 /**
  * Initialize database with required tables
  */
@@ -23,16 +36,22 @@ export function initDatabase(): void {
   // Enable WAL mode for better performance
   db.pragma('journal_mode = WAL');
   
+  // Rebuild single-wallet tables before the CREATE below sees them
+  migrateWalletsTable();
+  
   // Create tables
   db.exec(`
     CREATE TABLE IF NOT EXISTS wallets (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
       telegram_user_id INTEGER NOT NULL,
       network TEXT NOT NULL,
+      name TEXT NOT NULL DEFAULT 'main',
+      is_active INTEGER NOT NULL DEFAULT 0,
       address TEXT NOT NULL,
       encrypted_private_key TEXT NOT NULL,
+      encryption_version INTEGER DEFAULT 1,
       created_at TEXT DEFAULT CURRENT_TIMESTAMP,
-      UNIQUE(telegram_user_id, network)
+      UNIQUE(telegram_user_id, network, name)
     );
     
     CREATE TABLE IF NOT EXISTS trade_settings (
@@ -66,84 +85,268 @@ export function initDatabase(): void {
     CREATE INDEX IF NOT EXISTS idx_transactions_user ON transactions(telegram_user_id);
   `);
   
+  // Wallet that executed each transaction
+  try {
+    db.exec(`ALTER TABLE transactions ADD COLUMN wallet_id INTEGER;`);
+    // Attribute existing history to the wallet that was in use at the time
+    db.exec(`
+      UPDATE transactions SET wallet_id = (
+        SELECT w.id FROM wallets w
+        WHERE w.telegram_user_id = transactions.telegram_user_id
+          AND w.network = transactions.network
+          AND w.is_active = 1
+      )
+    `);
+  } catch {
+    // Column already exists
+  }
+  
+  // Quote currency setting (SQLite doesn't have IF NOT EXISTS for ALTER)
+  try {
+    db.exec(`ALTER TABLE trade_settings ADD COLUMN quote_currency TEXT DEFAULT 'native';`);
+  } catch {
+    // Column already exists
+  }
+  
+  // Auto TP/SL preset, Jito, priority fee, slippage guard, Base gas and approval settings
+  for (const column of [
+    'auto_sell_enabled INTEGER DEFAULT 0',
+    'auto_tp_percent REAL',
+    'auto_tp_sell_percent REAL',
+    'auto_sl_percent REAL',
+    'auto_sl_sell_percent REAL',
+    // Jito bundle submission
+    'jito_enabled INTEGER DEFAULT 0',
+    'jito_block_engine_url TEXT',
+    'jito_tip_lamports INTEGER',
+    // Priority fee presets
+    "priority_fee_preset TEXT DEFAULT 'normal'",
+    'priority_fee_max_lamports INTEGER',
+    // Auto slippage and price impact guard
+    'auto_slippage INTEGER DEFAULT 0',
+    'max_slippage_bps INTEGER',
+    'max_price_impact_pct REAL',
+    // Base EIP-1559 gas
+    'gas_buy_preset TEXT',
+    'gas_sell_preset TEXT',
+    'gas_withdraw_preset TEXT',
+    'gas_priority_tip_gwei REAL',
+    'gas_max_fee_gwei REAL',
+    'gas_limit_multiplier REAL',
+    // Base token approvals
+    'exact_approvals INTEGER DEFAULT 0',
+  ]) {
+    try {
+      db.exec(`ALTER TABLE trade_settings ADD COLUMN ${column};`);
+    } catch {
+      // Column already exists
+    }
+  }
+  
   // Initialize security tables
   initSecurityTables(db);
   
   // Initialize trigger orders tables
   initTriggerOrdersTable(db);
+  
+  // Initialize TWAP orders table
+  initTwapOrdersTable(db);
+  
+  // Initialize copy-trading leaders table
+  initCopyLeadersTable(db);
+  
+  // Initialize token approvals table
+  initTokenApprovalsTable(db);
 }
 
 // ============ Wallet Operations ============
 
 /**
- * Get wallet for a user and network
+ * Migrate the old one-wallet-per-network table to named wallets.
+ * Each existing wallet becomes the active "main" wallet and keeps its id,
+ * so anything already referencing it stays valid.
  */
-export function getWallet(telegramUserId: number, network: Network): UserWallet | null {
-  const row = db.prepare(`
-    SELECT id, telegram_user_id, network, address, encrypted_private_key, created_at
-    FROM wallets
-    WHERE telegram_user_id = ? AND network = ?
-  `).get(telegramUserId, network) as any;
-  
-  if (!row) return null;
-  
+function migrateWalletsTable(): void {
+  const table = db.prepare(`
+    SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'wallets'
+  `).get() as any;
+  if (!table || /\bname\s+TEXT/i.test(table.sql)) return;
+
+  const columns = db.prepare(`PRAGMA table_info(wallets)`).all() as any[];
+  const hasVersion = columns.some(c => c.name === 'encryption_version');
+
+  db.transaction(() => {
+    db.exec(`
+      CREATE TABLE wallets_new (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        telegram_user_id INTEGER NOT NULL,
+        network TEXT NOT NULL,
+        name TEXT NOT NULL DEFAULT 'main',
+        is_active INTEGER NOT NULL DEFAULT 0,
+        address TEXT NOT NULL,
+        encrypted_private_key TEXT NOT NULL,
+        encryption_version INTEGER DEFAULT 1,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE(telegram_user_id, network, name)
+      );
+      
+      INSERT INTO wallets_new (
+        id, telegram_user_id, network, name, is_active, address,
+        encrypted_private_key, encryption_version, created_at
+      )
+      SELECT id, telegram_user_id, network, 'main', 1, address,
+        encrypted_private_key, ${hasVersion ? 'encryption_version' : '1'}, created_at
+      FROM wallets;
+      
+      DROP TABLE wallets;
+      ALTER TABLE wallets_new RENAME TO wallets;
+    `);
+  })();
+}
+
+function mapWalletRow(row: any): UserWallet {
   return {
     id: row.id,
     telegramUserId: row.telegram_user_id,
     network: row.network as Network,
+    name: row.name,
+    isActive: !!row.is_active,
     address: row.address,
     encryptedPrivateKey: row.encrypted_private_key,
     createdAt: row.created_at,
   };
 }
 
+/**
+ * Get the active wallet for a user and network
+ */
+export function getWallet(telegramUserId: number, network: Network): UserWallet | null {
+  const row = db.prepare(`
+    SELECT * FROM wallets
+    WHERE telegram_user_id = ? AND network = ?
+    ORDER BY is_active DESC, id ASC
+    LIMIT 1
+  `).get(telegramUserId, network) as any;
+  
+  return row ? mapWalletRow(row) : null;
+}
+
+/**
+ * Get a wallet by id
+ */
+export function getWalletById(walletId: number): UserWallet | null {
+  const row = db.prepare(`SELECT * FROM wallets WHERE id = ?`).get(walletId) as any;
+  return row ? mapWalletRow(row) : null;
+}
+
+/**
+ * Get a wallet by its name
+ */
+export function getWalletByName(
+  telegramUserId: number,
+  network: Network,
+  name: string
+): UserWallet | null {
+  const row = db.prepare(`
+    SELECT * FROM wallets
+    WHERE telegram_user_id = ? AND network = ? AND name = ? COLLATE NOCASE
+  `).get(telegramUserId, network, name) as any;
+  
+  return row ? mapWalletRow(row) : null;
+}
+
+/**
+ * Get all wallets for a user on one network
+ */
+export function getWallets(telegramUserId: number, network: Network): UserWallet[] {
+  const rows = db.prepare(`
+    SELECT * FROM wallets
+    WHERE telegram_user_id = ? AND network = ?
+    ORDER BY id ASC
+  `).all(telegramUserId, network) as any[];
+  
+  return rows.map(mapWalletRow);
+}
+
 /**
  * Get all wallets for a user
  */
 export function getAllWallets(telegramUserId: number): UserWallet[] {
   const rows = db.prepare(`
-    SELECT id, telegram_user_id, network, address, encrypted_private_key, created_at
-    FROM wallets
+    SELECT * FROM wallets
     WHERE telegram_user_id = ?
+    ORDER BY id ASC
   `).all(telegramUserId) as any[];
   
-  return rows.map(row => ({
-    id: row.id,
-    telegramUserId: row.telegram_user_id,
-    network: row.network as Network,
-    address: row.address,
-    encryptedPrivateKey: row.encrypted_private_key,
-    createdAt: row.created_at,
-  }));
+  return rows.map(mapWalletRow);
 }
 
 /**
- * Save or update wallet
+ * Save or update a named wallet. The first wallet on a network becomes active.
+ * Returns the wallet id.
  */
 export function saveWallet(
   telegramUserId: number,
   network: Network,
   address: string,
-  encryptedPrivateKey: string
-): void {
+  encryptedPrivateKey: string,
+  name: string = 'main'
+): number {
+  const hasWallet = !!getWallet(telegramUserId, network);
+  
   db.prepare(`
-    INSERT INTO wallets (telegram_user_id, network, address, encrypted_private_key)
-    VALUES (?, ?, ?, ?)
-    ON CONFLICT(telegram_user_id, network) DO UPDATE SET
+    INSERT INTO wallets (telegram_user_id, network, name, is_active, address, encrypted_private_key)
+    VALUES (?, ?, ?, ?, ?, ?)
+    ON CONFLICT(telegram_user_id, network, name) DO UPDATE SET
       address = excluded.address,
       encrypted_private_key = excluded.encrypted_private_key
-  `).run(telegramUserId, network, address, encryptedPrivateKey);
+  `).run(telegramUserId, network, name, hasWallet ? 0 : 1, address, encryptedPrivateKey);
+  
+  const row = db.prepare(`
+    SELECT id FROM wallets WHERE telegram_user_id = ? AND network = ? AND name = ?
+  `).get(telegramUserId, network, name) as any;
+  return row.id;
+}
+
+/**
+ * Make a wallet the active one for its network
+ */
+export function setActiveWallet(telegramUserId: number, walletId: number): boolean {
+  const wallet = getWalletById(walletId);
+  if (!wallet || wallet.telegramUserId !== telegramUserId) return false;
+  
+  db.transaction(() => {
+    db.prepare(`
+      UPDATE wallets SET is_active = 0 WHERE telegram_user_id = ? AND network = ?
+    `).run(telegramUserId, wallet.network);
+    db.prepare(`UPDATE wallets SET is_active = 1 WHERE id = ?`).run(walletId);
+  })();
+  
+  return true;
 }
 
 /**
- * Delete wallet
+ * Delete a wallet. If it was active, the oldest remaining wallet takes over.
+ * Orders, DCA schedules, TWAPs and copy-trading tied to it are stopped too:
+ * with no key left to sign, they would only fail on every run.
  */
-export function deleteWallet(telegramUserId: number, network: Network): boolean {
-  const result = db.prepare(`
-    DELETE FROM wallets WHERE telegram_user_id = ? AND network = ?
-  `).run(telegramUserId, network);
+export function deleteWallet(telegramUserId: number, walletId: number): boolean {
+  const wallet = getWalletById(walletId);
+  if (!wallet || wallet.telegramUserId !== telegramUserId) return false;
   
-  return result.changes > 0;
+  db.transaction(() => {
+    cancelWalletOrders(walletId);
+    abortWalletTwapOrders(walletId);
+    deleteWalletCopyLeaders(walletId);
+    db.prepare(`DELETE FROM wallets WHERE id = ?`).run(walletId);
+  })();
+  
+  if (wallet.isActive) {
+    const next = getWallet(telegramUserId, wallet.network);
+    if (next) setActiveWallet(telegramUserId, next.id);
+  }
+  
+  return true;
 }
 
 // ============ Settings Operations ============
@@ -163,7 +366,20 @@ export function getTradeSettings(telegramUserId: number, network: Network): Trad
       userId: telegramUserId,
       network,
       slippageBps: config.defaultSlippageBps,
+      autoSlippage: false,
+      maxSlippageBps: config.defaultMaxSlippageBps,
+      maxPriceImpactPct: config.defaultMaxPriceImpactPct,
+      priorityFeePreset: 'normal',
       priorityFeeLamports: config.defaultPriorityFeeLamports,
+      priorityFeeMaxLamports: config.defaultPriorityFeeMaxLamports,
+      quoteCurrency: 'native',
+      autoSell: { ...DEFAULT_AUTO_SELL },
+      jitoEnabled: false,
+      jitoTipLamports: config.defaultJitoTipLamports,
+      gasPresets: { ...DEFAULT_GAS_PRESETS },
+      gasMaxFeeGwei: config.defaultBaseMaxFeeGwei || undefined,
+      gasLimitMultiplier: config.defaultGasLimitMultiplier,
+      exactApprovals: false,
     };
   }
   
@@ -174,7 +390,32 @@ export function getTradeSettings(telegramUserId: number, network: Network): Trad
     defaultBuyAmountEth: row.default_buy_amount_eth,
     defaultBuyPercentage: row.default_buy_percentage,
     slippageBps: row.slippage_bps,
+    autoSlippage: row.auto_slippage === 1,
+    maxSlippageBps: row.max_slippage_bps ?? config.defaultMaxSlippageBps,
+    maxPriceImpactPct: row.max_price_impact_pct ?? config.defaultMaxPriceImpactPct,
+    priorityFeePreset: (row.priority_fee_preset || 'normal') as PriorityFeePreset,
     priorityFeeLamports: row.priority_fee_lamports,
+    priorityFeeMaxLamports: row.priority_fee_max_lamports ?? config.defaultPriorityFeeMaxLamports,
+    quoteCurrency: (row.quote_currency || 'native') as QuoteCurrency,
+    autoSell: {
+      enabled: row.auto_sell_enabled === 1,
+      takeProfitPercent: row.auto_tp_percent ?? DEFAULT_AUTO_SELL.takeProfitPercent,
+      takeProfitSellPercent: row.auto_tp_sell_percent ?? DEFAULT_AUTO_SELL.takeProfitSellPercent,
+      stopLossPercent: row.auto_sl_percent ?? DEFAULT_AUTO_SELL.stopLossPercent,
+      stopLossSellPercent: row.auto_sl_sell_percent ?? DEFAULT_AUTO_SELL.stopLossSellPercent,
+    },
+    jitoEnabled: row.jito_enabled === 1,
+    jitoBlockEngineUrl: row.jito_block_engine_url ?? undefined,
+    jitoTipLamports: row.jito_tip_lamports ?? config.defaultJitoTipLamports,
+    gasPresets: {
+      buy: (row.gas_buy_preset || DEFAULT_GAS_PRESETS.buy) as GasSpeedPreset,
+      sell: (row.gas_sell_preset || DEFAULT_GAS_PRESETS.sell) as GasSpeedPreset,
+      withdraw: (row.gas_withdraw_preset || DEFAULT_GAS_PRESETS.withdraw) as GasSpeedPreset,
+    },
+    gasPriorityTipGwei: row.gas_priority_tip_gwei ?? undefined,
+    gasMaxFeeGwei: (row.gas_max_fee_gwei ?? config.defaultBaseMaxFeeGwei) || undefined,
+    gasLimitMultiplier: row.gas_limit_multiplier ?? config.defaultGasLimitMultiplier,
+    exactApprovals: row.exact_approvals === 1,
   };
 }
 
@@ -185,14 +426,42 @@ export function saveTradeSettings(settings: TradeSettings): void {
   db.prepare(`
     INSERT INTO trade_settings (
       telegram_user_id, network, default_buy_amount_sol, default_buy_amount_eth,
-      default_buy_percentage, slippage_bps, priority_fee_lamports
-    ) VALUES (?, ?, ?, ?, ?, ?, ?)
+      default_buy_percentage, slippage_bps, priority_fee_lamports, quote_currency,
+      auto_sell_enabled, auto_tp_percent, auto_tp_sell_percent, auto_sl_percent, auto_sl_sell_percent,
+      jito_enabled, jito_block_engine_url, jito_tip_lamports,
+      priority_fee_preset, priority_fee_max_lamports,
+      auto_slippage, max_slippage_bps, max_price_impact_pct,
+      gas_buy_preset, gas_sell_preset, gas_withdraw_preset,
+      gas_priority_tip_gwei, gas_max_fee_gwei, gas_limit_multiplier,
+      exact_approvals
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     ON CONFLICT(telegram_user_id, network) DO UPDATE SET
       default_buy_amount_sol = excluded.default_buy_amount_sol,
       default_buy_amount_eth = excluded.default_buy_amount_eth,
       default_buy_percentage = excluded.default_buy_percentage,
       slippage_bps = excluded.slippage_bps,
-      priority_fee_lamports = excluded.priority_fee_lamports
+      priority_fee_lamports = excluded.priority_fee_lamports,
+      quote_currency = excluded.quote_currency,
+      auto_sell_enabled = excluded.auto_sell_enabled,
+      auto_tp_percent = excluded.auto_tp_percent,
+      auto_tp_sell_percent = excluded.auto_tp_sell_percent,
+      auto_sl_percent = excluded.auto_sl_percent,
+      auto_sl_sell_percent = excluded.auto_sl_sell_percent,
+      jito_enabled = excluded.jito_enabled,
+      jito_block_engine_url = excluded.jito_block_engine_url,
+      jito_tip_lamports = excluded.jito_tip_lamports,
+      priority_fee_preset = excluded.priority_fee_preset,
+      priority_fee_max_lamports = excluded.priority_fee_max_lamports,
+      auto_slippage = excluded.auto_slippage,
+      max_slippage_bps = excluded.max_slippage_bps,
+      max_price_impact_pct = excluded.max_price_impact_pct,
+      gas_buy_preset = excluded.gas_buy_preset,
+      gas_sell_preset = excluded.gas_sell_preset,
+      gas_withdraw_preset = excluded.gas_withdraw_preset,
+      gas_priority_tip_gwei = excluded.gas_priority_tip_gwei,
+      gas_max_fee_gwei = excluded.gas_max_fee_gwei,
+      gas_limit_multiplier = excluded.gas_limit_multiplier,
+      exact_approvals = excluded.exact_approvals
   `).run(
     settings.userId,
     settings.network,
@@ -200,7 +469,28 @@ export function saveTradeSettings(settings: TradeSettings): void {
     settings.defaultBuyAmountEth || null,
     settings.defaultBuyPercentage || null,
     settings.slippageBps,
-    settings.priorityFeeLamports || null
+    settings.priorityFeeLamports || null,
+    settings.quoteCurrency || 'native',
+    settings.autoSell.enabled ? 1 : 0,
+    settings.autoSell.takeProfitPercent,
+    settings.autoSell.takeProfitSellPercent,
+    settings.autoSell.stopLossPercent,
+    settings.autoSell.stopLossSellPercent,
+    settings.jitoEnabled ? 1 : 0,
+    settings.jitoBlockEngineUrl || null,
+    settings.jitoTipLamports,
+    settings.priorityFeePreset || 'normal',
+    settings.priorityFeeMaxLamports || null,
+    settings.autoSlippage ? 1 : 0,
+    settings.maxSlippageBps,
+    settings.maxPriceImpactPct,
+    settings.gasPresets.buy,
+    settings.gasPresets.sell,
+    settings.gasPresets.withdraw,
+    settings.gasPriorityTipGwei ?? null,
+    settings.gasMaxFeeGwei || 0, // 0 keeps "no cap" from falling back to the default
+    settings.gasLimitMultiplier,
+    settings.exactApprovals ? 1 : 0
   );
 }
 
@@ -211,9 +501,10 @@ export function saveTradeSettings(settings: TradeSettings): void {
  */
 export function recordTransaction(
   telegramUserId: number,
+  walletId: number,
   network: Network,
   txHash: string,
-  action: 'buy' | 'sell',
+  action: 'buy' | 'sell' | 'swap',
   tokenAddress: string,
   tokenSymbol: string,
   amountIn: string,
@@ -222,23 +513,24 @@ export function recordTransaction(
 ): void {
   db.prepare(`
     INSERT INTO transactions (
-      telegram_user_id, network, tx_hash, action, token_address,
+      telegram_user_id, wallet_id, network, tx_hash, action, token_address,
       token_symbol, amount_in, amount_out, price_usd
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `).run(
-    telegramUserId, network, txHash, action, tokenAddress,
+    telegramUserId, walletId, network, txHash, action, tokenAddress,
     tokenSymbol, amountIn, amountOut, priceUsd || null
   );
 }
 
 /**
- * Get recent transactions for a user
+ * Get recent transactions made by the user's active wallets
  */
 export function getRecentTransactions(telegramUserId: number, limit: number = 10): any[] {
   return db.prepare(`
-    SELECT * FROM transactions
-    WHERE telegram_user_id = ?
-    ORDER BY created_at DESC
+    SELECT t.*, w.name AS wallet_name FROM transactions t
+    LEFT JOIN wallets w ON w.id = t.wallet_id
+    WHERE t.telegram_user_id = ? AND (w.is_active = 1 OR w.id IS NULL)
+    ORDER BY t.created_at DESC
     LIMIT ?
   `).all(telegramUserId, limit) as any[];
 }
@@ -253,12 +545,12 @@ export function closeDatabase(): void {
 }
 
 /**
- * Get unique tracked token addresses for a user on a specific network
+ * Get unique token addresses a wallet has traded
  */
-export function getTrackedTokens(telegramUserId: number, network: string): string[] {
+export function getTrackedTokens(walletId: number): string[] {
   const rows = db.prepare(`
     SELECT DISTINCT token_address FROM transactions
-    WHERE telegram_user_id = ? AND network = ?
-  `).all(telegramUserId, network) as any[];
+    WHERE wallet_id = ?
+  `).all(walletId) as any[];
   return rows.map(r => r.token_address);
 }
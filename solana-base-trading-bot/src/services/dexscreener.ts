@@ -1,6 +1,7 @@
 import axios from 'axios';
 import { config } from '../config';
 import { TokenInfo, DexScreenerResponse, DexScreenerPair, Network } from '../types';
+import { SafetyLevel, TokenSafetyReport } from '../types/token-safety';
 
 const api = axios.create({
   baseURL: config.dexScreenerApiUrl,
@@ -138,6 +139,8 @@ function extractTokenInfo(
       marketCap: pair.marketCap,
       volume24h: pair.volume?.h24,
       priceChange24h: pair.priceChange?.h24,
+      priceChange1h: pair.priceChange?.h1,
+      priceChange5m: pair.priceChange?.m5,
       liquidity: pair.liquidity?.usd,
       logoUrl: pair.info?.imageUrl,
       network,
@@ -151,7 +154,7 @@ function extractTokenInfo(
 /**
  * Format token info for Telegram display
  */
-export function formatTokenInfoMessage(token: TokenInfo): string {
+export function formatTokenInfoMessage(token: TokenInfo, safety?: TokenSafetyReport): string {
   const lines = [
     `🪙 *${escapeMarkdown(token.name)}* (${escapeMarkdown(token.symbol)})`,
     ``,
@@ -185,12 +188,29 @@ export function formatTokenInfoMessage(token: TokenInfo): string {
     lines.push(`📊 *FDV:* $${formatLargeNumber(token.fdv)}`);
   }
   
+  if (safety?.unavailable) {
+    lines.push(``, `🛡 *Safety check unavailable* - check the contract before trading`);
+  } else if (safety && safety.flags.length > 0) {
+    lines.push(``, safety.partial
+      ? `🛡 *Safety Score:* n/a - some checks couldn't run`
+      : `🛡 *Safety Score:* ${safety.score}/100`);
+    for (const flag of safety.flags) {
+      lines.push(`${SAFETY_ICONS[flag.level]} ${flag.label}`);
+    }
+  }
+  
   return lines.join('\n');
 }
 
+const SAFETY_ICONS: Record<SafetyLevel, string> = {
+  ok: '✅',
+  warn: '⚠️',
+  danger: '⛔',
+};
+
 // Helper functions
 function escapeMarkdown(text: string): string {
-  return text.replace(/([_*\[\]()~`>#+\-=|{}.!])/g, '\\$1');
+  return text.replace(/([_*[\]()~`>#+\-=|{}.!])/g, '\\$1');
 }
 
 function formatPrice(price: string): string {
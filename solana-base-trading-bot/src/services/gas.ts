@@ -0,0 +1,106 @@
+import { PublicClient } from 'viem';
+import { GasAction, GasSpeedPreset } from '../types';
+
+// Speeds new users start with: cheap for withdrawals, aggressive for buys (snipes)
+export const DEFAULT_GAS_PRESETS: Record<GasAction, GasSpeedPreset> = {
+  buy: 'turbo',
+  sell: 'fast',
+  withdraw: 'eco',
+};
+
+// Percentile of recent priority tips that each preset bids
+const PRESET_PERCENTILES: Record<Exclude<GasSpeedPreset, 'custom'>, number> = {
+  eco: 10,
+  normal: 50,
+  fast: 75,
+  turbo: 95,
+};
+
+// Blocks of fee history the tips are read from (~40s on Base)
+const FEE_HISTORY_BLOCKS = 20;
+
+// maxFeePerGas leaves room for the base fee to double before the transaction stops being includable
+const BASE_FEE_HEADROOM = 2n;
+
+// Floor for when recent blocks carried no tips (0.001 gwei)
+const MIN_PRIORITY_TIP_WEI = 1_000_000n;
+
+export interface GasFees {
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+  baseFeePerGas: bigint; // Next block's base fee
+  capped: boolean; // The preset asked for more than the user's max fee
+}
+
+export function gweiToWei(gwei: number): bigint {
+  return BigInt(Math.round(gwei * 1_000_000_000));
+}
+
+/**
+ * Pick EIP-1559 fees for a transaction.
+ * Presets bid a percentile of the tips paid over recent blocks; custom uses
+ * the user's fixed tip. Both are held under `maxFeeGwei`.
+ */
+export async function getGasFees(
+  client: PublicClient,
+  preset: GasSpeedPreset,
+  customTipGwei?: number,
+  maxFeeGwei?: number
+): Promise<GasFees> {
+  const history = await client.getFeeHistory({
+    blockCount: preset === 'custom' ? 1 : FEE_HISTORY_BLOCKS,
+    rewardPercentiles: preset === 'custom' ? [] : [PRESET_PERCENTILES[preset]],
+  });
+
+  // The last entry is the base fee of the block after the newest one
+  const baseFeePerGas = history.baseFeePerGas[history.baseFeePerGas.length - 1];
+
+  let maxPriorityFeePerGas = preset === 'custom'
+    ? gweiToWei(customTipGwei || 0)
+    : median((history.reward || []).map(r => r[0]));
+  if (preset !== 'custom' && maxPriorityFeePerGas < MIN_PRIORITY_TIP_WEI) {
+    maxPriorityFeePerGas = MIN_PRIORITY_TIP_WEI;
+  }
+
+  let maxFeePerGas = baseFeePerGas * BASE_FEE_HEADROOM + maxPriorityFeePerGas;
+
+  const cap = maxFeeGwei ? gweiToWei(maxFeeGwei) : null;
+  const capped = cap !== null && maxFeePerGas > cap;
+  if (capped) {
+    if (cap < baseFeePerGas) {
+      throw new Error(`Base fee is ${formatGwei(baseFeePerGas)} gwei, above your ${maxFeeGwei} gwei max gas fee`);
+    }
+    maxFeePerGas = cap;
+    if (maxPriorityFeePerGas > cap) {
+      maxPriorityFeePerGas = cap;
+    }
+  }
+
+  return { maxFeePerGas, maxPriorityFeePerGas, baseFeePerGas, capped };
+}
+
+/**
+ * Scale a gas estimate by the user's multiplier, e.g. 1.2 = 20% headroom
+ */
+export function applyGasLimitMultiplier(gas: bigint, multiplier: number): bigint {
+  return (gas * BigInt(Math.round(multiplier * 100))) / 100n;
+}
+
+/**
+ * Expected cost in wei of `gas` units: the base fee plus the tip, unless the max fee is lower
+ */
+export function estimateGasCost(gas: bigint, fees: GasFees): bigint {
+  const price = fees.baseFeePerGas + fees.maxPriorityFeePerGas;
+  return gas * (price < fees.maxFeePerGas ? price : fees.maxFeePerGas);
+}
+
+function formatGwei(wei: bigint): string {
+  return parseFloat((Number(wei) / 1_000_000_000).toPrecision(3)).toString();
+}
+
+function median(values: bigint[]): bigint {
+  if (values.length === 0) return 0n;
+
+  const sorted = [...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  return sorted[Math.floor(sorted.length / 2)];
+}
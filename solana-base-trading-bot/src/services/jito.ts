@@ -0,0 +1,77 @@
+import axios from 'axios';
+import {
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  TransactionMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+
+// Jito's published tip accounts; one is picked at random per bundle to spread write-lock contention
+const TIP_ACCOUNTS = [
+  '96gYZGLnJYVFmbjzopPSU6QiEV5fGqZNyN9nmNhvrZU5',
+  'HFqU5x63VTqvQss8hp11i4wVV8bD44PvwucfZ2bU7gRe',
+  'Cw8CFyM9FkoMi7K7Crf6HNQqf4uEMzpKw6QNghXLvLkY',
+  'ADaUMid9yfUytqMBgopwjb2DTLSokTSzL1zt6iGPaS49',
+  'DfXygSm4jCyNCybVYYK6DwvWqjKee8pbDmJGcLWNDXjh',
+  'ADuUkR4vqLUMWXxW9gh6D6L8pMSawimctcNZ5pGwDcEt',
+  'DttWaMuVvTiduZRnguLF7jNxTgiMBZ1hyAumKUiL2KRL',
+  '3AVi9Tg9Uo68tJfuvoKvqKNWKkC5wPdSSdeBnizKZ6jT',
+];
+
+/**
+ * Build the tip transaction placed last in a bundle.
+ * It shares the swap's blockhash so both expire together.
+ */
+export function buildTipTransaction(
+  payer: Keypair,
+  tipLamports: number,
+  recentBlockhash: string
+): VersionedTransaction {
+  const tipAccount = new PublicKey(TIP_ACCOUNTS[Math.floor(Math.random() * TIP_ACCOUNTS.length)]);
+
+  const message = new TransactionMessage({
+    payerKey: payer.publicKey,
+    recentBlockhash,
+    instructions: [
+      SystemProgram.transfer({
+        fromPubkey: payer.publicKey,
+        toPubkey: tipAccount,
+        lamports: tipLamports,
+      }),
+    ],
+  }).compileToV0Message();
+
+  const transaction = new VersionedTransaction(message);
+  transaction.sign([payer]);
+  return transaction;
+}
+
+/**
+ * Submit signed transactions to a block engine as one all-or-nothing bundle.
+ * Returns the bundle id.
+ */
+export async function sendBundle(
+  blockEngineUrl: string,
+  transactions: VersionedTransaction[]
+): Promise<string> {
+  const response = await axios.post(
+    `${blockEngineUrl.replace(/\/+$/, '')}/api/v1/bundles`,
+    {
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'sendBundle',
+      params: [
+        transactions.map(tx => Buffer.from(tx.serialize()).toString('base64')),
+        { encoding: 'base64' },
+      ],
+    },
+    { timeout: 10000 }
+  );
+
+  if (response.data.error) {
+    throw new Error(response.data.error.message || 'Bundle rejected');
+  }
+
+  return response.data.result;
+}
@@ -0,0 +1,80 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+import { PriorityFeePreset } from '../types';
+
+// Percentile of recent fees paid on the swap's accounts that each preset bids
+const PRESET_PERCENTILES: Record<Exclude<PriorityFeePreset, 'custom'>, number> = {
+  normal: 50,
+  fast: 75,
+  turbo: 95,
+};
+
+// Compute units assumed when converting between a total fee and a unit price
+export const SWAP_COMPUTE_UNITS = 300_000;
+
+// Floor in micro-lamports per CU for when the accounts have no recent fee data
+const MIN_COMPUTE_UNIT_PRICE = 1_000;
+
+export interface PriorityFee {
+  computeUnitPrice: number; // micro-lamports per compute unit
+  estimatedLamports: number; // Total at SWAP_COMPUTE_UNITS
+  capped: boolean; // The preset asked for more than the user's max
+}
+
+/**
+ * Convert a total priority fee to a compute-unit price
+ */
+export function toComputeUnitPrice(lamports: number): number {
+  return Math.floor((lamports * 1_000_000) / SWAP_COMPUTE_UNITS);
+}
+
+/**
+ * Convert a compute-unit price to the total priority fee
+ */
+export function toPriorityFeeLamports(computeUnitPrice: number): number {
+  return Math.ceil((computeUnitPrice * SWAP_COMPUTE_UNITS) / 1_000_000);
+}
+
+/**
+ * Pick a compute-unit price for a transaction writing to `accounts`.
+ * Presets bid a percentile of what recently landed on those accounts;
+ * custom uses the user's fixed fee. Both are held under `maxLamports`.
+ */
+export async function getPriorityFee(
+  connection: Connection,
+  accounts: string[],
+  preset: PriorityFeePreset,
+  customLamports?: number,
+  maxLamports?: number
+): Promise<PriorityFee> {
+  let computeUnitPrice: number;
+
+  if (preset === 'custom') {
+    computeUnitPrice = toComputeUnitPrice(customLamports || 0);
+  } else {
+    const recent = await connection.getRecentPrioritizationFees({
+      lockedWritableAccounts: accounts.map(a => new PublicKey(a)),
+    });
+    const fees = recent.map(f => f.prioritizationFee);
+    computeUnitPrice = Math.max(percentile(fees, PRESET_PERCENTILES[preset]), MIN_COMPUTE_UNIT_PRICE);
+  }
+
+  const maxPrice = maxLamports ? toComputeUnitPrice(maxLamports) : Infinity;
+  const capped = computeUnitPrice > maxPrice;
+  if (capped) {
+    computeUnitPrice = maxPrice;
+  }
+
+  return {
+    computeUnitPrice,
+    estimatedLamports: toPriorityFeeLamports(computeUnitPrice),
+    capped,
+  };
+}
+
+function percentile(values: number[], p: number): number {
+  if (values.length === 0) return 0;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const index = Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1);
+  return sorted[Math.max(0, index)];
+}
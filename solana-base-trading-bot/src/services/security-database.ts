@@ -324,27 +324,18 @@ export function getSecurityLog(
 /**
  * Mark wallet as using new encryption
  */
-export function setWalletEncryptionVersion(
-  telegramUserId: number,
-  network: Network,
-  version: number
-): void {
+export function setWalletEncryptionVersion(walletId: number, version: number): void {
   db.prepare(`
-    UPDATE wallets SET encryption_version = ? 
-    WHERE telegram_user_id = ? AND network = ?
-  `).run(version, telegramUserId, network);
+    UPDATE wallets SET encryption_version = ? WHERE id = ?
+  `).run(version, walletId);
 }
 
 /**
  * Get wallet encryption version
  */
-export function getWalletEncryptionVersion(
-  telegramUserId: number,
-  network: Network
-): number {
+export function getWalletEncryptionVersion(walletId: number): number {
   const row = db.prepare(`
-    SELECT encryption_version FROM wallets 
-    WHERE telegram_user_id = ? AND network = ?
-  `).get(telegramUserId, network) as any;
+    SELECT encryption_version FROM wallets WHERE id = ?
+  `).get(walletId) as any;
   return row?.encryption_version || 1;
 }
@@ -69,11 +69,11 @@ export function changePassword(
   // Re-encrypt all wallets with new password
   const wallets = db.getAllWallets(telegramUserId);
   for (const wallet of wallets) {
-    const privateKey = decryptPrivateKey(telegramUserId, wallet.network, currentPassword);
+    const privateKey = decryptPrivateKey(telegramUserId, wallet.id, currentPassword);
     if (privateKey) {
       const newEncrypted = encryptWithPassword(privateKey, newPassword, telegramUserId);
-      db.saveWallet(telegramUserId, wallet.network, wallet.address, newEncrypted);
-      securityDb.setWalletEncryptionVersion(telegramUserId, wallet.network, 2);
+      db.saveWallet(telegramUserId, wallet.network, wallet.address, newEncrypted, wallet.name);
+      securityDb.setWalletEncryptionVersion(wallet.id, 2);
     }
   }
 
@@ -127,14 +127,14 @@ export function unlock(
 
   // Success - create session and decrypt keys
   securityDb.recordLoginAttempt(telegramUserId, true);
-  const session = sessionManager.createSession(telegramUserId);
+  sessionManager.createSession(telegramUserId);
 
   // Decrypt and cache wallet keys
   const wallets = db.getAllWallets(telegramUserId);
   for (const wallet of wallets) {
-    const privateKey = decryptPrivateKey(telegramUserId, wallet.network, password);
+    const privateKey = decryptPrivateKey(telegramUserId, wallet.id, password);
     if (privateKey) {
-      sessionManager.storeKeyInSession(telegramUserId, wallet.network, privateKey);
+      sessionManager.storeKeyInSession(telegramUserId, wallet.id, privateKey);
     }
   }
 
@@ -164,14 +164,14 @@ export function isUnlocked(telegramUserId: number): boolean {
  */
 function decryptPrivateKey(
   telegramUserId: number,
-  network: Network,
+  walletId: number,
   password: string
 ): string | null {
-  const wallet = db.getWallet(telegramUserId, network);
-  if (!wallet) return null;
+  const wallet = db.getWalletById(walletId);
+  if (!wallet || wallet.telegramUserId !== telegramUserId) return null;
 
   // Check encryption version
-  const version = securityDb.getWalletEncryptionVersion(telegramUserId, network);
+  const version = securityDb.getWalletEncryptionVersion(walletId);
 
   if (version === 1 && isLegacyFormat(wallet.encryptedPrivateKey)) {
     // Legacy format - use server key
@@ -183,13 +183,19 @@ function decryptPrivateKey(
 }
 
 /**
- * Get decrypted private key (requires unlocked session)
+ * Get decrypted private key for a wallet (requires unlocked session).
+ * Defaults to the active wallet on the network.
  */
 export function getPrivateKey(
   telegramUserId: number,
-  network: Network
+  network: Network,
+  walletId?: number
 ): string | null {
-  return sessionManager.getKeyFromSession(telegramUserId, network);
+  const wallet = walletId ? db.getWalletById(walletId) : db.getWallet(telegramUserId, network);
+  if (!wallet || wallet.telegramUserId !== telegramUserId || wallet.network !== network) {
+    return null;
+  }
+  return sessionManager.getKeyFromSession(telegramUserId, wallet.id);
 }
 
 /**
@@ -200,16 +206,19 @@ export function saveEncryptedWallet(
   network: Network,
   address: string,
   privateKey: string,
-  password: string
-): void {
+  password: string,
+  name: string = 'main'
+): number {
   const encrypted = encryptWithPassword(privateKey, password, telegramUserId);
-  db.saveWallet(telegramUserId, network, address, encrypted);
-  securityDb.setWalletEncryptionVersion(telegramUserId, network, 2);
+  const walletId = db.saveWallet(telegramUserId, network, address, encrypted, name);
+  securityDb.setWalletEncryptionVersion(walletId, 2);
 
   // Cache in session if unlocked
   if (isUnlocked(telegramUserId)) {
-    sessionManager.storeKeyInSession(telegramUserId, network, privateKey);
+    sessionManager.storeKeyInSession(telegramUserId, walletId, privateKey);
   }
+
+  return walletId;
 }
 
 // ========== Security Checks ==========
@@ -265,15 +274,15 @@ export function verifyPasswordForAction(
  */
 export function migrateWallet(
   telegramUserId: number,
-  network: Network,
+  walletId: number,
   newPassword: string
 ): { success: boolean; error?: string } {
-  const wallet = db.getWallet(telegramUserId, network);
-  if (!wallet) {
+  const wallet = db.getWalletById(walletId);
+  if (!wallet || wallet.telegramUserId !== telegramUserId) {
     return { success: false, error: 'Wallet not found' };
   }
 
-  const version = securityDb.getWalletEncryptionVersion(telegramUserId, network);
+  const version = securityDb.getWalletEncryptionVersion(walletId);
   if (version >= 2) {
     return { success: false, error: 'Wallet already using new encryption' };
   }
@@ -286,9 +295,9 @@ export function migrateWallet(
 
   // Re-encrypt with user password
   const newEncrypted = encryptWithPassword(privateKey, newPassword, telegramUserId);
-  db.saveWallet(telegramUserId, network, wallet.address, newEncrypted);
-  securityDb.setWalletEncryptionVersion(telegramUserId, network, 2);
-  securityDb.logSecurityEvent(telegramUserId, 'wallet_migrated', network);
+  db.saveWallet(telegramUserId, wallet.network, wallet.address, newEncrypted, wallet.name);
+  securityDb.setWalletEncryptionVersion(walletId, 2);
+  securityDb.logSecurityEvent(telegramUserId, 'wallet_migrated', `${wallet.network}:${wallet.name}`);
 
   return { success: true };
 }
@@ -305,7 +314,7 @@ export function migrateAllWallets(
   const failed: Network[] = [];
 
   for (const wallet of wallets) {
-    const result = migrateWallet(telegramUserId, wallet.network, newPassword);
+    const result = migrateWallet(telegramUserId, wallet.id, newPassword);
     if (result.success) {
       migrated.push(wallet.network);
     } else {
@@ -369,8 +378,9 @@ export function createEncryptedWallet(
   network: Network,
   address: string,
   privateKey: string,
-  password: string
-): { success: boolean; error?: string } {
+  password: string,
+  name: string = 'main'
+): { success: boolean; walletId?: number; error?: string } {
   // Verify password is correct first
   const security = securityDb.getUserSecurity(telegramUserId);
   if (!security) {
@@ -383,14 +393,14 @@ export function createEncryptedWallet(
 
   // Encrypt and save
   const encrypted = encryptWithPassword(privateKey, password, telegramUserId);
-  db.saveWallet(telegramUserId, network, address, encrypted);
-  securityDb.setWalletEncryptionVersion(telegramUserId, network, 2);
-  securityDb.logSecurityEvent(telegramUserId, 'wallet_created', network);
+  const walletId = db.saveWallet(telegramUserId, network, address, encrypted, name);
+  securityDb.setWalletEncryptionVersion(walletId, 2);
+  securityDb.logSecurityEvent(telegramUserId, 'wallet_created', `${network}:${name}`);
 
   // Cache in session if unlocked
   if (isUnlocked(telegramUserId)) {
-    sessionManager.storeKeyInSession(telegramUserId, network, privateKey);
+    sessionManager.storeKeyInSession(telegramUserId, walletId, privateKey);
   }
 
-  return { success: true };
+  return { success: true, walletId };
 }
@@ -1,4 +1,3 @@
-import { Network } from '../types';
 import { createSessionEncryption } from '../utils/encryption';
 
 /**
@@ -15,8 +14,8 @@ interface Session {
   telegramUserId: number;
   unlockedAt: number;
   expiresAt: number;
-  // Encrypted in-memory with session-specific key
-  encryptedKeys: Map<Network, string>;
+  // Encrypted in-memory with session-specific key, keyed by wallet id
+  encryptedKeys: Map<number, string>;
   sessionCrypto: ReturnType<typeof createSessionEncryption>;
 }
 
@@ -128,7 +127,7 @@ export function refreshSession(
  */
 export function storeKeyInSession(
   telegramUserId: number,
-  network: Network,
+  walletId: number,
   privateKey: string
 ): boolean {
   const session = getSession(telegramUserId);
@@ -136,7 +135,7 @@ export function storeKeyInSession(
 
   // Encrypt the private key with session-specific key
   const encrypted = session.sessionCrypto.encrypt(privateKey);
-  session.encryptedKeys.set(network, encrypted);
+  session.encryptedKeys.set(walletId, encrypted);
   return true;
 }
 
@@ -145,27 +144,27 @@ export function storeKeyInSession(
  */
 export function getKeyFromSession(
   telegramUserId: number,
-  network: Network
+  walletId: number
 ): string | null {
   const session = getSession(telegramUserId);
   if (!session) return null;
 
-  const encrypted = session.encryptedKeys.get(network);
+  const encrypted = session.encryptedKeys.get(walletId);
   if (!encrypted) return null;
 
   return session.sessionCrypto.decrypt(encrypted);
 }
 
 /**
- * Check if session has a key for network
+ * Check if session has a key for a wallet
  */
 export function hasKeyInSession(
   telegramUserId: number,
-  network: Network
+  walletId: number
 ): boolean {
   const session = getSession(telegramUserId);
   if (!session) return false;
-  return session.encryptedKeys.has(network);
+  return session.encryptedKeys.has(walletId);
 }
 
 /**
@@ -188,17 +187,17 @@ export function lockAllSessions(): void {
 export function getSessionInfo(telegramUserId: number): {
   active: boolean;
   expiresIn: number;
-  networks: Network[];
+  walletIds: number[];
 } | null {
   const session = getSession(telegramUserId);
   if (!session) {
-    return { active: false, expiresIn: 0, networks: [] };
+    return { active: false, expiresIn: 0, walletIds: [] };
   }
 
   return {
     active: true,
     expiresIn: Math.max(0, session.expiresAt - Date.now()),
-    networks: [...session.encryptedKeys.keys()],
+    walletIds: [...session.encryptedKeys.keys()],
   };
 }
 
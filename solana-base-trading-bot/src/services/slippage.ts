@@ -0,0 +1,142 @@
+import { Network, SwapQuote, SwapSimulation, TokenInfo, TradeSettings } from '../types';
+import { getTokenInfo } from './dexscreener';
+import { simulateSolanaQuote } from './solana';
+import { simulateBaseQuote } from './base';
+
+// Floor for auto slippage; below this even calm, deep pools fail on normal block-to-block moves
+const MIN_AUTO_SLIPPAGE_BPS = 50;
+
+// Share of the quoted price impact added as buffer: impact estimates drift as other trades land
+const IMPACT_BUFFER = 0.5;
+
+// Share of recent volatility added as buffer for the price moving before the swap lands
+const VOLATILITY_BUFFER = 0.5;
+
+export interface GuardedQuote {
+  quote?: SwapQuote;
+  error?: string;
+  slippageBps: number; // What the quote was made with
+}
+
+/**
+ * Slippage for a quote: a floor plus part of its price impact and part of the
+ * token's recent volatility, held under the user's cap.
+ */
+export function getAutoSlippageBps(priceImpactPct: number, volatilityPct: number, maxSlippageBps: number): number {
+  const bps = MIN_AUTO_SLIPPAGE_BPS
+    + priceImpactPct * 100 * IMPACT_BUFFER
+    + volatilityPct * 100 * VOLATILITY_BUFFER;
+
+  return Math.min(maxSlippageBps, Math.max(MIN_AUTO_SLIPPAGE_BPS, Math.round(bps)));
+}
+
+/**
+ * Recent price movement in percent: the last 5 minutes, or the last hour scaled
+ * down to a 5-minute window when that is larger
+ */
+export function getVolatilityPct(token: TokenInfo | null): number {
+  if (!token) return 0;
+
+  const fiveMinutes = Math.abs(token.priceChange5m || 0);
+  const hourly = Math.abs(token.priceChange1h || 0) / Math.sqrt(12);
+  return Math.max(fiveMinutes, hourly);
+}
+
+/**
+ * Refusal message when a quote's price impact is above the user's limit, otherwise null.
+ * An unknown impact fails the check: it can't be shown to be under the limit.
+ */
+export function checkPriceImpact(settings: TradeSettings, quote: SwapQuote): string | null {
+  if (!settings.maxPriceImpactPct) return null;
+
+  const impact = quote.priceImpactPct;
+  if (impact === undefined) {
+    return `Price impact couldn't be determined for this route, so your ${settings.maxPriceImpactPct}% limit can't be checked. ` +
+      `Try again shortly or turn the limit off in settings.`;
+  }
+  if (impact <= settings.maxPriceImpactPct) return null;
+
+  return `Price impact ${impact.toFixed(2)}% is above your ${settings.maxPriceImpactPct}% limit. ` +
+    `Trade a smaller amount or raise the limit in settings.`;
+}
+
+/**
+ * Quote with the user's slippage mode and price impact limit applied.
+ * Auto mode quotes once at the cap to read the impact, then re-quotes at the
+ * derived slippage when it is lower. Without a reported impact it stays at the cap.
+ */
+export async function getGuardedQuote(
+  settings: TradeSettings,
+  tokenAddress: string,
+  quoteFn: (slippageBps: number) => Promise<{ quote?: SwapQuote; error?: string }>,
+  fixedSlippageBps: number = settings.slippageBps
+): Promise<GuardedQuote> {
+  let slippageBps = settings.autoSlippage ? settings.maxSlippageBps : fixedSlippageBps;
+  let result = await quoteFn(slippageBps);
+
+  if (settings.autoSlippage && result.quote?.priceImpactPct !== undefined) {
+    const token = await getTokenInfo(tokenAddress, settings.network);
+    const autoBps = getAutoSlippageBps(result.quote.priceImpactPct, getVolatilityPct(token), settings.maxSlippageBps);
+
+    if (autoBps < slippageBps) {
+      slippageBps = autoBps;
+      result = await quoteFn(slippageBps);
+    }
+  }
+
+  if (!result.quote) {
+    return { error: result.error, slippageBps };
+  }
+
+  const refusal = checkPriceImpact(settings, result.quote);
+  return refusal ? { error: refusal, slippageBps } : { quote: result.quote, slippageBps };
+}
+
+/**
+ * Simulate a quote from the user's wallet before it is sent; buys also check the
+ * tokens can be sold straight back. Null when the simulation couldn't run.
+ */
+export async function simulateSwap(
+  telegramUserId: number,
+  network: Network,
+  quote: SwapQuote,
+  walletId: number | undefined,
+  checkSellBack: boolean
+): Promise<SwapSimulation | null> {
+  try {
+    return network === 'solana'
+      ? await simulateSolanaQuote(telegramUserId, quote, walletId, checkSellBack)
+      : await simulateBaseQuote(telegramUserId, quote, walletId, checkSellBack);
+  } catch (error: any) {
+    console.warn(`[Simulation] ${network} ${quote.inputToken} -> ${quote.outputToken} couldn't run:`, error.message);
+    return null;
+  }
+}
+
+/**
+ * Refusal message when a simulation shows the swap failing or the token unsellable, otherwise null.
+ * A simulation that couldn't run doesn't block the trade.
+ */
+export function checkSimulation(simulation: SwapSimulation | null): string | null {
+  if (!simulation) return null;
+  if (!simulation.success) {
+    return `Swap fails in simulation: ${simulation.error || 'Unknown error'}`;
+  }
+  if (simulation.sellable === false) {
+    return `Token can't be sold back in simulation - likely a honeypot`;
+  }
+  return null;
+}
+
+/**
+ * Simulate a swap about to be sent unattended and return the refusal, if any
+ */
+export async function getSimulationRefusal(
+  telegramUserId: number,
+  network: Network,
+  quote: SwapQuote,
+  walletId: number | undefined,
+  checkSellBack: boolean
+): Promise<string | null> {
+  return checkSimulation(await simulateSwap(telegramUserId, network, quote, walletId, checkSellBack));
+}
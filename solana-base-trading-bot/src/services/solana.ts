@@ -5,27 +5,41 @@ import {
   PublicKey,
   LAMPORTS_PER_SOL,
   VersionedTransaction,
-  TransactionMessage,
   SystemProgram,
+  Transaction,
+  TransactionError,
 } from '@solana/web3.js';
 import {
-  getAccount,
   getAssociatedTokenAddress,
+  getEpochFee,
+  getTransferFeeConfig,
+  unpackMint,
   TOKEN_PROGRAM_ID,
+  TOKEN_2022_PROGRAM_ID,
   AccountLayout,
 } from '@solana/spl-token';
 import axios from 'axios';
 import bs58 from 'bs58';
 import { config } from '../config';
 
-import { getWallet, saveWallet } from './database';
+import { getWalletByName, getTradeSettings } from './database';
+import * as jito from './jito';
+import { getPriorityFee, PriorityFee } from './priority-fees';
+import { sendAndConfirm, waitForLanding, describeTransactionError, LandingResult } from './tx-sender';
 import { getTokenInfo, getMultipleTokensInfo } from './dexscreener';
+import { runExclusive, walletKey } from './wallet-queue';
 import { 
   TokenHolding, 
   SwapQuote, 
   TransactionResult,
+  SwapExecutionOptions,
+  SwapSimulation,
+  JitoOptions,
   JupiterQuoteResponse,
   JupiterSwapResponse,
+  QuoteCurrency,
+  QueuedCallback,
+  TransferFee,
 } from '../types';
 
 const connection = new Connection(config.solanaRpcUrl, 'confirmed');
@@ -35,13 +49,25 @@ const jupiterApi = axios.create({
   timeout: 30000,
 });
 
+// Base fee per signature, before any priority fee
+const BASE_FEE_LAMPORTS = 5000;
+
+const USDC_DECIMALS = 6;
+
+// The sell-back is simulated from an existing holder's wallet, which has to cover the fee
+const MIN_SELL_SIMULATION_LAMPORTS = 0.01 * LAMPORTS_PER_SOL;
+
+// How long a Jito bundle gets to land before the swap is sent normally
+const JITO_LANDING_TIMEOUT_MS = 20000;
+
 // ============ Wallet Management ============
 
 /**
 */
 export async function createSolanaWallet(
   telegramUserId: number,
-  password?: string
+  password?: string,
+  name: string = 'main'
 ): Promise<{
   address: string;
   created: boolean;
@@ -49,7 +75,7 @@ export async function createSolanaWallet(
   error?: string;
 }> {
   // Check if wallet already exists
-  const existing = getWallet(telegramUserId, 'solana');
+  const existing = getWalletByName(telegramUserId, 'solana', name);
   if (existing) {
     return { address: existing.address, created: false };
   }
@@ -70,7 +96,7 @@ export async function createSolanaWallet(
   const privateKey = bs58.encode(keypair.secretKey);
   
   // Encrypt and save using security service
-  const result = security.createEncryptedWallet(telegramUserId, 'solana', address, privateKey, password);
+  const result = security.createEncryptedWallet(telegramUserId, 'solana', address, privateKey, password, name);
   if (!result.success) {
     return { address: '', created: false, error: result.error };
   }
@@ -84,7 +110,8 @@ export async function createSolanaWallet(
 export async function importSolanaWallet(
   telegramUserId: number, 
   privateKey: string,
-  password?: string
+  password?: string,
+  name: string = 'main'
 ): Promise<{ address: string; success: boolean; needsPassword?: boolean; error?: string }> {
   // Must have security set up
   if (security.needsPasswordSetup(telegramUserId)) {
@@ -121,7 +148,8 @@ export async function importSolanaWallet(
       'solana', 
       address, 
       bs58.encode(secretKey), 
-      password
+      password,
+      name
     );
     if (!result.success) {
       return { address: '', success: false, error: result.error };
@@ -135,11 +163,11 @@ export async function importSolanaWallet(
   }
 }
 /**
- * Get Solana wallet keypair for a user
+ * Get Solana wallet keypair for a user (the active wallet unless walletId is given)
  */
-export function getSolanaKeypair(telegramUserId: number): Keypair | null {
+export function getSolanaKeypair(telegramUserId: number, walletId?: number): Keypair | null {
   // Must be unlocked to use wallet
-  const privateKey = security.getPrivateKey(telegramUserId, 'solana');
+  const privateKey = security.getPrivateKey(telegramUserId, 'solana', walletId);
   if (!privateKey) return null;
   
   try {
@@ -154,9 +182,9 @@ export function getSolanaKeypair(telegramUserId: number): Keypair | null {
 /**
  * Export private key (for user backup)
  */
-export function exportSolanaPrivateKey(telegramUserId: number): string | null {
+export function exportSolanaPrivateKey(telegramUserId: number, walletId?: number): string | null {
   // Must be unlocked - returns key from session
-  return security.getPrivateKey(telegramUserId, 'solana');
+  return security.getPrivateKey(telegramUserId, 'solana', walletId);
 }
 
 // ============ Balance & Holdings ============
@@ -269,24 +297,152 @@ export async function getSolanaTokenHoldings(address: string): Promise<TokenHold
 }
 
 
+/**
+ * Format a raw token amount using its decimals
+ */
+function formatRawAmount(amount: string, decimals: number): string {
+  const value = Number(BigInt(amount)) / Math.pow(10, decimals);
+  return parseFloat(value.toPrecision(8)).toString();
+}
+
+/**
+ * Convert a human-readable token amount to raw base units
+ */
+function toRawAmount(amount: number, decimals: number): string {
+  // toFixed switches to exponent notation from 1e21 up; this always writes plain digits
+  const plain = amount.toLocaleString('en-US', { useGrouping: false, maximumFractionDigits: Math.min(decimals, 20) });
+  const [whole, fraction = ''] = plain.split('.');
+  return BigInt(whole + fraction.padEnd(decimals, '0')).toString();
+}
+
+/**
+ * Get the raw balance and decimals of an SPL or Token-2022 token held by a wallet
+ */
+export async function getSplTokenBalance(
+  walletAddress: string,
+  tokenAddress: string
+): Promise<{ balance: bigint; decimals: number }> {
+  const owner = new PublicKey(walletAddress);
+  const TOKEN_2022_PROGRAM_ID = new PublicKey('TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb');
+  const mintAddress = tokenAddress.toLowerCase();
+
+  // Fetch both programs in parallel to avoid sequential rate limits
+  const [splAccounts, token2022Accounts] = await Promise.all([
+    connection.getParsedTokenAccountsByOwner(owner, { programId: TOKEN_PROGRAM_ID })
+      .catch((e) => { console.error('SPL fetch failed:', e.message); return { value: [] as any[] }; }),
+    connection.getParsedTokenAccountsByOwner(owner, { programId: TOKEN_2022_PROGRAM_ID })
+      .catch((e) => { console.error('Token2022 fetch failed:', e.message); return { value: [] as any[] }; }),
+  ]);
+
+  const allAccounts = [...splAccounts.value, ...token2022Accounts.value];
+
+  let decimals: number | null = null;
+
+  for (const { account } of allAccounts) {
+    const parsed = (account.data as any).parsed?.info;
+    if (!parsed) continue;
+
+    if (parsed.mint.toLowerCase() === mintAddress) {
+      const rawBalance = BigInt(parsed.tokenAmount.amount);
+      decimals = parsed.tokenAmount.decimals;
+      if (rawBalance > 0n) {
+        return { balance: rawBalance, decimals: decimals! };
+      }
+    }
+  }
+
+  return { balance: 0n, decimals: decimals ?? await getSplTokenDecimals(tokenAddress) };
+}
+
+/**
+ * Get the decimals of an SPL or Token-2022 mint
+ */
+export async function getSplTokenDecimals(tokenAddress: string): Promise<number> {
+  try {
+    const info = await connection.getParsedAccountInfo(new PublicKey(tokenAddress));
+    const decimals = (info.value?.data as any)?.parsed?.info?.decimals;
+    return typeof decimals === 'number' ? decimals : 9;
+  } catch (error) {
+    console.error('Error getting mint decimals:', error);
+    return 9;
+  }
+}
+
+/**
+ * Current Token-2022 transfer fee on a mint, or null when it charges none
+ */
+export async function getTransferFee(tokenMint: string): Promise<TransferFee | null> {
+  if (tokenMint === config.solana.nativeMint || tokenMint === config.solana.usdcMint) return null;
+  
+  const mintPubkey = new PublicKey(tokenMint);
+  const accountInfo = await connection.getAccountInfo(mintPubkey);
+  if (!accountInfo || !accountInfo.owner.equals(TOKEN_2022_PROGRAM_ID)) return null;
+  
+  const feeConfig = getTransferFeeConfig(unpackMint(mintPubkey, accountInfo, TOKEN_2022_PROGRAM_ID));
+  if (!feeConfig) return null;
+  
+  const { epoch } = await connection.getEpochInfo();
+  const fee = getEpochFee(feeConfig, BigInt(epoch));
+  if (fee.transferFeeBasisPoints === 0) return null;
+  
+  return { basisPoints: fee.transferFeeBasisPoints, maximumFee: fee.maximumFee };
+}
+
+/**
+ * Fee withheld from a transfer of `amount` raw tokens, as the token program computes it
+ */
+export function calculateTransferFee(transferFee: TransferFee, amount: bigint): bigint {
+  const fee = (amount * BigInt(transferFee.basisPoints) + 9999n) / 10000n;
+  return fee > transferFee.maximumFee ? transferFee.maximumFee : fee;
+}
+
+/**
+ * Widen slippage by the transfer fee so selling a fee token doesn't fail on minimum-out
+ */
+function withTransferFeeSlippage(slippageBps: number, transferFee: TransferFee | null): number {
+  return transferFee ? Math.min(10000, slippageBps + transferFee.basisPoints) : slippageBps;
+}
+
 // ============ Jupiter Trading ============
 
 /**
- * Get a swap quote from Jupiter
+ * Mint that buys are paid with and sells pay out in
+ */
+export function getQuoteMint(quoteCurrency: QuoteCurrency = 'native'): string {
+  return quoteCurrency === 'usdc' ? config.solana.usdcMint : config.solana.nativeMint;
+}
+
+/**
+ * Convert a SOL or USDC amount to raw base units
+ */
+function toQuoteRawAmount(amount: number, quoteCurrency: QuoteCurrency): string {
+  return quoteCurrency === 'usdc'
+    ? toRawAmount(amount, USDC_DECIMALS)
+    : Math.floor(amount * LAMPORTS_PER_SOL).toString();
+}
+
+/**
+ * Get a swap quote from Jupiter.
+ * In ExactOut mode `amount` is the raw output wanted and slippage applies to the input.
  */
 export async function getJupiterQuote(
   inputMint: string,
   outputMint: string,
   amount: string,
-  slippageBps: number = 100
+  slippageBps: number = 100,
+  swapMode: 'ExactIn' | 'ExactOut' = 'ExactIn'
 ): Promise<SwapQuote | null> {
   try {
+    // Selling a token that charges a transfer fee delivers less to the pool than quoted
+    const transferFee = swapMode === 'ExactIn' ? await getTransferFee(inputMint).catch(() => null) : null;
+    
     const response = await jupiterApi.get<JupiterQuoteResponse>('/quote', {
       params: {
         inputMint,
         outputMint,
         amount,
-        slippageBps,
+        slippageBps: withTransferFeeSlippage(slippageBps, transferFee),
+        swapMode,
         onlyDirectRoutes: false,
         asLegacyTransaction: false,
       },
@@ -300,14 +456,55 @@ export async function getJupiterQuote(
       .filter((v, i, a) => a.indexOf(v) === i)
       .join(' → ');
     
+    const outputDecimals = outputMint === config.solana.nativeMint
+      ? 9
+      : await getSplTokenDecimals(outputMint);
+    
+    if (swapMode === 'ExactOut') {
+      const inputDecimals = inputMint === config.solana.nativeMint
+        ? 9
+        : await getSplTokenDecimals(inputMint);
+      
+      return {
+        inputToken: quote.inputMint,
+        outputToken: quote.outputMint,
+        inputAmount: quote.inAmount,
+        outputAmount: quote.outAmount,
+        outputAmountFormatted: formatRawAmount(quote.outAmount, outputDecimals),
+        priceImpact: quote.priceImpactPct,
+        route: routeLabels || 'Direct',
+        priceImpactPct: parseFloat(quote.priceImpactPct) * 100,
+        swapMode,
+        inputAmountFormatted: formatRawAmount(quote.inAmount, inputDecimals),
+        // Output is fixed; the threshold caps what we spend
+        maximumInputAmount: quote.otherAmountThreshold,
+        maximumInputFormatted: formatRawAmount(quote.otherAmountThreshold, inputDecimals),
+        outputDecimals,
+        minimumOutputAmount: quote.outAmount,
+        minimumOutputFormatted: formatRawAmount(quote.outAmount, outputDecimals),
+        estimatedFee: `~${BASE_FEE_LAMPORTS / LAMPORTS_PER_SOL} SOL + priority fee`,
+        quotedAt: Date.now(),
+        raw: quote,
+      };
+    }
+    
     return {
       inputToken: quote.inputMint,
       outputToken: quote.outputMint,
       inputAmount: quote.inAmount,
       outputAmount: quote.outAmount,
-      outputAmountFormatted: (parseFloat(quote.outAmount) / 1e9).toFixed(6),
+      outputAmountFormatted: formatRawAmount(quote.outAmount, outputDecimals),
       priceImpact: quote.priceImpactPct,
       route: routeLabels || 'Direct',
+      // Jupiter reports impact as a fraction
+      priceImpactPct: parseFloat(quote.priceImpactPct) * 100,
+      outputDecimals,
+      minimumOutputAmount: quote.otherAmountThreshold,
+      minimumOutputFormatted: formatRawAmount(quote.otherAmountThreshold, outputDecimals),
+      estimatedFee: `~${BASE_FEE_LAMPORTS / LAMPORTS_PER_SOL} SOL + priority fee`,
+      transferFeeBps: transferFee?.basisPoints,
+      quotedAt: Date.now(),
+      raw: quote,
     };
     
   } catch (error: any) {
@@ -317,7 +514,7 @@ export async function getJupiterQuote(
 }
 
 /**
- * Execute a swap using Jupiter
+ * Execute a swap using Jupiter, after anything already in flight from the same wallet
  */
 export async function executeJupiterSwap(
   telegramUserId: number,
@@ -325,34 +522,54 @@ export async function executeJupiterSwap(
   outputMint: string,
   amount: string,
   slippageBps: number = 100,
-  priorityFeeLamports?: number
+  priorityFeeLamports?: number,
+  options: SwapExecutionOptions = {}
+): Promise<TransactionResult> {
+  const keypair = getSolanaKeypair(telegramUserId, options.walletId);
+  if (!keypair) {
+    return { success: false, error: 'Wallet not found' };
+  }
+
+  return runExclusive(
+    walletKey('solana', keypair.publicKey.toBase58()),
+    () => sendJupiterSwap(telegramUserId, keypair, inputMint, outputMint, amount, slippageBps, priorityFeeLamports, options),
+    options.onQueued
+  );
+}
+
+async function sendJupiterSwap(
+  telegramUserId: number,
+  keypair: Keypair,
+  inputMint: string,
+  outputMint: string,
+  amount: string,
+  slippageBps: number,
+  priorityFeeLamports: number | undefined,
+  options: SwapExecutionOptions
 ): Promise<TransactionResult> {
   try {
-    const keypair = getSolanaKeypair(telegramUserId);
-    if (!keypair) {
-      return { success: false, error: 'Wallet not found' };
-    }
-    
     const userPublicKey = keypair.publicKey.toBase58();
     
-    // Get quote first
-    const quoteResponse = await jupiterApi.get<JupiterQuoteResponse>('/quote', {
-      params: {
-        inputMint,
-        outputMint,
-        amount,
-        slippageBps,
-      },
-    });
+    // Use the confirmed quote when given, otherwise quote now
+    const quoteResponse = options.quote?.raw
+      ? { data: options.quote.raw as JupiterQuoteResponse }
+      : await jupiterApi.get<JupiterQuoteResponse>('/quote', {
+          params: {
+            inputMint,
+            outputMint,
+            amount,
+            slippageBps: withTransferFeeSlippage(slippageBps, await getTransferFee(inputMint).catch(() => null)),
+          },
+        });
+    
+    const priorityFee = await resolvePriorityFee(telegramUserId, quoteResponse.data, priorityFeeLamports);
     
     // Get swap transaction
     const swapResponse = await jupiterApi.post<JupiterSwapResponse>('/swap', {
       quoteResponse: quoteResponse.data,
       userPublicKey,
       wrapAndUnwrapSol: true,
-      computeUnitPriceMicroLamports: priorityFeeLamports 
-        ? Math.floor(priorityFeeLamports / 1.4) // Convert to compute unit price
-        : 'auto',
+      computeUnitPriceMicroLamports: priorityFee?.computeUnitPrice ?? 'auto',
       dynamicComputeUnitLimit: true,
     });
     
@@ -361,25 +578,30 @@ export async function executeJupiterSwap(
     const transaction = VersionedTransaction.deserialize(swapTransactionBuf);
     transaction.sign([keypair]);
     
-    // Send transaction
-    const rawTransaction = transaction.serialize();
-    const signature = await connection.sendRawTransaction(rawTransaction, {
-      skipPreflight: true,
-      maxRetries: 3,
-    });
+    // Send and rebroadcast until it lands or the blockhash expires
+    const jitoOptions = options.jito === undefined ? getJitoOptions(telegramUserId) : options.jito;
+    const { outcome, signature, error } = await sendSwapTransaction(
+      transaction,
+      keypair,
+      swapResponse.data.lastValidBlockHeight,
+      jitoOptions
+    );
     
-    // Wait for confirmation
-    const confirmation = await connection.confirmTransaction({
-      signature,
-      blockhash: transaction.message.recentBlockhash,
-      lastValidBlockHeight: swapResponse.data.lastValidBlockHeight,
-    }, 'confirmed');
+    if (outcome === 'expired') {
+      return {
+        success: false,
+        signature,
+        landing: outcome,
+        error: 'Transaction expired without landing - nothing was swapped, safe to retry',
+      };
+    }
     
-    if (confirmation.value.err) {
+    if (outcome === 'failed') {
       return { 
         success: false, 
         signature,
-        error: 'Transaction failed on-chain',
+        landing: outcome,
+        error: `Transaction failed on-chain (${error})`,
         explorerUrl: `${config.explorers.solana}${signature}`,
       };
     }
@@ -387,7 +609,11 @@ export async function executeJupiterSwap(
     return {
       success: true,
       signature,
+      landing: outcome,
       explorerUrl: `${config.explorers.solana}${signature}`,
+      inputAmount: quoteResponse.data.inAmount,
+      outputAmount: quoteResponse.data.outAmount,
+      priorityFeeLamports: swapResponse.data.prioritizationFeeLamports ?? priorityFee?.estimatedLamports,
     };
     
   } catch (error: any) {
@@ -400,40 +626,478 @@ export async function executeJupiterSwap(
 }
 
 /**
- * Buy a token with SOL
+ * Compute-unit price for a swap: an explicit fee wins, otherwise the user's preset
+ * priced from recent fees on the route's pools. Null lets Jupiter pick ('auto').
  */
-export async function buySolanaToken(
+async function resolvePriorityFee(
+  telegramUserId: number,
+  quote: JupiterQuoteResponse,
+  explicitLamports?: number
+): Promise<PriorityFee | null> {
+  const settings = getTradeSettings(telegramUserId, 'solana');
+  
+  try {
+    if (explicitLamports) {
+      return await getPriorityFee(connection, [], 'custom', explicitLamports, settings.priorityFeeMaxLamports);
+    }
+    
+    const pools = quote.routePlan.map(r => r.swapInfo.ammKey);
+    return await getPriorityFee(
+      connection,
+      pools,
+      settings.priorityFeePreset,
+      settings.priorityFeeLamports,
+      settings.priorityFeeMaxLamports
+    );
+  } catch (error: any) {
+    console.warn('Priority fee estimate failed, using auto:', error.message);
+    return null;
+  }
+}
+
+/**
+ * The user's Jito settings, or null when bundles are turned off
+ */
+function getJitoOptions(telegramUserId: number): JitoOptions | null {
+  const settings = getTradeSettings(telegramUserId, 'solana');
+  if (!settings.jitoEnabled) return null;
+  
+  return {
+    blockEngineUrl: settings.jitoBlockEngineUrl || config.jitoBlockEngineUrl,
+    tipLamports: settings.jitoTipLamports,
+  };
+}
+
+/**
+ * Send a signed swap. With Jito options it goes out as a private bundle with a tip;
+ * if the bundle hasn't landed in time the same signed transaction is sent normally,
+ * so it can never execute twice.
+ */
+async function sendSwapTransaction(
+  transaction: VersionedTransaction,
+  keypair: Keypair,
+  lastValidBlockHeight: number,
+  jitoOptions: JitoOptions | null
+): Promise<LandingResult> {
+  const signature = bs58.encode(transaction.signatures[0]);
+  
+  if (jitoOptions) {
+    try {
+      const tipTransaction = jito.buildTipTransaction(keypair, jitoOptions.tipLamports, transaction.message.recentBlockhash);
+      const bundleId = await jito.sendBundle(jitoOptions.blockEngineUrl, [transaction, tipTransaction]);
+      console.log(`[Jito] Bundle ${bundleId} sent for ${signature}`);
+      
+      const landed = await waitForLanding(connection, signature, JITO_LANDING_TIMEOUT_MS);
+      if (landed) {
+        return landed;
+      }
+      console.warn(`[Jito] Bundle ${bundleId} not landed after ${JITO_LANDING_TIMEOUT_MS / 1000}s, sending normally`);
+    } catch (error: any) {
+      console.warn('[Jito] Bundle submission failed, sending normally:', error.response?.data || error.message);
+    }
+  }
+  
+  return sendAndConfirm(connection, transaction.serialize(), signature, lastValidBlockHeight);
+}
+
+/**
+ * Send a signed withdrawal and throw unless it lands. Preflight runs first, so a
+ * rejected withdrawal is never broadcast.
+ */
+async function sendWithdrawTransaction(transaction: Transaction, lastValidBlockHeight: number): Promise<string> {
+  const signature = bs58.encode(transaction.signature!);
+  const landing = await sendAndConfirm(connection, transaction.serialize(), signature, lastValidBlockHeight, false);
+  
+  if (landing.outcome === 'expired') {
+    throw new Error('Withdrawal expired without landing - nothing was sent, safe to retry');
+  }
+  if (landing.outcome === 'failed') {
+    throw new Error(`Withdrawal failed on-chain (${landing.error})`);
+  }
+  
+  return signature;
+}
+
+/**
+ * Quote buying a token with SOL (or USDC)
+ */
+export async function quoteSolanaBuy(
+  tokenAddress: string,
+  amount: number,
+  slippageBps: number = 100,
+  quoteCurrency: QuoteCurrency = 'native'
+): Promise<{ quote?: SwapQuote; error?: string }> {
+  const rawAmount = toQuoteRawAmount(amount, quoteCurrency);
+  
+  const quote = await getJupiterQuote(getQuoteMint(quoteCurrency), tokenAddress, rawAmount, slippageBps);
+  return quote ? { quote } : { error: 'No route found for this swap' };
+}
+
+/**
+ * Quote buying an exact number of tokens with SOL (or USDC).
+ * Fails if the worst-case spend exceeds the wallet balance.
+ */
+export async function quoteSolanaExactOutBuy(
+  telegramUserId: number,
+  tokenAddress: string,
+  tokenAmount: number,
+  slippageBps: number = 100,
+  quoteCurrency: QuoteCurrency = 'native',
+  walletId?: number
+): Promise<{ quote?: SwapQuote; error?: string }> {
+  const keypair = getSolanaKeypair(telegramUserId, walletId);
+  if (!keypair) {
+    return { error: 'Wallet not found' };
+  }
+  
+  const decimals = await getSplTokenDecimals(tokenAddress);
+  const rawAmount = toRawAmount(tokenAmount, decimals);
+  if (rawAmount === '0') {
+    return { error: 'Amount is below the token\'s smallest unit' };
+  }
+  
+  const quote = await getJupiterQuote(
+    getQuoteMint(quoteCurrency),
+    tokenAddress,
+    rawAmount,
+    slippageBps,
+    'ExactOut'
+  );
+  if (!quote) {
+    return { error: 'No exact-output route found for this token' };
+  }
+  
+  const maxInput = BigInt(quote.maximumInputAmount ?? quote.inputAmount);
+  
+  if (quoteCurrency === 'usdc') {
+    const { balance } = await getSplTokenBalance(keypair.publicKey.toBase58(), config.solana.usdcMint);
+    if (maxInput > balance) {
+      return {
+        error: `Insufficient USDC. Up to ${quote.maximumInputFormatted} USDC needed, ` +
+          `have ${formatRawAmount(balance.toString(), USDC_DECIMALS)} USDC`,
+      };
+    }
+    return { quote };
+  }
+  
+  // Keep enough SOL behind for fees and rent
+  const GAS_RESERVE_LAMPORTS = 0.01 * LAMPORTS_PER_SOL;
+  const lamports = await connection.getBalance(keypair.publicKey);
+  
+  if (Number(maxInput) > lamports - GAS_RESERVE_LAMPORTS) {
+    return {
+      error: `Insufficient SOL. Up to ${quote.maximumInputFormatted} SOL needed ` +
+        `(plus 0.01 reserve), have ${formatRawAmount(lamports.toString(), 9)} SOL`,
+    };
+  }
+  
+  return { quote };
+}
+
+/**
+ * Quote selling a percentage of token holdings for SOL (or USDC)
+ */
+export async function quoteSolanaSellPercentage(
   telegramUserId: number,
   tokenAddress: string,
-  solAmount: number,
-  slippageBps: number = 100
+  percentage: number,
+  slippageBps: number = 100,
+  quoteCurrency: QuoteCurrency = 'native',
+  walletId?: number
+): Promise<{ quote?: SwapQuote; error?: string }> {
+  const keypair = getSolanaKeypair(telegramUserId, walletId);
+  if (!keypair) {
+    return { error: 'Wallet not found' };
+  }
+  
+  const { balance } = await getSplTokenBalance(keypair.publicKey.toBase58(), tokenAddress);
+  const sellAmount = (balance * BigInt(percentage)) / 100n;
+  
+  if (sellAmount === 0n) {
+    return { error: 'No token balance found' };
+  }
+  
+  const quote = await getJupiterQuote(tokenAddress, getQuoteMint(quoteCurrency), sellAmount.toString(), slippageBps);
+  return quote ? { quote } : { error: 'No route found for this swap' };
+}
+
+/**
+ * Quote swapping a held token into any other token.
+ * `amount` is a percentage of the balance or an exact number of input tokens.
+ */
+export async function quoteSolanaTokenSwap(
+  telegramUserId: number,
+  inputMint: string,
+  outputMint: string,
+  amount: number,
+  amountType: 'percentage' | 'tokens',
+  slippageBps: number = 100,
+  walletId?: number
+): Promise<{ quote?: SwapQuote; error?: string }> {
+  const keypair = getSolanaKeypair(telegramUserId, walletId);
+  if (!keypair) {
+    return { error: 'Wallet not found' };
+  }
+  
+  if (inputMint.toLowerCase() === outputMint.toLowerCase()) {
+    return { error: 'Input and output token are the same' };
+  }
+  
+  const { balance, decimals } = await getSplTokenBalance(keypair.publicKey.toBase58(), inputMint);
+  const swapAmount = amountType === 'percentage'
+    ? (balance * BigInt(Math.floor(amount))) / 100n
+    : BigInt(toRawAmount(amount, decimals));
+  
+  if (swapAmount === 0n) {
+    return { error: 'No token balance found' };
+  }
+  if (swapAmount > balance) {
+    return { error: `Insufficient balance. You hold ${formatRawAmount(balance.toString(), decimals)}` };
+  }
+  
+  const quote = await getJupiterQuote(inputMint, outputMint, swapAmount.toString(), slippageBps);
+  if (!quote) {
+    return { error: 'No route found for this swap' };
+  }
+  
+  return { quote: { ...quote, inputAmountFormatted: formatRawAmount(quote.inputAmount, decimals) } };
+}
+
+/**
+ * Execute a previously confirmed Jupiter quote
+ */
+export async function executeSolanaQuote(
+  telegramUserId: number,
+  quote: SwapQuote,
+  slippageBps: number = 100,
+  walletId?: number,
+  onQueued?: QueuedCallback
 ): Promise<TransactionResult> {
-  const lamports = Math.floor(solAmount * LAMPORTS_PER_SOL).toString();
+  return executeJupiterSwap(
+    telegramUserId,
+    quote.inputToken,
+    quote.outputToken,
+    quote.inputAmount,
+    slippageBps,
+    undefined,
+    { quote, walletId, onQueued }
+  );
+}
+
+/**
+ * Simulate a confirmed quote from the user's wallet before it is sent.
+ * For buys, `checkSellBack` also compares the tokens received with the quote
+ * (buy tax) and simulates selling them straight back (sell tax). The wallet doesn't
+ * hold the tokens yet, so the sale is simulated from an existing holder's wallet.
+ * Throws on RPC errors; a failing swap is returned as `success: false`.
+ */
+export async function simulateSolanaQuote(
+  telegramUserId: number,
+  quote: SwapQuote,
+  walletId?: number,
+  checkSellBack: boolean = false
+): Promise<SwapSimulation> {
+  const keypair = getSolanaKeypair(telegramUserId, walletId);
+  if (!keypair) {
+    return { success: false, error: 'Wallet not found' };
+  }
+  
+  const raw = quote.raw as JupiterQuoteResponse;
+  const swapResponse = await jupiterApi.post<JupiterSwapResponse>('/swap', {
+    quoteResponse: raw,
+    userPublicKey: keypair.publicKey.toBase58(),
+    wrapAndUnwrapSol: true,
+    dynamicComputeUnitLimit: true,
+  });
+  const transaction = VersionedTransaction.deserialize(Buffer.from(swapResponse.data.swapTransaction, 'base64'));
+  
+  // Watch the output token account to see what the buy would actually deliver
+  const outputAccount = checkSellBack ? await getTokenAccountAddress(raw.outputMint, keypair.publicKey) : null;
+  const balanceBefore = outputAccount ? await getRawTokenAccountBalance(outputAccount) : 0n;
+  
+  const { value } = await connection.simulateTransaction(transaction, {
+    sigVerify: false,
+    replaceRecentBlockhash: true,
+    accounts: outputAccount ? { encoding: 'base64', addresses: [outputAccount.toBase58()] } : undefined,
+  });
   
+  if (value.err) {
+    return { success: false, error: describeSimulationError(value.err, value.logs) };
+  }
+  if (!outputAccount) {
+    return { success: true };
+  }
+  
+  const after = value.accounts?.[0];
+  const balanceAfter = after ? AccountLayout.decode(Buffer.from(after.data[0], 'base64')).amount : 0n;
+  const received = balanceAfter - balanceBefore;
+  const quoted = BigInt(raw.outAmount);
+  const buyTaxPercent = quoted > 0n && received < quoted
+    ? (Number(quoted - received) / Number(quoted)) * 100
+    : 0;
+  
+  if (received <= 0n) {
+    return { success: true, sellable: false, buyTaxPercent: 100 };
+  }
+  
+  const returned = await simulateSellBack(raw.outputMint, raw.inputMint, received, raw.slippageBps)
+    .catch((error: any) => {
+      console.warn(`[Simulation] Sell-back of ${raw.outputMint} couldn't run:`, error.message);
+      return null;
+    });
+  if (returned === null) {
+    return { success: true, buyTaxPercent, sellBackUnavailable: true };
+  }
+  if (returned <= 0n) {
+    return { success: true, sellable: false, buyTaxPercent };
+  }
+  
+  // Compare the round trip with what the buy tax explains
+  const spent = Number(BigInt(raw.inAmount));
+  const kept = Number(returned) / (spent * (1 - buyTaxPercent / 100));
+  const sellTaxPercent = Math.min(100, Math.max(0, (1 - kept) * 100));
+  
+  return { success: true, sellable: true, buyTaxPercent, sellTaxPercent };
+}
+
+/**
+ * Simulate selling `amount` of `mint` for `quoteMint` from a wallet that already holds it.
+ * Returns the raw quote amount the sale pays out, 0n when there is no route or the sale
+ * fails, and null when no holder can run the simulation.
+ */
+async function simulateSellBack(mint: string, quoteMint: string, amount: bigint, slippageBps: number): Promise<bigint | null> {
+  const holder = await findSimulationHolder(mint, amount);
+  if (!holder) return null;
+  
+  const sellQuote = await getJupiterQuote(mint, quoteMint, amount.toString(), slippageBps);
+  if (!sellQuote) return 0n;
+  
+  const swapResponse = await jupiterApi.post<JupiterSwapResponse>('/swap', {
+    quoteResponse: sellQuote.raw,
+    userPublicKey: holder.toBase58(),
+    wrapAndUnwrapSol: true,
+    computeUnitPriceMicroLamports: 0,
+    dynamicComputeUnitLimit: true,
+  });
+  const transaction = VersionedTransaction.deserialize(Buffer.from(swapResponse.data.swapTransaction, 'base64'));
+  
+  // SOL proceeds are unwrapped into the wallet, closing the wrapped SOL account; count both together
+  const isNative = quoteMint === config.solana.nativeMint;
+  const quoteAccount = await getTokenAccountAddress(quoteMint, holder);
+  const watched = isNative ? [holder, quoteAccount] : [quoteAccount];
+  const before = await connection.getMultipleAccountsInfo(watched);
+  
+  const { value } = await connection.simulateTransaction(transaction, {
+    sigVerify: false,
+    replaceRecentBlockhash: true,
+    accounts: { encoding: 'base64', addresses: watched.map(account => account.toBase58()) },
+  });
+  if (value.err) return 0n;
+  
+  const after = value.accounts || [];
+  if (isNative) {
+    const lamports = (accounts: ({ lamports: number } | null)[]) =>
+      accounts.reduce((sum, account) => sum + BigInt(account?.lamports ?? 0), 0n);
+    return lamports(after) - lamports(before) + BigInt(BASE_FEE_LAMPORTS * transaction.signatures.length);
+  }
+  
+  const balanceBefore = before[0] ? AccountLayout.decode(before[0].data).amount : 0n;
+  const balanceAfter = after[0] ? AccountLayout.decode(Buffer.from(after[0].data[0], 'base64')).amount : 0n;
+  return balanceAfter - balanceBefore;
+}
+
+/**
+ * A wallet holding at least `amount` of `mint` with SOL for fees, picked from the
+ * largest holders. Pools and other program-owned accounts are skipped.
+ */
+async function findSimulationHolder(mint: string, amount: bigint): Promise<PublicKey | null> {
+  const { value: largest } = await connection.getTokenLargestAccounts(new PublicKey(mint));
+  const { value: accounts } = await connection.getMultipleParsedAccounts(largest.map(account => account.address));
+  
+  const owners = accounts
+    .map(account => (account?.data as any)?.parsed?.info)
+    .filter(info => info?.state === 'initialized' && BigInt(info.tokenAmount.amount) >= amount)
+    .map(info => new PublicKey(info.owner))
+    .filter(owner => PublicKey.isOnCurve(owner.toBytes()));
+  if (owners.length === 0) return null;
+  
+  const wallets = await connection.getMultipleAccountsInfo(owners);
+  const index = wallets.findIndex(wallet =>
+    wallet?.owner.equals(SystemProgram.programId) && wallet.lamports >= MIN_SELL_SIMULATION_LAMPORTS
+  );
+  return index >= 0 ? owners[index] : null;
+}
+
+/**
+ * Associated token account for a mint under whichever token program owns it
+ */
+async function getTokenAccountAddress(mint: string, owner: PublicKey): Promise<PublicKey> {
+  const mintPubkey = new PublicKey(mint);
+  const mintAccount = await connection.getAccountInfo(mintPubkey);
+  return getAssociatedTokenAddress(mintPubkey, owner, false, mintAccount?.owner || TOKEN_PROGRAM_ID);
+}
+
+async function getRawTokenAccountBalance(tokenAccount: PublicKey): Promise<bigint> {
+  try {
+    const { value } = await connection.getTokenAccountBalance(tokenAccount);
+    return BigInt(value.amount);
+  } catch {
+    return 0n; // Account doesn't exist yet
+  }
+}
+
+/**
+ * Prefer the program's own error message (e.g. Jupiter's slippage error) over the raw code
+ */
+function describeSimulationError(err: TransactionError, logs: string[] | null): string {
+  const message = (logs || [])
+    .map(line => line.match(/Error Message: (.*)$/)?.[1])
+    .filter(Boolean)
+    .pop();
+  return message || describeTransactionError(err);
+}
+
+/**
+ * Buy a token with SOL (or USDC)
+ */
+export async function buySolanaToken(
+  telegramUserId: number,
+  tokenAddress: string,
+  amount: number,
+  slippageBps: number = 100,
+  quoteCurrency: QuoteCurrency = 'native',
+  walletId?: number
+): Promise<TransactionResult> {
   return executeJupiterSwap(
     telegramUserId,
-    config.solana.nativeMint,
+    getQuoteMint(quoteCurrency),
     tokenAddress,
-    lamports,
-    slippageBps
+    toQuoteRawAmount(amount, quoteCurrency),
+    slippageBps,
+    undefined,
+    { walletId }
   );
 }
 
 /**
- * Sell a token for SOL
+ * Sell a token for SOL (or USDC)
  */
 export async function sellSolanaToken(
   telegramUserId: number,
   tokenAddress: string,
   tokenAmount: string,
-  slippageBps: number = 100
+  slippageBps: number = 100,
+  quoteCurrency: QuoteCurrency = 'native',
+  walletId?: number
 ): Promise<TransactionResult> {
   return executeJupiterSwap(
     telegramUserId,
     tokenAddress,
-    config.solana.nativeMint,
+    getQuoteMint(quoteCurrency),
     tokenAmount,
-    slippageBps
+    slippageBps,
+    undefined,
+    { walletId }
   );
 }
 
@@ -444,48 +1108,23 @@ export async function sellSolanaTokenPercentage(
   telegramUserId: number,
   tokenAddress: string,
   percentage: number,
-  slippageBps: number = 100
+  slippageBps: number = 100,
+  quoteCurrency: QuoteCurrency = 'native',
+  walletId?: number
 ): Promise<TransactionResult> {
   try {
-    const keypair = getSolanaKeypair(telegramUserId);
+    const keypair = getSolanaKeypair(telegramUserId, walletId);
     if (!keypair) {
       return { success: false, error: 'Wallet not found' };
     }
 
-    const TOKEN_2022_PROGRAM_ID = new PublicKey('TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb');
-    const mintAddress = tokenAddress.toLowerCase();
-
-    console.log('Sell: looking for mint', mintAddress);
-
-    // Fetch both programs in parallel to avoid sequential rate limits
-    const [splAccounts, token2022Accounts] = await Promise.all([
-      connection.getParsedTokenAccountsByOwner(keypair.publicKey, { programId: TOKEN_PROGRAM_ID })
-        .catch((e) => { console.log('SPL fetch failed:', e.message); return { value: [] as any[] }; }),
-      connection.getParsedTokenAccountsByOwner(keypair.publicKey, { programId: TOKEN_2022_PROGRAM_ID })
-        .catch((e) => { console.log('Token2022 fetch failed:', e.message); return { value: [] as any[] }; }),
-    ]);
-
-    const allAccounts = [...splAccounts.value, ...token2022Accounts.value];
-    console.log('Sell: found', allAccounts.length, 'token accounts total');
-
-    let foundBalance: bigint | null = null;
-
-    for (const { account } of allAccounts) {
-      const parsed = (account.data as any).parsed?.info;
-      if (!parsed) continue;
-
-      if (parsed.mint.toLowerCase() === mintAddress) {
-        const rawBalance = BigInt(parsed.tokenAmount.amount);
-        console.log('Sell: matched mint, balance =', rawBalance.toString());
-        if (rawBalance > 0n) {
-          foundBalance = rawBalance;
-          break;
-        }
-      }
-    }
+    const { balance: foundBalance } = await getSplTokenBalance(
+      keypair.publicKey.toBase58(),
+      tokenAddress
+    );
 
-    if (foundBalance === null || foundBalance === 0n) {
-      console.log('Sell: no balance found for', mintAddress);
+    if (foundBalance === 0n) {
+      console.log('Sell: no balance found for', tokenAddress);
       return { success: false, error: 'No token balance found' };
     }
 
@@ -500,7 +1139,9 @@ export async function sellSolanaTokenPercentage(
       telegramUserId,
       tokenAddress,
       sellAmount.toString(),
-      slippageBps
+      slippageBps,
+      quoteCurrency,
+      walletId
     );
 
   } catch (error: any) {
@@ -518,11 +1159,22 @@ export async function sellSolanaTokenPercentage(
 export async function withdrawSol(
   telegramUserId: number,
   toAddress: string,
-  amount: string // "all" or SOL amount
+  amount: string, // "all" or SOL amount
+  walletId?: number,
+  onQueued?: QueuedCallback
 ): Promise<TransactionResult> {
-  const keypair = getSolanaKeypair(telegramUserId);
+  const keypair = getSolanaKeypair(telegramUserId, walletId);
   if (!keypair) throw new Error('No Solana wallet found');
 
+  return runExclusive(
+    walletKey('solana', keypair.publicKey.toBase58()),
+    () => transferSol(keypair, toAddress, amount),
+    onQueued
+  );
+}
+
+async function transferSol(keypair: Keypair, toAddress: string, amount: string): Promise<TransactionResult> {
+
   const balance = await getSolBalance(keypair.publicKey.toBase58());
   const GAS_RESERVE = 0.01; // Reserve 0.01 SOL for future gas
 
@@ -541,7 +1193,7 @@ export async function withdrawSol(
   const lamports = Math.floor(solToSend * LAMPORTS_PER_SOL);
   const recipient = new PublicKey(toAddress);
 
-  const transaction = new (await import('@solana/web3.js')).Transaction().add(
+  const transaction = new Transaction().add(
     SystemProgram.transfer({
       fromPubkey: keypair.publicKey,
       toPubkey: recipient,
@@ -549,16 +1201,12 @@ export async function withdrawSol(
     })
   );
 
+  const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash();
   transaction.feePayer = keypair.publicKey;
-  transaction.recentBlockhash = (await connection.getLatestBlockhash()).blockhash;
+  transaction.recentBlockhash = blockhash;
   transaction.sign(keypair);
 
-  const signature = await connection.sendRawTransaction(transaction.serialize(), {
-    skipPreflight: false,
-    preflightCommitment: 'confirmed',
-  });
-
-  await connection.confirmTransaction(signature, 'confirmed');
+  const signature = await sendWithdrawTransaction(transaction, lastValidBlockHeight);
 
   return {
     success: true,
@@ -575,20 +1223,44 @@ export async function withdrawSplToken(
   tokenMint: string,
   toAddress: string,
   amount: string, // "all" or token amount
-  decimals: number
+  decimals: number,
+  walletId?: number,
+  onQueued?: QueuedCallback
 ): Promise<TransactionResult> {
-  const keypair = getSolanaKeypair(telegramUserId);
+  const keypair = getSolanaKeypair(telegramUserId, walletId);
   if (!keypair) throw new Error('No Solana wallet found');
 
-  const { createTransferInstruction, getOrCreateAssociatedTokenAccount } = await import('@solana/spl-token');
+  return runExclusive(
+    walletKey('solana', keypair.publicKey.toBase58()),
+    () => transferSplToken(keypair, tokenMint, toAddress, amount, decimals),
+    onQueued
+  );
+}
+
+async function transferSplToken(
+  keypair: Keypair,
+  tokenMint: string,
+  toAddress: string,
+  amount: string,
+  decimals: number
+): Promise<TransactionResult> {
+
+  const {
+    createTransferInstruction,
+    createTransferCheckedWithFeeInstruction,
+    getOrCreateAssociatedTokenAccount,
+  } = await import('@solana/spl-token');
 
   const mintPubkey = new PublicKey(tokenMint);
   const recipientPubkey = new PublicKey(toAddress);
+  const programId = (await connection.getAccountInfo(mintPubkey))?.owner || TOKEN_PROGRAM_ID;
 
   // Get source token account
-  const sourceAta = await getAssociatedTokenAddress(mintPubkey, keypair.publicKey);
+  const sourceAta = await getAssociatedTokenAddress(mintPubkey, keypair.publicKey, false, programId);
   const sourceAccountInfo = await connection.getTokenAccountBalance(sourceAta);
   const tokenBalance = parseFloat(sourceAccountInfo.value.uiAmountString || '0');
+  // transferChecked needs the mint's real decimals, whatever the caller assumed
+  const mintDecimals = sourceAccountInfo.value.decimals ?? decimals;
 
   let tokensToSend: number;
   if (amount === 'all') {
@@ -599,31 +1271,39 @@ export async function withdrawSplToken(
 
   if (tokensToSend <= 0 || tokensToSend > tokenBalance) throw new Error('Insufficient token balance');
 
-  const rawAmount = BigInt(Math.floor(tokensToSend * Math.pow(10, decimals)));
+  const rawAmount = amount === 'all'
+    ? BigInt(sourceAccountInfo.value.amount)
+    : BigInt(Math.floor(tokensToSend * Math.pow(10, mintDecimals)));
 
   // Get or create recipient token account
   const destAta = await getOrCreateAssociatedTokenAccount(
-    connection, keypair, mintPubkey, recipientPubkey
+    connection, keypair, mintPubkey, recipientPubkey, false, undefined, undefined, programId
   );
 
-  const transaction = new (await import('@solana/web3.js')).Transaction().add(
-    createTransferInstruction(sourceAta, destAta.address, keypair.publicKey, rawAmount)
+  // Token-2022 fee mints reject plain transfers; the fee must be stated exactly
+  const transferFee = await getTransferFee(tokenMint);
+  const fee = transferFee ? calculateTransferFee(transferFee, rawAmount) : 0n;
+
+  const transaction = new Transaction().add(
+    transferFee
+      ? createTransferCheckedWithFeeInstruction(
+          sourceAta, mintPubkey, destAta.address, keypair.publicKey, rawAmount, mintDecimals, fee, [], programId
+        )
+      : createTransferInstruction(sourceAta, destAta.address, keypair.publicKey, rawAmount, [], programId)
   );
 
+  const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash();
   transaction.feePayer = keypair.publicKey;
-  transaction.recentBlockhash = (await connection.getLatestBlockhash()).blockhash;
+  transaction.recentBlockhash = blockhash;
   transaction.sign(keypair);
 
-  const signature = await connection.sendRawTransaction(transaction.serialize(), {
-    skipPreflight: false,
-    preflightCommitment: 'confirmed',
-  });
-
-  await connection.confirmTransaction(signature, 'confirmed');
+  const signature = await sendWithdrawTransaction(transaction, lastValidBlockHeight);
 
   return {
     success: true,
     signature,
-    message: `Withdrew ${tokensToSend} tokens`,
+    message: transferFee
+      ? `Withdrew ${tokensToSend} tokens (recipient gets ${formatRawAmount((rawAmount - fee).toString(), mintDecimals)} after the ${transferFee.basisPoints / 100}% transfer fee)`
+      : `Withdrew ${tokensToSend} tokens`,
   };
 }
@@ -0,0 +1,196 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+import { createPublicClient, http, parseAbi, Address, Hex } from 'viem';
+import { base } from 'viem/chains';
+import { Network } from '../types';
+import { SafetyFlag, SafetyLevel, TokenSafetyReport } from '../types/token-safety';
+import { probeBaseSellability } from './base';
+import { config } from '../config';
+import { truncateAddress } from '../utils/formatters';
+
+const connection = new Connection(config.solanaRpcUrl, 'confirmed');
+
+const publicClient = createPublicClient({
+  chain: base,
+  transport: http(config.baseRpcUrl),
+});
+
+// Points taken off the score per flag
+const LEVEL_PENALTY: Record<SafetyLevel, number> = {
+  ok: 0,
+  warn: 10,
+  danger: 25,
+};
+
+// Share of supply held by the top 10 accounts (pools included) before it's flagged
+const HOLDER_WARN_PERCENT = 30;
+const HOLDER_DANGER_PERCENT = 50;
+
+// Round-trip tax (pool fees included) before it's flagged
+const TAX_WARN_PERCENT = 3;
+const TAX_DANGER_PERCENT = 10;
+
+// EIP-1967 implementation slot: bytes32(uint256(keccak256('eip1967.proxy.implementation')) - 1)
+const EIP1967_IMPLEMENTATION_SLOT = '0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc';
+
+// The token card waits on the report, so slow RPCs give way to "unavailable"
+const SAFETY_TIMEOUT_MS = 6000;
+
+const OWNABLE_ABI = parseAbi(['function owner() view returns (address)']);
+
+/**
+ * Run the on-chain safety checks for a token.
+ * Checks that can't run (RPC errors) are flagged as unchecked and the report marked partial;
+ * when they don't finish within SAFETY_TIMEOUT_MS the report is marked unavailable.
+ */
+export async function getTokenSafetyReport(tokenAddress: string, network: Network): Promise<TokenSafetyReport> {
+  const names = network === 'solana'
+    ? ['mint and freeze authority', 'holder concentration']
+    : ['contract owner', 'proxy upgradeability', 'sellability'];
+  const checks = network === 'solana'
+    ? [checkSolanaMint(tokenAddress), checkSolanaHolders(tokenAddress)]
+    : [checkBaseOwner(tokenAddress), checkBaseProxy(tokenAddress), checkBaseSellability(tokenAddress)];
+
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<null>(resolve => {
+    timer = setTimeout(() => resolve(null), SAFETY_TIMEOUT_MS);
+  });
+  const results = await Promise.race([Promise.allSettled(checks), timeout]);
+  clearTimeout(timer);
+
+  if (!results) {
+    console.warn(`[Safety] Checks timed out for ${tokenAddress}`);
+    return { network, score: 0, flags: [], unavailable: true };
+  }
+
+  const flags: SafetyFlag[] = [];
+  let partial = false;
+  results.forEach((result, i) => {
+    if (result.status === 'fulfilled') {
+      flags.push(...result.value);
+    } else {
+      console.warn(`[Safety] ${names[i]} check failed for ${tokenAddress}:`, result.reason?.message || result.reason);
+      flags.push({ level: 'warn', label: `Could not check ${names[i]}` });
+      partial = true;
+    }
+  });
+
+  const penalty = flags.reduce((sum, flag) => sum + LEVEL_PENALTY[flag.level], 0);
+  return { network, score: Math.max(0, 100 - penalty), flags, partial: partial || undefined };
+}
+
+// ============ Solana ============
+
+/**
+ * Mint and freeze authority, plus Token-2022 extensions that let someone else
+ * take, tax or block transfers
+ */
+async function checkSolanaMint(mint: string): Promise<SafetyFlag[]> {
+  const { value } = await connection.getParsedAccountInfo(new PublicKey(mint));
+  const info = (value?.data as any)?.parsed?.info;
+  if (!info) throw new Error('Mint account not found');
+
+  const flags: SafetyFlag[] = [
+    info.mintAuthority
+      ? { level: 'danger', label: 'Mint authority active - supply can be inflated' }
+      : { level: 'ok', label: 'Mint authority renounced' },
+    info.freezeAuthority
+      ? { level: 'danger', label: 'Freeze authority active - your tokens can be frozen' }
+      : { level: 'ok', label: 'Freeze authority renounced' },
+  ];
+
+  for (const { extension, state } of info.extensions || []) {
+    if (extension === 'transferFeeConfig') {
+      const bps = Math.max(
+        state?.newerTransferFee?.transferFeeBasisPoints || 0,
+        state?.olderTransferFee?.transferFeeBasisPoints || 0
+      );
+      if (bps > 0) {
+        flags.push({
+          level: bps / 100 >= TAX_DANGER_PERCENT ? 'danger' : 'warn',
+          label: `Token-2022 transfer fee: ${bps / 100}%`,
+        });
+      }
+    } else if (extension === 'permanentDelegate' && state?.delegate) {
+      flags.push({ level: 'danger', label: `Permanent delegate ${truncateAddress(state.delegate)} can move any holder's tokens` });
+    } else if (extension === 'transferHook' && state?.programId) {
+      flags.push({ level: 'warn', label: 'Transfer hook - a program runs on every transfer and can block it' });
+    } else if (extension === 'nonTransferable') {
+      flags.push({ level: 'danger', label: 'Non-transferable token' });
+    }
+  }
+
+  return flags;
+}
+
+async function checkSolanaHolders(mint: string): Promise<SafetyFlag[]> {
+  const mintKey = new PublicKey(mint);
+  const [largest, supply] = await Promise.all([
+    connection.getTokenLargestAccounts(mintKey),
+    connection.getTokenSupply(mintKey),
+  ]);
+
+  const total = BigInt(supply.value.amount);
+  if (total === 0n) return [];
+
+  const top = largest.value.slice(0, 10).reduce((sum, account) => sum + BigInt(account.amount), 0n);
+  const percent = Number((top * 10000n) / total) / 100;
+
+  return [{
+    level: percent >= HOLDER_DANGER_PERCENT ? 'danger' : percent >= HOLDER_WARN_PERCENT ? 'warn' : 'ok',
+    label: `Top 10 holders own ${percent.toFixed(1)}% (pools included)`,
+  }];
+}
+
+// ============ Base ============
+
+async function checkBaseOwner(tokenAddress: string): Promise<SafetyFlag[]> {
+  let owner: Address;
+  try {
+    owner = await (publicClient as any).readContract({
+      address: tokenAddress as Address,
+      abi: OWNABLE_ABI,
+      functionName: 'owner',
+    });
+  } catch (error: any) {
+    // A revert means there's no owner(); a transport failure means the check didn't run
+    if (error?.walk?.((e: any) => e?.name === 'HttpRequestError' || e?.name === 'TimeoutError')) throw error;
+    return [{ level: 'ok', label: 'No owner function' }];
+  }
+
+  if (/^0x0{40}$/i.test(owner)) {
+    return [{ level: 'ok', label: 'Ownership renounced' }];
+  }
+  return [{ level: 'warn', label: `Owner ${truncateAddress(owner)} keeps admin privileges` }];
+}
+
+async function checkBaseProxy(tokenAddress: string): Promise<SafetyFlag[]> {
+  const slot: Hex | undefined = await publicClient.getStorageAt({
+    address: tokenAddress as Address,
+    slot: EIP1967_IMPLEMENTATION_SLOT,
+  });
+
+  if (slot && BigInt(slot) !== 0n) {
+    return [{ level: 'danger', label: 'Upgradeable proxy - the contract code can be changed' }];
+  }
+  return [{ level: 'ok', label: 'Not an upgradeable proxy' }];
+}
+
+async function checkBaseSellability(tokenAddress: string): Promise<SafetyFlag[]> {
+  const simulation = await probeBaseSellability(tokenAddress);
+
+  if (!simulation.success) {
+    return [{ level: 'danger', label: 'Buy fails in simulation' }];
+  }
+  if (!simulation.sellable) {
+    return [{ level: 'danger', label: "Can't be sold back in simulation (honeypot)" }];
+  }
+
+  const buyTax = simulation.buyTaxPercent || 0;
+  const sellTax = simulation.sellTaxPercent || 0;
+  const tax = Math.max(buyTax, sellTax);
+
+  return [{
+    level: tax >= TAX_DANGER_PERCENT ? 'danger' : tax >= TAX_WARN_PERCENT ? 'warn' : 'ok',
+    label: `Sellable - simulated tax buy ${buyTax.toFixed(1)}% / sell ${sellTax.toFixed(1)}%`,
+  }];
+}
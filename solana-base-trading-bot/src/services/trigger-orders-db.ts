@@ -1,12 +1,16 @@
 import Database from 'better-sqlite3';
-import { Network } from '../types';
+import { Network, QuoteCurrency } from '../types';
 import { 
   TriggerOrder, 
   CreateTriggerOrderParams, 
   OrderStatus,
   TriggerType,
   TriggerCondition,
-  OrderSide 
+  OrderSide,
+  DcaSchedule,
+  CreateDcaScheduleParams,
+  DcaInterval,
+  DcaStatus
 } from '../types/trigger-orders';
 
 let db: Database.Database;
@@ -54,20 +58,150 @@ export function initTriggerOrdersTable(database: Database.Database): void {
     CREATE INDEX IF NOT EXISTS idx_trigger_orders_active 
       ON trigger_orders(status, network, token_address);
   `);
+  
+  // Trailing stop columns (SQLite doesn't have IF NOT EXISTS for ALTER)
+  try {
+    db.exec(`ALTER TABLE trigger_orders ADD COLUMN trail_percent REAL;`);
+  } catch {
+    // Column already exists
+  }
+  try {
+    db.exec(`ALTER TABLE trigger_orders ADD COLUMN high_water_mark REAL;`);
+  } catch {
+    // Column already exists
+  }
+  
+  // One-cancels-other group column
+  try {
+    db.exec(`ALTER TABLE trigger_orders ADD COLUMN group_id INTEGER;`);
+  } catch {
+    // Column already exists
+  }
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_trigger_orders_group ON trigger_orders(group_id);`);
+  
+  // Good-til-time expiry column (Unix ms)
+  try {
+    db.exec(`ALTER TABLE trigger_orders ADD COLUMN expires_at INTEGER;`);
+  } catch {
+    // Column already exists
+  }
+  
+  // Quote currency the order buys with / sells into
+  try {
+    db.exec(`ALTER TABLE trigger_orders ADD COLUMN quote_currency TEXT DEFAULT 'native';`);
+  } catch {
+    // Column already exists
+  }
+  
+  // Wallet that signs the order; existing orders stay on the wallet they were made with
+  try {
+    db.exec(`ALTER TABLE trigger_orders ADD COLUMN wallet_id INTEGER;`);
+    backfillWalletIds('trigger_orders');
+  } catch {
+    // Column already exists
+  }
+  
+  // Recurring DCA buys
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS dca_schedules (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      telegram_user_id INTEGER NOT NULL,
+      chat_id INTEGER NOT NULL,
+      network TEXT NOT NULL,
+      token_address TEXT NOT NULL,
+      token_symbol TEXT NOT NULL,
+      
+      amount_per_buy TEXT NOT NULL,
+      interval TEXT NOT NULL,
+      total_executions INTEGER NOT NULL,
+      slippage_bps INTEGER DEFAULT 100,
+      
+      executions_done INTEGER DEFAULT 0,
+      total_spent REAL DEFAULT 0,
+      consecutive_failures INTEGER DEFAULT 0,
+      status TEXT DEFAULT 'active',
+      next_run_at INTEGER NOT NULL,
+      
+      created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+      last_run_at TEXT,
+      
+      last_tx_hash TEXT,
+      last_error TEXT
+    );
+    
+    CREATE INDEX IF NOT EXISTS idx_dca_schedules_user 
+      ON dca_schedules(telegram_user_id);
+    CREATE INDEX IF NOT EXISTS idx_dca_schedules_due 
+      ON dca_schedules(status, next_run_at);
+  `);
+  
+  try {
+    db.exec(`ALTER TABLE dca_schedules ADD COLUMN wallet_id INTEGER;`);
+    backfillWalletIds('dca_schedules');
+  } catch {
+    // Column already exists
+  }
+}
+
+/**
+ * Point rows created before multi-wallet support at the user's active wallet
+ */
+export function backfillWalletIds(table: string): void {
+  db.exec(`
+    UPDATE ${table} SET wallet_id = (
+      SELECT w.id FROM wallets w
+      WHERE w.telegram_user_id = ${table}.telegram_user_id
+        AND w.network = ${table}.network
+        AND w.is_active = 1
+    )
+    WHERE wallet_id IS NULL
+  `);
 }
 
 /**
  * Create a new trigger order
  */
 export function createTriggerOrder(params: CreateTriggerOrderParams): TriggerOrder {
+  const id = insertTriggerOrder(params);
+  return getTriggerOrder(id)!;
+}
+
+/**
+ * Create several orders linked into one one-cancels-other group.
+ * The group id is the id of the first order in the group.
+ */
+export function createTriggerOrderGroup(paramsList: CreateTriggerOrderParams[]): TriggerOrder[] {
+  const createGroup = db.transaction((list: CreateTriggerOrderParams[]) => {
+    const ids = list.map(params => insertTriggerOrder(params));
+    const groupId = ids[0];
+    
+    const stmt = db.prepare(`UPDATE trigger_orders SET group_id = ? WHERE id = ?`);
+    for (const id of ids) {
+      stmt.run(groupId, id);
+    }
+    
+    return ids;
+  });
+  
+  const ids = createGroup(paramsList);
+  return ids.map(id => getTriggerOrder(id)!);
+}
+
+/**
+ * Insert a trigger order row and return its id
+ */
+function insertTriggerOrder(params: CreateTriggerOrderParams): number {
   const stmt = db.prepare(`
     INSERT INTO trigger_orders (
       telegram_user_id, chat_id, network, token_address, token_symbol,
       side, trigger_type, trigger_condition, trigger_value,
-      amount, amount_type, slippage_bps, status, price_at_creation
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'active', ?)
+      amount, amount_type, slippage_bps, status, price_at_creation,
+      trail_percent, high_water_mark, expires_at, quote_currency, wallet_id
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'active', ?, ?, ?, ?, ?, ?)
   `);
   
+  const isTrailing = params.triggerType === 'trailing';
+  
   const result = stmt.run(
     params.telegramUserId,
     params.chatId,
@@ -81,10 +215,15 @@ export function createTriggerOrder(params: CreateTriggerOrderParams): TriggerOrd
     params.amount,
     params.amountType,
     params.slippageBps || 100,
-    params.currentPrice
+    params.currentPrice,
+    isTrailing ? params.trailPercent ?? null : null,
+    isTrailing ? params.currentPrice : null,
+    params.expiresAt ?? null,
+    params.quoteCurrency || 'native',
+    params.walletId
   );
   
-  return getTriggerOrder(result.lastInsertRowid as number)!;
+  return result.lastInsertRowid as number;
 }
 
 /**
@@ -152,14 +291,30 @@ export function getUserOrderHistory(telegramUserId: number, limit: number = 20):
 }
 
 /**
- * Mark order as triggered (condition met, about to execute)
+ * Get all orders in a one-cancels-other group
  */
-export function markOrderTriggered(id: number): void {
-  db.prepare(`
+export function getOrderGroup(groupId: number): TriggerOrder[] {
+  const rows = db.prepare(`
+    SELECT * FROM trigger_orders 
+    WHERE group_id = ?
+    ORDER BY id ASC
+  `).all(groupId) as any[];
+  
+  return rows.map(mapRowToOrder);
+}
+
+/**
+ * Mark order as triggered (condition met, about to execute).
+ * Returns false if the order is no longer active (e.g. cancelled by its group).
+ */
+export function markOrderTriggered(id: number): boolean {
+  const result = db.prepare(`
     UPDATE trigger_orders 
     SET status = 'triggered', triggered_at = CURRENT_TIMESTAMP
-    WHERE id = ?
+    WHERE id = ? AND status = 'active'
   `).run(id);
+  
+  return result.changes > 0;
 }
 
 /**
@@ -180,6 +335,21 @@ export function markOrderExecuted(
   `).run(txHash, executionPrice, id);
 }
 
+/**
+ * Raise the peak price of a trailing stop and move its stop level with it
+ */
+export function updateTrailingStop(
+  id: number,
+  highWaterMark: number,
+  stopPrice: number
+): void {
+  db.prepare(`
+    UPDATE trigger_orders 
+    SET high_water_mark = ?, trigger_value = ?
+    WHERE id = ? AND status = 'active'
+  `).run(highWaterMark, stopPrice, id);
+}
+
 /**
  * Mark order as failed
  */
@@ -204,6 +374,54 @@ export function cancelOrder(id: number, telegramUserId: number): boolean {
   return result.changes > 0;
 }
 
+/**
+ * Cancel every active order in a group for a user
+ */
+export function cancelOrderGroup(groupId: number, telegramUserId: number): boolean {
+  const result = db.prepare(`
+    UPDATE trigger_orders 
+    SET status = 'cancelled'
+    WHERE group_id = ? AND telegram_user_id = ? AND status = 'active'
+  `).run(groupId, telegramUserId);
+  
+  return result.changes > 0;
+}
+
+/**
+ * Cancel the remaining active orders of a group after one of them executed
+ */
+export function cancelGroupSiblings(groupId: number, executedOrderId: number): number {
+  const result = db.prepare(`
+    UPDATE trigger_orders 
+    SET status = 'cancelled'
+    WHERE group_id = ? AND id != ? AND status = 'active'
+  `).run(groupId, executedOrderId);
+  
+  return result.changes;
+}
+
+/**
+ * Expire active orders whose expiry time has passed and return them
+ */
+export function expireDueOrders(now: number): TriggerOrder[] {
+  const expire = db.transaction((cutoff: number) => {
+    const rows = db.prepare(`
+      SELECT * FROM trigger_orders 
+      WHERE status = 'active' AND expires_at IS NOT NULL AND expires_at <= ?
+    `).all(cutoff) as any[];
+    
+    db.prepare(`
+      UPDATE trigger_orders 
+      SET status = 'expired'
+      WHERE status = 'active' AND expires_at IS NOT NULL AND expires_at <= ?
+    `).run(cutoff);
+    
+    return rows;
+  });
+  
+  return expire(now).map(mapRowToOrder).map(order => ({ ...order, status: 'expired' as OrderStatus }));
+}
+
 /**
  * Cancel all active orders for a user
  */
@@ -217,6 +435,25 @@ export function cancelAllUserOrders(telegramUserId: number): number {
   return result.changes;
 }
 
+/**
+ * Cancel the active orders and running DCA schedules tied to a wallet that is going away
+ */
+export function cancelWalletOrders(walletId: number): number {
+  const orders = db.prepare(`
+    UPDATE trigger_orders 
+    SET status = 'cancelled'
+    WHERE wallet_id = ? AND status = 'active'
+  `).run(walletId);
+  
+  const schedules = db.prepare(`
+    UPDATE dca_schedules 
+    SET status = 'cancelled'
+    WHERE wallet_id = ? AND status IN ('active', 'paused')
+  `).run(walletId);
+  
+  return orders.changes + schedules.changes;
+}
+
 /**
  * Get unique tokens with active orders (for price monitoring)
  */
@@ -242,15 +479,21 @@ function mapRowToOrder(row: any): TriggerOrder {
     telegramUserId: row.telegram_user_id,
     chatId: row.chat_id,
     network: row.network as Network,
+    walletId: row.wallet_id,
     tokenAddress: row.token_address,
     tokenSymbol: row.token_symbol,
     side: row.side as OrderSide,
     triggerType: row.trigger_type as TriggerType,
     triggerCondition: row.trigger_condition as TriggerCondition,
     triggerValue: row.trigger_value,
+    trailPercent: row.trail_percent ?? undefined,
+    highWaterMark: row.high_water_mark ?? undefined,
+    groupId: row.group_id ?? undefined,
+    expiresAt: row.expires_at ?? undefined,
     amount: row.amount,
     amountType: row.amount_type as 'fixed' | 'percentage',
     slippageBps: row.slippage_bps,
+    quoteCurrency: (row.quote_currency || 'native') as QuoteCurrency,
     status: row.status as OrderStatus,
     priceAtCreation: row.price_at_creation,
     createdAt: row.created_at,
@@ -261,3 +504,178 @@ function mapRowToOrder(row: any): TriggerOrder {
     error: row.error
   };
 }
+
+// ============ DCA Schedules ============
+
+/**
+ * Create a new DCA schedule. The first buy runs on the next monitor pass.
+ */
+export function createDcaSchedule(params: CreateDcaScheduleParams): DcaSchedule {
+  const result = db.prepare(`
+    INSERT INTO dca_schedules (
+      telegram_user_id, chat_id, network, token_address, token_symbol,
+      amount_per_buy, interval, total_executions, slippage_bps,
+      status, next_run_at, wallet_id
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 'active', ?, ?)
+  `).run(
+    params.telegramUserId,
+    params.chatId,
+    params.network,
+    params.tokenAddress,
+    params.tokenSymbol,
+    params.amountPerBuy,
+    params.interval,
+    params.totalExecutions,
+    params.slippageBps || 100,
+    Date.now(),
+    params.walletId
+  );
+  
+  return getDcaSchedule(result.lastInsertRowid as number)!;
+}
+
+/**
+ * Get a DCA schedule by ID
+ */
+export function getDcaSchedule(id: number): DcaSchedule | null {
+  const row = db.prepare(`SELECT * FROM dca_schedules WHERE id = ?`).get(id) as any;
+  if (!row) return null;
+  return mapRowToDcaSchedule(row);
+}
+
+/**
+ * Get active schedules whose next buy is due
+ */
+export function getDueDcaSchedules(now: number): DcaSchedule[] {
+  const rows = db.prepare(`
+    SELECT * FROM dca_schedules 
+    WHERE status = 'active' AND next_run_at <= ?
+    ORDER BY next_run_at ASC
+  `).all(now) as any[];
+  
+  return rows.map(mapRowToDcaSchedule);
+}
+
+/**
+ * Get a user's active and paused schedules
+ */
+export function getUserDcaSchedules(telegramUserId: number): DcaSchedule[] {
+  const rows = db.prepare(`
+    SELECT * FROM dca_schedules 
+    WHERE telegram_user_id = ? AND status IN ('active', 'paused')
+    ORDER BY created_at DESC
+  `).all(telegramUserId) as any[];
+  
+  return rows.map(mapRowToDcaSchedule);
+}
+
+/**
+ * Record a successful DCA buy and schedule the next one.
+ * Completes the schedule once all executions are done.
+ */
+export function recordDcaExecution(
+  id: number,
+  txHash: string,
+  amountSpent: number,
+  nextRunAt: number
+): void {
+  db.prepare(`
+    UPDATE dca_schedules 
+    SET executions_done = executions_done + 1,
+        total_spent = total_spent + ?,
+        consecutive_failures = 0,
+        last_run_at = CURRENT_TIMESTAMP,
+        last_tx_hash = ?,
+        last_error = NULL,
+        next_run_at = ?,
+        status = CASE 
+          WHEN executions_done + 1 >= total_executions THEN 'completed' 
+          ELSE status 
+        END
+    WHERE id = ?
+  `).run(amountSpent, txHash, nextRunAt, id);
+}
+
+/**
+ * Record a failed DCA buy. The interval is skipped and retried on the next one.
+ * Returns the number of consecutive failures.
+ */
+export function recordDcaFailure(id: number, error: string, nextRunAt: number): number {
+  db.prepare(`
+    UPDATE dca_schedules 
+    SET consecutive_failures = consecutive_failures + 1,
+        last_run_at = CURRENT_TIMESTAMP,
+        last_error = ?,
+        next_run_at = ?
+    WHERE id = ?
+  `).run(error, nextRunAt, id);
+  
+  return getDcaSchedule(id)?.consecutiveFailures ?? 0;
+}
+
+/**
+ * Pause an active schedule
+ */
+export function pauseDcaSchedule(id: number, telegramUserId: number): boolean {
+  const result = db.prepare(`
+    UPDATE dca_schedules 
+    SET status = 'paused'
+    WHERE id = ? AND telegram_user_id = ? AND status = 'active'
+  `).run(id, telegramUserId);
+  
+  return result.changes > 0;
+}
+
+/**
+ * Resume a paused schedule, running the next buy at the given time
+ */
+export function resumeDcaSchedule(id: number, telegramUserId: number, nextRunAt: number): boolean {
+  const result = db.prepare(`
+    UPDATE dca_schedules 
+    SET status = 'active', consecutive_failures = 0, next_run_at = ?
+    WHERE id = ? AND telegram_user_id = ? AND status = 'paused'
+  `).run(nextRunAt, id, telegramUserId);
+  
+  return result.changes > 0;
+}
+
+/**
+ * Cancel an active or paused schedule
+ */
+export function cancelDcaSchedule(id: number, telegramUserId: number): boolean {
+  const result = db.prepare(`
+    UPDATE dca_schedules 
+    SET status = 'cancelled'
+    WHERE id = ? AND telegram_user_id = ? AND status IN ('active', 'paused')
+  `).run(id, telegramUserId);
+  
+  return result.changes > 0;
+}
+
+/**
+ * Map database row to DcaSchedule object
+ */
+function mapRowToDcaSchedule(row: any): DcaSchedule {
+  return {
+    id: row.id,
+    telegramUserId: row.telegram_user_id,
+    chatId: row.chat_id,
+    network: row.network as Network,
+    walletId: row.wallet_id,
+    tokenAddress: row.token_address,
+    tokenSymbol: row.token_symbol,
+    amountPerBuy: row.amount_per_buy,
+    interval: row.interval as DcaInterval,
+    totalExecutions: row.total_executions,
+    slippageBps: row.slippage_bps,
+    executionsDone: row.executions_done,
+    totalSpent: row.total_spent,
+    consecutiveFailures: row.consecutive_failures,
+    status: row.status as DcaStatus,
+    nextRunAt: row.next_run_at,
+    createdAt: row.created_at,
+    lastRunAt: row.last_run_at ?? undefined,
+    lastTxHash: row.last_tx_hash ?? undefined,
+    lastError: row.last_error ?? undefined
+  };
+}
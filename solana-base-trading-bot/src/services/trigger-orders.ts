@@ -1,24 +1,44 @@
 import { Telegraf } from 'telegraf';
-import { Network } from '../types';
-import { TriggerOrder, CreateTriggerOrderParams } from '../types/trigger-orders';
+import { SwapQuote, RouteComparison } from '../types';
+import { 
+  TriggerOrder, 
+  CreateTriggerOrderParams, 
+  CreateBracketOrderParams,
+  CreateAutoSellOrdersParams,
+  DcaSchedule,
+  DcaInterval,
+  CreateDcaScheduleParams
+} from '../types/trigger-orders';
 import { getTokenInfo } from './dexscreener';
 import { 
-  buySolanaToken, 
-  sellSolanaTokenPercentage,
+  quoteSolanaBuy,
+  quoteSolanaSellPercentage,
+  executeSolanaQuote,
   getSolanaKeypair 
 } from './solana';
 import { 
-  buyBaseToken, 
-  sellBaseTokenPercentage,
+  quoteBaseBuy,
+  quoteBaseSellPercentage,
+  executeBaseQuote,
   getBaseAccount 
 } from './base';
+import { getTradeSettings } from './database';
+import { getGuardedQuote, getSimulationRefusal } from './slippage';
 import * as triggerDb from './trigger-orders-db';
-import { config } from '../config';
+import { getQuoteSymbol, formatRouting, formatAmount, escapeLegacyMarkdown } from '../utils/formatters';
 
 // Monitoring configuration
 const POLL_INTERVAL_MS = 12000; // 12 seconds - balance between responsiveness and rate limits
 const JITTER_MS = 3000; // Add some randomness to avoid patterns
 
+// DCA configuration
+const DCA_INTERVAL_MS: Record<DcaInterval, number> = {
+  hourly: 60 * 60 * 1000,
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+};
+const MAX_DCA_FAILURES = 3; // Pause a schedule after this many failed buys in a row
+
 let bot: Telegraf | null = null;
 let isMonitoring = false;
 let monitoringTimeout: NodeJS.Timeout | null = null;
@@ -66,6 +86,7 @@ function scheduleNextCheck(): void {
   const delay = POLL_INTERVAL_MS + Math.random() * JITTER_MS;
   monitoringTimeout = setTimeout(async () => {
     await checkPricesAndExecute();
+    await runDueDcaSchedules();
     scheduleNextCheck();
   }, delay);
 }
@@ -75,6 +96,13 @@ function scheduleNextCheck(): void {
  */
 async function checkPricesAndExecute(): Promise<void> {
   try {
+    // Expire stale orders first so they no longer cost price lookups
+    const expiredOrders = triggerDb.expireDueOrders(Date.now());
+    for (const order of expiredOrders) {
+      console.log(`[TriggerOrders] Order #${order.id} expired`);
+      await notifyOrderExpired(order);
+    }
+    
     // Get all tokens that have active orders
     const tokensToCheck = triggerDb.getTokensWithActiveOrders();
     
@@ -82,10 +110,6 @@ async function checkPricesAndExecute(): Promise<void> {
       return; // Nothing to monitor
     }
     
-    // Group by network to batch requests
-    const solanaTokens = tokensToCheck.filter(t => t.network === 'solana');
-    const baseTokens = tokensToCheck.filter(t => t.network === 'base');
-    
     // Fetch prices for all tokens
     const priceMap = new Map<string, { price: number; marketCap: number }>();
     
@@ -109,6 +133,7 @@ async function checkPricesAndExecute(): Promise<void> {
     
     // Check each active order against current prices
     const activeOrders = triggerDb.getActiveTriggerOrders();
+    const triggeredByUser = new Map<number, { order: TriggerOrder; price: number }[]>();
     
     for (const order of activeOrders) {
       const key = `${order.network}:${order.tokenAddress.toLowerCase()}`;
@@ -116,25 +141,40 @@ async function checkPricesAndExecute(): Promise<void> {
       
       if (!priceData) continue;
       
-      const currentValue = order.triggerType === 'price' 
-        ? priceData.price 
-        : priceData.marketCap;
+      const currentValue = order.triggerType === 'marketcap' 
+        ? priceData.marketCap 
+        : priceData.price;
       
       if (currentValue === 0) continue;
       
+      // Trailing stops follow the price up before checking the stop level
+      const targetValue = order.triggerType === 'trailing'
+        ? updateTrailingStop(order, currentValue)
+        : order.triggerValue;
+      
       // Check if trigger condition is met
       const triggered = checkTriggerCondition(
         currentValue,
-        order.triggerValue,
+        targetValue,
         order.triggerCondition
       );
       
       if (triggered) {
-        console.log(`[TriggerOrders] Order #${order.id} triggered! Current: ${currentValue}, Target: ${order.triggerValue}`);
-        await executeOrder(order, priceData.price);
+        console.log(`[TriggerOrders] Order #${order.id} triggered! Current: ${currentValue}, Target: ${targetValue}`);
+        const queue = triggeredByUser.get(order.telegramUserId) || [];
+        queue.push({ order, price: priceData.price });
+        triggeredByUser.set(order.telegramUserId, queue);
       }
     }
     
+    // Users trade in parallel; one user's orders run in turn so each is quoted
+    // against the balance the previous one left (wallets also queue their sends)
+    await Promise.all([...triggeredByUser.values()].map(async orders => {
+      for (const { order, price } of orders) {
+        await executeOrder(order, price);
+      }
+    }));
+    
   } catch (error) {
     console.error('[TriggerOrders] Error in monitoring loop:', error);
   }
@@ -155,82 +195,96 @@ function checkTriggerCondition(
   }
 }
 
+/**
+ * Calculate the stop level of a trailing order for a given peak price
+ */
+export function getTrailingStopPrice(highWaterMark: number, trailPercent: number): number {
+  return highWaterMark * (1 - trailPercent / 100);
+}
+
+/**
+ * Record a new peak for a trailing order if the price moved higher.
+ * Returns the stop level to compare the current price against.
+ */
+function updateTrailingStop(order: TriggerOrder, currentPrice: number): number {
+  const trailPercent = order.trailPercent || 0;
+  const peak = order.highWaterMark || order.priceAtCreation;
+  
+  if (currentPrice <= peak) {
+    return getTrailingStopPrice(peak, trailPercent);
+  }
+  
+  const stopPrice = getTrailingStopPrice(currentPrice, trailPercent);
+  triggerDb.updateTrailingStop(order.id, currentPrice, stopPrice);
+  order.highWaterMark = currentPrice;
+  order.triggerValue = stopPrice;
+  
+  return stopPrice;
+}
+
+/**
+ * Human readable description of an order's trigger
+ */
+function describeTrigger(order: TriggerOrder): string {
+  if (order.triggerType === 'trailing') {
+    return `Trailing ${order.trailPercent}% below peak $${formatPrice(order.highWaterMark || order.priceAtCreation)}`;
+  }
+  
+  const triggerTypeLabel = order.triggerType === 'price' ? 'Price' : 'Market Cap';
+  return `${triggerTypeLabel} ${order.triggerCondition} $${formatNumber(order.triggerValue)}`;
+}
+
 /**
  * Execute a triggered order
  */
 async function executeOrder(order: TriggerOrder, currentPrice: number): Promise<void> {
-  // Mark as triggered
-  triggerDb.markOrderTriggered(order.id);
+  // Mark as triggered - skip if a linked order already executed in this pass
+  if (!triggerDb.markOrderTriggered(order.id)) {
+    console.log(`[TriggerOrders] Order #${order.id} is no longer active, skipping`);
+    return;
+  }
   
   try {
-    let result;
+    const unlocked = order.network === 'solana'
+      ? getSolanaKeypair(order.telegramUserId, order.walletId)
+      : getBaseAccount(order.telegramUserId, order.walletId);
+    if (!unlocked) {
+      throw new Error('Wallet locked - please unlock with /unlock');
+    }
     
-    if (order.side === 'buy') {
-      // Execute buy order
-      if (order.network === 'solana') {
-        // Check if wallet is unlocked
-        const keypair = getSolanaKeypair(order.telegramUserId);
-        if (!keypair) {
-          throw new Error('Wallet locked - please unlock with /unlock');
-        }
-        
-        const solAmount = parseFloat(order.amount);
-        result = await buySolanaToken(
-          order.telegramUserId,
-          order.tokenAddress,
-          solAmount,
-          order.slippageBps
-        );
-      } else {
-        // Base network
-        const account = getBaseAccount(order.telegramUserId);
-        if (!account) {
-          throw new Error('Wallet locked - please unlock with /unlock');
-        }
-        
-        const ethAmount = parseFloat(order.amount);
-        result = await buyBaseToken(
-          order.telegramUserId,
-          order.tokenAddress,
-          ethAmount,
-          order.slippageBps
-        );
-      }
-    } else {
-      // Execute sell order
-      const percentage = parseInt(order.amount);
-      
-      if (order.network === 'solana') {
-        const keypair = getSolanaKeypair(order.telegramUserId);
-        if (!keypair) {
-          throw new Error('Wallet locked - please unlock with /unlock');
-        }
-        
-        result = await sellSolanaTokenPercentage(
-          order.telegramUserId,
-          order.tokenAddress,
-          percentage,
-          order.slippageBps
-        );
-      } else {
-        const account = getBaseAccount(order.telegramUserId);
-        if (!account) {
-          throw new Error('Wallet locked - please unlock with /unlock');
-        }
-        
-        result = await sellBaseTokenPercentage(
-          order.telegramUserId,
-          order.tokenAddress,
-          percentage,
-          order.slippageBps
-        );
-      }
+    // The user's impact limit and auto slippage apply to orders firing unattended too
+    const settings = getTradeSettings(order.telegramUserId, order.network);
+    const { quote, error, slippageBps } = await getGuardedQuote(
+      settings,
+      order.tokenAddress,
+      slippage => quoteOrder(order, slippage),
+      order.slippageBps
+    );
+    if (!quote) {
+      throw new Error(error || 'No route found for this swap');
+    }
+    
+    // Nobody reviews a preview here, so a failing swap or unsellable token is refused outright
+    const refusal = await getSimulationRefusal(order.telegramUserId, order.network, quote, order.walletId, order.side === 'buy');
+    if (refusal) {
+      throw new Error(refusal);
     }
     
+    const result = order.network === 'solana'
+      ? await executeSolanaQuote(order.telegramUserId, quote, slippageBps, order.walletId)
+      : await executeBaseQuote(order.telegramUserId, quote, slippageBps, order.walletId);
+    
     if (result.success) {
       const txHash = result.signature || result.hash || '';
       triggerDb.markOrderExecuted(order.id, txHash, currentPrice);
-      await notifyOrderExecuted(order, txHash, currentPrice, result.explorerUrl);
+      
+      // One-cancels-other: the linked legs must not fire against a sold position
+      let cancelledSiblings = 0;
+      if (order.groupId) {
+        cancelledSiblings = triggerDb.cancelGroupSiblings(order.groupId, order.id);
+      }
+      
+      await notifyOrderExecuted(order, txHash, currentPrice, result.explorerUrl, cancelledSiblings, result.routing);
     } else {
       throw new Error(result.error || 'Transaction failed');
     }
@@ -243,6 +297,25 @@ async function executeOrder(order: TriggerOrder, currentPrice: number): Promise<
   }
 }
 
+/**
+ * Quote a triggered order: buys spend `amount` of the quote currency, sells a % of holdings
+ */
+function quoteOrder(order: TriggerOrder, slippageBps: number): Promise<{ quote?: SwapQuote; error?: string }> {
+  const { telegramUserId, tokenAddress, quoteCurrency, walletId } = order;
+  
+  if (order.side === 'buy') {
+    const amount = parseFloat(order.amount);
+    return order.network === 'solana'
+      ? quoteSolanaBuy(tokenAddress, amount, slippageBps, quoteCurrency)
+      : quoteBaseBuy(telegramUserId, tokenAddress, amount, slippageBps, quoteCurrency, walletId);
+  }
+  
+  const percentage = parseInt(order.amount);
+  return order.network === 'solana'
+    ? quoteSolanaSellPercentage(telegramUserId, tokenAddress, percentage, slippageBps, quoteCurrency, walletId)
+    : quoteBaseSellPercentage(telegramUserId, tokenAddress, percentage, slippageBps, quoteCurrency, walletId);
+}
+
 /**
  * Send notification when order is executed successfully
  */
@@ -250,20 +323,20 @@ async function notifyOrderExecuted(
   order: TriggerOrder,
   txHash: string,
   executionPrice: number,
-  explorerUrl?: string
+  explorerUrl?: string,
+  cancelledSiblings: number = 0,
+  routing?: RouteComparison
 ): Promise<void> {
   if (!bot) return;
   
   const sideEmoji = order.side === 'buy' ? '🟢' : '🔴';
   const networkName = order.network === 'solana' ? 'Solana' : 'Base';
-  const triggerTypeLabel = order.triggerType === 'price' ? 'Price' : 'Market Cap';
   
   let amountLabel: string;
   if (order.side === 'buy') {
-    const currency = order.network === 'solana' ? 'SOL' : 'ETH';
-    amountLabel = `${order.amount} ${currency}`;
+    amountLabel = `${order.amount} ${getQuoteSymbol(order.network, order.quoteCurrency)}`;
   } else {
-    amountLabel = `${order.amount}%`;
+    amountLabel = `${order.amount}% → ${getQuoteSymbol(order.network, order.quoteCurrency)}`;
   }
   
   const message = [
@@ -272,9 +345,11 @@ async function notifyOrderExecuted(
     `📊 *${order.tokenSymbol}* (${networkName})`,
     ``,
     `• Type: ${order.side.toUpperCase()}`,
-    `• Trigger: ${triggerTypeLabel} ${order.triggerCondition} $${formatNumber(order.triggerValue)}`,
+    `• Trigger: ${describeTrigger(order)}`,
     `• Amount: ${amountLabel}`,
     `• Execution Price: $${formatPrice(executionPrice)}`,
+    ...(routing ? [`• Route: ${formatRouting(routing)}`] : []),
+    ...(cancelledSiblings > 0 ? [`• Linked order cancelled (one-cancels-other)`] : []),
     ``,
     explorerUrl ? `🔗 [View Transaction](${explorerUrl})` : `\`${txHash}\``,
   ].join('\n');
@@ -304,7 +379,7 @@ async function notifyOrderFailed(order: TriggerOrder, error: string): Promise<vo
     `• Order ID: #${order.id}`,
     `• Type: ${order.side.toUpperCase()}`,
     ``,
-    `❌ Error: ${escapeMarkdown(error)}`,
+    `❌ Error: ${escapeLegacyMarkdown(error)}`,
     ``,
     `_The order has been marked as failed. Create a new order if needed._`
   ].join('\n');
@@ -318,6 +393,190 @@ async function notifyOrderFailed(order: TriggerOrder, error: string): Promise<vo
   }
 }
 
+/**
+ * Send notification when an order expires without triggering
+ */
+async function notifyOrderExpired(order: TriggerOrder): Promise<void> {
+  if (!bot) return;
+  
+  const networkName = order.network === 'solana' ? 'Solana' : 'Base';
+  
+  const message = [
+    `⌛ *LIMIT ORDER EXPIRED*`,
+    ``,
+    `📊 *${order.tokenSymbol}* (${networkName})`,
+    `• Order ID: #${order.id}`,
+    `• Type: ${order.side.toUpperCase()}`,
+    `• Trigger: ${describeTrigger(order)}`,
+    ``,
+    `_The target was not hit before the expiry time. Create a new order if needed._`
+  ].join('\n');
+  
+  try {
+    await bot.telegram.sendMessage(order.chatId, message, { 
+      parse_mode: 'Markdown' 
+    });
+  } catch (err) {
+    console.error('[TriggerOrders] Failed to send expiry notification:', err);
+  }
+}
+
+// ============ DCA ============
+
+/**
+ * Execute every DCA schedule whose next buy is due
+ */
+async function runDueDcaSchedules(): Promise<void> {
+  try {
+    const dueSchedules = triggerDb.getDueDcaSchedules(Date.now());
+    
+    for (const schedule of dueSchedules) {
+      await executeDcaBuy(schedule);
+    }
+  } catch (error) {
+    console.error('[TriggerOrders] Error running DCA schedules:', error);
+  }
+}
+
+/**
+ * Work out when the next buy of a schedule should run.
+ * Missed intervals (e.g. while the bot was offline) are skipped, not caught up.
+ */
+function getNextDcaRun(schedule: DcaSchedule): number {
+  const intervalMs = DCA_INTERVAL_MS[schedule.interval];
+  const next = schedule.nextRunAt + intervalMs;
+  return next > Date.now() ? next : Date.now() + intervalMs;
+}
+
+/**
+ * Execute a single DCA buy
+ */
+async function executeDcaBuy(schedule: DcaSchedule): Promise<void> {
+  const nextRunAt = getNextDcaRun(schedule);
+  const amount = parseFloat(schedule.amountPerBuy);
+  
+  try {
+    const { telegramUserId, tokenAddress, walletId } = schedule;
+    
+    const unlocked = schedule.network === 'solana'
+      ? getSolanaKeypair(telegramUserId, walletId)
+      : getBaseAccount(telegramUserId, walletId);
+    if (!unlocked) {
+      throw new Error('Wallet locked - please unlock with /unlock');
+    }
+    
+    const settings = getTradeSettings(telegramUserId, schedule.network);
+    const { quote, error, slippageBps } = await getGuardedQuote(
+      settings,
+      tokenAddress,
+      slippage => schedule.network === 'solana'
+        ? quoteSolanaBuy(tokenAddress, amount, slippage, 'native')
+        : quoteBaseBuy(telegramUserId, tokenAddress, amount, slippage, 'native', walletId),
+      schedule.slippageBps
+    );
+    if (!quote) {
+      throw new Error(error || 'No route found for this swap');
+    }
+    
+    const refusal = await getSimulationRefusal(telegramUserId, schedule.network, quote, walletId, true);
+    if (refusal) {
+      throw new Error(refusal);
+    }
+    
+    const result = schedule.network === 'solana'
+      ? await executeSolanaQuote(telegramUserId, quote, slippageBps, walletId)
+      : await executeBaseQuote(telegramUserId, quote, slippageBps, walletId);
+    
+    if (!result.success) {
+      throw new Error(result.error || 'Transaction failed');
+    }
+    
+    const txHash = result.signature || result.hash || '';
+    triggerDb.recordDcaExecution(schedule.id, txHash, amount, nextRunAt);
+    
+    await notifyDcaExecuted(triggerDb.getDcaSchedule(schedule.id)!, txHash, result.explorerUrl);
+    
+  } catch (error: any) {
+    const errorMsg = error.message || 'Unknown error';
+    console.error(`[TriggerOrders] DCA #${schedule.id} buy failed:`, errorMsg);
+    
+    const failures = triggerDb.recordDcaFailure(schedule.id, errorMsg, nextRunAt);
+    const paused = failures >= MAX_DCA_FAILURES
+      && triggerDb.pauseDcaSchedule(schedule.id, schedule.telegramUserId);
+    
+    await notifyDcaFailed(schedule, errorMsg, paused);
+  }
+}
+
+/**
+ * Send notification when a DCA buy executes
+ */
+async function notifyDcaExecuted(
+  schedule: DcaSchedule,
+  txHash: string,
+  explorerUrl?: string
+): Promise<void> {
+  if (!bot) return;
+  
+  const networkName = schedule.network === 'solana' ? 'Solana' : 'Base';
+  const currency = schedule.network === 'solana' ? 'SOL' : 'ETH';
+  const finished = schedule.status === 'completed';
+  
+  const message = [
+    `🔁 *DCA BUY EXECUTED*`,
+    ``,
+    `📊 *${schedule.tokenSymbol}* (${networkName})`,
+    ``,
+    `• Buy: ${schedule.executionsDone}/${schedule.totalExecutions}`,
+    `• Amount: ${schedule.amountPerBuy} ${currency}`,
+    `• Total Spent: ${formatAmount(schedule.totalSpent)} ${currency}`,
+    finished
+      ? `• Schedule completed ✅`
+      : `• Next Buy: ${formatDcaTime(schedule.nextRunAt)}`,
+    ``,
+    explorerUrl ? `🔗 [View Transaction](${explorerUrl})` : `\`${txHash}\``,
+  ].join('\n');
+  
+  try {
+    await bot.telegram.sendMessage(schedule.chatId, message, { 
+      parse_mode: 'Markdown',
+      link_preview_options: { is_disabled: true }
+    });
+  } catch (err) {
+    console.error('[TriggerOrders] Failed to send DCA notification:', err);
+  }
+}
+
+/**
+ * Send notification when a DCA buy fails
+ */
+async function notifyDcaFailed(schedule: DcaSchedule, error: string, paused: boolean): Promise<void> {
+  if (!bot) return;
+  
+  const networkName = schedule.network === 'solana' ? 'Solana' : 'Base';
+  
+  const message = [
+    `⚠️ *DCA BUY FAILED*`,
+    ``,
+    `📊 *${schedule.tokenSymbol}* (${networkName})`,
+    `• Schedule ID: #${schedule.id}`,
+    ``,
+    `❌ Error: ${escapeLegacyMarkdown(error)}`,
+    ``,
+    paused
+      ? `_The schedule was paused after ${MAX_DCA_FAILURES} failed buys in a row. Resume it with /dca._`
+      : `_This buy was skipped. The schedule will try again next interval._`
+  ].join('\n');
+  
+  try {
+    await bot.telegram.sendMessage(schedule.chatId, message, { 
+      parse_mode: 'Markdown' 
+    });
+  } catch (err) {
+    console.error('[TriggerOrders] Failed to send DCA failure notification:', err);
+  }
+}
+
 // ============ Public API ============
 
 /**
@@ -325,7 +584,8 @@ async function notifyOrderFailed(order: TriggerOrder, error: string): Promise<vo
  */
 export function createOrder(params: CreateTriggerOrderParams): TriggerOrder {
   const order = triggerDb.createTriggerOrder(params);
-  console.log(`[TriggerOrders] Created order #${order.id}: ${order.side} ${order.tokenSymbol} when ${order.triggerType} ${order.triggerCondition} ${order.triggerValue}`);
+  const expiryLabel = order.expiresAt ? `, expires ${new Date(order.expiresAt).toISOString()}` : '';
+  console.log(`[TriggerOrders] Created order #${order.id}: ${order.side} ${order.tokenSymbol} when ${describeTrigger(order)}${expiryLabel}`);
   
   // Make sure monitoring is running
   if (!isMonitoring) {
@@ -336,9 +596,105 @@ export function createOrder(params: CreateTriggerOrderParams): TriggerOrder {
 }
 
 /**
- * Cancel an order
+ * Create a linked take-profit / stop-loss pair for a position.
+ * Whichever leg executes first cancels the other.
+ */
+export function createBracketOrder(params: CreateBracketOrderParams): TriggerOrder[] {
+  const common = {
+    telegramUserId: params.telegramUserId,
+    chatId: params.chatId,
+    network: params.network,
+    walletId: params.walletId,
+    tokenAddress: params.tokenAddress,
+    tokenSymbol: params.tokenSymbol,
+    side: 'sell' as const,
+    triggerType: 'price' as const,
+    amount: params.sellPercentage.toString(),
+    amountType: 'percentage' as const,
+    slippageBps: params.slippageBps,
+    quoteCurrency: params.quoteCurrency,
+    currentPrice: params.currentPrice,
+  };
+  
+  const orders = triggerDb.createTriggerOrderGroup([
+    { ...common, triggerCondition: 'above', triggerValue: params.takeProfitPrice },
+    { ...common, triggerCondition: 'below', triggerValue: params.stopLossPrice },
+  ]);
+  
+  console.log(`[TriggerOrders] Created bracket #${orders[0].groupId}: ${params.tokenSymbol} TP $${params.takeProfitPrice} / SL $${params.stopLossPrice}`);
+  
+  if (!isMonitoring) {
+    startMonitoring();
+  }
+  
+  return orders;
+}
+
+/**
+ * Place the user's auto TP/SL preset on a freshly bought position.
+ * When the take-profit sells the whole position the legs form a group, so whichever
+ * executes first cancels the other. A partial take-profit leaves the stop-loss in
+ * place to protect the rest.
+ */
+export function createAutoSellOrders(params: CreateAutoSellOrdersParams): TriggerOrder[] {
+  const { preset, fillPrice } = params;
+  if (!preset.enabled || fillPrice <= 0) return [];
+  
+  const common = {
+    telegramUserId: params.telegramUserId,
+    chatId: params.chatId,
+    network: params.network,
+    walletId: params.walletId,
+    tokenAddress: params.tokenAddress,
+    tokenSymbol: params.tokenSymbol,
+    side: 'sell' as const,
+    triggerType: 'price' as const,
+    amountType: 'percentage' as const,
+    slippageBps: params.slippageBps,
+    quoteCurrency: params.quoteCurrency,
+    currentPrice: fillPrice,
+  };
+  
+  const legs: CreateTriggerOrderParams[] = [];
+  if (preset.takeProfitPercent > 0) {
+    legs.push({
+      ...common,
+      triggerCondition: 'above',
+      triggerValue: fillPrice * (1 + preset.takeProfitPercent / 100),
+      amount: preset.takeProfitSellPercent.toString(),
+    });
+  }
+  if (preset.stopLossPercent > 0) {
+    legs.push({
+      ...common,
+      triggerCondition: 'below',
+      triggerValue: fillPrice * (1 - preset.stopLossPercent / 100),
+      amount: preset.stopLossSellPercent.toString(),
+    });
+  }
+  
+  if (legs.length < 2 || preset.takeProfitSellPercent < 100) {
+    return legs.map(leg => createOrder(leg));
+  }
+  
+  const orders = triggerDb.createTriggerOrderGroup(legs);
+  console.log(`[TriggerOrders] Created auto TP/SL #${orders[0].groupId}: ${params.tokenSymbol}`);
+  
+  if (!isMonitoring) {
+    startMonitoring();
+  }
+  
+  return orders;
+}
+
+/**
+ * Cancel an order (and its linked orders when it belongs to a group)
  */
 export function cancelOrder(orderId: number, userId: number): boolean {
+  const order = triggerDb.getTriggerOrder(orderId);
+  if (order?.groupId) {
+    return triggerDb.cancelOrderGroup(order.groupId, userId);
+  }
   return triggerDb.cancelOrder(orderId, userId);
 }
 
@@ -370,6 +726,55 @@ export function getOrder(orderId: number): TriggerOrder | null {
   return triggerDb.getTriggerOrder(orderId);
 }
 
+/**
+ * Create a new DCA schedule. The first buy runs on the next monitor pass.
+ */
+export function createDcaSchedule(params: CreateDcaScheduleParams): DcaSchedule {
+  const schedule = triggerDb.createDcaSchedule(params);
+  console.log(`[TriggerOrders] Created DCA #${schedule.id}: ${schedule.amountPerBuy} into ${schedule.tokenSymbol} ${schedule.interval} x${schedule.totalExecutions}`);
+  
+  if (!isMonitoring) {
+    startMonitoring();
+  }
+  
+  return schedule;
+}
+
+/**
+ * Pause a DCA schedule
+ */
+export function pauseDcaSchedule(scheduleId: number, userId: number): boolean {
+  return triggerDb.pauseDcaSchedule(scheduleId, userId);
+}
+
+/**
+ * Resume a paused DCA schedule. The next buy runs one interval from now.
+ */
+export function resumeDcaSchedule(scheduleId: number, userId: number): boolean {
+  const schedule = triggerDb.getDcaSchedule(scheduleId);
+  if (!schedule) return false;
+  
+  return triggerDb.resumeDcaSchedule(
+    scheduleId,
+    userId,
+    Date.now() + DCA_INTERVAL_MS[schedule.interval]
+  );
+}
+
+/**
+ * Cancel a DCA schedule
+ */
+export function cancelDcaSchedule(scheduleId: number, userId: number): boolean {
+  return triggerDb.cancelDcaSchedule(scheduleId, userId);
+}
+
+/**
+ * Get a user's active and paused DCA schedules
+ */
+export function getDcaSchedules(userId: number): DcaSchedule[] {
+  return triggerDb.getUserDcaSchedules(userId);
+}
+
 // ============ Helpers ============
 
 function sleep(ms: number): Promise<void> {
@@ -392,6 +797,7 @@ function formatPrice(price: number): string {
   return price.toFixed(2);
 }
 
-function escapeMarkdown(text: string): string {
-  return text.replace(/([_*\[\]()~`>#+\-=|{}.!])/g, '\\$1');
+function formatDcaTime(timestamp: number): string {
+  return new Date(timestamp).toUTCString().replace(' GMT', ' UTC');
 }
+
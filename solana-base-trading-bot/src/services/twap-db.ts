@@ -0,0 +1,266 @@
+import Database from 'better-sqlite3';
+import { Network } from '../types';
+import { OrderSide } from '../types/trigger-orders';
+import { TwapOrder, TwapStatus } from '../types/twap';
+import { backfillWalletIds } from './trigger-orders-db';
+
+let db: Database.Database;
+
+/**
+ * Initialize TWAP orders table
+ */
+export function initTwapOrdersTable(database: Database.Database): void {
+  db = database;
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS twap_orders (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      telegram_user_id INTEGER NOT NULL,
+      chat_id INTEGER NOT NULL,
+      network TEXT NOT NULL,
+      token_address TEXT NOT NULL,
+      token_symbol TEXT NOT NULL,
+      side TEXT NOT NULL,
+
+      total_amount TEXT NOT NULL,
+      input_decimals INTEGER NOT NULL,
+      output_decimals INTEGER NOT NULL,
+
+      slice_count INTEGER NOT NULL,
+      interval_ms INTEGER NOT NULL,
+      max_impact_pct REAL NOT NULL,
+      slippage_bps INTEGER DEFAULT 100,
+
+      slices_done INTEGER DEFAULT 0,
+      filled_in TEXT DEFAULT '0',
+      filled_out TEXT DEFAULT '0',
+      consecutive_failures INTEGER DEFAULT 0,
+      deferrals INTEGER DEFAULT 0,
+      next_slice_at INTEGER NOT NULL,
+
+      status TEXT DEFAULT 'active',
+      created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+      completed_at TEXT,
+      last_tx_hash TEXT,
+      error TEXT
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_twap_orders_user
+      ON twap_orders(telegram_user_id);
+    CREATE INDEX IF NOT EXISTS idx_twap_orders_due
+      ON twap_orders(status, next_slice_at);
+  `);
+
+  try {
+    db.exec(`ALTER TABLE twap_orders ADD COLUMN wallet_id INTEGER;`);
+    backfillWalletIds('twap_orders');
+  } catch {
+    // Column already exists
+  }
+}
+
+/**
+ * Create a new TWAP order. The first slice runs on the next monitor pass.
+ */
+export function createTwapOrder(params: {
+  telegramUserId: number;
+  chatId: number;
+  network: Network;
+  walletId: number;
+  tokenAddress: string;
+  tokenSymbol: string;
+  side: OrderSide;
+  totalAmount: string;
+  inputDecimals: number;
+  outputDecimals: number;
+  sliceCount: number;
+  intervalMs: number;
+  maxImpactPct: number;
+  slippageBps: number;
+}): TwapOrder {
+  const result = db.prepare(`
+    INSERT INTO twap_orders (
+      telegram_user_id, chat_id, network, token_address, token_symbol, side,
+      total_amount, input_decimals, output_decimals,
+      slice_count, interval_ms, max_impact_pct, slippage_bps,
+      status, next_slice_at, wallet_id
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'active', ?, ?)
+  `).run(
+    params.telegramUserId,
+    params.chatId,
+    params.network,
+    params.tokenAddress,
+    params.tokenSymbol,
+    params.side,
+    params.totalAmount,
+    params.inputDecimals,
+    params.outputDecimals,
+    params.sliceCount,
+    params.intervalMs,
+    params.maxImpactPct,
+    params.slippageBps,
+    Date.now(),
+    params.walletId
+  );
+
+  return getTwapOrder(result.lastInsertRowid as number)!;
+}
+
+/**
+ * Get a TWAP order by ID
+ */
+export function getTwapOrder(id: number): TwapOrder | null {
+  const row = db.prepare(`SELECT * FROM twap_orders WHERE id = ?`).get(id) as any;
+  if (!row) return null;
+  return mapRowToTwapOrder(row);
+}
+
+/**
+ * Get active TWAP orders whose next slice is due
+ */
+export function getDueTwapOrders(now: number): TwapOrder[] {
+  const rows = db.prepare(`
+    SELECT * FROM twap_orders
+    WHERE status = 'active' AND next_slice_at <= ?
+    ORDER BY next_slice_at ASC
+  `).all(now) as any[];
+
+  return rows.map(mapRowToTwapOrder);
+}
+
+/**
+ * Get a user's active TWAP orders
+ */
+export function getUserActiveTwapOrders(telegramUserId: number): TwapOrder[] {
+  const rows = db.prepare(`
+    SELECT * FROM twap_orders
+    WHERE telegram_user_id = ? AND status = 'active'
+    ORDER BY created_at DESC
+  `).all(telegramUserId) as any[];
+
+  return rows.map(mapRowToTwapOrder);
+}
+
+/**
+ * Record an executed slice. Completes the order after the last slice.
+ */
+export function recordTwapSlice(
+  id: number,
+  filledIn: string,
+  filledOut: string,
+  txHash: string,
+  nextSliceAt: number
+): void {
+  db.prepare(`
+    UPDATE twap_orders
+    SET slices_done = slices_done + 1,
+        filled_in = ?,
+        filled_out = ?,
+        last_tx_hash = ?,
+        consecutive_failures = 0,
+        deferrals = 0,
+        error = NULL,
+        next_slice_at = ?,
+        status = CASE
+          WHEN slices_done + 1 >= slice_count THEN 'completed'
+          ELSE status
+        END,
+        completed_at = CASE
+          WHEN slices_done + 1 >= slice_count THEN CURRENT_TIMESTAMP
+          ELSE completed_at
+        END
+    WHERE id = ? AND status = 'active'
+  `).run(filledIn, filledOut, txHash, nextSliceAt, id);
+}
+
+/**
+ * Push the current slice back because its quote exceeded the impact ceiling.
+ * Returns how many times this slice has been deferred.
+ */
+export function deferTwapSlice(id: number, reason: string, nextSliceAt: number): number {
+  db.prepare(`
+    UPDATE twap_orders
+    SET deferrals = deferrals + 1, error = ?, next_slice_at = ?
+    WHERE id = ? AND status = 'active'
+  `).run(reason, nextSliceAt, id);
+
+  return getTwapOrder(id)?.deferrals ?? 0;
+}
+
+/**
+ * Record a failed slice attempt. Returns the number of consecutive failures.
+ */
+export function recordTwapFailure(id: number, error: string, nextSliceAt: number): number {
+  db.prepare(`
+    UPDATE twap_orders
+    SET consecutive_failures = consecutive_failures + 1, error = ?, next_slice_at = ?
+    WHERE id = ? AND status = 'active'
+  `).run(error, nextSliceAt, id);
+
+  return getTwapOrder(id)?.consecutiveFailures ?? 0;
+}
+
+/**
+ * Stop an active TWAP order (user abort or repeated failures)
+ */
+export function finishTwapOrder(
+  id: number,
+  status: Extract<TwapStatus, 'aborted' | 'failed'>,
+  telegramUserId?: number
+): boolean {
+  const result = db.prepare(`
+    UPDATE twap_orders
+    SET status = ?, completed_at = CURRENT_TIMESTAMP
+    WHERE id = ? AND status = 'active'
+      AND (? IS NULL OR telegram_user_id = ?)
+  `).run(status, id, telegramUserId ?? null, telegramUserId ?? null);
+
+  return result.changes > 0;
+}
+
+/**
+ * Abort the active TWAP orders tied to a wallet that is going away
+ */
+export function abortWalletTwapOrders(walletId: number): number {
+  const result = db.prepare(`
+    UPDATE twap_orders
+    SET status = 'aborted', completed_at = CURRENT_TIMESTAMP
+    WHERE wallet_id = ? AND status = 'active'
+  `).run(walletId);
+
+  return result.changes;
+}
+
+/**
+ * Map database row to TwapOrder object
+ */
+function mapRowToTwapOrder(row: any): TwapOrder {
+  return {
+    id: row.id,
+    telegramUserId: row.telegram_user_id,
+    chatId: row.chat_id,
+    network: row.network as Network,
+    walletId: row.wallet_id,
+    tokenAddress: row.token_address,
+    tokenSymbol: row.token_symbol,
+    side: row.side as OrderSide,
+    totalAmount: row.total_amount,
+    inputDecimals: row.input_decimals,
+    outputDecimals: row.output_decimals,
+    sliceCount: row.slice_count,
+    intervalMs: row.interval_ms,
+    maxImpactPct: row.max_impact_pct,
+    slippageBps: row.slippage_bps,
+    slicesDone: row.slices_done,
+    filledIn: row.filled_in,
+    filledOut: row.filled_out,
+    consecutiveFailures: row.consecutive_failures,
+    deferrals: row.deferrals,
+    nextSliceAt: row.next_slice_at,
+    status: row.status as TwapStatus,
+    createdAt: row.created_at,
+    completedAt: row.completed_at ?? undefined,
+    lastTxHash: row.last_tx_hash ?? undefined,
+    error: row.error ?? undefined
+  };
+}
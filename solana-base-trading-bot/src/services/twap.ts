@@ -0,0 +1,402 @@
+import { Telegraf } from 'telegraf';
+import { LAMPORTS_PER_SOL } from '@solana/web3.js';
+import { formatUnits, parseEther } from 'viem';
+import { SwapQuote } from '../types';
+import { TwapOrder, CreateTwapOrderParams } from '../types/twap';
+import {
+  executeSolanaQuote,
+  getJupiterQuote,
+  getSolanaKeypair,
+  getSplTokenBalance,
+  getSplTokenDecimals,
+} from './solana';
+import {
+  executeBaseQuote,
+  getBaseAccount,
+  getBaseSwapQuote,
+  getTokenBalance,
+} from './base';
+import { getSimulationRefusal } from './slippage';
+import * as twapDb from './twap-db';
+import { formatAmount, escapeLegacyMarkdown } from '../utils/formatters';
+import { config } from '../config';
+
+// Monitoring configuration
+const POLL_INTERVAL_MS = 10000; // Slices are minutes apart, 10s keeps them close to schedule
+const MAX_SLICE_FAILURES = 3; // Stop the order after this many failed slices in a row
+export const MIN_SLICE_INTERVAL_MS = 30000;
+
+let bot: Telegraf | null = null;
+let isMonitoring = false;
+let monitoringTimeout: NodeJS.Timeout | null = null;
+
+/**
+ * Initialize the TWAP service with the Telegram bot instance
+ */
+export function initTwapService(telegrafBot: Telegraf): void {
+  bot = telegrafBot;
+  console.log('[TWAP] Service initialized');
+}
+
+/**
+ * Start the slice scheduler. Orders left active by a restart resume here.
+ */
+export function startTwapMonitoring(): void {
+  if (isMonitoring) return;
+
+  isMonitoring = true;
+  console.log('[TWAP] Starting slice scheduler...');
+  scheduleNextCheck();
+}
+
+/**
+ * Stop the slice scheduler
+ */
+export function stopTwapMonitoring(): void {
+  isMonitoring = false;
+  if (monitoringTimeout) {
+    clearTimeout(monitoringTimeout);
+    monitoringTimeout = null;
+  }
+  console.log('[TWAP] Slice scheduler stopped');
+}
+
+function scheduleNextCheck(): void {
+  if (!isMonitoring) return;
+
+  monitoringTimeout = setTimeout(async () => {
+    await runDueSlices();
+    scheduleNextCheck();
+  }, POLL_INTERVAL_MS);
+}
+
+/**
+ * Execute the next slice of every TWAP order that is due
+ */
+async function runDueSlices(): Promise<void> {
+  try {
+    const dueOrders = twapDb.getDueTwapOrders(Date.now());
+
+    for (const order of dueOrders) {
+      // Re-read so an abort issued while earlier slices were running is respected
+      const current = twapDb.getTwapOrder(order.id);
+      if (current?.status !== 'active') continue;
+
+      await executeSlice(current);
+    }
+  } catch (error) {
+    console.error('[TWAP] Error in slice scheduler:', error);
+  }
+}
+
+/**
+ * Size of the next slice: the unfilled remainder spread over the slices left
+ */
+function getNextSliceAmount(order: TwapOrder): bigint {
+  const remaining = BigInt(order.totalAmount) - BigInt(order.filledIn);
+  const slicesLeft = order.sliceCount - order.slicesDone;
+
+  if (remaining <= 0n) return 0n;
+  return slicesLeft <= 1 ? remaining : remaining / BigInt(slicesLeft);
+}
+
+function getSwapTokens(order: TwapOrder): { inputToken: string; outputToken: string } {
+  const native = order.network === 'solana' ? config.solana.nativeMint : config.base.nativeToken;
+
+  return order.side === 'buy'
+    ? { inputToken: native, outputToken: order.tokenAddress }
+    : { inputToken: order.tokenAddress, outputToken: native };
+}
+
+/**
+ * Quote a slice, or null when there is no route
+ */
+async function quoteSlice(order: TwapOrder, amount: bigint): Promise<SwapQuote | null> {
+  const { inputToken, outputToken } = getSwapTokens(order);
+
+  if (order.network === 'solana') {
+    return getJupiterQuote(inputToken, outputToken, amount.toString(), order.slippageBps);
+  }
+
+  const account = getBaseAccount(order.telegramUserId, order.walletId);
+  if (!account) return null;
+
+  return getBaseSwapQuote(order.telegramUserId, inputToken, outputToken, amount.toString(), account.address, order.slippageBps);
+}
+
+/**
+ * Why a slice has to wait for the impact ceiling, or null when it can go.
+ * An impact no aggregator reported can't be shown to be under the ceiling.
+ */
+function getImpactDeferral(order: TwapOrder, quote: SwapQuote): string | null {
+  const impact = quote.priceImpactPct;
+  if (impact === undefined) {
+    return `Price impact unknown, so the ${order.maxImpactPct}% ceiling can't be checked`;
+  }
+  return impact > order.maxImpactPct
+    ? `Price impact ${impact.toFixed(2)}% above ${order.maxImpactPct}% ceiling`
+    : null;
+}
+
+/**
+ * Execute a single slice of a TWAP order
+ */
+async function executeSlice(order: TwapOrder): Promise<void> {
+  const nextSliceAt = Date.now() + order.intervalMs;
+  const sliceAmount = getNextSliceAmount(order);
+  const sliceNumber = order.slicesDone + 1;
+
+  try {
+    if (sliceAmount === 0n) {
+      throw new Error('Nothing left to fill');
+    }
+
+    const walletUnlocked = order.network === 'solana'
+      ? !!getSolanaKeypair(order.telegramUserId, order.walletId)
+      : !!getBaseAccount(order.telegramUserId, order.walletId);
+    if (!walletUnlocked) {
+      throw new Error('Wallet locked - please unlock with /unlock');
+    }
+
+    // Impact ceiling: wait for liquidity to recover instead of eating the impact
+    const quote = await quoteSlice(order, sliceAmount);
+    if (!quote) {
+      throw new Error('Failed to get quote');
+    }
+    const reason = getImpactDeferral(order, quote);
+    if (reason) {
+      console.log(`[TWAP] Order #${order.id} slice ${sliceNumber} deferred: ${reason}`);
+
+      const deferrals = twapDb.deferTwapSlice(order.id, reason, nextSliceAt);
+      if (deferrals === 1) {
+        await notifySliceDeferred(order, sliceNumber, reason);
+      }
+      return;
+    }
+
+    // Simulate the slice as quoted, then send that same quote
+    const refusal = await getSimulationRefusal(order.telegramUserId, order.network, quote, order.walletId, order.side === 'buy');
+    if (refusal) {
+      throw new Error(refusal);
+    }
+
+    const result = order.network === 'solana'
+      ? await executeSolanaQuote(order.telegramUserId, quote, order.slippageBps, order.walletId)
+      : await executeBaseQuote(order.telegramUserId, quote, order.slippageBps, order.walletId);
+    if (!result.success) {
+      throw new Error(result.error || 'Transaction failed');
+    }
+
+    const txHash = result.signature || result.hash || '';
+    const filledIn = BigInt(order.filledIn) + BigInt(result.inputAmount || sliceAmount.toString());
+    const filledOut = BigInt(order.filledOut) + BigInt(result.outputAmount || '0');
+
+    twapDb.recordTwapSlice(order.id, filledIn.toString(), filledOut.toString(), txHash, nextSliceAt);
+    console.log(`[TWAP] Order #${order.id} slice ${sliceNumber}/${order.sliceCount} filled: ${txHash}`);
+
+    await notifySliceExecuted(twapDb.getTwapOrder(order.id)!, result.explorerUrl);
+
+  } catch (error: any) {
+    const errorMsg = error.message || 'Unknown error';
+    console.error(`[TWAP] Order #${order.id} slice ${sliceNumber} failed:`, errorMsg);
+
+    const failures = twapDb.recordTwapFailure(order.id, errorMsg, nextSliceAt);
+    const stopped = failures >= MAX_SLICE_FAILURES && twapDb.finishTwapOrder(order.id, 'failed');
+
+    await notifySliceFailed(twapDb.getTwapOrder(order.id) || order, errorMsg, stopped);
+  }
+}
+
+// ============ Notifications ============
+
+async function notifySliceExecuted(order: TwapOrder, explorerUrl?: string): Promise<void> {
+  if (!bot) return;
+
+  const sideEmoji = order.side === 'buy' ? '🟢' : '🔴';
+  const networkName = order.network === 'solana' ? 'Solana' : 'Base';
+  const finished = order.status === 'completed';
+
+  const message = [
+    `${sideEmoji} *TWAP ${finished ? 'COMPLETED' : 'SLICE FILLED'}*`,
+    ``,
+    `📊 *${escapeLegacyMarkdown(order.tokenSymbol)}* (${networkName})`,
+    ``,
+    ...formatTwapProgress(order).map(line => `• ${line}`),
+    ``,
+    explorerUrl ? `🔗 [View Transaction](${explorerUrl})` : `\`${order.lastTxHash}\``,
+  ].join('\n');
+
+  try {
+    await bot.telegram.sendMessage(order.chatId, message, {
+      parse_mode: 'Markdown',
+      link_preview_options: { is_disabled: true }
+    });
+  } catch (err) {
+    console.error('[TWAP] Failed to send slice notification:', err);
+  }
+}
+
+async function notifySliceDeferred(order: TwapOrder, sliceNumber: number, reason: string): Promise<void> {
+  if (!bot) return;
+
+  const message = [
+    `⏸ *TWAP SLICE DEFERRED*`,
+    ``,
+    `📊 *${escapeLegacyMarkdown(order.tokenSymbol)}* - TWAP #${order.id}, slice ${sliceNumber}/${order.sliceCount}`,
+    ``,
+    `${reason}.`,
+    ``,
+    `_Retrying every ${formatDuration(order.intervalMs)} until liquidity recovers. Abort with /twap._`
+  ].join('\n');
+
+  try {
+    await bot.telegram.sendMessage(order.chatId, message, { parse_mode: 'Markdown' });
+  } catch (err) {
+    console.error('[TWAP] Failed to send deferral notification:', err);
+  }
+}
+
+async function notifySliceFailed(order: TwapOrder, error: string, stopped: boolean): Promise<void> {
+  if (!bot) return;
+
+  const message = [
+    `⚠️ *TWAP SLICE FAILED*`,
+    ``,
+    `📊 *${escapeLegacyMarkdown(order.tokenSymbol)}* - TWAP #${order.id}`,
+    ``,
+    `❌ Error: ${escapeLegacyMarkdown(error)}`,
+    ``,
+    stopped
+      ? `_The order was stopped after ${MAX_SLICE_FAILURES} failed slices in a row. ${order.slicesDone}/${order.sliceCount} slices were filled._`
+      : `_The slice will be retried in ${formatDuration(order.intervalMs)}._`
+  ].join('\n');
+
+  try {
+    await bot.telegram.sendMessage(order.chatId, message, { parse_mode: 'Markdown' });
+  } catch (err) {
+    console.error('[TWAP] Failed to send failure notification:', err);
+  }
+}
+
+// ============ Public API ============
+
+/**
+ * Create a TWAP order. Sell sizes are a snapshot of the current holdings,
+ * so tokens bought later are not swept into a running order.
+ */
+export async function createTwapOrder(params: CreateTwapOrderParams): Promise<TwapOrder> {
+  const isSolana = params.network === 'solana';
+  const nativeDecimals = isSolana ? 9 : 18;
+
+  const walletAddress = isSolana
+    ? getSolanaKeypair(params.telegramUserId, params.walletId)?.publicKey.toBase58()
+    : getBaseAccount(params.telegramUserId, params.walletId)?.address;
+  if (!walletAddress) {
+    throw new Error('Wallet locked - please unlock with /unlock');
+  }
+
+  let totalAmount: bigint;
+  let inputDecimals: number;
+  let outputDecimals: number;
+
+  if (params.side === 'sell') {
+    const { balance, decimals } = isSolana
+      ? await getSplTokenBalance(walletAddress, params.tokenAddress)
+      : await getTokenBalance(walletAddress, params.tokenAddress);
+
+    totalAmount = (balance * BigInt(Math.round(params.amount))) / 100n;
+    inputDecimals = decimals;
+    outputDecimals = nativeDecimals;
+  } else {
+    totalAmount = isSolana
+      ? BigInt(Math.floor(params.amount * LAMPORTS_PER_SOL))
+      : parseEther(params.amount.toString());
+    inputDecimals = nativeDecimals;
+    outputDecimals = isSolana
+      ? await getSplTokenDecimals(params.tokenAddress)
+      : (await getTokenBalance(walletAddress, params.tokenAddress)).decimals;
+  }
+
+  if (totalAmount < BigInt(params.sliceCount)) {
+    throw new Error(params.side === 'sell' ? 'No token balance found' : 'Amount too small');
+  }
+
+  const intervalMs = Math.floor(params.durationMs / params.sliceCount);
+  if (intervalMs < MIN_SLICE_INTERVAL_MS) {
+    throw new Error('Slices must be at least 30 seconds apart');
+  }
+
+  const order = twapDb.createTwapOrder({
+    telegramUserId: params.telegramUserId,
+    chatId: params.chatId,
+    network: params.network,
+    walletId: params.walletId,
+    tokenAddress: params.tokenAddress,
+    tokenSymbol: params.tokenSymbol,
+    side: params.side,
+    totalAmount: totalAmount.toString(),
+    inputDecimals,
+    outputDecimals,
+    sliceCount: params.sliceCount,
+    intervalMs,
+    maxImpactPct: params.maxImpactPct,
+    slippageBps: params.slippageBps || 100,
+  });
+
+  console.log(`[TWAP] Created order #${order.id}: ${order.side} ${order.tokenSymbol} in ${order.sliceCount} slices every ${formatDuration(intervalMs)}`);
+
+  if (!isMonitoring) {
+    startTwapMonitoring();
+  }
+
+  return order;
+}
+
+/**
+ * Abort a running TWAP order. Slices already filled are kept.
+ */
+export function abortTwapOrder(orderId: number, userId: number): boolean {
+  return twapDb.finishTwapOrder(orderId, 'aborted', userId);
+}
+
+/**
+ * Get user's running TWAP orders
+ */
+export function getActiveTwapOrders(userId: number): TwapOrder[] {
+  return twapDb.getUserActiveTwapOrders(userId);
+}
+
+/**
+ * Progress lines for a TWAP order: slices done, average fill and remaining size
+ */
+export function formatTwapProgress(order: TwapOrder): string[] {
+  const currency = order.network === 'solana' ? 'SOL' : 'ETH';
+  const inputUnit = order.side === 'buy' ? currency : order.tokenSymbol;
+
+  const filledIn = parseFloat(formatUnits(BigInt(order.filledIn), order.inputDecimals));
+  const filledOut = parseFloat(formatUnits(BigInt(order.filledOut), order.outputDecimals));
+  const remaining = BigInt(order.totalAmount) - BigInt(order.filledIn);
+
+  // Average fill in SOL/ETH per token
+  const nativeAmount = order.side === 'buy' ? filledIn : filledOut;
+  const tokenAmount = order.side === 'buy' ? filledOut : filledIn;
+  const averageFill = tokenAmount > 0 ? nativeAmount / tokenAmount : 0;
+
+  return [
+    `Slices: ${order.slicesDone}/${order.sliceCount}`,
+    `Filled: ${formatAmount(filledIn)} ${inputUnit}`,
+    `Avg Fill: ${averageFill > 0 ? `${formatAmount(averageFill)} ${currency}` : '-'}`,
+    `Remaining: ${formatAmount(parseFloat(formatUnits(remaining > 0n ? remaining : 0n, order.inputDecimals)))} ${inputUnit}`,
+  ];
+}
+
+// ============ Helpers ============
+
+export function formatDuration(ms: number): string {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 1) return `${Math.round(ms / 1000)}s`;
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  return minutes % 60 === 0 ? `${hours}h` : `${hours}h ${minutes % 60}m`;
+}
+
@@ -0,0 +1,132 @@
+import { Connection, SignatureStatus, TransactionError } from '@solana/web3.js';
+import { LandingOutcome } from '../types';
+
+// Resend the same signed bytes this often until it lands or its blockhash expires
+const REBROADCAST_INTERVAL_MS = 400;
+
+// Block height only moves every ~400ms, so it is checked less often than the status
+const BLOCK_HEIGHT_CHECK_INTERVAL_MS = 2000;
+
+// Hard stop in case the RPC never reports a status or block height (blockhashes live ~60-90s)
+const MAX_LANDING_MS = 120000;
+
+export interface LandingResult {
+  outcome: LandingOutcome;
+  signature: string;
+  error?: string; // Program error when the transaction failed on-chain
+}
+
+/**
+ * Broadcast a signed transaction and keep resending it until it confirms or
+ * its blockhash expires. Resending the same signature can never execute twice,
+ * so an 'expired' result means it did not land and is safe to retry.
+ */
+export async function sendAndConfirm(
+  connection: Connection,
+  rawTransaction: Buffer | Uint8Array,
+  signature: string,
+  lastValidBlockHeight: number,
+  skipPreflight: boolean = true
+): Promise<LandingResult> {
+  // First send may simulate; a preflight rejection throws before anything is broadcast
+  await connection.sendRawTransaction(rawTransaction, { skipPreflight, maxRetries: 0 });
+
+  const startedAt = Date.now();
+  let lastHeightCheck = 0;
+
+  while (Date.now() - startedAt < MAX_LANDING_MS) {
+    await sleep(REBROADCAST_INTERVAL_MS);
+
+    const status = await getStatus(connection, signature);
+    if (status) {
+      const landed = toLandingResult(signature, status);
+      if (landed) return landed;
+      // Processed but not yet confirmed: it's in a block, so stop resending and wait
+      continue;
+    }
+
+    if (Date.now() - lastHeightCheck >= BLOCK_HEIGHT_CHECK_INTERVAL_MS) {
+      lastHeightCheck = Date.now();
+      const blockHeight = await connection.getBlockHeight('confirmed').catch(() => 0);
+      if (blockHeight > lastValidBlockHeight) {
+        // One last look in case it landed right before expiry; an RPC error here proves nothing
+        const finalStatus = await connection
+          .getSignatureStatuses([signature], { searchTransactionHistory: true })
+          .then(({ value }) => value[0], () => undefined);
+        if (finalStatus === null) {
+          return { outcome: 'expired', signature };
+        }
+        continue;
+      }
+    }
+
+    connection.sendRawTransaction(rawTransaction, { skipPreflight: true, maxRetries: 0 }).catch(() => {});
+  }
+
+  throw new Error(`Could not confirm ${signature} - check the explorer before retrying`);
+}
+
+/**
+ * Poll a signature without broadcasting it (e.g. while a Jito bundle is in flight).
+ * Returns null if it hasn't confirmed within `timeoutMs`.
+ */
+export async function waitForLanding(
+  connection: Connection,
+  signature: string,
+  timeoutMs: number
+): Promise<LandingResult | null> {
+  const deadline = Date.now() + timeoutMs;
+
+  while (Date.now() < deadline) {
+    const status = await getStatus(connection, signature);
+    const landed = status && toLandingResult(signature, status);
+    if (landed) return landed;
+    await sleep(1000);
+  }
+
+  return null;
+}
+
+/**
+ * Readable form of a transaction error, e.g. "instruction 2: custom program error 0x1771"
+ */
+export function describeTransactionError(err: TransactionError): string {
+  if (typeof err === 'string') return err;
+
+  const instructionError = (err as any).InstructionError;
+  if (Array.isArray(instructionError)) {
+    const [index, detail] = instructionError;
+    if (typeof detail === 'string') return `instruction ${index}: ${detail}`;
+    if (detail && typeof detail.Custom === 'number') {
+      return `instruction ${index}: custom program error 0x${detail.Custom.toString(16)}`;
+    }
+    return `instruction ${index}: ${JSON.stringify(detail)}`;
+  }
+
+  return JSON.stringify(err);
+}
+
+// ============ Helpers ============
+
+async function getStatus(connection: Connection, signature: string): Promise<SignatureStatus | null> {
+  try {
+    const { value } = await connection.getSignatureStatuses([signature]);
+    return value[0];
+  } catch {
+    return null;
+  }
+}
+
+function toLandingResult(signature: string, status: SignatureStatus): LandingResult | null {
+  if (status.err) {
+    return { outcome: 'failed', signature, error: describeTransactionError(status.err) };
+  }
+  if (status.confirmationStatus === 'confirmed' || status.confirmationStatus === 'finalized') {
+    return { outcome: 'landed', signature };
+  }
+  return null;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,54 @@
+import { Network, QueuedCallback } from '../types';
+
+// Last task in each wallet's queue, and how many are waiting or running
+const tails = new Map<string, Promise<void>>();
+const sizes = new Map<string, number>();
+
+/**
+ * Queue key for a wallet
+ */
+export function walletKey(network: Network, address: string): string {
+  return `${network}:${network === 'base' ? address.toLowerCase() : address}`;
+}
+
+/**
+ * Run `task` once every earlier task for the same wallet has settled.
+ * On Base this keeps nonces in order; on Solana it keeps one swap or
+ * withdrawal in flight per wallet so two can't spend the same balance.
+ * Different wallets never wait on each other.
+ */
+export async function runExclusive<T>(
+  key: string,
+  task: () => Promise<T>,
+  onQueued?: QueuedCallback
+): Promise<T> {
+  const ahead = sizes.get(key) || 0;
+  sizes.set(key, ahead + 1);
+
+  const previous = tails.get(key) || Promise.resolve();
+  let release: () => void;
+  const done = new Promise<void>(resolve => { release = resolve; });
+  tails.set(key, previous.then(() => done));
+
+  if (ahead > 0 && onQueued) {
+    try {
+      onQueued(ahead);
+    } catch (error) {
+      console.error('[WalletQueue] Queued callback failed:', error);
+    }
+  }
+
+  try {
+    await previous;
+    return await task();
+  } finally {
+    release!();
+    const left = sizes.get(key)! - 1;
+    if (left === 0) {
+      sizes.delete(key);
+      tails.delete(key);
+    } else {
+      sizes.set(key, left);
+    }
+  }
+}
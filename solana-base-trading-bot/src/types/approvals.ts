@@ -0,0 +1,21 @@
+// ERC-20 allowance a Base wallet granted, saved when the bot sent the approve
+export interface TokenApproval {
+  id: number;
+  walletAddress: string;
+  tokenAddress: string;
+  spender: string;
+  amount: string; // Raw amount approved, max uint256 for unlimited
+  createdAt: string;
+}
+
+// Allowance still open on-chain, from a saved approval or found by checking traded tokens
+export interface TokenAllowance {
+  tokenAddress: string;
+  symbol: string;
+  spender: string;
+  spenderName: string; // e.g. "Odos Router"
+  allowance: string; // Raw remaining amount
+  allowanceFormatted: string;
+  decimals: number;
+  unlimited: boolean;
+}
@@ -0,0 +1,28 @@
+// How a tracked Base transaction's nonce was used up:
+// 'cancelled' = our zero-value self-send landed, 'replaced' = a transaction the bot didn't send
+export type BaseTxOutcome = 'confirmed' | 'reverted' | 'cancelled' | 'replaced';
+
+// Call resent with bumped fees on speed-up
+export interface BaseTxRequest {
+  to: string;
+  data?: string;
+  value: bigint;
+  gas?: bigint;
+}
+
+// Base transaction waiting to be mined, tracked by its sender and nonce
+export interface PendingBaseTransaction {
+  id: number;
+  telegramUserId: number;
+  walletId?: number;
+  from: string;
+  nonce: number;
+  label: string; // e.g. "Swap" or "Withdrawal"
+  request: BaseTxRequest;
+  maxFeePerGas: bigint; // Fees of the latest send
+  maxPriorityFeePerGas: bigint;
+  hashes: string[]; // Original first, then each replacement
+  cancelHash?: string;
+  sentAt: number; // Unix ms
+  promptMessageId?: number; // Speed up / Cancel message, edited with the outcome
+}
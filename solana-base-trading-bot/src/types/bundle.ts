@@ -0,0 +1,41 @@
+import { Network, QuoteCurrency } from './index';
+import { OrderSide } from './trigger-orders';
+
+// One wallet's share of a bundle
+export interface BundleLeg {
+  walletId: number;
+  walletName: string;
+  // For buys: amount in the quote currency (SOL/ETH or USDC)
+  // For sells: percentage of that wallet's holdings (1-100)
+  amount: number;
+}
+
+export interface BundleLegResult extends BundleLeg {
+  success: boolean;
+  signature?: string;
+  explorerUrl?: string;
+  error?: string;
+}
+
+export interface ExecuteBundleParams {
+  telegramUserId: number;
+  network: Network;
+  tokenAddress: string;
+  tokenSymbol: string;
+  side: OrderSide;
+  legs: BundleLeg[];
+  slippageBps: number;
+  quoteCurrency: QuoteCurrency;
+}
+
+// Pending bundle creation state
+export interface PendingBundle {
+  stage: 'select_wallets' | 'enter_amount' | 'select_split' | 'enter_weights' | 'confirm';
+  network: Network;
+  tokenAddress: string;
+  tokenSymbol: string;
+  side: OrderSide;
+  walletIds: number[]; // Selected wallets, in wallet order
+  amount?: number; // Total quote amount for buys, % of each wallet's holdings for sells
+  weights?: number[]; // Custom buy split, one weight per selected wallet
+}
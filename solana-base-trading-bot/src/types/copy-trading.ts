@@ -0,0 +1,83 @@
+import { Network } from './index';
+import { OrderSide } from './trigger-orders';
+
+export type CopySizingMode = 'fixed' | 'percent';
+export type CopyFilterMode = 'all' | 'allow' | 'deny';
+export type CopyLeaderStatus = 'active' | 'paused';
+
+// An external wallet a user follows, and how its swaps are replayed
+export interface CopyLeader {
+  id: number;
+  telegramUserId: number;
+  chatId: number;
+  network: Network;
+  walletId: number; // Follower wallet that signs the mirrored trades
+  leaderAddress: string;
+
+  // Buy sizing
+  // fixed: sizeValue SOL/ETH per trade
+  // percent: sizeValue % of the leader's SOL/ETH size
+  sizingMode: CopySizingMode;
+  sizeValue: number;
+  maxPerTrade?: number; // SOL/ETH cap per mirrored buy
+
+  // Token filter
+  filterMode: CopyFilterMode;
+  filterTokens: string[];
+
+  // State
+  status: CopyLeaderStatus;
+  cursor?: string; // Source position (last signature / block) already processed
+  tradesCopied: number;
+  createdAt: string;
+  lastTradeAt?: string;
+  error?: string;
+}
+
+export interface CreateCopyLeaderParams {
+  telegramUserId: number;
+  chatId: number;
+  network: Network;
+  walletId: number;
+  leaderAddress: string;
+  sizingMode: CopySizingMode;
+  sizeValue: number;
+  maxPerTrade?: number;
+  filterMode: CopyFilterMode;
+  filterTokens: string[];
+}
+
+// A swap made by a leader, as seen by a swap source
+export interface LeaderSwap {
+  txHash: string;
+  tokenAddress: string;
+  side: OrderSide;
+  nativeAmount: number; // SOL/ETH the leader spent (buys) or received (sells), 0 if unknown
+  soldPercent?: number; // Sells: share of the leader's balance that was sold
+}
+
+export interface LeaderSwapPoll {
+  swaps: LeaderSwap[]; // Oldest first
+  cursor?: string; // Pass back on the next poll to only get newer swaps
+}
+
+/**
+ * Where leader swaps come from. Implementations poll a chain for the
+ * leader's recent activity; a first poll without a cursor only returns
+ * a starting cursor so history is never replayed.
+ */
+export interface LeaderSwapSource {
+  poll(leaderAddress: string, cursor?: string): Promise<LeaderSwapPoll>;
+}
+
+// Pending leader setup state
+export interface PendingCopyLeader {
+  stage: 'enter_address' | 'select_sizing' | 'enter_size' | 'enter_max' | 'select_filter' | 'enter_filter' | 'confirm';
+  network?: Network;
+  leaderAddress?: string;
+  sizingMode?: CopySizingMode;
+  sizeValue?: number;
+  maxPerTrade?: number;
+  filterMode?: CopyFilterMode;
+  filterTokens?: string[];
+}
@@ -1,6 +1,18 @@
 // Network types
 export type Network = 'solana' | 'base';
 
+// What buys are paid with and sells pay out in: SOL/ETH or USDC
+export type QuoteCurrency = 'native' | 'usdc';
+
+// Solana priority fee: percentile of recent fees, or a fixed custom fee
+export type PriorityFeePreset = 'normal' | 'fast' | 'turbo' | 'custom';
+
+// Base gas speed: percentile of recent priority tips, or a fixed custom tip
+export type GasSpeedPreset = 'eco' | 'normal' | 'fast' | 'turbo' | 'custom';
+
+// What a Base transaction does; each has its own gas speed
+export type GasAction = 'buy' | 'sell' | 'withdraw';
+
 // Token information from DexScreener
 export interface TokenInfo {
   address: string;
@@ -13,6 +25,8 @@ export interface TokenInfo {
   marketCap?: number;
   volume24h?: number;
   priceChange24h?: number;
+  priceChange1h?: number;
+  priceChange5m?: number;
   liquidity?: number;
   logoUrl?: string;
   network: Network;
@@ -28,6 +42,8 @@ export interface UserWallet {
   id: number;
   telegramUserId: number;
   network: Network;
+  name: string;
+  isActive: boolean;
   address: string;
   encryptedPrivateKey: string;
   createdAt: string;
@@ -54,7 +70,33 @@ export interface TradeSettings {
   defaultBuyAmountEth?: string;
   defaultBuyPercentage?: number;
   slippageBps: number;
-  priorityFeeLamports?: number;
+  autoSlippage: boolean; // Derive slippage from each quote's impact and the token's volatility
+  maxSlippageBps: number; // Auto slippage never goes above this
+  maxPriceImpactPct: number; // Quotes above this impact are refused, 0 = no limit
+  priorityFeePreset: PriorityFeePreset;
+  priorityFeeLamports?: number; // Custom preset: total priority fee per swap
+  priorityFeeMaxLamports?: number; // Presets never bid above this
+  quoteCurrency: QuoteCurrency;
+  autoSell: AutoSellPreset;
+  // Solana only: send swaps as Jito bundles
+  jitoEnabled: boolean;
+  jitoBlockEngineUrl?: string; // Overrides the default block engine
+  jitoTipLamports: number;
+  // Base only: EIP-1559 gas
+  gasPresets: Record<GasAction, GasSpeedPreset>;
+  gasPriorityTipGwei?: number; // Custom preset tip
+  gasMaxFeeGwei?: number; // maxFeePerGas never goes above this, unset = no cap
+  gasLimitMultiplier: number; // Applied to the estimated gas limit
+  exactApprovals: boolean; // Approve only each sell's amount instead of unlimited
+}
+
+// Take-profit / stop-loss orders placed automatically after every buy
+export interface AutoSellPreset {
+  enabled: boolean;
+  takeProfitPercent: number; // Gain over the fill price, 0 = no take-profit
+  takeProfitSellPercent: number; // % of holdings sold when it fires
+  stopLossPercent: number; // Drop below the fill price, 0 = no stop-loss
+  stopLossSellPercent: number;
 }
 
 export interface PendingTrade {
@@ -65,6 +107,7 @@ export interface PendingTrade {
   network: Network;
   action: 'buy' | 'sell';
   stage: 'confirm_token' | 'select_amount' | 'confirm_trade';
+  amountMode?: 'native' | 'tokens'; // 'tokens' = buy an exact number of tokens
 }
 
 // Quote types
@@ -77,6 +120,78 @@ export interface SwapQuote {
   priceImpact: string;
   route: string;
   estimatedGas?: string;
+  priceImpactPct?: number; // Price impact normalized to percent
+  swapMode?: 'ExactIn' | 'ExactOut';
+  inputAmountFormatted?: string;
+  maximumInputAmount?: string; // Raw maximum spent after slippage (exact-output quotes)
+  maximumInputFormatted?: string;
+  outputDecimals?: number;
+  minimumOutputAmount?: string; // Raw minimum received after slippage
+  minimumOutputFormatted?: string;
+  estimatedFee?: string; // Human readable network fee estimate
+  transferFeeBps?: number; // Token-2022 fee charged on the input token, already added to slippage
+  quotedAt?: number; // Unix ms
+  raw?: any; // Aggregator quote the swap transaction is built from
+  // Base only: quotes are compared across aggregators
+  aggregator?: BaseAggregator;
+  spender?: string; // Contract the input token must be approved to
+  netOutputAmount?: string; // Raw output minus gas, in output token units
+  alternatives?: SwapQuote[]; // The other aggregators' quotes, best first, tried if this one fails
+  routing?: RouteComparison;
+}
+
+// Base swap aggregators
+export type BaseAggregator = 'odos' | '1inch' | 'llamaswap';
+
+// Which aggregator a Base swap went through and what picking it was worth
+export interface RouteComparison {
+  aggregator: BaseAggregator;
+  runnerUp?: BaseAggregator;
+  runnerUpDeltaPct?: number; // Net output over the runner-up after gas, in percent
+  fallbackFrom?: BaseAggregator[]; // Better-ranked aggregators that failed first
+}
+
+// Options for executing a swap
+export interface SwapExecutionOptions {
+  quote?: SwapQuote; // Execute this previously confirmed quote instead of re-quoting
+  walletId?: number; // Sign with this wallet instead of the active one
+  jito?: JitoOptions | null; // Solana: send as a Jito bundle. Defaults to the user's setting, null forces a normal send
+  onQueued?: QueuedCallback; // Called when the swap waits for an earlier one from the same wallet
+}
+
+// Called when a transaction has to wait for earlier ones from the same wallet, with how many are ahead
+export type QueuedCallback = (ahead: number) => void;
+
+export interface JitoOptions {
+  blockEngineUrl: string;
+  tipLamports: number;
+}
+
+// Swap awaiting confirmation after a quote preview
+export interface PendingSwap {
+  network: Network;
+  side: 'buy' | 'sell' | 'swap';
+  tokenAddress: string; // Output token for swaps
+  tokenSymbol: string;
+  inputSymbol?: string; // Input token symbol for swaps
+  amount: number; // Quote currency for buys, % of holdings for sells, input tokens for swaps
+  exactOutput?: number; // Target token amount for exact-output buys
+  slippageBps: number;
+  quoteCurrency: QuoteCurrency;
+  walletId: number; // Wallet the quote was made for
+  quote: SwapQuote;
+  simulation?: SwapSimulation | null; // Result shown in the preview, null when it couldn't run
+  blocked?: boolean; // Failed simulation or unsellable token: needs the explicit override to send
+}
+
+// Token-to-token swap setup, before the swap is quoted
+export interface PendingTokenSwap {
+  stage: 'enter_output' | 'select_amount' | 'enter_amount';
+  network: Network;
+  inputToken: string;
+  inputSymbol: string;
+  outputToken?: string;
+  outputSymbol?: string;
 }
 
 // Transaction result
@@ -87,6 +202,26 @@ export interface TransactionResult {
   hash?: string;
   error?: string;
   explorerUrl?: string;
+  // Raw input/output amounts of the quote the swap was built from
+  inputAmount?: string;
+  outputAmount?: string;
+  priorityFeeLamports?: number; // Solana priority fee paid on top of the base fee
+  landing?: LandingOutcome; // Solana: whether the transaction made it on-chain
+  routing?: RouteComparison; // Base: aggregator the swap went through
+}
+
+// 'expired' never reached a block and is safe to retry; 'failed' landed with a program error
+export type LandingOutcome = 'landed' | 'expired' | 'failed';
+
+// Result of simulating a quoted swap before it is sent
+export interface SwapSimulation {
+  success: boolean; // False when the swap itself fails in simulation
+  error?: string;
+  // Buys only: whether the tokens received could be sold straight back. Unset when not checked
+  sellable?: boolean;
+  buyTaxPercent?: number; // Shortfall of tokens received vs the quote
+  sellTaxPercent?: number; // Round-trip loss not explained by the buy tax (includes pool fees)
+  sellBackUnavailable?: boolean; // Buys only: the sell-back couldn't be simulated, so `sellable` is unset
 }
 
 // DexScreener API response types
@@ -179,12 +314,20 @@ export interface JupiterSwapResponse {
   prioritizationFeeLamports?: number;
 }
 
+// Token-2022 transfer fee in effect for the current epoch
+export interface TransferFee {
+  basisPoints: number;
+  maximumFee: bigint; // Raw token cap per transfer
+}
+
 // Pending withdraw state
 export interface PendingWithdraw {
   network: Network;
+  walletId?: number; // Wallet the withdraw was started from
   tokenAddress?: string; // undefined = native (SOL/ETH)
   tokenSymbol?: string;
   tokenDecimals?: number;
+  transferFeeBps?: number; // Token-2022 fee the recipient loses on arrival
   toAddress?: string;
   amount?: string; // "all" or a number
   stage: 'select_token' | 'enter_address' | 'enter_amount' | 'confirm';
@@ -201,10 +344,26 @@ export interface UserState {
   currentAction?: 'buying' | 'selling' | 'settings' | 'withdrawing' | 'limit_order';
   pendingTrade?: PendingTrade;
   selectedNetwork?: Network;
+  // Naming an additional wallet before creating or importing it
+  pendingWalletName?: { network: Network; mode: 'create' | 'import' };
+  importWalletName?: string;
   pendingWithdraw?: PendingWithdraw;
   pendingTriggerOrder?: import('./trigger-orders').PendingTriggerOrder;
+  pendingDcaSchedule?: import('./trigger-orders').PendingDcaSchedule;
+  pendingTwapOrder?: import('./twap').PendingTwapOrder;
+  pendingBundle?: import('./bundle').PendingBundle;
+  pendingCopyLeader?: import('./copy-trading').PendingCopyLeader;
+  pendingSwap?: PendingSwap;
+  pendingTokenSwap?: PendingTokenSwap;
+  // Editing one leg of the auto TP/SL preset
+  pendingAutoSell?: { network: Network; leg: 'tp' | 'sl' };
+  pendingJitoUrl?: boolean;
+  pendingPriorityFee?: 'custom' | 'max';
+  pendingGasSetting?: 'tip' | 'maxFee' | 'limit';
+  // Editing the auto slippage cap or the price impact limit
+  pendingSlippageLimit?: { network: Network; field: 'maxSlippage' | 'maxImpact' };
   // Auto-unlock: pending buy that triggered a password prompt
-  pendingBuyAfterUnlock?: { network: Network; tokenAddress: string; amount: number };
+  pendingBuyAfterUnlock?: { network: Network; tokenAddress: string; amount: number; amountMode?: 'native' | 'tokens' };
 }
 
 // Callback data structure
@@ -0,0 +1,17 @@
+import { Network } from './index';
+
+// 'danger' flags are reasons to stay away, 'warn' ones deserve a second look
+export type SafetyLevel = 'ok' | 'warn' | 'danger';
+
+export interface SafetyFlag {
+  level: SafetyLevel;
+  label: string;
+}
+
+export interface TokenSafetyReport {
+  network: Network;
+  score: number; // 0-100, starts at 100 and drops per warn/danger flag
+  flags: SafetyFlag[];
+  unavailable?: boolean; // The checks didn't finish in time; score and flags are empty
+  partial?: boolean; // Some checks couldn't run, so the score would overstate safety and isn't shown
+}
@@ -1,15 +1,16 @@
-import { Network } from './index';
+import { AutoSellPreset, Network, QuoteCurrency } from './index';
 
-export type TriggerType = 'price' | 'marketcap';
+export type TriggerType = 'price' | 'marketcap' | 'trailing';
 export type TriggerCondition = 'above' | 'below';
 export type OrderSide = 'buy' | 'sell';
-export type OrderStatus = 'active' | 'triggered' | 'executed' | 'failed' | 'cancelled';
+export type OrderStatus = 'active' | 'triggered' | 'executed' | 'failed' | 'cancelled' | 'expired';
 
 export interface TriggerOrder {
   id: number;
   telegramUserId: number;
   chatId: number;
   network: Network;
+  walletId: number; // Wallet that signs the trade
   tokenAddress: string;
   tokenSymbol: string;
   
@@ -17,16 +18,27 @@ export interface TriggerOrder {
   side: OrderSide;
   triggerType: TriggerType;
   triggerCondition: TriggerCondition;
-  triggerValue: number; // USD price or market cap
+  triggerValue: number; // USD price or market cap (current stop level for trailing orders)
+  
+  // Trailing stop configuration
+  trailPercent?: number; // % drop from the peak that fires the order
+  highWaterMark?: number; // Highest USD price seen since creation
+  
+  // One-cancels-other group (take-profit + stop-loss brackets)
+  groupId?: number;
+  
+  // Good-til-time: the order expires at this Unix ms timestamp
+  expiresAt?: number;
   
   // Amount to trade
-  // For buys: amount in SOL/ETH
+  // For buys: amount in the quote currency (SOL/ETH or USDC)
   // For sells: percentage of holdings (1-100)
   amount: string;
   amountType: 'fixed' | 'percentage';
   
   // Execution settings
   slippageBps: number;
+  quoteCurrency: QuoteCurrency; // Snapshot of the user's setting at creation
   
   // State
   status: OrderStatus;
@@ -47,21 +59,64 @@ export interface CreateTriggerOrderParams {
   telegramUserId: number;
   chatId: number;
   network: Network;
+  walletId: number;
   tokenAddress: string;
   tokenSymbol: string;
   side: OrderSide;
   triggerType: TriggerType;
   triggerCondition: TriggerCondition;
   triggerValue: number;
+  trailPercent?: number;
   amount: string;
   amountType: 'fixed' | 'percentage';
   slippageBps?: number;
+  quoteCurrency?: QuoteCurrency;
   currentPrice: number;
+  expiresAt?: number;
+}
+
+export interface CreateBracketOrderParams {
+  telegramUserId: number;
+  chatId: number;
+  network: Network;
+  walletId: number;
+  tokenAddress: string;
+  tokenSymbol: string;
+  takeProfitPrice: number;
+  stopLossPrice: number;
+  sellPercentage: number; // Percentage of holdings sold by whichever leg fires
+  slippageBps?: number;
+  quoteCurrency?: QuoteCurrency;
+  currentPrice: number;
+}
+
+export interface CreateAutoSellOrdersParams {
+  telegramUserId: number;
+  chatId: number;
+  network: Network;
+  walletId: number;
+  tokenAddress: string;
+  tokenSymbol: string;
+  preset: AutoSellPreset;
+  fillPrice: number; // USD price the buy filled at; TP/SL levels are relative to it
+  slippageBps?: number;
+  quoteCurrency?: QuoteCurrency;
 }
 
 // Pending order creation state
 export interface PendingTriggerOrder {
-  stage: 'select_type' | 'select_trigger' | 'enter_price' | 'enter_amount' | 'confirm';
+  stage:
+    | 'select_type'
+    | 'select_trigger'
+    | 'enter_price'
+    | 'enter_trail'
+    | 'enter_amount'
+    | 'select_expiry'
+    | 'confirm'
+    | 'bracket_tp'
+    | 'bracket_sl'
+    | 'bracket_amount'
+    | 'bracket_confirm';
   network?: Network;
   tokenAddress?: string;
   tokenSymbol?: string;
@@ -69,8 +124,74 @@ export interface PendingTriggerOrder {
   triggerType?: TriggerType;
   triggerCondition?: TriggerCondition;
   triggerValue?: number;
+  trailPercent?: number;
   amount?: string;
   amountType?: 'fixed' | 'percentage';
+  expiresAt?: number;
   currentPrice?: number;
   currentMcap?: number;
+  // Bracket (TP/SL) legs
+  takeProfitPrice?: number;
+  stopLossPrice?: number;
+}
+
+// ============ DCA Schedules ============
+
+export type DcaInterval = 'hourly' | 'daily' | 'weekly';
+export type DcaStatus = 'active' | 'paused' | 'completed' | 'cancelled';
+
+export interface DcaSchedule {
+  id: number;
+  telegramUserId: number;
+  chatId: number;
+  network: Network;
+  walletId: number; // Wallet that signs each buy
+  tokenAddress: string;
+  tokenSymbol: string;
+  
+  // Buy configuration
+  amountPerBuy: string; // SOL/ETH spent on each execution
+  interval: DcaInterval;
+  totalExecutions: number;
+  slippageBps: number;
+  
+  // Progress
+  executionsDone: number;
+  totalSpent: number; // SOL/ETH spent so far
+  consecutiveFailures: number;
+  status: DcaStatus;
+  nextRunAt: number; // Unix ms
+  
+  // Timestamps
+  createdAt: string;
+  lastRunAt?: string;
+  
+  // Last execution result
+  lastTxHash?: string;
+  lastError?: string;
+}
+
+export interface CreateDcaScheduleParams {
+  telegramUserId: number;
+  chatId: number;
+  network: Network;
+  walletId: number;
+  tokenAddress: string;
+  tokenSymbol: string;
+  amountPerBuy: string;
+  interval: DcaInterval;
+  totalExecutions: number;
+  slippageBps?: number;
+}
+
+// Pending DCA schedule creation state
+export interface PendingDcaSchedule {
+  stage: 'select_network' | 'enter_token' | 'enter_amount' | 'select_interval' | 'enter_count' | 'confirm';
+  network?: Network;
+  tokenAddress?: string;
+  tokenSymbol?: string;
+  currentPrice?: number;
+  amountPerBuy?: string;
+  interval?: DcaInterval;
+  totalExecutions?: number;
 }
@@ -0,0 +1,73 @@
+import { Network } from './index';
+import { OrderSide } from './trigger-orders';
+
+export type TwapStatus = 'active' | 'completed' | 'aborted' | 'failed';
+
+export interface TwapOrder {
+  id: number;
+  telegramUserId: number;
+  chatId: number;
+  network: Network;
+  walletId: number; // Wallet that signs every slice
+  tokenAddress: string;
+  tokenSymbol: string;
+  side: OrderSide;
+
+  // Order size in raw units of the input token
+  // For buys: lamports/wei
+  // For sells: token base units (snapshot of the % of holdings at creation)
+  totalAmount: string;
+  inputDecimals: number;
+  outputDecimals: number;
+
+  // Schedule
+  sliceCount: number;
+  intervalMs: number;
+  maxImpactPct: number; // Slices quoting above this price impact are deferred
+  slippageBps: number;
+
+  // Progress (raw units, from the quotes each slice executed against)
+  slicesDone: number;
+  filledIn: string;
+  filledOut: string;
+  consecutiveFailures: number;
+  deferrals: number; // Times the current slice was deferred for price impact
+  nextSliceAt: number; // Unix ms
+
+  // State
+  status: TwapStatus;
+  createdAt: string;
+  completedAt?: string;
+  lastTxHash?: string;
+  error?: string;
+}
+
+export interface CreateTwapOrderParams {
+  telegramUserId: number;
+  chatId: number;
+  network: Network;
+  walletId: number;
+  tokenAddress: string;
+  tokenSymbol: string;
+  side: OrderSide;
+  // For buys: SOL/ETH amount
+  // For sells: percentage of holdings (1-100)
+  amount: number;
+  sliceCount: number;
+  durationMs: number;
+  maxImpactPct: number;
+  slippageBps?: number;
+}
+
+// Pending TWAP creation state
+export interface PendingTwapOrder {
+  stage: 'enter_amount' | 'select_slices' | 'select_duration' | 'select_impact' | 'confirm';
+  network: Network;
+  tokenAddress: string;
+  tokenSymbol: string;
+  side: OrderSide;
+  amount?: number;
+  sliceCount?: number;
+  durationMs?: number;
+  maxImpactPct?: number;
+}
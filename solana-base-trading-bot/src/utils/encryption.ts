@@ -3,7 +3,6 @@ import crypto from 'crypto';
 const ALGORITHM = 'aes-256-gcm'; // GCM provides authentication (better than CBC)
 const IV_LENGTH = 16;
 const SALT_LENGTH = 32;
-const TAG_LENGTH = 16;
 const KEY_LENGTH = 32;
 const PBKDF2_ITERATIONS = 310000; // OWASP 2023 recommendation for SHA-256
 
@@ -180,7 +179,6 @@ export function createSessionEncryption(): {
 // These functions handle the OLD encryption format during migration
 
 const LEGACY_ALGORITHM = 'aes-256-cbc';
-const LEGACY_IV_LENGTH = 16;
 
 /**
  * Decrypt using the OLD server-key method (for migration only)
@@ -1,4 +1,4 @@
-import { Network } from '../types';
+import { Network, QuoteCurrency, TradeSettings, GasSpeedPreset, BaseAggregator, RouteComparison } from '../types';
 import { config } from '../config';
 
 /**
@@ -58,6 +58,15 @@ export function formatTokenAmount(amount: string | number, decimals: number): st
   return formatNumber(formatted, 4);
 }
 
+/**
+ * Format a trade amount to 6 significant digits without trailing zeros
+ */
+export function formatAmount(amount: number): string {
+  if (amount === 0) return '0';
+  if (Math.abs(amount) < 0.000001) return amount.toExponential(2);
+  return parseFloat(amount.toPrecision(6)).toString();
+}
+
 /**
  * Format percentage change with color indicator
  */
@@ -85,6 +94,98 @@ export function getExplorerUrl(txHash: string, network: Network): string {
   return config.explorers[network] + txHash;
 }
 
+/**
+ * Symbol of the currency buys are paid with and sells pay out in
+ */
+export function getQuoteSymbol(network: Network, quoteCurrency: QuoteCurrency = 'native'): string {
+  if (quoteCurrency === 'usdc') return 'USDC';
+  return network === 'solana' ? 'SOL' : 'ETH';
+}
+
+/**
+ * Format a lamport amount as SOL
+ */
+export function formatLamports(lamports: number): string {
+  return `${parseFloat((lamports / 1_000_000_000).toPrecision(4))} SOL`;
+}
+
+/**
+ * Warning line for a Token-2022 transfer fee, with what arrives when the amount is known
+ */
+export function formatTransferFeeNote(basisPoints: number, amount?: string): string {
+  const percent = basisPoints / 100;
+  const sent = parseFloat(amount || '');
+  const arrives = isNaN(sent) ? '' : ` - recipient gets ~${formatNumber(sent * (1 - percent / 100), 6)}`;
+  return `⚠️ Token-2022 transfer fee: ${percent}%${arrives}`;
+}
+
+/**
+ * Describe the Solana priority fee setting, e.g. "Fast (max 0.005 SOL)"
+ */
+export function formatPriorityFee(settings: TradeSettings): string {
+  const cap = settings.priorityFeeMaxLamports ? ` (max ${formatLamports(settings.priorityFeeMaxLamports)})` : '';
+
+  if (settings.priorityFeePreset === 'custom') {
+    return `Custom ${formatLamports(settings.priorityFeeLamports || 0)}${cap}`;
+  }
+  const name = settings.priorityFeePreset.charAt(0).toUpperCase() + settings.priorityFeePreset.slice(1);
+  return `${name}${cap}`;
+}
+
+const GAS_PRESET_LABELS: Record<GasSpeedPreset, string> = {
+  eco: '🐢 Eco',
+  normal: '🚶 Normal',
+  fast: '🐇 Fast',
+  turbo: '🚀 Turbo',
+  custom: '✏️ Custom',
+};
+
+/**
+ * Label for a Base gas speed, e.g. "🚀 Turbo"
+ */
+export function formatGasPreset(preset: GasSpeedPreset): string {
+  return GAS_PRESET_LABELS[preset];
+}
+
+/**
+ * Describe the Base gas limits, e.g. "tip 0.01 gwei, max fee 1 gwei, limit x1.2"
+ */
+export function formatGasLimits(settings: TradeSettings): string {
+  return [
+    settings.gasPriorityTipGwei !== undefined ? `custom tip ${settings.gasPriorityTipGwei} gwei` : null,
+    settings.gasMaxFeeGwei ? `max fee ${settings.gasMaxFeeGwei} gwei` : 'no max fee',
+    `limit x${settings.gasLimitMultiplier}`,
+  ].filter(Boolean).join(', ');
+}
+
+const AGGREGATOR_LABELS: Record<BaseAggregator, string> = {
+  odos: 'Odos',
+  '1inch': '1inch',
+  llamaswap: 'LlamaSwap',
+};
+
+/**
+ * Describe a Base route, e.g. "Odos (+0.42% vs 1inch)"
+ */
+export function formatRouting(routing: RouteComparison): string {
+  let text = AGGREGATOR_LABELS[routing.aggregator];
+  if (routing.runnerUp && routing.runnerUpDeltaPct !== undefined) {
+    const delta = routing.runnerUpDeltaPct;
+    text += ` (${delta >= 0 ? '+' : ''}${delta.toFixed(2)}% vs ${AGGREGATOR_LABELS[routing.runnerUp]})`;
+  }
+  if (routing.fallbackFrom?.length) {
+    text += ` - ${routing.fallbackFrom.map(a => AGGREGATOR_LABELS[a]).join(', ')} failed`;
+  }
+  return text;
+}
+
+/**
+ * Progress note for a transaction waiting on earlier ones from the same wallet
+ */
+export function formatQueued(ahead: number): string {
+  return `⏸ Queued behind ${ahead} earlier transaction${ahead === 1 ? '' : 's'} from this wallet`;
+}
+
 /**
  * Format time ago
  */
@@ -103,7 +204,14 @@ export function formatTimeAgo(date: Date | string): string {
  * Escape markdown special characters for Telegram
  */
 export function escapeMarkdown(text: string): string {
-  return text.replace(/([_*\[\]()~`>#+\-=|{}.!])/g, '\\$1');
+  return text.replace(/([_*[\]()~`>#+\-=|{}.!])/g, '\\$1');
+}
+
+/**
+ * Escape text for Telegram's legacy `Markdown` parse mode, where only _ * ` [ are markup
+ */
+export function escapeLegacyMarkdown(text: string): string {
+  return text.replace(/([_*`[])/g, '\\$1');
 }
 
 /**
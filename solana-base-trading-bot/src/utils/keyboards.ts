@@ -1,6 +1,8 @@
 import { Markup } from 'telegraf';
 import { InlineKeyboardButton } from 'telegraf/types';
-import { Network, TokenInfo, TokenHolding } from '../types';
+import { Network, TokenHolding, QuoteCurrency, UserWallet, AutoSellPreset, PriorityFeePreset, TradeSettings, GasAction } from '../types';
+import { TokenAllowance } from '../types/approvals';
+import { getQuoteSymbol, formatGasPreset } from './formatters';
 
 // ── Token address shortener ──
 // Telegram limits callback_data to 64 bytes.
@@ -37,7 +39,14 @@ function n(network: Network): string {
 // wi:N       = wallet import
 // wc:N       = wallet create
 // wn:N       = wallet show (after network select)
+// wa:N:ID    = make wallet ID the active wallet
+// wnc:N      = create an additional named wallet
+// wni:N      = import an additional named wallet
 // ws         = wallet switch network (same as w)
+// ap         = token approvals of the active Base wallet
+// apr:T:S    = revoke token T's approval for spender S
+// apa        = revoke all approvals
+// apx        = toggle exact-amount approvals
 // h          = holdings network select
 // h:N        = holdings for network
 // hv:N:T     = holding view detail
@@ -49,22 +58,54 @@ function n(network: Network): string {
 // ba:N:T:A   = buy amount (execute)
 // bp:N:T:P   = buy percent (execute)
 // bx:N:T     = buy custom amount
+// bt:N:T     = buy exact token amount
+// twb:N:T    = TWAP buy
+// bb:N:T     = bundle buy across wallets
 // s          = sell network select
 // sn:N       = sell on network (show holdings)
 // ss:N:T     = sell select (show holding detail)
 // sp:N:T:P   = sell percent (execute)
 // sx:N:T     = sell custom amount
+// bk:N:T     = TP/SL bracket for a holding
+// tws:N:T    = TWAP sell
+// bs:N:T     = bundle sell across wallets
+// sw:N:T     = swap a holding into another token
 // st         = settings network select
 // st:N       = settings for network
 // sl:N       = slippage menu
 // sls:N:V    = slippage set value
 // slc:N      = slippage custom
+// sla:N      = auto slippage toggle
+// slm:N      = auto slippage max cap
+// pim:N      = max price impact
+// qt:N       = toggle quote currency (native / USDC)
 // db:N       = default buy amount
-// pf:sol     = priority fee
+// as:N       = auto TP/SL preset
+// ast:N      = auto TP/SL toggle on/off
+// ase:N:L    = auto TP/SL edit leg (tp / sl)
+// pf:sol     = priority fee settings
+// pfs:P      = priority fee preset (normal / fast / turbo)
+// pfc        = priority fee custom amount
+// pfm        = priority fee max cap
+// jm         = Jito / MEV protection settings (Solana)
+// jt         = Jito toggle on/off
+// jtp:L      = Jito tip set value (lamports)
+// jbe        = Jito block engine URL custom
+// jbr        = Jito block engine URL reset to default
+// gs         = gas settings (Base)
+// gsp:A      = cycle gas speed for buys / sells / withdrawals (b / s / w)
+// gst        = gas custom priority tip
+// gsm        = gas max fee cap
+// gsl        = gas limit multiplier
 // snet       = settings switch network
 // dx:N:T     = dexscreener link
 // tr:N:T     = token refresh
 // cf:A:P     = confirm action
+// qc         = confirm quoted swap
+// qco        = confirm a quoted swap that failed simulation (override)
+// qx         = cancel quoted swap
+// bxs:ID     = speed up a stuck Base transaction
+// bxc:ID     = cancel a stuck Base transaction
 // hp2        = help
 
 /**
@@ -119,20 +160,33 @@ export function getNetworkSelectionKeyboard(action: string) {
 /**
  * Wallet menu keyboard
  */
-export function getWalletMenuKeyboard(network: Network) {
+export function getWalletMenuKeyboard(network: Network, wallets: UserWallet[] = []) {
   const ns = n(network);
   const emoji = network === 'solana' ? '☀️' : '🔵';
 
+  // Wallet switcher, two per row; the active wallet is ticked
+  const switcher: InlineKeyboardButton[][] = [];
+  for (let i = 0; i < wallets.length; i += 2) {
+    switcher.push(wallets.slice(i, i + 2).map(w =>
+      Markup.button.callback(`${w.isActive ? '✅' : '👛'} ${w.name}`, `wa:${ns}:${w.id}`)
+    ));
+  }
+
   return Markup.inlineKeyboard([
+    ...switcher,
     [
       Markup.button.callback(`${emoji} View Balance`, `wb:${ns}`),
     ],
     [
       Markup.button.callback('💸 Withdraw', `wd:${ns}`),
+      ...(network === 'base' ? [Markup.button.callback('🔓 Approvals', 'ap')] : []),
     ],
     [
       Markup.button.callback('📤 Export Key', `we:${ns}`),
-      Markup.button.callback('📥 Import', `wi:${ns}`),
+      Markup.button.callback('📥 Import', `wni:${ns}`),
+    ],
+    [
+      Markup.button.callback('➕ New Wallet', `wnc:${ns}`),
     ],
     [
       Markup.button.callback('🔄 Switch Network', 'w'),
@@ -161,15 +215,21 @@ export function getTokenConfirmKeyboard(network: Network, tokenAddress: string)
 /**
  * Buy amount selection keyboard
  */
-export function getBuyAmountKeyboard(network: Network, tokenAddress: string) {
+export function getBuyAmountKeyboard(
+  network: Network,
+  tokenAddress: string,
+  quoteCurrency: QuoteCurrency = 'native'
+) {
   const ns = n(network);
   const t = shortenToken(tokenAddress);
-  const sym = network === 'solana' ? 'SOL' : 'ETH';
+  const sym = getQuoteSymbol(network, quoteCurrency);
 
   const amounts =
-    network === 'solana'
-      ? ['0.1', '0.5', '1', '2', '5']
-      : ['0.01', '0.05', '0.1', '0.25', '0.5'];
+    quoteCurrency === 'usdc'
+      ? ['10', '25', '50', '100', '250']
+      : network === 'solana'
+        ? ['0.1', '0.5', '1', '2', '5']
+        : ['0.01', '0.05', '0.1', '0.25', '0.5'];
 
   return Markup.inlineKeyboard([
     amounts.slice(0, 3).map((amt) =>
@@ -185,7 +245,10 @@ export function getBuyAmountKeyboard(network: Network, tokenAddress: string) {
     ],
     [
       Markup.button.callback('✏️ Custom', `bx:${ns}:${t}`),
+      Markup.button.callback('🎯 Exact Tokens', `bt:${ns}:${t}`),
+      Markup.button.callback('⏱ TWAP', `twb:${ns}:${t}`),
     ],
+    [Markup.button.callback('👥 Bundle Buy', `bb:${ns}:${t}`)],
     [
       Markup.button.callback('« Back', 'b'),
       Markup.button.callback('❌ Cancel', 'm'),
@@ -215,6 +278,12 @@ export function getSellAmountKeyboard(
     ],
     [
       Markup.button.callback('✏️ Custom', `sx:${ns}:${t}`),
+      Markup.button.callback('⏱ TWAP', `tws:${ns}:${t}`),
+      Markup.button.callback('👥 Bundle Sell', `bs:${ns}:${t}`),
+    ],
+    [
+      Markup.button.callback('🎯 TP/SL Bracket', `bk:${ns}:${t}`),
+      Markup.button.callback('🔀 Swap to…', `sw:${ns}:${t}`),
     ],
     [
       Markup.button.callback('« Back', 'h'),
@@ -281,6 +350,7 @@ export function getHoldingDetailKeyboard(holding: TokenHolding) {
   return Markup.inlineKeyboard([
     [
       Markup.button.callback('💸 Sell', `ss:${ns}:${t}`),
+      Markup.button.callback('🔀 Swap to…', `sw:${ns}:${t}`),
     ],
     [
       Markup.button.callback('📊 DexScreener', `dx:${ns}:${t}`),
@@ -294,19 +364,29 @@ export function getHoldingDetailKeyboard(holding: TokenHolding) {
 /**
  * Settings keyboard
  */
-export function getSettingsKeyboard(network: Network) {
+export function getSettingsKeyboard(network: Network, quoteCurrency: QuoteCurrency = 'native') {
   const ns = n(network);
+  const other: QuoteCurrency = quoteCurrency === 'usdc' ? 'native' : 'usdc';
 
   return Markup.inlineKeyboard([
     [
       Markup.button.callback('📊 Slippage', `sl:${ns}`),
     ],
+    [
+      Markup.button.callback(`💱 Trade with ${getQuoteSymbol(network, other)}`, `qt:${ns}`),
+    ],
     [
       Markup.button.callback('💰 Default Buy', `db:${ns}`),
     ],
     [
-      Markup.button.callback('⚡ Priority Fee', 'pf:sol'),
+      Markup.button.callback('🎯 Auto TP/SL', `as:${ns}`),
     ],
+    ...(network === 'solana'
+      ? [
+          [Markup.button.callback('⚡ Priority Fee', 'pf:sol')],
+          [Markup.button.callback('🛡 MEV Protection', 'jm')],
+        ]
+      : [[Markup.button.callback('⛽ Gas', 'gs')]]),
     [
       Markup.button.callback('🔄 Switch Network', 'snet'),
       Markup.button.callback('« Back', 'm'),
@@ -317,10 +397,20 @@ export function getSettingsKeyboard(network: Network) {
 /**
  * Slippage selection keyboard
  */
-export function getSlippageKeyboard(network: Network) {
+export function getSlippageKeyboard(network: Network, settings: TradeSettings) {
   const ns = n(network);
 
   return Markup.inlineKeyboard([
+    [
+      Markup.button.callback(`🤖 Auto Slippage: ${settings.autoSlippage ? 'On' : 'Off'}`, `sla:${ns}`),
+    ],
+    [
+      Markup.button.callback(`📈 Auto max: ${settings.maxSlippageBps / 100}%`, `slm:${ns}`),
+      Markup.button.callback(
+        `🚧 Max impact: ${settings.maxPriceImpactPct ? `${settings.maxPriceImpactPct}%` : 'Off'}`,
+        `pim:${ns}`
+      ),
+    ],
     [
       Markup.button.callback('0.5%', `sls:${ns}:50`),
       Markup.button.callback('1%', `sls:${ns}:100`),
@@ -340,6 +430,133 @@ export function getSlippageKeyboard(network: Network) {
   ]);
 }
 
+/**
+ * Priority fee preset keyboard (Solana)
+ */
+export function getPriorityFeeKeyboard(preset: PriorityFeePreset) {
+  const mark = (p: PriorityFeePreset) => (p === preset ? '✅ ' : '');
+
+  return Markup.inlineKeyboard([
+    [
+      Markup.button.callback(`${mark('normal')}🐢 Normal`, 'pfs:normal'),
+      Markup.button.callback(`${mark('fast')}🐇 Fast`, 'pfs:fast'),
+      Markup.button.callback(`${mark('turbo')}🚀 Turbo`, 'pfs:turbo'),
+    ],
+    [
+      Markup.button.callback(`${mark('custom')}✏️ Custom`, 'pfc'),
+      Markup.button.callback('🧢 Max Fee', 'pfm'),
+    ],
+    [
+      Markup.button.callback('« Back', 'st:sol'),
+    ],
+  ]);
+}
+
+/**
+ * Gas settings keyboard (Base). Each speed button cycles to the next preset.
+ */
+export function getGasKeyboard(settings: TradeSettings) {
+  const speed = (label: string, action: GasAction) =>
+    Markup.button.callback(`${label}: ${formatGasPreset(settings.gasPresets[action])}`, `gsp:${action.charAt(0)}`);
+
+  return Markup.inlineKeyboard([
+    [speed('🟢 Buys', 'buy')],
+    [speed('🔴 Sells', 'sell')],
+    [speed('📤 Withdrawals', 'withdraw')],
+    [
+      Markup.button.callback('✏️ Custom Tip', 'gst'),
+      Markup.button.callback('🧢 Max Fee', 'gsm'),
+    ],
+    [
+      Markup.button.callback(`📐 Gas Limit x${settings.gasLimitMultiplier}`, 'gsl'),
+    ],
+    [
+      Markup.button.callback('« Back', 'st:bas'),
+    ],
+  ]);
+}
+
+/**
+ * Token approvals keyboard: one revoke button per open allowance
+ */
+export function getApprovalsKeyboard(allowances: TokenAllowance[], exactApprovals: boolean) {
+  const rows: InlineKeyboardButton[][] = allowances.map(a => [
+    Markup.button.callback(
+      `🔓 Revoke ${a.symbol} (${a.spenderName})`,
+      `apr:${shortenToken(a.tokenAddress)}:${shortenToken(a.spender)}`
+    ),
+  ]);
+
+  if (allowances.length > 1) {
+    rows.push([Markup.button.callback(`🧹 Revoke All (${allowances.length})`, 'apa')]);
+  }
+
+  return Markup.inlineKeyboard([
+    ...rows,
+    [
+      Markup.button.callback(`🎯 Exact Approvals: ${exactApprovals ? 'On' : 'Off'}`, 'apx'),
+    ],
+    [
+      Markup.button.callback('🔄 Refresh', 'ap'),
+      Markup.button.callback('« Back', 'wn:bas'),
+    ],
+  ]);
+}
+
+/**
+ * Jito (MEV protection) settings keyboard
+ */
+export function getJitoKeyboard(enabled: boolean, tipLamports: number) {
+  const tips = [50_000, 100_000, 500_000, 1_000_000];
+
+  return Markup.inlineKeyboard([
+    [
+      Markup.button.callback(enabled ? '🟢 Enabled' : '🔴 Disabled', 'jt'),
+    ],
+    tips.map((tip) =>
+      Markup.button.callback(
+        `${tip === tipLamports ? '✅ ' : ''}${tip / 1_000_000_000} SOL`,
+        `jtp:${tip}`
+      )
+    ),
+    [
+      Markup.button.callback('✏️ Block Engine', 'jbe'),
+      Markup.button.callback('↩️ Default Engine', 'jbr'),
+    ],
+    [
+      Markup.button.callback('« Back', 'st:sol'),
+    ],
+  ]);
+}
+
+/**
+ * Auto TP/SL preset keyboard
+ */
+export function getAutoSellKeyboard(network: Network, preset: AutoSellPreset) {
+  const ns = n(network);
+  const tp = preset.takeProfitPercent > 0
+    ? `+${preset.takeProfitPercent}% · sell ${preset.takeProfitSellPercent}%`
+    : 'off';
+  const sl = preset.stopLossPercent > 0
+    ? `-${preset.stopLossPercent}% · sell ${preset.stopLossSellPercent}%`
+    : 'off';
+
+  return Markup.inlineKeyboard([
+    [
+      Markup.button.callback(preset.enabled ? '🟢 Enabled' : '🔴 Disabled', `ast:${ns}`),
+    ],
+    [
+      Markup.button.callback(`📈 Take-Profit: ${tp}`, `ase:${ns}:tp`),
+    ],
+    [
+      Markup.button.callback(`📉 Stop-Loss: ${sl}`, `ase:${ns}:sl`),
+    ],
+    [
+      Markup.button.callback('« Back', `st:${ns}`),
+    ],
+  ]);
+}
+
 /**
  * Confirmation keyboard for dangerous actions
  */
@@ -353,6 +570,33 @@ export function getConfirmationKeyboard(action: string, ...params: string[]) {
   ]);
 }
 
+/**
+ * Confirmation keyboard for a quoted swap. `blocked` swaps failed simulation
+ * and need an explicit override.
+ */
+export function getSwapConfirmKeyboard(blocked: boolean = false) {
+  return Markup.inlineKeyboard([
+    [
+      blocked
+        ? Markup.button.callback('⚠️ Confirm Anyway', 'qco')
+        : Markup.button.callback('✅ Confirm', 'qc'),
+      Markup.button.callback('❌ Cancel', 'qx'),
+    ],
+  ]);
+}
+
+/**
+ * Speed up / Cancel buttons for a stuck Base transaction
+ */
+export function getStuckTransactionKeyboard(id: number) {
+  return Markup.inlineKeyboard([
+    [
+      Markup.button.callback('⚡ Speed up', `bxs:${id}`),
+      Markup.button.callback('✖️ Cancel', `bxc:${id}`),
+    ],
+  ]);
+}
+
 /**
  * Transaction result keyboard
  */
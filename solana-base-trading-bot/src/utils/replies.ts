@@ -0,0 +1,18 @@
+import { Context, Markup } from 'telegraf';
+
+/**
+ * Edit the message behind a button press, or reply to typed input, in legacy Markdown
+ */
+export async function replyOrEdit(ctx: Context, message: string, buttons: any[][]): Promise<void> {
+  if (ctx.callbackQuery) {
+    await ctx.editMessageText(message, {
+      parse_mode: 'Markdown',
+      reply_markup: Markup.inlineKeyboard(buttons).reply_markup,
+    });
+  } else {
+    await ctx.reply(message, {
+      parse_mode: 'Markdown',
+      ...Markup.inlineKeyboard(buttons),
+    });
+  }
+}